@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: MIT
-pragma solidity ^0.8.24;
+pragma solidity ^0.8.27;
 
-import {FHE, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, ebool, euint32, euint64, externalEuint32, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
 import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /// @title Secure Resume Storage Contract
@@ -14,50 +14,245 @@ contract SecureResume is SepoliaConfig {
         string name;                    // Can be desensitized (plaintext)
         string education;               // Education experience (plaintext)
         string workExperience;          // Work experience (plaintext)
-        euint32 skillLevel1;            // Encrypted skill proficiency levels (max 5 skills for MVP)
-        euint32 skillLevel2;
-        euint32 skillLevel3;
-        euint32 skillLevel4;
-        euint32 skillLevel5;
-        string skillName1;              // Skill names (plaintext)
-        string skillName2;
-        string skillName3;
-        string skillName4;
-        string skillName5;
-        uint8 skillCount;               // Number of skills stored
+        string[] skillNames;            // Skill names (plaintext)
+        euint32[] skillLevels;          // Encrypted skill proficiency levels, same order as skillNames
+        euint32 yearsOfExperience;      // Encrypted years of experience, unset until setCareerDetails
+        euint64 expectedSalary;         // Encrypted expected yearly salary, unset until setCareerDetails
         uint64 createdAt;
         uint64 updatedAt;
         bool exists;
     }
 
+    struct JobPosting {
+        address hr;                     // HR account that published the posting
+        string title;                   // Job title (plaintext)
+        string[] requiredSkillNames;    // Required skill names (plaintext)
+        euint32[] minLevels;            // Encrypted minimum proficiency level per required skill
+        uint64 createdAt;
+        bool active;
+    }
+
+    struct JobApplication {
+        ebool[] requirementMatches;     // Encrypted pass/fail per required skill
+        ebool overallMatch;             // Encrypted AND of all requirement matches
+        euint32 matchCount;             // Encrypted number of requirements met
+        uint64 appliedAt;
+        bool exists;
+    }
+
+    struct WeightedScore {
+        euint32 weighted;
+        euint32 normalized;
+    }
+
+    struct EvaluationGrant {
+        uint64 expiresAt;               // 0 = never expires
+        bool allSkills;                 // true = every skill can be evaluated
+        uint256 skillMask;              // bit i set = skill index i can be evaluated
+        bool active;
+        bool listed;                    // already recorded in the candidate's grantee list
+    }
+
     // user => resume data
     mapping(address => Resume) private _resumes;
 
+    // user => version number % MAX_VERSIONS => snapshot of the resume after that change
+    mapping(address => mapping(uint256 => Resume)) private _resumeVersions;
+
+    // user => number of versions stored since submission, only the last MAX_VERSIONS are kept
+    mapping(address => uint256) private _resumeVersionCount;
+
+    // Maximum number of versions kept per resume, so deleting the history stays within gas limits
+    uint256 public constant MAX_VERSIONS = 10;
+
+    // Maximum number of skills per resume, fixed at deployment (at most 255 so grant bitmasks and uint8 counts fit)
+    uint256 public immutable maxSkills;
+
+    // Previous index of a skill that was not on the resume before an update, see _remapGrantMasks
+    uint256 private constant _NEW_SKILL = type(uint256).max;
+
+    // Minimum number of distinct skills in a weighted score, so it never reveals a single capped level
+    uint256 public constant MIN_WEIGHTED_SKILLS = 2;
+
+    // Maximum number of candidates evaluated by one batchEvaluate call
+    uint256 public constant MAX_BATCH_SIZE = 20;
+
     // HR addresses with evaluation permissions
     mapping(address => bool) public hrAddresses;
 
+    // Contract owner, manages organization admins and any HR address
+    address public owner;
+
+    // Organization admins, each managing the recruiters they authorized
+    mapping(address => bool) public orgAdmins;
+
+    // HR => admin (owner or organization admin) that authorized it
+    mapping(address => address) public hrAdminOf;
+
+    // Currently authorized HR addresses, with 1-based positions for removal
+    address[] private _hrList;
+    mapping(address => uint256) private _hrListPosition;
+
+    // Pending HR access requests: requester => admin asked, admin => requesters, with 1-based positions for removal
+    mapping(address => address) public hrAccessRequests;
+    mapping(address => address[]) private _hrAccessRequesters;
+    mapping(address => uint256) private _hrAccessRequesterPosition;
+
     // Total number of resumes submitted
     uint256 private _totalResumes;
 
+    // candidate => HR => evaluation consent, candidate => HR addresses ever granted
+    mapping(address => mapping(address => EvaluationGrant)) private _evaluationGrants;
+    mapping(address => address[]) private _evaluationGrantees;
+
+    // Latest evaluation results, keyed by their inputs (including the skill level handles) so HR can reuse them
+    // until the evaluated skills change: see _skillMatchKey and _weightedScoreKey
+    mapping(bytes32 => ebool) private _skillMatches;
+    mapping(bytes32 => WeightedScore) private _weightedScores;
+
+    // postingId => job posting (ids start at 0)
+    mapping(uint256 => JobPosting) private _jobPostings;
+    uint256 private _jobPostingCount;
+
+    // postingId => applicant addresses, postingId => candidate => application
+    mapping(uint256 => address[]) private _jobApplicants;
+    mapping(uint256 => mapping(address => JobApplication)) private _jobApplications;
+
     // Events
     event ResumeSubmitted(address indexed user, uint64 timestamp, uint8 skillCount);
     event ResumeUpdated(address indexed user, uint64 timestamp);
-    event SkillEvaluated(address indexed candidate, address indexed hr, uint256 skillIndex);
-    event SkillScoreCalculated(address indexed candidate, address indexed hr, uint256[] skillIndices);
+    event ResumeDeleted(address indexed user, uint64 timestamp);
+    event SkillAdded(address indexed user, uint256 skillIndex);
+    event SkillRemoved(address indexed user, uint256 skillIndex);
+    event SkillsReordered(address indexed user);
+    event CareerDetailsUpdated(address indexed user);
+    event SkillEvaluated(
+        address indexed candidate,
+        address indexed hr,
+        uint256 skillIndex,
+        string skillName,
+        ebool result
+    );
+    event SkillScoreCalculated(
+        address indexed candidate,
+        address indexed hr,
+        uint256[] skillIndices,
+        string[] skillNames,
+        euint32 weightedScore,
+        euint32 normalizedScore
+    );
+    event SkillCountCalculated(
+        address indexed candidate,
+        address indexed hr,
+        uint256[] skillIndices,
+        string[] skillNames,
+        uint32[] minLevels,
+        euint32 matchCount
+    );
+    event ExperienceEvaluated(address indexed candidate, address indexed hr, ebool result);
+    event SalaryEvaluated(address indexed candidate, address indexed hr, ebool result);
+    event BatchEvaluated(
+        address indexed hr,
+        address[] candidates,
+        ebool[] overallMatches,
+        euint32[] matchCounts
+    );
+    event CandidateBatchEvaluated(
+        address indexed candidate,
+        address indexed hr,
+        string[] skillNames,
+        ebool overallMatch,
+        euint32 matchCount
+    );
     event HRAuthorized(address indexed hr, address indexed authorizedBy);
     event HRRevoked(address indexed hr, address indexed revokedBy);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event OrgAdminAdded(address indexed admin, address indexed addedBy);
+    event OrgAdminRemoved(address indexed admin, address indexed removedBy);
+    event HRAccessRequested(address indexed requester, address indexed admin);
+    event HRAccessRequestRejected(address indexed requester, address indexed admin);
+    event EvaluationAccessGranted(
+        address indexed candidate,
+        address indexed hr,
+        uint64 expiresAt,
+        uint256[] skillIndices
+    );
+    event EvaluationAccessRevoked(address indexed candidate, address indexed hr);
+    event JobPostingCreated(uint256 indexed postingId, address indexed hr, uint8 requirementCount);
+    event JobPostingClosed(uint256 indexed postingId, address indexed hr);
+    event JobApplicationSubmitted(uint256 indexed postingId, address indexed candidate);
+
+    // Errors
+    error NotOwner();
+    error NotAdmin(address account);
+    error NotAuthorizedHR(address account);
+    error NotHRAdmin(address hr);
+    error ZeroAddress();
+    error AdminAlreadyAdded(address admin);
+    error AdminNotFound(address admin);
+    error HRAlreadyAuthorized(address hr);
+    error RequestAlreadyPending(address admin);
+    error NoPendingRequest(address requester);
+    error NotRequestedAdmin(address requester);
+    error InvalidMaxSkills();
+    error ResumeNotFound(address user);
+    error ResumeAlreadyExists(address user);
+    error InvalidName();                    // empty, or longer than 100 bytes
+    error EducationTooLong();
+    error WorkExperienceTooLong();
+    error SkillArraysLengthMismatch();
+    error SkillCountOutOfRange(uint256 count, uint256 maxCount);
+    error InvalidSkillIndex(uint256 skillIndex);
+    error InvalidSkillOrder();
+    error LastSkillCannotBeRemoved();
+    error VersionNotFound(uint256 version);
+    error CareerDetailsNotProvided(address candidate);
+    error NoEvaluationAccess(address candidate, address hr);
+    error ExpiryNotInFuture(uint64 expiresAt);
+    error NoSkillsSelected();
+    error ScoreArraysLengthMismatch();
+    error TooFewSkillsSelected(uint256 count, uint256 minCount);
+    error DuplicateSkillIndex(uint256 skillIndex);
+    error InvalidMinLevel();
+    error InvalidCap();
+    error InvalidWeights();                 // zero, or large enough to overflow the normalized score
+    error CandidateCountOutOfRange(uint256 count, uint256 maxCount);
+    error InvalidTitle();
+    error JobPostingNotFound(uint256 postingId);
+    error JobPostingNotActive(uint256 postingId);
+    error NotPostingOwner(uint256 postingId);
+    error AlreadyApplied(uint256 postingId);
+    error ApplicationNotFound(uint256 postingId, address candidate);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, NotOwner());
+        _;
+    }
+
+    modifier onlyAdmin() {
+        require(msg.sender == owner || orgAdmins[msg.sender], NotAdmin(msg.sender));
+        _;
+    }
 
     modifier onlyHR() {
-        require(hrAddresses[msg.sender], "Not authorized HR");
+        require(hrAddresses[msg.sender], NotAuthorizedHR(msg.sender));
         _;
     }
 
+    /// @param maxSkillsPerResume Maximum number of skills a resume can hold (1-255)
+    constructor(uint256 maxSkillsPerResume) {
+        require(maxSkillsPerResume > 0 && maxSkillsPerResume <= 255, InvalidMaxSkills());
+        maxSkills = maxSkillsPerResume;
+        owner = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
+    }
+
     /// @notice Submit a new resume with encrypted skill data
     /// @param name User's name (can be desensitized)
     /// @param education Education experience
     /// @param workExperience Work experience
-    /// @param skillNames Array of skill names (max 5)
-    /// @param skillLevelsExt Array of encrypted skill proficiency levels (max 5)
+    /// @param skillNames Array of skill names (max maxSkills)
+    /// @param skillLevelsExt Array of encrypted skill proficiency levels (max maxSkills)
     /// @param inputProof Zama input proof for encrypted skill levels
     function submitResume(
         string calldata name,
@@ -67,18 +262,20 @@ contract SecureResume is SepoliaConfig {
         externalEuint32[] calldata skillLevelsExt,
         bytes calldata inputProof
     ) external {
-        require(skillNames.length == skillLevelsExt.length, "Skill arrays length mismatch");
-        require(skillNames.length > 0 && skillNames.length <= 5, "Must have 1-5 skills");
-        require(bytes(name).length > 0 && bytes(name).length <= 100, "Name must be 1-100 characters");
-        require(bytes(education).length <= 1000, "Education text too long");
-        require(bytes(workExperience).length <= 1000, "Work experience text too long");
-        require(!_resumes[msg.sender].exists, "Resume already exists - use updateResume instead");
+        require(skillNames.length == skillLevelsExt.length, SkillArraysLengthMismatch());
+        require(
+            skillNames.length > 0 && skillNames.length <= maxSkills,
+            SkillCountOutOfRange(skillNames.length, maxSkills)
+        );
+        require(bytes(name).length > 0 && bytes(name).length <= 100, InvalidName());
+        require(bytes(education).length <= 1000, EducationTooLong());
+        require(bytes(workExperience).length <= 1000, WorkExperienceTooLong());
+        require(!_resumes[msg.sender].exists, ResumeAlreadyExists(msg.sender));
 
         Resume storage resume = _resumes[msg.sender];
         resume.name = name;
         resume.education = education;
         resume.workExperience = workExperience;
-        resume.skillCount = uint8(skillNames.length);
         resume.createdAt = uint64(block.timestamp);
         resume.updatedAt = uint64(block.timestamp);
         resume.exists = true;
@@ -86,47 +283,21 @@ contract SecureResume is SepoliaConfig {
         // Increment total resumes counter for new submissions
         _totalResumes++;
 
-        // Store skills in fixed slots
         for (uint256 i = 0; i < skillNames.length; i++) {
-            euint32 skillLevel = FHE.fromExternal(skillLevelsExt[i], inputProof);
-
-            if (i == 0) {
-                resume.skillLevel1 = skillLevel;
-                resume.skillName1 = skillNames[i];
-                FHE.allowThis(resume.skillLevel1);
-                FHE.allow(resume.skillLevel1, msg.sender);
-            } else if (i == 1) {
-                resume.skillLevel2 = skillLevel;
-                resume.skillName2 = skillNames[i];
-                FHE.allowThis(resume.skillLevel2);
-                FHE.allow(resume.skillLevel2, msg.sender);
-            } else if (i == 2) {
-                resume.skillLevel3 = skillLevel;
-                resume.skillName3 = skillNames[i];
-                FHE.allowThis(resume.skillLevel3);
-                FHE.allow(resume.skillLevel3, msg.sender);
-            } else if (i == 3) {
-                resume.skillLevel4 = skillLevel;
-                resume.skillName4 = skillNames[i];
-                FHE.allowThis(resume.skillLevel4);
-                FHE.allow(resume.skillLevel4, msg.sender);
-            } else if (i == 4) {
-                resume.skillLevel5 = skillLevel;
-                resume.skillName5 = skillNames[i];
-                FHE.allowThis(resume.skillLevel5);
-                FHE.allow(resume.skillLevel5, msg.sender);
-            }
+            _pushSkill(resume, skillNames[i], FHE.fromExternal(skillLevelsExt[i], inputProof));
         }
 
-        emit ResumeSubmitted(msg.sender, resume.createdAt, resume.skillCount);
+        _saveVersion();
+        emit ResumeSubmitted(msg.sender, resume.createdAt, uint8(skillNames.length));
     }
 
     /// @notice Update existing resume
+    /// @dev Skill-scoped evaluation grants follow their skills by name, skills not on the old list are not granted
     /// @param name Updated name
     /// @param education Updated education
     /// @param workExperience Updated work experience
-    /// @param skillNames Updated skill names (max 5)
-    /// @param skillLevelsExt Updated encrypted skill levels (max 5)
+    /// @param skillNames Updated skill names (max maxSkills)
+    /// @param skillLevelsExt Updated encrypted skill levels (max maxSkills)
     /// @param inputProof Zama input proof
     function updateResume(
         string calldata name,
@@ -136,65 +307,174 @@ contract SecureResume is SepoliaConfig {
         externalEuint32[] calldata skillLevelsExt,
         bytes calldata inputProof
     ) external {
-        require(_resumes[msg.sender].exists, "Resume does not exist");
-        require(skillNames.length == skillLevelsExt.length, "Skill arrays length mismatch");
-        require(skillNames.length > 0 && skillNames.length <= 5, "Must have 1-5 skills");
-        require(bytes(name).length > 0, "Name cannot be empty");
+        require(_resumes[msg.sender].exists, ResumeNotFound(msg.sender));
+        require(skillNames.length == skillLevelsExt.length, SkillArraysLengthMismatch());
+        require(
+            skillNames.length > 0 && skillNames.length <= maxSkills,
+            SkillCountOutOfRange(skillNames.length, maxSkills)
+        );
+        require(bytes(name).length > 0 && bytes(name).length <= 100, InvalidName());
+        require(bytes(education).length <= 1000, EducationTooLong());
+        require(bytes(workExperience).length <= 1000, WorkExperienceTooLong());
 
         Resume storage resume = _resumes[msg.sender];
         resume.name = name;
         resume.education = education;
         resume.workExperience = workExperience;
-        resume.skillCount = uint8(skillNames.length);
         resume.updatedAt = uint64(block.timestamp);
 
-        // Clear existing skills first (gas optimization: batch clearing)
-        resume.skillName1 = "";
-        resume.skillName2 = "";
-        resume.skillName3 = "";
-        resume.skillName4 = "";
-        resume.skillName5 = "";
-        resume.skillLevel1 = FHE.asEuint32(0); // Reset to zero
-        resume.skillLevel2 = FHE.asEuint32(0);
-        resume.skillLevel3 = FHE.asEuint32(0);
-        resume.skillLevel4 = FHE.asEuint32(0);
-        resume.skillLevel5 = FHE.asEuint32(0);
-
-        // Store updated skills in fixed slots
+        // Match every new skill to the old skill with the same name, so grants keep covering the approved skills
+        uint256[] memory oldIndexOf = new uint256[](skillNames.length);
         for (uint256 i = 0; i < skillNames.length; i++) {
-            euint32 skillLevel = FHE.fromExternal(skillLevelsExt[i], inputProof);
-
-            if (i == 0) {
-                resume.skillLevel1 = skillLevel;
-                resume.skillName1 = skillNames[i];
-                FHE.allowThis(resume.skillLevel1);
-                FHE.allow(resume.skillLevel1, msg.sender);
-            } else if (i == 1) {
-                resume.skillLevel2 = skillLevel;
-                resume.skillName2 = skillNames[i];
-                FHE.allowThis(resume.skillLevel2);
-                FHE.allow(resume.skillLevel2, msg.sender);
-            } else if (i == 2) {
-                resume.skillLevel3 = skillLevel;
-                resume.skillName3 = skillNames[i];
-                FHE.allowThis(resume.skillLevel3);
-                FHE.allow(resume.skillLevel3, msg.sender);
-            } else if (i == 3) {
-                resume.skillLevel4 = skillLevel;
-                resume.skillName4 = skillNames[i];
-                FHE.allowThis(resume.skillLevel4);
-                FHE.allow(resume.skillLevel4, msg.sender);
-            } else if (i == 4) {
-                resume.skillLevel5 = skillLevel;
-                resume.skillName5 = skillNames[i];
-                FHE.allowThis(resume.skillLevel5);
-                FHE.allow(resume.skillLevel5, msg.sender);
+            oldIndexOf[i] = _NEW_SKILL;
+            bytes32 nameHash = keccak256(bytes(skillNames[i]));
+            for (uint256 j = 0; j < resume.skillNames.length; j++) {
+                if (keccak256(bytes(resume.skillNames[j])) == nameHash) {
+                    oldIndexOf[i] = j;
+                    break;
+                }
             }
         }
 
+        // Replace the whole skill list
+        delete resume.skillNames;
+        delete resume.skillLevels;
+        for (uint256 i = 0; i < skillNames.length; i++) {
+            _pushSkill(resume, skillNames[i], FHE.fromExternal(skillLevelsExt[i], inputProof));
+        }
+
+        _remapGrantMasks(msg.sender, oldIndexOf);
+        _saveVersion();
         emit ResumeUpdated(msg.sender, resume.updatedAt);
     }
 
+    /// @notice Delete the caller's resume, its version history and every evaluation grant
+    /// @dev Clears the plaintext fields and zeroes the stored ciphertext handles. Existing ACL
+    ///      permissions on old handles cannot be revoked, but the contract no longer references them.
+    function deleteResume() external {
+        require(_resumes[msg.sender].exists, ResumeNotFound(msg.sender));
+
+        delete _resumes[msg.sender];
+        uint256 versionCount = _resumeVersionCount[msg.sender];
+        for (uint256 i = 0; i < versionCount && i < MAX_VERSIONS; i++) {
+            delete _resumeVersions[msg.sender][i];
+        }
+        delete _resumeVersionCount[msg.sender];
+        _totalResumes--;
+
+        // A later resubmission must not inherit old grants
+        address[] storage grantees = _evaluationGrantees[msg.sender];
+        for (uint256 i = 0; i < grantees.length; i++) {
+            EvaluationGrant storage grant = _evaluationGrants[msg.sender][grantees[i]];
+            if (grant.active) {
+                grant.active = false;
+                emit EvaluationAccessRevoked(msg.sender, grantees[i]);
+            }
+        }
+
+        emit ResumeDeleted(msg.sender, uint64(block.timestamp));
+    }
+
+    /// @notice Append a skill to the caller's resume
+    /// @param skillName Skill name
+    /// @param skillLevelExt Encrypted skill proficiency level
+    /// @param inputProof Zama input proof for the encrypted level
+    function addSkill(string calldata skillName, externalEuint32 skillLevelExt, bytes calldata inputProof) external {
+        require(_resumes[msg.sender].exists, ResumeNotFound(msg.sender));
+        Resume storage resume = _resumes[msg.sender];
+        require(resume.skillNames.length < maxSkills, SkillCountOutOfRange(resume.skillNames.length + 1, maxSkills));
+
+        _pushSkill(resume, skillName, FHE.fromExternal(skillLevelExt, inputProof));
+        resume.updatedAt = uint64(block.timestamp);
+
+        _saveVersion();
+        emit SkillAdded(msg.sender, resume.skillNames.length - 1);
+    }
+
+    /// @notice Remove a skill from the caller's resume, keeping the order of the others
+    /// @dev Skill-scoped evaluation grants are remapped to the shifted indices
+    /// @param skillIndex Index of the skill to remove
+    function removeSkill(uint256 skillIndex) external {
+        require(_resumes[msg.sender].exists, ResumeNotFound(msg.sender));
+        Resume storage resume = _resumes[msg.sender];
+        uint256 count = resume.skillNames.length;
+        require(skillIndex < count, InvalidSkillIndex(skillIndex));
+        require(count > 1, LastSkillCannotBeRemoved());
+
+        uint256[] memory oldIndexOf = new uint256[](count - 1);
+        for (uint256 i = 0; i < count - 1; i++) {
+            uint256 oldIndex = i < skillIndex ? i : i + 1;
+            oldIndexOf[i] = oldIndex;
+            if (oldIndex != i) {
+                resume.skillNames[i] = resume.skillNames[oldIndex];
+                resume.skillLevels[i] = resume.skillLevels[oldIndex];
+            }
+        }
+        resume.skillNames.pop();
+        resume.skillLevels.pop();
+        resume.updatedAt = uint64(block.timestamp);
+
+        _remapGrantMasks(msg.sender, oldIndexOf);
+        _saveVersion();
+        emit SkillRemoved(msg.sender, skillIndex);
+    }
+
+    /// @notice Reorder the skills on the caller's resume
+    /// @dev Skill-scoped evaluation grants follow their skills to the new indices
+    /// @param newOrder newOrder[i] is the current index of the skill to place at index i
+    function reorderSkills(uint256[] calldata newOrder) external {
+        require(_resumes[msg.sender].exists, ResumeNotFound(msg.sender));
+        Resume storage resume = _resumes[msg.sender];
+        uint256 count = resume.skillNames.length;
+        require(newOrder.length == count, InvalidSkillOrder());
+
+        string[] memory names = resume.skillNames;
+        euint32[] memory levels = resume.skillLevels;
+        uint256 seen = 0;
+        for (uint256 i = 0; i < count; i++) {
+            require(newOrder[i] < count && (seen >> newOrder[i]) & 1 == 0, InvalidSkillOrder());
+            seen |= 1 << newOrder[i];
+            resume.skillNames[i] = names[newOrder[i]];
+            resume.skillLevels[i] = levels[newOrder[i]];
+        }
+        resume.updatedAt = uint64(block.timestamp);
+
+        _remapGrantMasks(msg.sender, newOrder);
+        _saveVersion();
+        emit SkillsReordered(msg.sender);
+    }
+
+    /// @notice Set the encrypted years of experience and expected salary on the caller's resume
+    /// @dev Replaces any previous values. Neither is part of the version history.
+    /// @param yearsOfExperienceExt Encrypted whole years of experience
+    /// @param expectedSalaryExt Encrypted expected yearly salary
+    /// @param inputProof Zama input proof for both values
+    function setCareerDetails(
+        externalEuint32 yearsOfExperienceExt,
+        externalEuint64 expectedSalaryExt,
+        bytes calldata inputProof
+    ) external {
+        require(_resumes[msg.sender].exists, ResumeNotFound(msg.sender));
+        Resume storage resume = _resumes[msg.sender];
+
+        resume.yearsOfExperience = FHE.fromExternal(yearsOfExperienceExt, inputProof);
+        resume.expectedSalary = FHE.fromExternal(expectedSalaryExt, inputProof);
+        FHE.allowThis(resume.yearsOfExperience);
+        FHE.allow(resume.yearsOfExperience, msg.sender);
+        FHE.allowThis(resume.expectedSalary);
+        FHE.allow(resume.expectedSalary, msg.sender);
+
+        emit CareerDetailsUpdated(msg.sender);
+    }
+
+    /// @notice Get the encrypted years of experience and expected salary, zero handles when not set
+    /// @dev Only the resume owner is allowed to decrypt them
+    /// @param user Address of the resume owner
+    function getCareerDetails(address user) external view returns (euint32 yearsOfExperience, euint64 expectedSalary) {
+        require(_resumes[user].exists, ResumeNotFound(user));
+        return (_resumes[user].yearsOfExperience, _resumes[user].expectedSalary);
+    }
+
     /// @notice Get resume basic info (plaintext data)
     /// @param user Address of the resume owner
     function getResumeInfo(address user)
@@ -209,106 +489,606 @@ contract SecureResume is SepoliaConfig {
             uint64 updatedAt
         )
     {
-        require(_resumes[user].exists, "Resume does not exist");
+        require(_resumes[user].exists, ResumeNotFound(user));
         Resume storage resume = _resumes[user];
 
-        // Build skill names array from fixed slots
-        string[] memory skillNamesArray = new string[](resume.skillCount);
-        if (resume.skillCount >= 1) skillNamesArray[0] = resume.skillName1;
-        if (resume.skillCount >= 2) skillNamesArray[1] = resume.skillName2;
-        if (resume.skillCount >= 3) skillNamesArray[2] = resume.skillName3;
-        if (resume.skillCount >= 4) skillNamesArray[3] = resume.skillName4;
-        if (resume.skillCount >= 5) skillNamesArray[4] = resume.skillName5;
-
         return (
             resume.name,
             resume.education,
             resume.workExperience,
-            skillNamesArray,
+            resume.skillNames,
             resume.createdAt,
             resume.updatedAt
         );
     }
 
-    /// @notice Get encrypted skill levels for a user
+    /// @notice Get the number of versions stored since the resume was submitted
+    /// @dev A version is stored on submission and after every update or skill change.
+    ///      Only the last MAX_VERSIONS of them can still be read.
     /// @param user Address of the resume owner
-    function getSkillLevels(address user) external view returns (euint32[] memory) {
-        require(_resumes[user].exists, "Resume does not exist");
-        Resume storage resume = _resumes[user];
+    function getResumeVersionCount(address user) external view returns (uint256) {
+        return _resumeVersionCount[user];
+    }
+
+    /// @notice Get the oldest version number of a resume that can still be read
+    /// @param user Address of the resume owner
+    function getOldestResumeVersion(address user) public view returns (uint256) {
+        uint256 versionCount = _resumeVersionCount[user];
+        return versionCount > MAX_VERSIONS ? versionCount - MAX_VERSIONS : 0;
+    }
+
+    /// @notice Get a stored version of a resume
+    /// @dev Version 0 is the original submission and the last version matches the current resume.
+    ///      The skill level handles stay decryptable by the owner, who was allowed them when they were stored.
+    /// @param user Address of the resume owner
+    /// @param version Version number, from getOldestResumeVersion(user) to getResumeVersionCount(user) - 1
+    function getResumeVersion(address user, uint256 version)
+        external
+        view
+        returns (
+            string memory name,
+            string memory education,
+            string memory workExperience,
+            string[] memory skillNames,
+            euint32[] memory skillLevels,
+            uint64 updatedAt
+        )
+    {
+        require(
+            version >= getOldestResumeVersion(user) && version < _resumeVersionCount[user],
+            VersionNotFound(version)
+        );
+        Resume storage snapshot = _resumeVersions[user][version % MAX_VERSIONS];
 
-        // Build skill levels array from fixed slots
-        euint32[] memory skillLevelsArray = new euint32[](resume.skillCount);
-        if (resume.skillCount >= 1) skillLevelsArray[0] = resume.skillLevel1;
-        if (resume.skillCount >= 2) skillLevelsArray[1] = resume.skillLevel2;
-        if (resume.skillCount >= 3) skillLevelsArray[2] = resume.skillLevel3;
-        if (resume.skillCount >= 4) skillLevelsArray[3] = resume.skillLevel4;
-        if (resume.skillCount >= 5) skillLevelsArray[4] = resume.skillLevel5;
+        return (
+            snapshot.name,
+            snapshot.education,
+            snapshot.workExperience,
+            snapshot.skillNames,
+            snapshot.skillLevels,
+            snapshot.updatedAt
+        );
+    }
 
-        return skillLevelsArray;
+    /// @notice Get encrypted skill levels for a user
+    /// @param user Address of the resume owner
+    function getSkillLevels(address user) external view returns (euint32[] memory) {
+        require(_resumes[user].exists, ResumeNotFound(user));
+        return _resumes[user].skillLevels;
     }
 
     /// @notice HR function: Evaluate skill match for a specific skill
-    /// @dev Returns encrypted skill level for HR to decrypt and evaluate
+    /// @dev Compares the skill level against the required level with FHE.ge, so HR can only
+    ///      decrypt the pass/fail result and never gains access to the raw skill level
     /// @param candidate Candidate address
-    /// @param skillIndex Index of the skill to evaluate (0-4)
-    /// @return skillLevel Encrypted skill proficiency level
+    /// @param skillIndex Index of the skill to evaluate
+    /// @param requiredLevelExt Encrypted minimum proficiency level required by HR
+    /// @param inputProof Zama input proof for the encrypted required level
+    /// @return meetsRequirement Encrypted result of skillLevel >= requiredLevel
     function evaluateSkillMatch(
         address candidate,
-        uint256 skillIndex
-    ) external onlyHR returns (euint32) {
-        require(_resumes[candidate].exists, "Resume does not exist");
-        require(skillIndex < _resumes[candidate].skillCount, "Invalid skill index");
+        uint256 skillIndex,
+        externalEuint32 requiredLevelExt,
+        bytes calldata inputProof
+    ) external onlyHR returns (ebool) {
+        require(_resumes[candidate].exists, ResumeNotFound(candidate));
+        require(skillIndex < _resumes[candidate].skillLevels.length, InvalidSkillIndex(skillIndex));
+        require(_hasEvaluationAccess(candidate, msg.sender, skillIndex), NoEvaluationAccess(candidate, msg.sender));
 
-        Resume storage resume = _resumes[candidate];
-        euint32 skillLevel;
+        euint32 skillLevel = _resumes[candidate].skillLevels[skillIndex];
+        euint32 requiredLevel = FHE.fromExternal(requiredLevelExt, inputProof);
+        ebool meetsRequirement = FHE.ge(skillLevel, requiredLevel);
 
-        if (skillIndex == 0) skillLevel = resume.skillLevel1;
-        else if (skillIndex == 1) skillLevel = resume.skillLevel2;
-        else if (skillIndex == 2) skillLevel = resume.skillLevel3;
-        else if (skillIndex == 3) skillLevel = resume.skillLevel4;
-        else if (skillIndex == 4) skillLevel = resume.skillLevel5;
-        else revert("Invalid skill index");
+        // Allow HR to access the comparison result only
+        FHE.allowThis(meetsRequirement);
+        FHE.allow(meetsRequirement, msg.sender);
 
-        // Allow HR to access the result
-        FHE.allowThis(skillLevel);
-        FHE.allow(skillLevel, msg.sender);
+        _skillMatches[_skillMatchKey(candidate, skillLevel)] = meetsRequirement;
+        emit SkillEvaluated(
+            candidate,
+            msg.sender,
+            skillIndex,
+            _resumes[candidate].skillNames[skillIndex],
+            meetsRequirement
+        );
 
-        return skillLevel;
+        return meetsRequirement;
     }
 
-    /// @notice HR function: Calculate total skill score across multiple skills
-    /// @dev Performs encrypted addition without decrypting individual levels
+    /// @notice HR function: Check whether a candidate's years of experience fall within a range
+    /// @dev Any active grant from the candidate allows this check, whatever skills it covers
     /// @param candidate Candidate address
-    /// @param skillIndices Array of skill indices to include in score (0-4)
-    /// @return totalScore Encrypted total proficiency score
+    /// @param minYearsExt Encrypted minimum years of experience, inclusive
+    /// @param maxYearsExt Encrypted maximum years of experience, inclusive (type(uint32).max for no limit)
+    /// @param inputProof Zama input proof for both bounds
+    /// @return inRange Encrypted result of minYears <= yearsOfExperience <= maxYears
+    function evaluateExperienceRange(
+        address candidate,
+        externalEuint32 minYearsExt,
+        externalEuint32 maxYearsExt,
+        bytes calldata inputProof
+    ) external onlyHR returns (ebool inRange) {
+        require(_resumes[candidate].exists, ResumeNotFound(candidate));
+        require(_hasActiveGrant(candidate, msg.sender), NoEvaluationAccess(candidate, msg.sender));
+        euint32 yearsOfExperience = _resumes[candidate].yearsOfExperience;
+        require(FHE.isInitialized(yearsOfExperience), CareerDetailsNotProvided(candidate));
+
+        inRange = FHE.and(
+            FHE.ge(yearsOfExperience, FHE.fromExternal(minYearsExt, inputProof)),
+            FHE.le(yearsOfExperience, FHE.fromExternal(maxYearsExt, inputProof))
+        );
+
+        // Allow HR to access the comparison result only
+        FHE.allowThis(inRange);
+        FHE.allow(inRange, msg.sender);
+
+        emit ExperienceEvaluated(candidate, msg.sender, inRange);
+    }
+
+    /// @notice HR function: Check whether a candidate's expected salary fits within a budget
+    /// @dev Any active grant from the candidate allows this check, whatever skills it covers
+    /// @param candidate Candidate address
+    /// @param budgetExt Encrypted highest yearly salary HR can offer
+    /// @param inputProof Zama input proof for the encrypted budget
+    /// @return withinBudget Encrypted result of expectedSalary <= budget
+    function evaluateSalaryBudget(
+        address candidate,
+        externalEuint64 budgetExt,
+        bytes calldata inputProof
+    ) external onlyHR returns (ebool withinBudget) {
+        require(_resumes[candidate].exists, ResumeNotFound(candidate));
+        require(_hasActiveGrant(candidate, msg.sender), NoEvaluationAccess(candidate, msg.sender));
+        euint64 expectedSalary = _resumes[candidate].expectedSalary;
+        require(FHE.isInitialized(expectedSalary), CareerDetailsNotProvided(candidate));
+
+        withinBudget = FHE.le(expectedSalary, FHE.fromExternal(budgetExt, inputProof));
+
+        // Allow HR to access the comparison result only
+        FHE.allowThis(withinBudget);
+        FHE.allow(withinBudget, msg.sender);
+
+        emit SalaryEvaluated(candidate, msg.sender, withinBudget);
+    }
+
+    /// @notice HR function: Count how many of the selected skills meet their minimum levels
+    /// @dev Built from FHE.ge comparisons like evaluateSkillMatch, never from the levels themselves,
+    ///      so even a single selected skill only reveals whether it meets the minimum level
+    /// @param candidate Candidate address
+    /// @param skillIndices Skill indices to include in the score
+    /// @param minLevels Minimum level per selected skill
+    /// @return matchCount Encrypted number of selected skills at or above their minimum level
     function calculateSkillScore(
         address candidate,
-        uint256[] calldata skillIndices
-    ) external onlyHR returns (euint32) {
-        require(_resumes[candidate].exists, "Resume does not exist");
+        uint256[] calldata skillIndices,
+        uint32[] calldata minLevels
+    ) external onlyHR returns (euint32 matchCount) {
+        require(_resumes[candidate].exists, ResumeNotFound(candidate));
+        require(skillIndices.length > 0, NoSkillsSelected());
+        require(skillIndices.length == minLevels.length, ScoreArraysLengthMismatch());
+
+        matchCount = FHE.asEuint32(0);
+        for (uint256 i = 0; i < skillIndices.length; i++) {
+            ebool meetsMinLevel = _meetsMinLevel(candidate, skillIndices[i], minLevels[i]);
+            matchCount = FHE.add(matchCount, FHE.asEuint32(meetsMinLevel));
+        }
+
+        // Allow HR to access the result
+        FHE.allowThis(matchCount);
+        FHE.allow(matchCount, msg.sender);
+
+        emit SkillCountCalculated(
+            candidate,
+            msg.sender,
+            skillIndices,
+            _skillNamesAt(candidate, skillIndices),
+            minLevels,
+            matchCount
+        );
+    }
+
+    /// @notice HR function: Calculate a weighted skill score with per-skill caps
+    /// @dev Each level is capped with FHE.min, multiplied by its weight and summed. The normalized
+    ///      score is the weighted total as a percentage (0-100) of the best possible capped total.
+    ///      At least MIN_WEIGHTED_SKILLS distinct skills with positive weights are required, so a score
+    ///      never consists of a single skill's level.
+    /// @param candidate Candidate address
+    /// @param skillIndices Distinct skill indices to include in the score
+    /// @param weights Weight per selected skill
+    /// @param caps Highest level counted per selected skill
+    /// @return weightedScore Encrypted sum of min(level, cap) * weight
+    /// @return normalizedScore Encrypted weightedScore * 100 / sum(cap * weight)
+    function calculateWeightedScore(
+        address candidate,
+        uint256[] calldata skillIndices,
+        uint32[] calldata weights,
+        uint32[] calldata caps
+    ) external onlyHR returns (euint32 weightedScore, euint32 normalizedScore) {
+        require(_resumes[candidate].exists, ResumeNotFound(candidate));
+        require(
+            skillIndices.length >= MIN_WEIGHTED_SKILLS,
+            TooFewSkillsSelected(skillIndices.length, MIN_WEIGHTED_SKILLS)
+        );
+        require(
+            skillIndices.length == weights.length && skillIndices.length == caps.length,
+            ScoreArraysLengthMismatch()
+        );
 
         Resume storage resume = _resumes[candidate];
-        euint32 totalScore = FHE.asEuint32(0);
+        weightedScore = FHE.asEuint32(0);
+        uint256 maxScore = 0;
+        uint256 seen = 0;
 
         for (uint256 i = 0; i < skillIndices.length; i++) {
-            require(skillIndices[i] < resume.skillCount, "Invalid skill index");
+            require(skillIndices[i] < resume.skillLevels.length, InvalidSkillIndex(skillIndices[i]));
+            require(
+                _hasEvaluationAccess(candidate, msg.sender, skillIndices[i]),
+                NoEvaluationAccess(candidate, msg.sender)
+            );
+            require((seen >> skillIndices[i]) & 1 == 0, DuplicateSkillIndex(skillIndices[i]));
+            require(weights[i] > 0, InvalidWeights());
+            require(caps[i] > 0, InvalidCap());
+            seen |= 1 << skillIndices[i];
 
-            euint32 skillLevel;
-            if (skillIndices[i] == 0) skillLevel = resume.skillLevel1;
-            else if (skillIndices[i] == 1) skillLevel = resume.skillLevel2;
-            else if (skillIndices[i] == 2) skillLevel = resume.skillLevel3;
-            else if (skillIndices[i] == 3) skillLevel = resume.skillLevel4;
-            else if (skillIndices[i] == 4) skillLevel = resume.skillLevel5;
-            else continue; // Skip invalid indices
+            euint32 cappedLevel = FHE.min(resume.skillLevels[skillIndices[i]], caps[i]);
+            weightedScore = FHE.add(weightedScore, FHE.mul(cappedLevel, weights[i]));
+            maxScore += uint256(caps[i]) * weights[i];
+        }
+
+        // The percentage is computed as weightedScore * 100, which must not overflow euint32
+        require(maxScore * 100 <= type(uint32).max, InvalidWeights());
+        normalizedScore = FHE.div(FHE.mul(weightedScore, 100), uint32(maxScore));
+
+        // Allow HR to access both results
+        FHE.allowThis(weightedScore);
+        FHE.allow(weightedScore, msg.sender);
+        FHE.allowThis(normalizedScore);
+        FHE.allow(normalizedScore, msg.sender);
 
-            totalScore = FHE.add(totalScore, skillLevel);
+        _weightedScores[_weightedScoreKey(candidate, skillIndices, weights, caps)] = WeightedScore(
+            weightedScore,
+            normalizedScore
+        );
+        emit SkillScoreCalculated(
+            candidate,
+            msg.sender,
+            skillIndices,
+            _skillNamesAt(candidate, skillIndices),
+            weightedScore,
+            normalizedScore
+        );
+    }
+
+    /// @notice HR function: Latest skill match the caller computed for a skill, if that skill is unchanged since
+    /// @dev Returns the zero handle when there is no reusable result or the caller no longer has access.
+    ///      The required level is not part of the key, so HR must track which level the result was for.
+    /// @param candidate Candidate address
+    /// @param skillIndex Index of the evaluated skill
+    function getSkillMatch(address candidate, uint256 skillIndex) external view returns (ebool) {
+        euint32[] storage levels = _resumes[candidate].skillLevels;
+        if (skillIndex >= levels.length || !_hasEvaluationAccess(candidate, msg.sender, skillIndex)) {
+            return ebool.wrap(0);
         }
+        return _skillMatches[_skillMatchKey(candidate, levels[skillIndex])];
+    }
 
-        // Allow HR to access the result
-        FHE.allowThis(totalScore);
-        FHE.allow(totalScore, msg.sender);
+    /// @notice HR function: Weighted score the caller already calculated for the same inputs and unchanged skills
+    /// @dev Returns zero handles when there is no reusable result or the caller no longer has access
+    /// @param candidate Candidate address
+    /// @param skillIndices Skill indices included in the score
+    /// @param weights Weight per selected skill
+    /// @param caps Highest level counted per selected skill
+    function getWeightedScore(
+        address candidate,
+        uint256[] calldata skillIndices,
+        uint32[] calldata weights,
+        uint32[] calldata caps
+    ) external view returns (euint32 weightedScore, euint32 normalizedScore) {
+        for (uint256 i = 0; i < skillIndices.length; i++) {
+            if (
+                skillIndices[i] >= _resumes[candidate].skillLevels.length ||
+                !_hasEvaluationAccess(candidate, msg.sender, skillIndices[i])
+            ) {
+                return (weightedScore, normalizedScore);
+            }
+        }
+        WeightedScore storage score = _weightedScores[_weightedScoreKey(candidate, skillIndices, weights, caps)];
+        return (score.weighted, score.normalized);
+    }
+
+    /// @notice HR function: Evaluate several candidates against the same encrypted requirements
+    /// @dev Requirements are matched by skill name like job applications. Missing skills, skills the
+    ///      candidate has not granted the caller access to and candidates without a resume count as not met.
+    ///      The result handles are also emitted with BatchEvaluated so HR can decrypt the whole batch in one
+    ///      request, and with CandidateBatchEvaluated per candidate so the results can be looked up by candidate.
+    /// @param candidates Candidate addresses (max MAX_BATCH_SIZE)
+    /// @param skillNames Required skill names (max maxSkills)
+    /// @param minLevelsExt Encrypted minimum proficiency level per required skill
+    /// @param inputProof Zama input proof for the encrypted minimum levels
+    /// @return overallMatches Encrypted AND of all requirement matches, per candidate
+    /// @return matchCounts Encrypted number of requirements met, per candidate
+    function batchEvaluate(
+        address[] calldata candidates,
+        string[] calldata skillNames,
+        externalEuint32[] calldata minLevelsExt,
+        bytes calldata inputProof
+    ) external onlyHR returns (ebool[] memory overallMatches, euint32[] memory matchCounts) {
+        require(
+            candidates.length > 0 && candidates.length <= MAX_BATCH_SIZE,
+            CandidateCountOutOfRange(candidates.length, MAX_BATCH_SIZE)
+        );
+        require(skillNames.length == minLevelsExt.length, SkillArraysLengthMismatch());
+        require(
+            skillNames.length > 0 && skillNames.length <= maxSkills,
+            SkillCountOutOfRange(skillNames.length, maxSkills)
+        );
+
+        bytes32[] memory nameHashes = new bytes32[](skillNames.length);
+        euint32[] memory minLevels = new euint32[](skillNames.length);
+        for (uint256 i = 0; i < skillNames.length; i++) {
+            nameHashes[i] = keccak256(bytes(skillNames[i]));
+            minLevels[i] = FHE.fromExternal(minLevelsExt[i], inputProof);
+        }
+
+        overallMatches = new ebool[](candidates.length);
+        matchCounts = new euint32[](candidates.length);
+
+        for (uint256 c = 0; c < candidates.length; c++) {
+            (ebool overallMatch, euint32 matchCount) = _matchRequirements(candidates[c], nameHashes, minLevels);
+
+            FHE.allowThis(overallMatch);
+            FHE.allow(overallMatch, msg.sender);
+            FHE.allowThis(matchCount);
+            FHE.allow(matchCount, msg.sender);
+
+            overallMatches[c] = overallMatch;
+            matchCounts[c] = matchCount;
+            emit CandidateBatchEvaluated(candidates[c], msg.sender, skillNames, overallMatch, matchCount);
+        }
+
+        emit BatchEvaluated(msg.sender, candidates, overallMatches, matchCounts);
+    }
+
+    /// @notice Allow an HR address to evaluate the caller's encrypted skills
+    /// @dev Replaces any previous grant for the same HR address
+    /// @param hr HR address to grant access to
+    /// @param skillIndices Skill indices HR may evaluate, empty for all skills
+    /// @param expiresAt Unix timestamp after which the grant lapses, 0 for no expiry
+    function grantEvaluationAccess(address hr, uint256[] calldata skillIndices, uint64 expiresAt) external {
+        require(_resumes[msg.sender].exists, ResumeNotFound(msg.sender));
+        require(hr != address(0), ZeroAddress());
+        require(expiresAt == 0 || expiresAt > block.timestamp, ExpiryNotInFuture(expiresAt));
+
+        uint256 skillMask = 0;
+        for (uint256 i = 0; i < skillIndices.length; i++) {
+            require(skillIndices[i] < _resumes[msg.sender].skillNames.length, InvalidSkillIndex(skillIndices[i]));
+            skillMask |= 1 << skillIndices[i];
+        }
+
+        EvaluationGrant storage grant = _evaluationGrants[msg.sender][hr];
+        grant.expiresAt = expiresAt;
+        grant.allSkills = skillIndices.length == 0;
+        grant.skillMask = skillMask;
+        grant.active = true;
+
+        if (!grant.listed) {
+            grant.listed = true;
+            _evaluationGrantees[msg.sender].push(hr);
+        }
+
+        emit EvaluationAccessGranted(msg.sender, hr, expiresAt, skillIndices);
+    }
+
+    /// @notice Revoke an HR address's access to the caller's encrypted skills
+    /// @param hr HR address to revoke
+    function revokeEvaluationAccess(address hr) external {
+        EvaluationGrant storage grant = _evaluationGrants[msg.sender][hr];
+        require(grant.active, NoEvaluationAccess(msg.sender, hr));
+
+        grant.active = false;
+        emit EvaluationAccessRevoked(msg.sender, hr);
+    }
 
-        return totalScore;
+    /// @notice Get the evaluation grant a candidate has given to an HR address
+    /// @param candidate Candidate address
+    /// @param hr HR address
+    function getEvaluationGrant(address candidate, address hr)
+        external
+        view
+        returns (bool active, uint64 expiresAt, bool allSkills, uint256 skillMask)
+    {
+        EvaluationGrant storage grant = _evaluationGrants[candidate][hr];
+        return (grant.active, grant.expiresAt, grant.allSkills, grant.skillMask);
+    }
+
+    /// @notice Get every HR address a candidate has ever granted evaluation access to
+    /// @dev Includes revoked and expired grants, check getEvaluationGrant for the current state
+    /// @param candidate Candidate address
+    function getEvaluationGrantees(address candidate) external view returns (address[] memory) {
+        return _evaluationGrantees[candidate];
+    }
+
+    /// @notice Check whether an HR address may currently evaluate a candidate's skill
+    /// @param candidate Candidate address
+    /// @param hr HR address
+    /// @param skillIndex Skill index to check
+    function canEvaluate(address candidate, address hr, uint256 skillIndex) external view returns (bool) {
+        return _hasEvaluationAccess(candidate, hr, skillIndex);
+    }
+
+    /// @notice HR function: Publish a job posting with encrypted minimum skill levels
+    /// @param title Job title
+    /// @param skillNames Required skill names (max maxSkills)
+    /// @param minLevelsExt Encrypted minimum proficiency level per required skill (max maxSkills)
+    /// @param inputProof Zama input proof for the encrypted minimum levels
+    /// @return postingId Identifier of the new job posting
+    function createJobPosting(
+        string calldata title,
+        string[] calldata skillNames,
+        externalEuint32[] calldata minLevelsExt,
+        bytes calldata inputProof
+    ) external onlyHR returns (uint256) {
+        require(skillNames.length == minLevelsExt.length, SkillArraysLengthMismatch());
+        require(
+            skillNames.length > 0 && skillNames.length <= maxSkills,
+            SkillCountOutOfRange(skillNames.length, maxSkills)
+        );
+        require(bytes(title).length > 0 && bytes(title).length <= 100, InvalidTitle());
+
+        uint256 postingId = _jobPostingCount++;
+        JobPosting storage posting = _jobPostings[postingId];
+        posting.hr = msg.sender;
+        posting.title = title;
+        posting.createdAt = uint64(block.timestamp);
+        posting.active = true;
+
+        for (uint256 i = 0; i < skillNames.length; i++) {
+            euint32 minLevel = FHE.fromExternal(minLevelsExt[i], inputProof);
+            FHE.allowThis(minLevel);
+            FHE.allow(minLevel, msg.sender);
+
+            posting.requiredSkillNames.push(skillNames[i]);
+            posting.minLevels.push(minLevel);
+        }
+
+        emit JobPostingCreated(postingId, msg.sender, uint8(skillNames.length));
+
+        return postingId;
+    }
+
+    /// @notice HR function: Close a job posting to new applications
+    /// @param postingId Job posting identifier
+    function closeJobPosting(uint256 postingId) external {
+        require(postingId < _jobPostingCount, JobPostingNotFound(postingId));
+        JobPosting storage posting = _jobPostings[postingId];
+        require(posting.hr == msg.sender, NotPostingOwner(postingId));
+        require(posting.active, JobPostingNotActive(postingId));
+
+        posting.active = false;
+        emit JobPostingClosed(postingId, msg.sender);
+    }
+
+    /// @notice Apply to a job posting with the caller's stored resume
+    /// @dev Each required skill is matched by name against the resume and compared with FHE.ge.
+    ///      Missing skills count as not met. Only the posting HR and the candidate can decrypt the results.
+    /// @param postingId Job posting identifier
+    function applyToJob(uint256 postingId) external {
+        require(postingId < _jobPostingCount, JobPostingNotFound(postingId));
+        require(_resumes[msg.sender].exists, ResumeNotFound(msg.sender));
+
+        JobPosting storage posting = _jobPostings[postingId];
+        require(posting.active, JobPostingNotActive(postingId));
+
+        JobApplication storage application = _jobApplications[postingId][msg.sender];
+        require(!application.exists, AlreadyApplied(postingId));
+
+        Resume storage resume = _resumes[msg.sender];
+        ebool overallMatch = FHE.asEbool(true);
+        euint32 matchCount = FHE.asEuint32(0);
+
+        for (uint256 i = 0; i < posting.requiredSkillNames.length; i++) {
+            ebool requirementMatch = FHE.asEbool(false);
+
+            bytes32 requiredNameHash = keccak256(bytes(posting.requiredSkillNames[i]));
+            for (uint256 j = 0; j < resume.skillNames.length; j++) {
+                if (keccak256(bytes(resume.skillNames[j])) == requiredNameHash) {
+                    requirementMatch = FHE.ge(resume.skillLevels[j], posting.minLevels[i]);
+                    break;
+                }
+            }
+
+            overallMatch = FHE.and(overallMatch, requirementMatch);
+            matchCount = FHE.add(matchCount, FHE.select(requirementMatch, FHE.asEuint32(1), FHE.asEuint32(0)));
+
+            FHE.allowThis(requirementMatch);
+            FHE.allow(requirementMatch, posting.hr);
+            FHE.allow(requirementMatch, msg.sender);
+            application.requirementMatches.push(requirementMatch);
+        }
+
+        FHE.allowThis(overallMatch);
+        FHE.allow(overallMatch, posting.hr);
+        FHE.allow(overallMatch, msg.sender);
+        FHE.allowThis(matchCount);
+        FHE.allow(matchCount, posting.hr);
+        FHE.allow(matchCount, msg.sender);
+
+        application.overallMatch = overallMatch;
+        application.matchCount = matchCount;
+        application.appliedAt = uint64(block.timestamp);
+        application.exists = true;
+        _jobApplicants[postingId].push(msg.sender);
+
+        emit JobApplicationSubmitted(postingId, msg.sender);
+    }
+
+    /// @notice Get job posting info (plaintext data)
+    /// @param postingId Job posting identifier
+    function getJobPosting(uint256 postingId)
+        external
+        view
+        returns (
+            address hr,
+            string memory title,
+            string[] memory requiredSkillNames,
+            uint64 createdAt,
+            bool active,
+            uint256 applicantCount
+        )
+    {
+        require(postingId < _jobPostingCount, JobPostingNotFound(postingId));
+        JobPosting storage posting = _jobPostings[postingId];
+
+        return (
+            posting.hr,
+            posting.title,
+            posting.requiredSkillNames,
+            posting.createdAt,
+            posting.active,
+            _jobApplicants[postingId].length
+        );
+    }
+
+    /// @notice Get the encrypted minimum levels of a job posting
+    /// @param postingId Job posting identifier
+    function getJobPostingMinLevels(uint256 postingId) external view returns (euint32[] memory) {
+        require(postingId < _jobPostingCount, JobPostingNotFound(postingId));
+        return _jobPostings[postingId].minLevels;
+    }
+
+    /// @notice Get the addresses that applied to a job posting
+    /// @param postingId Job posting identifier
+    function getJobApplicants(uint256 postingId) external view returns (address[] memory) {
+        require(postingId < _jobPostingCount, JobPostingNotFound(postingId));
+        return _jobApplicants[postingId];
+    }
+
+    /// @notice Get the encrypted match results of an application
+    /// @param postingId Job posting identifier
+    /// @param candidate Candidate address
+    function getJobApplication(uint256 postingId, address candidate)
+        external
+        view
+        returns (ebool[] memory requirementMatches, ebool overallMatch, euint32 matchCount, uint64 appliedAt)
+    {
+        JobApplication storage application = _jobApplications[postingId][candidate];
+        require(application.exists, ApplicationNotFound(postingId, candidate));
+
+        return (
+            application.requirementMatches,
+            application.overallMatch,
+            application.matchCount,
+            application.appliedAt
+        );
+    }
+
+    /// @notice Check if a candidate has applied to a job posting
+    function hasAppliedToJob(uint256 postingId, address candidate) external view returns (bool) {
+        return _jobApplications[postingId][candidate].exists;
+    }
+
+    /// @notice Get the number of job postings ever created
+    function getJobPostingCount() external view returns (uint256) {
+        return _jobPostingCount;
     }
 
     /// @notice Check if user has submitted a resume
@@ -316,25 +1096,224 @@ contract SecureResume is SepoliaConfig {
         return _resumes[user].exists;
     }
 
-    /// @notice Authorize an HR address
+    /// @notice Transfer contract ownership
+    /// @param newOwner Address of the new owner
+    function transferOwnership(address newOwner) external onlyOwner {
+        require(newOwner != address(0), ZeroAddress());
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    /// @notice Owner function: Add an organization admin
+    /// @param admin Address allowed to manage its own recruiters
+    function addOrgAdmin(address admin) external onlyOwner {
+        require(admin != address(0), ZeroAddress());
+        require(!orgAdmins[admin], AdminAlreadyAdded(admin));
+        orgAdmins[admin] = true;
+        emit OrgAdminAdded(admin, msg.sender);
+    }
+
+    /// @notice Owner function: Remove an organization admin
+    /// @dev Recruiters the admin authorized stay authorized and can be revoked by the owner
+    /// @param admin Organization admin to remove
+    function removeOrgAdmin(address admin) external onlyOwner {
+        require(orgAdmins[admin], AdminNotFound(admin));
+        orgAdmins[admin] = false;
+        emit OrgAdminRemoved(admin, msg.sender);
+    }
+
+    /// @notice Ask an admin to authorize the caller as HR
+    /// @param admin Owner or organization admin to ask
+    function requestHRAccess(address admin) external {
+        require(admin == owner || orgAdmins[admin], AdminNotFound(admin));
+        require(!hrAddresses[msg.sender], HRAlreadyAuthorized(msg.sender));
+        require(hrAccessRequests[msg.sender] == address(0), RequestAlreadyPending(hrAccessRequests[msg.sender]));
+
+        hrAccessRequests[msg.sender] = admin;
+        _hrAccessRequesters[admin].push(msg.sender);
+        _hrAccessRequesterPosition[msg.sender] = _hrAccessRequesters[admin].length;
+        emit HRAccessRequested(msg.sender, admin);
+    }
+
+    /// @notice Admin function: Reject a pending HR access request
+    /// @param requester Address that requested HR access
+    function rejectHRRequest(address requester) external onlyAdmin {
+        address admin = hrAccessRequests[requester];
+        require(admin != address(0), NoPendingRequest(requester));
+        require(admin == msg.sender || msg.sender == owner, NotRequestedAdmin(requester));
+
+        _removeHRRequest(requester);
+        emit HRAccessRequestRejected(requester, admin);
+    }
+
+    /// @notice Get the pending HR access requests sent to an admin
+    /// @param admin Owner or organization admin
+    function getPendingHRRequests(address admin) external view returns (address[] memory) {
+        return _hrAccessRequesters[admin];
+    }
+
+    /// @notice Admin function: Authorize an HR address
+    /// @dev Clears any pending access request from the HR address
     /// @param hr HR address to authorize
-    function authorizeHR(address hr) external {
-        require(hr != address(0), "Invalid HR address");
-        require(!hrAddresses[hr], "HR already authorized");
+    function authorizeHR(address hr) external onlyAdmin {
+        require(hr != address(0), ZeroAddress());
+        require(!hrAddresses[hr], HRAlreadyAuthorized(hr));
 
-        // For MVP, allow any user to authorize HR (in production, this should be restricted)
         hrAddresses[hr] = true;
+        hrAdminOf[hr] = msg.sender;
+        _hrList.push(hr);
+        _hrListPosition[hr] = _hrList.length;
+        if (hrAccessRequests[hr] != address(0)) _removeHRRequest(hr);
         emit HRAuthorized(hr, msg.sender);
     }
 
-    /// @notice Revoke HR authorization
+    /// @notice Admin function: Revoke HR authorization
+    /// @dev Organization admins can only revoke recruiters they authorized
     /// @param hr HR address to revoke
-    function revokeHR(address hr) external {
-        require(hrAddresses[hr], "HR not authorized");
+    function revokeHR(address hr) external onlyAdmin {
+        require(hrAddresses[hr], NotAuthorizedHR(hr));
+        require(msg.sender == owner || hrAdminOf[hr] == msg.sender, NotHRAdmin(hr));
+
         hrAddresses[hr] = false;
+        delete hrAdminOf[hr];
+
+        // Swap-and-pop the HR out of the list
+        uint256 position = _hrListPosition[hr];
+        address last = _hrList[_hrList.length - 1];
+        _hrList[position - 1] = last;
+        _hrListPosition[last] = position;
+        _hrList.pop();
+        delete _hrListPosition[hr];
+
         emit HRRevoked(hr, msg.sender);
     }
 
+    /// @notice Get all currently authorized HR addresses
+    function getHRAddresses() external view returns (address[] memory) {
+        return _hrList;
+    }
+
+    /// @dev Swap-and-pop a pending request out of its admin's requester list
+    function _removeHRRequest(address requester) private {
+        address[] storage requesters = _hrAccessRequesters[hrAccessRequests[requester]];
+        uint256 position = _hrAccessRequesterPosition[requester];
+        address last = requesters[requesters.length - 1];
+        requesters[position - 1] = last;
+        _hrAccessRequesterPosition[last] = position;
+        requesters.pop();
+        delete _hrAccessRequesterPosition[requester];
+        delete hrAccessRequests[requester];
+    }
+
+    /// @dev Check an active, unexpired grant that covers the skill index
+    function _hasEvaluationAccess(address candidate, address hr, uint256 skillIndex) private view returns (bool) {
+        EvaluationGrant storage grant = _evaluationGrants[candidate][hr];
+        return _hasActiveGrant(candidate, hr) && (grant.allSkills || (grant.skillMask >> skillIndex) & 1 == 1);
+    }
+
+    /// @dev Check an active, unexpired grant of any scope
+    function _hasActiveGrant(address candidate, address hr) private view returns (bool) {
+        EvaluationGrant storage grant = _evaluationGrants[candidate][hr];
+        return grant.active && (grant.expiresAt == 0 || block.timestamp < grant.expiresAt);
+    }
+
+    /// @dev Compare a candidate's accessible skills against required levels, matched by skill name hash.
+    ///      A missing or deleted resume has no skills, so none of its requirements are met.
+    function _matchRequirements(
+        address candidate,
+        bytes32[] memory nameHashes,
+        euint32[] memory minLevels
+    ) private returns (ebool overallMatch, euint32 matchCount) {
+        Resume storage resume = _resumes[candidate];
+        overallMatch = FHE.asEbool(true);
+        matchCount = FHE.asEuint32(0);
+
+        for (uint256 i = 0; i < nameHashes.length; i++) {
+            ebool requirementMatch = FHE.asEbool(false);
+            for (uint256 j = 0; j < resume.skillNames.length; j++) {
+                if (keccak256(bytes(resume.skillNames[j])) == nameHashes[i]) {
+                    if (_hasEvaluationAccess(candidate, msg.sender, j)) {
+                        requirementMatch = FHE.ge(resume.skillLevels[j], minLevels[i]);
+                    }
+                    break;
+                }
+            }
+
+            overallMatch = FHE.and(overallMatch, requirementMatch);
+            matchCount = FHE.add(matchCount, FHE.asEuint32(requirementMatch));
+        }
+    }
+
+    /// @dev Compare one accessible skill against a plaintext minimum level, for calculateSkillScore
+    function _meetsMinLevel(address candidate, uint256 skillIndex, uint32 minLevel) private returns (ebool) {
+        require(skillIndex < _resumes[candidate].skillLevels.length, InvalidSkillIndex(skillIndex));
+        require(_hasEvaluationAccess(candidate, msg.sender, skillIndex), NoEvaluationAccess(candidate, msg.sender));
+        require(minLevel > 0, InvalidMinLevel());
+        return FHE.ge(_resumes[candidate].skillLevels[skillIndex], minLevel);
+    }
+
+    /// @dev Names of the selected skills, emitted with each evaluation so its audit trail survives later skill edits
+    function _skillNamesAt(
+        address candidate,
+        uint256[] calldata skillIndices
+    ) private view returns (string[] memory skillNames) {
+        skillNames = new string[](skillIndices.length);
+        for (uint256 i = 0; i < skillIndices.length; i++) {
+            skillNames[i] = _resumes[candidate].skillNames[skillIndices[i]];
+        }
+    }
+
+    /// @dev Skill matches are keyed by the level handle, which changes whenever the skill level is replaced
+    function _skillMatchKey(address candidate, euint32 skillLevel) private view returns (bytes32) {
+        return keccak256(abi.encode(candidate, msg.sender, skillLevel));
+    }
+
+    /// @dev Weighted scores are keyed by the level handles used together with the plaintext weights and caps
+    function _weightedScoreKey(
+        address candidate,
+        uint256[] calldata skillIndices,
+        uint32[] calldata weights,
+        uint32[] calldata caps
+    ) private view returns (bytes32) {
+        euint32[] storage levels = _resumes[candidate].skillLevels;
+        euint32[] memory usedLevels = new euint32[](skillIndices.length);
+        for (uint256 i = 0; i < skillIndices.length; i++) {
+            usedLevels[i] = levels[skillIndices[i]];
+        }
+        return keccak256(abi.encode(candidate, msg.sender, usedLevels, weights, caps));
+    }
+
+    /// @dev Snapshot the caller's resume, including the skill level handles the owner can still decrypt
+    ///      Once MAX_VERSIONS versions are stored, each new one overwrites the oldest
+    function _saveVersion() private {
+        uint256 version = _resumeVersionCount[msg.sender]++;
+        _resumeVersions[msg.sender][version % MAX_VERSIONS] = _resumes[msg.sender];
+    }
+
+    /// @dev Append a skill and give the contract and the resume owner access to its level
+    function _pushSkill(Resume storage resume, string calldata skillName, euint32 skillLevel) private {
+        resume.skillNames.push(skillName);
+        resume.skillLevels.push(skillLevel);
+        FHE.allowThis(skillLevel);
+        FHE.allow(skillLevel, msg.sender);
+    }
+
+    /// @dev Rewrite skill-scoped grant masks after skills moved; oldIndexOf[i] is the previous index of skill i,
+    ///      or _NEW_SKILL for a skill no grant can cover yet
+    function _remapGrantMasks(address candidate, uint256[] memory oldIndexOf) private {
+        address[] storage grantees = _evaluationGrantees[candidate];
+        for (uint256 g = 0; g < grantees.length; g++) {
+            EvaluationGrant storage grant = _evaluationGrants[candidate][grantees[g]];
+            if (grant.allSkills || grant.skillMask == 0) continue;
+
+            uint256 skillMask = 0;
+            for (uint256 i = 0; i < oldIndexOf.length; i++) {
+                if (oldIndexOf[i] != _NEW_SKILL && (grant.skillMask >> oldIndexOf[i]) & 1 == 1) skillMask |= 1 << i;
+            }
+            grant.skillMask = skillMask;
+        }
+    }
+
     /// @notice Get contract statistics
     function getStats() external view returns (uint256 totalResumes) {
         return _totalResumes;
@@ -1,18 +1,46 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
 
+import { version } from "../package.json";
+import { abiHash, loadRegistry, recordDeployment } from "../registry";
+
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployments, getNamedAccounts } = hre;
   const { deploy } = deployments;
 
   const { deployer } = await getNamedAccounts();
 
-  await deploy("SecureResume", {
+  // Maximum number of skills per resume for this deployment (1-255)
+  const maxSkills = Number(process.env.MAX_SKILLS ?? 20);
+
+  const result = await deploy("SecureResume", {
     from: deployer,
-    args: [],
+    args: [maxSkills],
     log: true,
     autoMine: true,
   });
+
+  // The in-process hardhat network is gone once the command exits, nothing to record
+  if (hre.network.name === "hardhat" || !result.newlyDeployed) {
+    return;
+  }
+
+  const chainId = Number(await hre.getChainId());
+  recordDeployment(chainId, {
+    version,
+    address: result.address,
+    deployBlock: result.receipt?.blockNumber ?? (await hre.ethers.provider.getBlockNumber()),
+    abiHash: abiHash(result.abi),
+    transactionHash: result.transactionHash,
+    maxSkills,
+  });
+  console.log(`Recorded SecureResume ${version} at ${result.address} in the deployment registry`);
+
+  if (!loadRegistry().chains[chainId]) {
+    console.warn(
+      `Chain ${chainId} is not configured under "chains" in registry/SecureResume.json, add it for the frontend`,
+    );
+  }
 };
 
 export default func;
@@ -5,57 +5,1867 @@
 */
 export const SecureResumeABI = {
   "abi": [
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "maxSkillsPerResume",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "constructor"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "admin",
+          "type": "address"
+        }
+      ],
+      "name": "AdminAlreadyAdded",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "admin",
+          "type": "address"
+        }
+      ],
+      "name": "AdminNotFound",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "postingId",
+          "type": "uint256"
+        }
+      ],
+      "name": "AlreadyApplied",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "postingId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        }
+      ],
+      "name": "ApplicationNotFound",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "count",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "maxCount",
+          "type": "uint256"
+        }
+      ],
+      "name": "CandidateCountOutOfRange",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        }
+      ],
+      "name": "CareerDetailsNotProvided",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "skillIndex",
+          "type": "uint256"
+        }
+      ],
+      "name": "DuplicateSkillIndex",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "EducationTooLong",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint64",
+          "name": "expiresAt",
+          "type": "uint64"
+        }
+      ],
+      "name": "ExpiryNotInFuture",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        }
+      ],
+      "name": "HRAlreadyAuthorized",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidCap",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidMaxSkills",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidMinLevel",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidName",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "skillIndex",
+          "type": "uint256"
+        }
+      ],
+      "name": "InvalidSkillIndex",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidSkillOrder",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidTitle",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidWeights",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "postingId",
+          "type": "uint256"
+        }
+      ],
+      "name": "JobPostingNotActive",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "postingId",
+          "type": "uint256"
+        }
+      ],
+      "name": "JobPostingNotFound",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "LastSkillCannotBeRemoved",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        },
+        {
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        }
+      ],
+      "name": "NoEvaluationAccess",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "requester",
+          "type": "address"
+        }
+      ],
+      "name": "NoPendingRequest",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "NoSkillsSelected",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "account",
+          "type": "address"
+        }
+      ],
+      "name": "NotAdmin",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "account",
+          "type": "address"
+        }
+      ],
+      "name": "NotAuthorizedHR",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        }
+      ],
+      "name": "NotHRAdmin",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "NotOwner",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "postingId",
+          "type": "uint256"
+        }
+      ],
+      "name": "NotPostingOwner",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "requester",
+          "type": "address"
+        }
+      ],
+      "name": "NotRequestedAdmin",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "admin",
+          "type": "address"
+        }
+      ],
+      "name": "RequestAlreadyPending",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "ResumeAlreadyExists",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "ResumeNotFound",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "ScoreArraysLengthMismatch",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "SkillArraysLengthMismatch",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "count",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "maxCount",
+          "type": "uint256"
+        }
+      ],
+      "name": "SkillCountOutOfRange",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "count",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "minCount",
+          "type": "uint256"
+        }
+      ],
+      "name": "TooFewSkillsSelected",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "version",
+          "type": "uint256"
+        }
+      ],
+      "name": "VersionNotFound",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "WorkExperienceTooLong",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "ZeroAddress",
+      "type": "error"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "address[]",
+          "name": "candidates",
+          "type": "address[]"
+        },
+        {
+          "indexed": false,
+          "internalType": "ebool[]",
+          "name": "overallMatches",
+          "type": "bytes32[]"
+        },
+        {
+          "indexed": false,
+          "internalType": "euint32[]",
+          "name": "matchCounts",
+          "type": "bytes32[]"
+        }
+      ],
+      "name": "BatchEvaluated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "string[]",
+          "name": "skillNames",
+          "type": "string[]"
+        },
+        {
+          "indexed": false,
+          "internalType": "ebool",
+          "name": "overallMatch",
+          "type": "bytes32"
+        },
+        {
+          "indexed": false,
+          "internalType": "euint32",
+          "name": "matchCount",
+          "type": "bytes32"
+        }
+      ],
+      "name": "CandidateBatchEvaluated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "CareerDetailsUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint64",
+          "name": "expiresAt",
+          "type": "uint64"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256[]",
+          "name": "skillIndices",
+          "type": "uint256[]"
+        }
+      ],
+      "name": "EvaluationAccessGranted",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        }
+      ],
+      "name": "EvaluationAccessRevoked",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "ebool",
+          "name": "result",
+          "type": "bytes32"
+        }
+      ],
+      "name": "ExperienceEvaluated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "requester",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "admin",
+          "type": "address"
+        }
+      ],
+      "name": "HRAccessRequestRejected",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "requester",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "admin",
+          "type": "address"
+        }
+      ],
+      "name": "HRAccessRequested",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "authorizedBy",
+          "type": "address"
+        }
+      ],
+      "name": "HRAuthorized",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "revokedBy",
+          "type": "address"
+        }
+      ],
+      "name": "HRRevoked",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "postingId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        }
+      ],
+      "name": "JobApplicationSubmitted",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "postingId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        }
+      ],
+      "name": "JobPostingClosed",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "postingId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint8",
+          "name": "requirementCount",
+          "type": "uint8"
+        }
+      ],
+      "name": "JobPostingCreated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "admin",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "addedBy",
+          "type": "address"
+        }
+      ],
+      "name": "OrgAdminAdded",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "admin",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "removedBy",
+          "type": "address"
+        }
+      ],
+      "name": "OrgAdminRemoved",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "previousOwner",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "newOwner",
+          "type": "address"
+        }
+      ],
+      "name": "OwnershipTransferred",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint64",
+          "name": "timestamp",
+          "type": "uint64"
+        }
+      ],
+      "name": "ResumeDeleted",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint64",
+          "name": "timestamp",
+          "type": "uint64"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint8",
+          "name": "skillCount",
+          "type": "uint8"
+        }
+      ],
+      "name": "ResumeSubmitted",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint64",
+          "name": "timestamp",
+          "type": "uint64"
+        }
+      ],
+      "name": "ResumeUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "ebool",
+          "name": "result",
+          "type": "bytes32"
+        }
+      ],
+      "name": "SalaryEvaluated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "skillIndex",
+          "type": "uint256"
+        }
+      ],
+      "name": "SkillAdded",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256[]",
+          "name": "skillIndices",
+          "type": "uint256[]"
+        },
+        {
+          "indexed": false,
+          "internalType": "string[]",
+          "name": "skillNames",
+          "type": "string[]"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint32[]",
+          "name": "minLevels",
+          "type": "uint32[]"
+        },
+        {
+          "indexed": false,
+          "internalType": "euint32",
+          "name": "matchCount",
+          "type": "bytes32"
+        }
+      ],
+      "name": "SkillCountCalculated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "skillIndex",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "string",
+          "name": "skillName",
+          "type": "string"
+        },
+        {
+          "indexed": false,
+          "internalType": "ebool",
+          "name": "result",
+          "type": "bytes32"
+        }
+      ],
+      "name": "SkillEvaluated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "skillIndex",
+          "type": "uint256"
+        }
+      ],
+      "name": "SkillRemoved",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256[]",
+          "name": "skillIndices",
+          "type": "uint256[]"
+        },
+        {
+          "indexed": false,
+          "internalType": "string[]",
+          "name": "skillNames",
+          "type": "string[]"
+        },
+        {
+          "indexed": false,
+          "internalType": "euint32",
+          "name": "weightedScore",
+          "type": "bytes32"
+        },
+        {
+          "indexed": false,
+          "internalType": "euint32",
+          "name": "normalizedScore",
+          "type": "bytes32"
+        }
+      ],
+      "name": "SkillScoreCalculated",
+      "type": "event"
+    },
     {
       "anonymous": false,
       "inputs": [
         {
-          "indexed": true,
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "SkillsReordered",
+      "type": "event"
+    },
+    {
+      "inputs": [],
+      "name": "MAX_BATCH_SIZE",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "MAX_VERSIONS",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "MIN_WEIGHTED_SKILLS",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "admin",
+          "type": "address"
+        }
+      ],
+      "name": "addOrgAdmin",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "string",
+          "name": "skillName",
+          "type": "string"
+        },
+        {
+          "internalType": "externalEuint32",
+          "name": "skillLevelExt",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
+        }
+      ],
+      "name": "addSkill",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "postingId",
+          "type": "uint256"
+        }
+      ],
+      "name": "applyToJob",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        }
+      ],
+      "name": "authorizeHR",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address[]",
+          "name": "candidates",
+          "type": "address[]"
+        },
+        {
+          "internalType": "string[]",
+          "name": "skillNames",
+          "type": "string[]"
+        },
+        {
+          "internalType": "externalEuint32[]",
+          "name": "minLevelsExt",
+          "type": "bytes32[]"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
+        }
+      ],
+      "name": "batchEvaluate",
+      "outputs": [
+        {
+          "internalType": "ebool[]",
+          "name": "overallMatches",
+          "type": "bytes32[]"
+        },
+        {
+          "internalType": "euint32[]",
+          "name": "matchCounts",
+          "type": "bytes32[]"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        },
+        {
+          "internalType": "uint256[]",
+          "name": "skillIndices",
+          "type": "uint256[]"
+        },
+        {
+          "internalType": "uint32[]",
+          "name": "minLevels",
+          "type": "uint32[]"
+        }
+      ],
+      "name": "calculateSkillScore",
+      "outputs": [
+        {
+          "internalType": "euint32",
+          "name": "matchCount",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        },
+        {
+          "internalType": "uint256[]",
+          "name": "skillIndices",
+          "type": "uint256[]"
+        },
+        {
+          "internalType": "uint32[]",
+          "name": "weights",
+          "type": "uint32[]"
+        },
+        {
+          "internalType": "uint32[]",
+          "name": "caps",
+          "type": "uint32[]"
+        }
+      ],
+      "name": "calculateWeightedScore",
+      "outputs": [
+        {
+          "internalType": "euint32",
+          "name": "weightedScore",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "euint32",
+          "name": "normalizedScore",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        },
+        {
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        },
+        {
+          "internalType": "uint256",
+          "name": "skillIndex",
+          "type": "uint256"
+        }
+      ],
+      "name": "canEvaluate",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "postingId",
+          "type": "uint256"
+        }
+      ],
+      "name": "closeJobPosting",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "string",
+          "name": "title",
+          "type": "string"
+        },
+        {
+          "internalType": "string[]",
+          "name": "skillNames",
+          "type": "string[]"
+        },
+        {
+          "internalType": "externalEuint32[]",
+          "name": "minLevelsExt",
+          "type": "bytes32[]"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
+        }
+      ],
+      "name": "createJobPosting",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "deleteResume",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        },
+        {
+          "internalType": "externalEuint32",
+          "name": "minYearsExt",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "externalEuint32",
+          "name": "maxYearsExt",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
+        }
+      ],
+      "name": "evaluateExperienceRange",
+      "outputs": [
+        {
+          "internalType": "ebool",
+          "name": "inRange",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        },
+        {
+          "internalType": "externalEuint64",
+          "name": "budgetExt",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
+        }
+      ],
+      "name": "evaluateSalaryBudget",
+      "outputs": [
+        {
+          "internalType": "ebool",
+          "name": "withinBudget",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        },
+        {
+          "internalType": "uint256",
+          "name": "skillIndex",
+          "type": "uint256"
+        },
+        {
+          "internalType": "externalEuint32",
+          "name": "requiredLevelExt",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
+        }
+      ],
+      "name": "evaluateSkillMatch",
+      "outputs": [
+        {
+          "internalType": "ebool",
+          "name": "",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "getCareerDetails",
+      "outputs": [
+        {
+          "internalType": "euint32",
+          "name": "yearsOfExperience",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "euint64",
+          "name": "expectedSalary",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        },
+        {
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        }
+      ],
+      "name": "getEvaluationGrant",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "active",
+          "type": "bool"
+        },
+        {
+          "internalType": "uint64",
+          "name": "expiresAt",
+          "type": "uint64"
+        },
+        {
+          "internalType": "bool",
+          "name": "allSkills",
+          "type": "bool"
+        },
+        {
+          "internalType": "uint256",
+          "name": "skillMask",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        }
+      ],
+      "name": "getEvaluationGrantees",
+      "outputs": [
+        {
+          "internalType": "address[]",
+          "name": "",
+          "type": "address[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "getHRAddresses",
+      "outputs": [
+        {
+          "internalType": "address[]",
+          "name": "",
+          "type": "address[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "postingId",
+          "type": "uint256"
+        }
+      ],
+      "name": "getJobApplicants",
+      "outputs": [
+        {
+          "internalType": "address[]",
+          "name": "",
+          "type": "address[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "postingId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        }
+      ],
+      "name": "getJobApplication",
+      "outputs": [
+        {
+          "internalType": "ebool[]",
+          "name": "requirementMatches",
+          "type": "bytes32[]"
+        },
+        {
+          "internalType": "ebool",
+          "name": "overallMatch",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "euint32",
+          "name": "matchCount",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "uint64",
+          "name": "appliedAt",
+          "type": "uint64"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "postingId",
+          "type": "uint256"
+        }
+      ],
+      "name": "getJobPosting",
+      "outputs": [
+        {
           "internalType": "address",
           "name": "hr",
           "type": "address"
+        },
+        {
+          "internalType": "string",
+          "name": "title",
+          "type": "string"
+        },
+        {
+          "internalType": "string[]",
+          "name": "requiredSkillNames",
+          "type": "string[]"
+        },
+        {
+          "internalType": "uint64",
+          "name": "createdAt",
+          "type": "uint64"
+        },
+        {
+          "internalType": "bool",
+          "name": "active",
+          "type": "bool"
+        },
+        {
+          "internalType": "uint256",
+          "name": "applicantCount",
+          "type": "uint256"
         }
       ],
-      "name": "HRAuthorized",
-      "type": "event"
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "getJobPostingCount",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "postingId",
+          "type": "uint256"
+        }
+      ],
+      "name": "getJobPostingMinLevels",
+      "outputs": [
+        {
+          "internalType": "euint32[]",
+          "name": "",
+          "type": "bytes32[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "getOldestResumeVersion",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "admin",
+          "type": "address"
+        }
+      ],
+      "name": "getPendingHRRequests",
+      "outputs": [
+        {
+          "internalType": "address[]",
+          "name": "",
+          "type": "address[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "getResumeInfo",
+      "outputs": [
+        {
+          "internalType": "string",
+          "name": "name",
+          "type": "string"
+        },
+        {
+          "internalType": "string",
+          "name": "education",
+          "type": "string"
+        },
+        {
+          "internalType": "string",
+          "name": "workExperience",
+          "type": "string"
+        },
+        {
+          "internalType": "string[]",
+          "name": "skillNames",
+          "type": "string[]"
+        },
+        {
+          "internalType": "uint64",
+          "name": "createdAt",
+          "type": "uint64"
+        },
+        {
+          "internalType": "uint64",
+          "name": "updatedAt",
+          "type": "uint64"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "internalType": "uint256",
+          "name": "version",
+          "type": "uint256"
+        }
+      ],
+      "name": "getResumeVersion",
+      "outputs": [
+        {
+          "internalType": "string",
+          "name": "name",
+          "type": "string"
+        },
+        {
+          "internalType": "string",
+          "name": "education",
+          "type": "string"
+        },
+        {
+          "internalType": "string",
+          "name": "workExperience",
+          "type": "string"
+        },
+        {
+          "internalType": "string[]",
+          "name": "skillNames",
+          "type": "string[]"
+        },
+        {
+          "internalType": "euint32[]",
+          "name": "skillLevels",
+          "type": "bytes32[]"
+        },
+        {
+          "internalType": "uint64",
+          "name": "updatedAt",
+          "type": "uint64"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "getResumeVersionCount",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "getSkillLevels",
+      "outputs": [
+        {
+          "internalType": "euint32[]",
+          "name": "",
+          "type": "bytes32[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
     },
     {
-      "anonymous": false,
       "inputs": [
         {
-          "indexed": true,
-          "internalType": "address",
-          "name": "hr",
-          "type": "address"
+          "internalType": "address",
+          "name": "candidate",
+          "type": "address"
+        },
+        {
+          "internalType": "uint256",
+          "name": "skillIndex",
+          "type": "uint256"
+        }
+      ],
+      "name": "getSkillMatch",
+      "outputs": [
+        {
+          "internalType": "ebool",
+          "name": "",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "getStats",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "totalResumes",
+          "type": "uint256"
         }
       ],
-      "name": "HRRevoked",
-      "type": "event"
+      "stateMutability": "view",
+      "type": "function"
     },
     {
-      "anonymous": false,
       "inputs": [
         {
-          "indexed": true,
           "internalType": "address",
-          "name": "user",
+          "name": "candidate",
           "type": "address"
+        },
+        {
+          "internalType": "uint256[]",
+          "name": "skillIndices",
+          "type": "uint256[]"
+        },
+        {
+          "internalType": "uint32[]",
+          "name": "weights",
+          "type": "uint32[]"
+        },
+        {
+          "internalType": "uint32[]",
+          "name": "caps",
+          "type": "uint32[]"
         }
       ],
-      "name": "ResumeSubmitted",
-      "type": "event"
-    },
-    {
-      "anonymous": false,
-      "inputs": [
+      "name": "getWeightedScore",
+      "outputs": [
         {
-          "indexed": true,
-          "internalType": "address",
-          "name": "user",
-          "type": "address"
+          "internalType": "euint32",
+          "name": "weightedScore",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "euint32",
+          "name": "normalizedScore",
+          "type": "bytes32"
         }
       ],
-      "name": "ResumeUpdated",
-      "type": "event"
+      "stateMutability": "view",
+      "type": "function"
     },
     {
       "inputs": [
@@ -63,100 +1873,99 @@ export const SecureResumeABI = {
           "internalType": "address",
           "name": "hr",
           "type": "address"
+        },
+        {
+          "internalType": "uint256[]",
+          "name": "skillIndices",
+          "type": "uint256[]"
+        },
+        {
+          "internalType": "uint64",
+          "name": "expiresAt",
+          "type": "uint64"
         }
       ],
-      "name": "authorizeHR",
+      "name": "grantEvaluationAccess",
       "outputs": [],
       "stateMutability": "nonpayable",
       "type": "function"
     },
     {
       "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "postingId",
+          "type": "uint256"
+        },
         {
           "internalType": "address",
           "name": "candidate",
           "type": "address"
-        },
-        {
-          "internalType": "uint256[]",
-          "name": "skillIndices",
-          "type": "uint256[]"
         }
       ],
-      "name": "calculateSkillScore",
+      "name": "hasAppliedToJob",
       "outputs": [
         {
-          "internalType": "euint32",
+          "internalType": "bool",
           "name": "",
-          "type": "bytes32"
+          "type": "bool"
         }
       ],
-      "stateMutability": "nonpayable",
+      "stateMutability": "view",
       "type": "function"
     },
     {
       "inputs": [
         {
           "internalType": "address",
-          "name": "candidate",
+          "name": "user",
           "type": "address"
-        },
-        {
-          "internalType": "uint256",
-          "name": "skillIndex",
-          "type": "uint256"
         }
       ],
-      "name": "evaluateSkillMatch",
+      "name": "hasResume",
       "outputs": [
         {
-          "internalType": "euint32",
+          "internalType": "bool",
           "name": "",
-          "type": "bytes32"
+          "type": "bool"
         }
       ],
-      "stateMutability": "nonpayable",
+      "stateMutability": "view",
       "type": "function"
     },
     {
       "inputs": [
         {
           "internalType": "address",
-          "name": "user",
+          "name": "",
           "type": "address"
         }
       ],
-      "name": "getResumeInfo",
+      "name": "hrAccessRequests",
       "outputs": [
         {
-          "internalType": "string",
-          "name": "name",
-          "type": "string"
-        },
-        {
-          "internalType": "string",
-          "name": "education",
-          "type": "string"
-        },
-        {
-          "internalType": "string",
-          "name": "workExperience",
-          "type": "string"
-        },
-        {
-          "internalType": "string[]",
-          "name": "skillNames",
-          "type": "string[]"
-        },
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
         {
-          "internalType": "uint64",
-          "name": "createdAt",
-          "type": "uint64"
-        },
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "name": "hrAddresses",
+      "outputs": [
         {
-          "internalType": "uint64",
-          "name": "updatedAt",
-          "type": "uint64"
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
         }
       ],
       "stateMutability": "view",
@@ -166,16 +1975,16 @@ export const SecureResumeABI = {
       "inputs": [
         {
           "internalType": "address",
-          "name": "user",
+          "name": "",
           "type": "address"
         }
       ],
-      "name": "getSkillLevels",
+      "name": "hrAdminOf",
       "outputs": [
         {
-          "internalType": "euint32[]",
+          "internalType": "address",
           "name": "",
-          "type": "bytes32[]"
+          "type": "address"
         }
       ],
       "stateMutability": "view",
@@ -183,11 +1992,11 @@ export const SecureResumeABI = {
     },
     {
       "inputs": [],
-      "name": "getStats",
+      "name": "maxSkills",
       "outputs": [
         {
           "internalType": "uint256",
-          "name": "totalResumes",
+          "name": "",
           "type": "uint256"
         }
       ],
@@ -198,11 +2007,11 @@ export const SecureResumeABI = {
       "inputs": [
         {
           "internalType": "address",
-          "name": "user",
+          "name": "",
           "type": "address"
         }
       ],
-      "name": "hasResume",
+      "name": "orgAdmins",
       "outputs": [
         {
           "internalType": "bool",
@@ -214,21 +2023,15 @@ export const SecureResumeABI = {
       "type": "function"
     },
     {
-      "inputs": [
+      "inputs": [],
+      "name": "owner",
+      "outputs": [
         {
           "internalType": "address",
           "name": "",
           "type": "address"
         }
       ],
-      "name": "hrAddresses",
-      "outputs": [
-        {
-          "internalType": "bool",
-          "name": "",
-          "type": "bool"
-        }
-      ],
       "stateMutability": "view",
       "type": "function"
     },
@@ -245,6 +2048,84 @@ export const SecureResumeABI = {
       "stateMutability": "pure",
       "type": "function"
     },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "requester",
+          "type": "address"
+        }
+      ],
+      "name": "rejectHRRequest",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "admin",
+          "type": "address"
+        }
+      ],
+      "name": "removeOrgAdmin",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "skillIndex",
+          "type": "uint256"
+        }
+      ],
+      "name": "removeSkill",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256[]",
+          "name": "newOrder",
+          "type": "uint256[]"
+        }
+      ],
+      "name": "reorderSkills",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "admin",
+          "type": "address"
+        }
+      ],
+      "name": "requestHRAccess",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "hr",
+          "type": "address"
+        }
+      ],
+      "name": "revokeEvaluationAccess",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
     {
       "inputs": [
         {
@@ -258,6 +2139,29 @@ export const SecureResumeABI = {
       "stateMutability": "nonpayable",
       "type": "function"
     },
+    {
+      "inputs": [
+        {
+          "internalType": "externalEuint32",
+          "name": "yearsOfExperienceExt",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "externalEuint64",
+          "name": "expectedSalaryExt",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "bytes",
+          "name": "inputProof",
+          "type": "bytes"
+        }
+      ],
+      "name": "setCareerDetails",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
     {
       "inputs": [
         {
@@ -296,6 +2200,19 @@ export const SecureResumeABI = {
       "stateMutability": "nonpayable",
       "type": "function"
     },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "newOwner",
+          "type": "address"
+        }
+      ],
+      "name": "transferOwnership",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
     {
       "inputs": [
         {
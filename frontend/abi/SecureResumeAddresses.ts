@@ -1,9 +1,44 @@
 
 /*
-  This file is auto-generated.
+  This file is auto-generated from registry/SecureResume.json.
   Command: 'npm run genabi'
 */
-export const SecureResumeAddresses = { 
-  "11155111": { address: "0x9D1280c8F82bB3412029509453884673cef0De55", chainId: 11155111, chainName: "sepolia" },
-  "31337": { address: "0x5FbDB2315678afecb367f032d93F642f64180aa3", chainId: 31337, chainName: "hardhat" },
+export const SecureResumeAbiHash = "0xeb22f3415964a74b4b5844b8ed768a6fc6d63fa8e1e2bc24563b01349f60f106";
+
+export const SecureResumeChains = {
+  "31337": {
+    "network": "localhost",
+    "name": "Hardhat Localhost",
+    "rpcUrl": "http://127.0.0.1:8545",
+    "mock": true
+  },
+  "11155111": {
+    "network": "sepolia",
+    "name": "Sepolia",
+    "rpcUrl": "https://sepolia.infura.io/v3/{INFURA_API_KEY}",
+    "explorerUrl": "https://sepolia.etherscan.io"
+  }
+};
+
+export const SecureResumeDeployments = {
+  "31337": [
+    {
+      "version": "0.1.0",
+      "address": "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+      "deployBlock": 3,
+      "abiHash": "0xeb22f3415964a74b4b5844b8ed768a6fc6d63fa8e1e2bc24563b01349f60f106",
+      "transactionHash": "0xb02c4f1c3f6566aa64e15404c652003697640f2d386a3642e0f4ac26d148c667",
+      "maxSkills": 20
+    }
+  ],
+  "11155111": [
+    {
+      "version": "0.1.0",
+      "address": "0x9D1280c8F82bB3412029509453884673cef0De55",
+      "deployBlock": 9690271,
+      "abiHash": "0xfe6888b86db8983ee1a8df26a235957eb4b1b6f4ec8e88449770873819847251",
+      "transactionHash": "0x0b6639d8d02c096cfb1d0962fcd6dff23124dbca6c3fa4749564fab6f2a7dad4",
+      "stale": true
+    }
+  ]
 };
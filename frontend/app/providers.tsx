@@ -5,7 +5,6 @@ import '@rainbow-me/rainbowkit/styles.css';
 
 import { RainbowKitProvider, getDefaultConfig } from '@rainbow-me/rainbowkit';
 import { WagmiProvider, useChainId } from 'wagmi';
-import { sepolia } from 'wagmi/chains';
 import { http } from 'wagmi';
 import {
   QueryClientProvider,
@@ -15,44 +14,50 @@ import {
 import { useEffect } from 'react';
 
 import { InMemoryStorageProvider } from "@/hooks/useInMemoryStorage";
+import { TransactionActivityProvider } from "@/hooks/useTransactionActivity";
+import { DeploymentSelectionProvider } from "@/hooks/useDeploymentSelection";
+import { CHAINS, rpcUrl } from "@/lib/registry";
 
-// Custom localhost chain with correct chainId for Hardhat
-const hardhatLocalhost = {
-  id: 31337,
-  name: 'Hardhat Localhost',
-  network: 'hardhat',
+// Environment variable for Infura API key - fallback to configured key
+const INFURA_API_KEY = process.env.NEXT_PUBLIC_INFURA_API_KEY || 'b18fb7e6ca7045ac83c41157ab93f990';
+
+// Values for the {NAME} placeholders in registry RPC URLs; Next.js only inlines NEXT_PUBLIC_ variables it can see by name
+const RPC_URL_VARIABLES: Record<string, string> = { INFURA_API_KEY };
+
+type ConfigChains = Parameters<typeof getDefaultConfig>[0]['chains'];
+
+// Every chain in the deployment registry, so a new chain only needs a registry entry
+const chains = Object.entries(CHAINS).map(([chainId, chain]): ConfigChains[number] => ({
+  id: Number(chainId),
+  name: chain.name,
   nativeCurrency: {
     decimals: 18,
     name: 'Ether',
     symbol: 'ETH',
   },
   rpcUrls: {
-    default: { http: ['http://127.0.0.1:8545'] },
-    public: { http: ['http://127.0.0.1:8545'] },
-  },
-  blockExplorers: {
-    default: { name: 'Hardhat Explorer', url: 'http://127.0.0.1:8545' },
+    default: { http: [rpcUrl(chain, RPC_URL_VARIABLES)] },
   },
+  ...(chain.explorerUrl && {
+    blockExplorers: { default: { name: `${chain.name} Explorer`, url: chain.explorerUrl } },
+  }),
   testnet: true,
-};
-
-// Environment variable for Infura API key - fallback to configured key
-const INFURA_API_KEY = process.env.NEXT_PUBLIC_INFURA_API_KEY || 'b18fb7e6ca7045ac83c41157ab93f990';
+}));
 
 const config = getDefaultConfig({
   appName: 'Secure Career',
   projectId: 'ef3325a718834a2b1b4134d3f520933d', // User's WalletConnect Project ID
-  chains: [hardhatLocalhost, sepolia],
-  transports: {
-    [hardhatLocalhost.id]: http('http://127.0.0.1:8545', {
-      batch: false,
-      timeout: 60000,
-    }),
-    [sepolia.id]: http(`https://sepolia.infura.io/v3/${INFURA_API_KEY}`, {
-      batch: false,
-      timeout: 60000,
-    }),
-  },
+  // getDefaultConfig wants at least one chain, the registry always has the local node
+  chains: [chains[0], ...chains.slice(1)],
+  transports: Object.fromEntries(
+    chains.map((chain) => [
+      chain.id,
+      http(chain.rpcUrls.default.http[0], {
+        batch: false,
+        timeout: 60000,
+      }),
+    ])
+  ),
   ssr: false,
 });
 
@@ -126,7 +131,11 @@ export function Providers({ children }: Props) {
           }}
         >
           <NetworkChangeHandler>
-            <InMemoryStorageProvider>{children}</InMemoryStorageProvider>
+            <InMemoryStorageProvider backend="persistent">
+              <DeploymentSelectionProvider>
+                <TransactionActivityProvider>{children}</TransactionActivityProvider>
+              </DeploymentSelectionProvider>
+            </InMemoryStorageProvider>
           </NetworkChangeHandler>
         </RainbowKitProvider>
       </QueryClientProvider>
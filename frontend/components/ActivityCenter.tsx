@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { TransactionKind, TransactionStatus, useTransactionActivity } from '@/hooks/useTransactionActivity';
+
+const KIND_ICONS: Record<TransactionKind, string> = {
+  resume: "📝",
+  skills: "🛠️",
+  career: "💰",
+  access: "🔑",
+  evaluation: "🎯",
+  hr: "👥",
+  job: "💼",
+};
+
+const STATUS_STYLES: Record<TransactionStatus, { icon: string; className: string }> = {
+  pending: { icon: "⏳", className: "bg-yellow-100 text-yellow-800" },
+  confirmed: { icon: "✅", className: "bg-green-100 text-green-800" },
+  failed: { icon: "❌", className: "bg-red-100 text-red-800" },
+};
+
+const COLLAPSED_COUNT = 5;
+
+// Every transaction sent from any tab, with its outcome, kept per wallet and chain
+export const ActivityCenter = () => {
+  const { transactions, clearFinishedTransactions } = useTransactionActivity();
+  const [showAll, setShowAll] = useState(false);
+
+  const pendingCount = transactions.filter((record) => record.status === "pending").length;
+  const visible = showAll ? transactions : transactions.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div className="mt-8 glass-card rounded-3xl p-8 shadow-2xl">
+      <div className="flex items-center justify-between mb-6 flex-wrap gap-3">
+        <div className="flex items-center space-x-3">
+          <span className="text-3xl">📜</span>
+          <h3 className="text-2xl font-bold bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent">
+            Activity
+          </h3>
+          {pendingCount > 0 && (
+            <span className="px-3 py-1 rounded-full text-xs font-semibold bg-yellow-100 text-yellow-800">
+              ⏳ {pendingCount} pending
+            </span>
+          )}
+        </div>
+        {transactions.length > pendingCount && (
+          <button
+            type="button"
+            onClick={clearFinishedTransactions}
+            className="px-4 py-2 rounded-xl text-sm font-semibold text-purple-700 bg-purple-50 hover:bg-purple-100"
+          >
+            Clear finished
+          </button>
+        )}
+      </div>
+
+      {transactions.length === 0 ? (
+        <p className="text-sm text-gray-600">No transactions yet. Everything you send from any tab shows up here.</p>
+      ) : (
+        <ul className="space-y-3">
+          {visible.map((record) => (
+            <li key={record.hash} className="bg-white/80 backdrop-blur-sm rounded-2xl p-4 shadow-sm text-sm">
+              <div className="flex items-center justify-between flex-wrap gap-2">
+                <span className="font-semibold text-gray-800">
+                  {KIND_ICONS[record.kind]} {record.label}
+                </span>
+                <span className={`px-3 py-1 rounded-full text-xs font-semibold ${STATUS_STYLES[record.status].className}`}>
+                  {STATUS_STYLES[record.status].icon} {record.status}
+                </span>
+              </div>
+              <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+                <span className="font-mono" title={record.hash}>
+                  {record.hash.slice(0, 10)}…{record.hash.slice(-8)}
+                </span>
+                <span>{new Date(record.submittedAt).toLocaleString()}</span>
+                {record.blockNumber !== undefined && <span>Block #{record.blockNumber}</span>}
+                {record.gasUsed !== undefined && <span>Gas used: {Number(record.gasUsed).toLocaleString()}</span>}
+              </div>
+              {record.error && <p className="mt-2 text-xs text-red-700">{record.error}</p>}
+              {record.result && (
+                <p className="mt-2 text-sm font-medium text-purple-800 bg-purple-50 rounded-xl px-3 py-2">
+                  🔓 {record.result}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {transactions.length > COLLAPSED_COUNT && (
+        <button
+          type="button"
+          onClick={() => setShowAll(!showAll)}
+          className="mt-4 text-sm font-semibold text-purple-700 hover:text-purple-900"
+        >
+          {showAll ? "Show less" : `Show all ${transactions.length} transactions`}
+        </button>
+      )}
+    </div>
+  );
+};
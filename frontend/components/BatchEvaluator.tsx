@@ -0,0 +1,355 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAccount } from 'wagmi';
+import { ethers } from 'ethers';
+import { FhevmInstance } from '@/fhevm/fhevmTypes';
+import { FhevmDecryptionSignature } from '@/fhevm/FhevmDecryptionSignature';
+import { useFhevmWorker } from '@/fhevm/useFhevmWorker';
+import { useInMemoryStorage } from '@/hooks/useInMemoryStorage';
+import { findReceiptEvent, useSecureResumeContract } from '@/hooks/useSecureResumeContract';
+import { useTransactionActivity } from '@/hooks/useTransactionActivity';
+import { downloadFile } from '@/lib/download';
+import { errorMessage } from '@/lib/errors';
+
+interface RequirementInput {
+  name: string;
+  minLevel: number;
+}
+
+interface ShortlistEntry {
+  rank: number;
+  address: string;
+  name: string;
+  overallMatch: boolean;
+  matchCount: number;
+}
+
+interface BatchEvaluatorProps {
+  fhevmInstance: FhevmInstance | undefined;
+}
+
+// Must match MAX_BATCH_SIZE in SecureResume.sol
+const MAX_BATCH_SIZE = 20;
+
+// Addresses separated by commas, spaces or new lines, duplicates removed
+const parseAddresses = (input: string): string[] => {
+  const addresses = input.split(/[\s,]+/).filter(Boolean);
+  return [...new Map(addresses.map(address => [address.toLowerCase(), address])).values()];
+};
+
+// Evaluates a list of candidates against one set of encrypted requirements in a single transaction
+export const BatchEvaluator = ({ fhevmInstance }: BatchEvaluatorProps) => {
+  const { address } = useAccount();
+  const { chainId, contractAddress, getContract, getSigner, getSignedContract } = useSecureResumeContract();
+  const { encrypt, userDecrypt } = useFhevmWorker({ chainId, instance: fhevmInstance });
+  const { storage } = useInMemoryStorage();
+  const { trackTransaction, setTransactionResult } = useTransactionActivity();
+
+  const [candidateInput, setCandidateInput] = useState("");
+  const [requirements, setRequirements] = useState<RequirementInput[]>([{ name: "", minLevel: 5 }]);
+  const [maxSkills, setMaxSkills] = useState(5);
+  const [shortlist, setShortlist] = useState<ShortlistEntry[]>([]);
+  // Requirements the current shortlist was evaluated against, the form may have changed since
+  const [shortlistRequirements, setShortlistRequirements] = useState<RequirementInput[]>([]);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    if (!contractAddress) return;
+    getContract().maxSkills()
+      .then(value => setMaxSkills(Number(value)))
+      .catch(error => console.error("Error loading skill limit:", error));
+  }, [contractAddress, getContract]);
+
+  const updateRequirement = (index: number, field: keyof RequirementInput, value: string | number) => {
+    const updated = [...requirements];
+    updated[index] = { ...updated[index], [field]: value };
+    setRequirements(updated);
+  };
+
+  const evaluateBatch = async () => {
+    const candidates = parseAddresses(candidateInput);
+
+    if (candidates.length === 0 || candidates.length > MAX_BATCH_SIZE) {
+      setMessage(`Please enter between 1 and ${MAX_BATCH_SIZE} candidate addresses`);
+      return;
+    }
+
+    const invalid = candidates.find(candidate => !ethers.isAddress(candidate));
+    if (invalid) {
+      setMessage(`Invalid candidate address: ${invalid}`);
+      return;
+    }
+
+    if (requirements.some(requirement => !requirement.name.trim())) {
+      setMessage("Please fill in every required skill name");
+      return;
+    }
+
+    if (!fhevmInstance || !address) {
+      setMessage("FHEVM instance not available");
+      return;
+    }
+
+    setIsEvaluating(true);
+    setMessage("");
+    setShortlist([]);
+
+    try {
+      if (!contractAddress) {
+        throw new Error(`Contract not deployed on network ${chainId}`);
+      }
+
+      const signer = await getSigner();
+      const contract = await getSignedContract();
+
+      setMessage("🔐 Encrypting minimum levels with FHEVM...");
+
+      const { handles, inputProof } = await encrypt(
+        contractAddress as `0x${string}`,
+        address as `0x${string}`,
+        requirements.map((requirement) => ({ type: "uint32", value: requirement.minLevel }))
+      );
+
+      setMessage(`📤 Evaluating ${candidates.length} candidates...`);
+
+      const tx = await contract.batchEvaluate(
+        candidates,
+        requirements.map(requirement => requirement.name.trim()),
+        handles,
+        inputProof
+      );
+      setMessage(`⏳ Transaction submitted: ${tx.hash}. Waiting for confirmation...`);
+      const receipt = await trackTransaction(tx, {
+        kind: "evaluation",
+        label: `Batch evaluation of ${candidates.length} candidates`,
+      });
+
+      // Every result handle of the batch is emitted with BatchEvaluated
+      const batchEvent = findReceiptEvent(contract, receipt, "BatchEvaluated");
+      const overallHandles: string[] = [...batchEvent.args.overallMatches];
+      const countHandles: string[] = [...batchEvent.args.matchCounts];
+
+      const sig = await FhevmDecryptionSignature.loadOrSign(
+        fhevmInstance,
+        [contractAddress],
+        signer,
+        storage
+      );
+
+      if (!sig) {
+        throw new Error("Failed to create decryption signature");
+      }
+
+      setMessage("🔓 Decrypting batch results with FHEVM...");
+
+      // One decryption request for the whole batch
+      const decryptedResults = await userDecrypt(
+        [...overallHandles, ...countHandles].map(handle => ({ handle, contractAddress })),
+        sig
+      );
+
+      const readContract = getContract();
+      const entries = await Promise.all(
+        candidates.map(async (candidate, index) => ({
+          rank: 0,
+          address: ethers.getAddress(candidate),
+          // Candidates without a resume are evaluated as meeting no requirement
+          name: (await readContract.hasResume(candidate))
+            ? (await readContract.getResumeInfo(candidate)).name
+            : "No resume",
+          overallMatch: Boolean(decryptedResults[overallHandles[index]]),
+          matchCount: Number(decryptedResults[countHandles[index]]),
+        }))
+      );
+
+      // Full matches first, then by number of requirements met
+      entries.sort((a, b) => Number(b.overallMatch) - Number(a.overallMatch) || b.matchCount - a.matchCount);
+      setShortlist(entries.map((entry, index) => ({ ...entry, rank: index + 1 })));
+      setShortlistRequirements(requirements);
+      setTransactionResult(
+        tx.hash,
+        `${entries.filter(entry => entry.overallMatch).length} of ${candidates.length} candidates meet every requirement`
+      );
+
+      setMessage(`✅ ${candidates.length} candidates evaluated successfully.`);
+    } catch (error) {
+      console.error("Batch evaluation error:", error);
+      setMessage(`❌ Failed to evaluate candidates: ${errorMessage(error)}`);
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+
+  const exportCsv = () => {
+    const header = "rank,name,address,requirements_met,requirement_count,qualified";
+    const rows = shortlist.map(entry =>
+      [
+        entry.rank,
+        `"${entry.name.replace(/"/g, '""')}"`,
+        entry.address,
+        entry.matchCount,
+        shortlistRequirements.length,
+        entry.overallMatch,
+      ].join(",")
+    );
+    downloadFile("shortlist.csv", [header, ...rows].join("\n"), "text/csv");
+  };
+
+  const exportJson = () => {
+    downloadFile(
+      "shortlist.json",
+      JSON.stringify({ requirements: shortlistRequirements, candidates: shortlist }, null, 2),
+      "application/json"
+    );
+  };
+
+  const buttonClass =
+    "inline-flex items-center justify-center rounded-2xl px-6 py-3 font-semibold text-white shadow-lg " +
+    "transition-all duration-300 hover:scale-105 active:scale-95 " +
+    "focus-visible:outline-none focus-visible:ring-4 focus-visible:ring-purple-300 focus-visible:ring-offset-2 " +
+    "disabled:opacity-50 disabled:pointer-events-none bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600";
+
+  return (
+    <div className="bg-gradient-to-br from-teal-50 to-cyan-50 rounded-2xl p-6 mb-6 shadow-md border-2 border-teal-100">
+      <div className="flex items-center space-x-2 mb-5">
+        <span className="text-2xl">📋</span>
+        <h3 className="text-xl font-bold text-teal-800">Batch Evaluation</h3>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Candidate Addresses (up to {MAX_BATCH_SIZE})
+          </label>
+          <textarea
+            value={candidateInput}
+            onChange={(e) => setCandidateInput(e.target.value)}
+            rows={4}
+            placeholder="One address per line, or separated by commas"
+            className="w-full px-4 py-3 border-2 border-teal-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-teal-300 focus:border-teal-400 transition-all font-mono text-sm"
+          />
+        </div>
+
+        {requirements.map((requirement, index) => (
+          <div key={index} className="flex flex-col sm:flex-row gap-3 items-end">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Required Skill *
+              </label>
+              <input
+                type="text"
+                value={requirement.name}
+                onChange={(e) => updateRequirement(index, "name", e.target.value)}
+                className="w-full px-4 py-3 border-2 border-teal-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-teal-300 focus:border-teal-400 transition-all"
+                placeholder="💻 Must match the candidate's skill name"
+              />
+            </div>
+            <div className="w-32">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Min Level 🔐
+              </label>
+              <select
+                value={requirement.minLevel}
+                onChange={(e) => updateRequirement(index, "minLevel", parseInt(e.target.value))}
+                className="w-full px-4 py-3 border-2 border-teal-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-teal-300 focus:border-teal-400 transition-all bg-white"
+              >
+                {[1,2,3,4,5,6,7,8,9,10].map(level => (
+                  <option key={level} value={level}>{level}</option>
+                ))}
+              </select>
+            </div>
+            {requirements.length > 1 && (
+              <button
+                type="button"
+                onClick={() => setRequirements(requirements.filter((_, i) => i !== index))}
+                className="px-3 py-2 text-red-600 hover:text-red-800 font-medium self-start sm:self-end"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        ))}
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          {requirements.length < maxSkills && (
+            <button
+              type="button"
+              onClick={() => setRequirements([...requirements, { name: "", minLevel: 5 }])}
+              className="px-6 py-3 bg-gradient-to-r from-teal-500 to-cyan-500 text-white rounded-2xl hover:from-teal-600 hover:to-cyan-600 transition-all duration-300 shadow-md font-semibold"
+            >
+              ➕ Add Requirement
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={evaluateBatch}
+            disabled={isEvaluating || !fhevmInstance}
+            className={buttonClass + " flex-1"}
+          >
+            {isEvaluating ? "Evaluating..." : "Evaluate Candidates"}
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <p className={`mt-4 text-sm font-medium ${message.includes("successfully") ? "text-green-700" : "text-gray-700"}`}>
+          {message}
+        </p>
+      )}
+
+      {shortlist.length > 0 && (
+        <div className="mt-6">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-bold text-teal-800">Shortlist</h4>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={exportCsv}
+                className="px-4 py-2 rounded-xl text-sm font-semibold text-teal-700 bg-white hover:bg-teal-50 shadow-sm"
+              >
+                ⬇️ CSV
+              </button>
+              <button
+                type="button"
+                onClick={exportJson}
+                className="px-4 py-2 rounded-xl text-sm font-semibold text-teal-700 bg-white hover:bg-teal-50 shadow-sm"
+              >
+                ⬇️ JSON
+              </button>
+            </div>
+          </div>
+          <div className="overflow-x-auto bg-white/80 backdrop-blur-sm rounded-2xl shadow-sm">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-semibold text-gray-500 uppercase">
+                  <th className="px-4 py-3">#</th>
+                  <th className="px-4 py-3">Candidate</th>
+                  <th className="px-4 py-3">Requirements Met</th>
+                  <th className="px-4 py-3">Qualified</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shortlist.map(entry => (
+                  <tr key={entry.address} className="border-t border-gray-100">
+                    <td className="px-4 py-3 font-semibold text-gray-800">{entry.rank}</td>
+                    <td className="px-4 py-3">
+                      <p className="font-semibold text-gray-800">{entry.name}</p>
+                      <p className="text-xs font-mono text-gray-500 break-all">{entry.address}</p>
+                    </td>
+                    <td className="px-4 py-3 text-gray-800">{entry.matchCount}/{shortlistRequirements.length}</td>
+                    <td className="px-4 py-3">{entry.overallMatch ? "✅ Yes" : "❌ No"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-3 text-xs text-gray-600">
+            🔐 Skills a candidate has not shared with you count as not met.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
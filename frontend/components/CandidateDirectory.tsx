@@ -0,0 +1,145 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useCandidateDirectory } from '@/hooks/useCandidateDirectory';
+
+const PAGE_SIZE = 10;
+
+interface CandidateDirectoryProps {
+  onSelect: (candidate: string) => void;
+}
+
+// Searchable list of every candidate with a resume, so HR does not need to know wallet addresses up front
+export const CandidateDirectory = ({ onSelect }: CandidateDirectoryProps) => {
+  const { candidates, isLoading, error, refresh } = useCandidateDirectory();
+
+  const [search, setSearch] = useState("");
+  const [skillFilter, setSkillFilter] = useState("");
+  const [newestFirst, setNewestFirst] = useState(true);
+  const [page, setPage] = useState(0);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    // Comma separated, a candidate must list every requested skill
+    const requiredSkills = skillFilter
+      .split(",")
+      .map((skill) => skill.trim().toLowerCase())
+      .filter(Boolean);
+
+    return candidates
+      .filter((candidate) =>
+        !query ||
+        candidate.name.toLowerCase().includes(query) ||
+        candidate.address.toLowerCase().includes(query)
+      )
+      .filter((candidate) => {
+        const skills = candidate.skillNames.map((skill) => skill.toLowerCase());
+        return requiredSkills.every((required) => skills.some((skill) => skill.includes(required)));
+      })
+      .sort((a, b) =>
+        newestFirst
+          ? b.updatedAt.getTime() - a.updatedAt.getTime()
+          : a.updatedAt.getTime() - b.updatedAt.getTime()
+      );
+  }, [candidates, search, skillFilter, newestFirst]);
+
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const visible = filtered.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  return (
+    <div className="bg-gradient-to-br from-blue-50 to-indigo-50 rounded-2xl p-6 mb-6 shadow-md border-2 border-blue-100">
+      <div className="flex items-center justify-between mb-5">
+        <div className="flex items-center space-x-2">
+          <span className="text-2xl">📇</span>
+          <h3 className="text-xl font-bold text-blue-800">Candidate Directory</h3>
+        </div>
+        <button
+          type="button"
+          onClick={refresh}
+          disabled={isLoading}
+          className="text-sm text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+        >
+          {isLoading ? "⏳ Loading..." : "🔄 Refresh"}
+        </button>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3 mb-4">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => { setSearch(e.target.value); setPage(0); }}
+          placeholder="🔍 Search name or address"
+          className="flex-1 px-4 py-3 border-2 border-blue-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-blue-300 focus:border-blue-400 transition-all"
+        />
+        <input
+          type="text"
+          value={skillFilter}
+          onChange={(e) => { setSkillFilter(e.target.value); setPage(0); }}
+          placeholder="💻 Skills, e.g. Solidity, React"
+          className="flex-1 px-4 py-3 border-2 border-blue-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-blue-300 focus:border-blue-400 transition-all"
+        />
+        <select
+          value={newestFirst ? "newest" : "oldest"}
+          onChange={(e) => setNewestFirst(e.target.value === "newest")}
+          className="px-4 py-3 border-2 border-blue-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-blue-300 focus:border-blue-400 transition-all bg-white"
+        >
+          <option value="newest">Recently updated</option>
+          <option value="oldest">Least recently updated</option>
+        </select>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-700 mb-4">❌ Failed to load candidates: {error}</p>
+      )}
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-blue-700">
+          {isLoading ? "Loading candidates..." : "No candidates match the current filters."}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {visible.map((candidate) => (
+            <button
+              key={candidate.address}
+              type="button"
+              onClick={() => onSelect(candidate.address)}
+              className="w-full text-left bg-white/80 backdrop-blur-sm rounded-2xl px-4 py-3 shadow-sm hover:bg-white transition-all"
+            >
+              <div className="flex items-center justify-between gap-3">
+                <span className="font-semibold text-gray-800">{candidate.name}</span>
+                <span className="text-xs text-gray-500">Updated {candidate.updatedAt.toLocaleString()}</span>
+              </div>
+              <p className="text-xs font-mono text-gray-500 break-all">{candidate.address}</p>
+              <p className="text-sm text-blue-700 mt-1">{candidate.skillNames.join(", ")}</p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {filtered.length > PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-4 text-sm text-blue-800">
+          <button
+            type="button"
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 0}
+            className="px-3 py-1 font-medium disabled:opacity-30"
+          >
+            ← Previous
+          </button>
+          <span>
+            Page {currentPage + 1} of {pageCount} ({filtered.length} candidates)
+          </span>
+          <button
+            type="button"
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage >= pageCount - 1}
+            className="px-3 py-1 font-medium disabled:opacity-30"
+          >
+            Next →
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
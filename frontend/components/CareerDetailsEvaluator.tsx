@@ -0,0 +1,200 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAccount } from 'wagmi';
+import { FhevmInstance } from '@/fhevm/fhevmTypes';
+import { FhevmDecryptionSignature } from '@/fhevm/FhevmDecryptionSignature';
+import { useFhevmWorker } from '@/fhevm/useFhevmWorker';
+import { useInMemoryStorage } from '@/hooks/useInMemoryStorage';
+import { findReceiptEvent, useSecureResumeContract } from '@/hooks/useSecureResumeContract';
+import { useTransactionActivity } from '@/hooks/useTransactionActivity';
+import { decodeError, errorMessage } from '@/lib/errors';
+import { shortAddress } from '@/lib/format';
+
+interface CareerDetailsEvaluatorProps {
+  fhevmInstance: FhevmInstance | undefined;
+  candidateAddress: string;
+}
+
+// An empty maximum means no upper limit
+const NO_MAX_YEARS = 2 ** 32 - 1;
+
+// Checks a candidate's encrypted years of experience and expected salary against HR's encrypted range and budget
+export const CareerDetailsEvaluator = ({ fhevmInstance, candidateAddress }: CareerDetailsEvaluatorProps) => {
+  const { address } = useAccount();
+  const { chainId, contractAddress, getSigner, getSignedContract } = useSecureResumeContract();
+  const { encrypt, userDecrypt } = useFhevmWorker({ chainId, instance: fhevmInstance });
+  const { storage } = useInMemoryStorage();
+  const { trackTransaction, setTransactionResult } = useTransactionActivity();
+
+  const [minYears, setMinYears] = useState("");
+  const [maxYears, setMaxYears] = useState("");
+  const [budget, setBudget] = useState("");
+  const [experienceInRange, setExperienceInRange] = useState<boolean | null>(null);
+  const [withinBudget, setWithinBudget] = useState<boolean | null>(null);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [message, setMessage] = useState("");
+
+  // Results belong to the previous candidate
+  useEffect(() => {
+    setExperienceInRange(null);
+    setWithinBudget(null);
+    setMessage("");
+  }, [candidateAddress]);
+
+  // Encrypt the bounds, run the comparison on-chain and decrypt the ebool it emits
+  const evaluate = async (kind: "experience" | "salary") => {
+    if (kind === "experience" && (!/^\d+$/.test(minYears) || (maxYears !== "" && !/^\d+$/.test(maxYears)))) {
+      setMessage("Years must be whole numbers");
+      return;
+    }
+
+    if (kind === "experience" && maxYears !== "" && Number(maxYears) < Number(minYears)) {
+      setMessage("Maximum years must not be below the minimum");
+      return;
+    }
+
+    if (kind === "salary" && !/^\d+$/.test(budget)) {
+      setMessage("Budget must be a whole number");
+      return;
+    }
+
+    if (!fhevmInstance || !address) {
+      setMessage("FHEVM instance not available");
+      return;
+    }
+
+    setIsEvaluating(true);
+    setMessage("");
+
+    try {
+      if (!contractAddress) {
+        throw new Error(`Contract not deployed on network ${chainId}`);
+      }
+
+      const signer = await getSigner();
+      const contract = await getSignedContract();
+
+      setMessage(kind === "experience" ? "🔐 Encrypting experience range with FHEVM..." : "🔐 Encrypting budget with FHEVM...");
+
+      const { handles, inputProof } = await encrypt(
+        contractAddress as `0x${string}`,
+        address as `0x${string}`,
+        kind === "experience"
+          ? [
+              { type: "uint32", value: Number(minYears) },
+              { type: "uint32", value: maxYears === "" ? NO_MAX_YEARS : Number(maxYears) },
+            ]
+          : [{ type: "uint64", value: BigInt(budget) }]
+      );
+
+      const tx = kind === "experience"
+        ? await contract.evaluateExperienceRange(candidateAddress, handles[0], handles[1], inputProof)
+        : await contract.evaluateSalaryBudget(candidateAddress, handles[0], inputProof);
+      setMessage(`⏳ Transaction submitted: ${tx.hash}. Waiting for confirmation...`);
+      const receipt = await trackTransaction(tx, {
+        kind: "evaluation",
+        label: `${kind === "experience" ? "Experience" : "Salary"} check for ${shortAddress(candidateAddress)}`,
+      });
+
+      const resultHandle: string = findReceiptEvent(
+        contract,
+        receipt,
+        kind === "experience" ? "ExperienceEvaluated" : "SalaryEvaluated"
+      ).args.result;
+
+      const sig = await FhevmDecryptionSignature.loadOrSign(
+        fhevmInstance,
+        [contractAddress],
+        signer,
+        storage
+      );
+
+      if (!sig) {
+        throw new Error("Failed to create decryption signature");
+      }
+
+      setMessage("🔓 Decrypting with FHEVM...");
+
+      // Only the pass/fail bit is decrypted, the candidate's value stays private
+      const decryptedResults = await userDecrypt([{ handle: resultHandle, contractAddress }], sig);
+      const result = Boolean(decryptedResults[resultHandle]);
+
+      if (kind === "experience") {
+        setExperienceInRange(result);
+        setTransactionResult(tx.hash, result ? "Experience within range" : "Experience outside range");
+      } else {
+        setWithinBudget(result);
+        setTransactionResult(tx.hash, result ? "Expected salary within budget" : "Expected salary above budget");
+      }
+      setMessage(`✅ ${kind === "experience" ? "Experience" : "Salary"} check completed successfully.`);
+    } catch (error) {
+      console.error("Career details evaluation error:", error);
+      const decoded = decodeError(error);
+      setMessage(
+        decoded.code === "CareerDetailsNotProvided"
+          ? `ℹ️ ${decoded.message}`
+          : `❌ Failed to evaluate ${kind}: ${errorMessage(error)}`
+      );
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-4 py-3 border-2 border-amber-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-amber-300 focus:border-amber-400 transition-all";
+  const buttonClass =
+    "px-6 py-3 bg-gradient-to-r from-amber-500 to-orange-500 text-white rounded-2xl hover:from-amber-600 hover:to-orange-600 " +
+    "transition-all duration-300 shadow-md font-semibold disabled:opacity-50 disabled:pointer-events-none";
+  const resultLabel = (result: boolean | null, pass: string, fail: string) =>
+    result === null ? null : <p className="text-sm font-semibold mt-2">{result ? `✅ ${pass}` : `❌ ${fail}`}</p>;
+
+  return (
+    <div className="bg-gradient-to-br from-amber-50 to-orange-50 rounded-2xl p-6 shadow-md border-2 border-amber-100">
+      <div className="flex items-center space-x-2 mb-5">
+        <span className="text-2xl">💰</span>
+        <h3 className="text-xl font-bold text-amber-800">Experience & Salary</h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <div className="grid grid-cols-2 gap-3 mb-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Min Years 🔐</label>
+              <input type="number" min={0} value={minYears} onChange={(e) => setMinYears(e.target.value)} className={inputClass} placeholder="e.g., 3" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Max Years 🔐</label>
+              <input type="number" min={0} value={maxYears} onChange={(e) => setMaxYears(e.target.value)} className={inputClass} placeholder="No limit" />
+            </div>
+          </div>
+          <button type="button" onClick={() => evaluate("experience")} disabled={isEvaluating || !fhevmInstance} className={buttonClass + " w-full"}>
+            Check Experience
+          </button>
+          {resultLabel(experienceInRange, "Experience within range", "Experience outside range")}
+        </div>
+
+        <div>
+          <div className="mb-3">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Yearly Budget 🔐</label>
+            <input type="number" min={0} value={budget} onChange={(e) => setBudget(e.target.value)} className={inputClass} placeholder="e.g., 90000" />
+          </div>
+          <button type="button" onClick={() => evaluate("salary")} disabled={isEvaluating || !fhevmInstance} className={buttonClass + " w-full"}>
+            Check Salary
+          </button>
+          {resultLabel(withinBudget, "Expected salary within budget", "Expected salary above budget")}
+        </div>
+      </div>
+
+      {message && (
+        <p className={`mt-4 text-sm font-medium ${message.includes("successfully") ? "text-green-700" : "text-gray-700"}`}>
+          {message}
+        </p>
+      )}
+
+      <p className="mt-4 text-xs text-gray-600">
+        🔐 Your range and budget are encrypted too. Only the yes/no result is decrypted, never the candidate&apos;s values.
+      </p>
+    </div>
+  );
+};
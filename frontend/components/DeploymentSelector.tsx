@@ -0,0 +1,37 @@
+"use client";
+
+import { useDeploymentSelection } from '@/hooks/useDeploymentSelection';
+import { DeploymentRecord, deploymentsOn, isAbiCompatible, LATEST_DEPLOYMENT, latestDeployment } from '@/lib/registry';
+import { shortAddress } from '@/lib/format';
+
+// Picks which SecureResume deployment on the current chain the app talks to, remembered per chain
+export const DeploymentSelector = ({ chainId }: { chainId: number }) => {
+  const { selection, selectDeployment } = useDeploymentSelection();
+  const deployments = deploymentsOn(chainId);
+
+  if (deployments.length === 0) {
+    return null;
+  }
+
+  const latest = latestDeployment(chainId);
+  const label = (deployment: DeploymentRecord) =>
+    `v${deployment.version} · ${shortAddress(deployment.address)}${
+      deployment.stale ? " ⚠️ stale" : isAbiCompatible(deployment) ? "" : " ⚠️ other ABI"
+    }`;
+
+  return (
+    <select
+      value={selection[chainId] ?? LATEST_DEPLOYMENT}
+      onChange={(e) => selectDeployment(chainId, e.target.value)}
+      className="px-4 py-2 bg-white/60 backdrop-blur-sm rounded-full text-sm text-gray-700 font-medium shadow-md focus:outline-none focus:ring-4 focus:ring-purple-300"
+      title="SecureResume deployment"
+    >
+      <option value={LATEST_DEPLOYMENT}>Latest ({latest ? label(latest) : "none, every deployment is stale"})</option>
+      {[...deployments].reverse().map((deployment) => (
+        <option key={deployment.address} value={deployment.address}>
+          {label(deployment)} · block {deployment.deployBlock}
+        </option>
+      ))}
+    </select>
+  );
+};
@@ -1,38 +1,121 @@
-export function ErrorNotDeployed({ chainId }: { chainId: number | undefined }) {
+import { ReactNode } from "react";
+import { DeploymentSelector } from "./DeploymentSelector";
+import { DeploymentCheck } from "@/lib/deployment";
+import { CHAINS, deploymentsOn, rpcUrlVariables } from "@/lib/registry";
+
+const Command = ({ comment, children }: { comment: string; children: ReactNode }) => (
+  <p className="font-mono text-lg leading-relaxed bg-black text-white p-4 mt-6 rounded-xl">
+    <span className="opacity-50 italic text-red-500">#{comment}</span>
+    <br />
+    {children}
+  </p>
+);
+
+const _problem = (isLocal: boolean, check: DeploymentCheck): string => {
+  switch (check.status) {
+    case "no-address":
+      return "has no deployment for this network in the registry root/registry/SecureResume.json.";
+    case "no-code":
+      return isLocal
+        ? `is not deployed at ${check.address}. The Hardhat node was probably restarted, which wipes its state.`
+        : `is not deployed at ${check.address}.`;
+    case "abi-mismatch":
+      return (
+        `at ${check.address} is a different version than this frontend was built for. ` +
+        `It is missing ${check.missingFunctions.join(", ")}.`
+      );
+    default:
+      return `could not be checked because the node is not reachable: ${check.error}`;
+  }
+};
+
+export function ErrorNotDeployed({
+  chainId,
+  check,
+  onRetry,
+}: {
+  chainId: number | undefined;
+  check: DeploymentCheck;
+  onRetry?: () => void;
+}) {
+  const chain = chainId === undefined ? undefined : CHAINS[chainId];
+  const isLocal = chain?.mock === true;
+  const isRemote = chain !== undefined && !isLocal;
+  const otherChains = Object.entries(CHAINS).filter(([id]) => Number(id) !== chainId);
+
   return (
     <div className="grid w-full gap-4 mx-auto font-semibold bg-none">
       <div className="col-span-full mx-20">
         <p className="text-4xl leading-relaxed">
           {" "}
           <span className="font-mono bg-red-500">Error</span>:{" "}
-          <span className="font-mono bg-white">SecureResume.sol</span> Contract
-          Not Deployed on{" "}
+          <span className="font-mono bg-white">SecureResume.sol</span> on{" "}
           <span className="font-mono bg-white">chainId={chainId}</span>{" "}
-          {chainId === 11155111 ? "(Sepolia)" : ""} or Deployment Address
-          Missing.
+          {chain ? `(${chain.name})` : ""}
         </p>
         <p className="text-xl leading-relaxed mt-8">
-          It appears that the{" "}
-          <span className="font-mono bg-white">SecureResume.sol</span> contract
-          has either not been deployed yet, or the deployment address is missing
-          from the ABI directory{" "}
-          <span className="font-mono bg-white">root/frontend/abi</span>. To
-          deploy <span className="font-mono bg-white">SecureResume.sol</span> on
-          Sepolia, run the following command:
-        </p>
-        <p className="font-mono text-2xl leading-relaxed bg-black text-white p-4 mt-12">
-          <span className="opacity-50 italic text-red-500">
-            #from &lt;root&gt;/secure-career
-          </span>
-          <br />
-          npx hardhat deploy --network{" "}
-          {chainId === 11155111 ? "sepolia" : "your-network-name"}
-        </p>
-        <p className="text-xl leading-relaxed mt-12">
-          Alternatively, switch to the local{" "}
-          <span className="font-mono bg-white">Hardhat Node</span> using the
-          Rainbow wallet extension.
+          The <span className="font-mono bg-white">SecureResume.sol</span> contract {_problem(isLocal, check)}
         </p>
+
+        {isLocal && (
+          <>
+            {check.status === "unreachable" && (
+              <Command comment="from <root>, leave it running">npx hardhat node</Command>
+            )}
+            <Command comment="from <root>, deploys the current contract to the local node">
+              npx hardhat deploy --network localhost
+            </Command>
+            <Command comment="from <root>/frontend, picks up the new address and ABI">npm run genabi</Command>
+          </>
+        )}
+
+        {isRemote && (
+          <>
+            <p className="text-xl leading-relaxed mt-8">
+              Deploying to {chain.name} needs a funded account and the RPC settings, set once as Hardhat variables:
+            </p>
+            <Command comment="from <root>">
+              {["MNEMONIC", ...rpcUrlVariables(chain)].map((name) => (
+                <span key={name}>
+                  npx hardhat vars set {name}
+                  <br />
+                </span>
+              ))}
+              npx hardhat deploy --network {chain.network}
+            </Command>
+            <Command comment="from <root>/frontend, picks up the new address and ABI">npm run genabi</Command>
+          </>
+        )}
+
+        {!chain && (
+          <p className="text-xl leading-relaxed mt-8">
+            SecureResume runs on {otherChains.map(([id, other]) => `${other.name} (chainId=${id})`).join(", ")}.
+            Switch to one of them in your wallet, or add this chain to root/registry/SecureResume.json.
+          </p>
+        )}
+
+        {chain && otherChains.length > 0 && (
+          <p className="text-xl leading-relaxed mt-12">
+            Alternatively, switch to {otherChains.map(([, other]) => other.name).join(" or ")} using the Rainbow wallet
+            extension.
+          </p>
+        )}
+
+        {chainId !== undefined && deploymentsOn(chainId).length > 1 && (
+          <p className="text-xl leading-relaxed mt-12">
+            Or pick another deployment on this network: <DeploymentSelector chainId={chainId} />
+          </p>
+        )}
+
+        {onRetry && (
+          <button
+            type="button"
+            onClick={onRetry}
+            className="mt-8 px-6 py-3 rounded-2xl text-white bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 shadow-lg"
+          >
+            🔄 Check again
+          </button>
+        )}
       </div>
     </div>
   );
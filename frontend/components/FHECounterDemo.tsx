@@ -93,7 +93,7 @@ export const FHECounterDemo = () => {
   }
 
   if (fheCounter.isDeployed === false) {
-    return <ErrorNotDeployed chainId={chainId} />;
+    return <ErrorNotDeployed chainId={chainId} check={{ status: "no-address", missingFunctions: [] }} />;
   }
 
   return (
@@ -1,30 +1,71 @@
 "use client";
 
 import { useState, useCallback, useEffect } from "react";
-import { useAccount, useChainId } from 'wagmi';
+import { useAccount } from 'wagmi';
 import { ethers } from 'ethers';
-import { SecureResumeABI } from '@/abi/SecureResumeABI';
-import { SecureResumeAddresses } from '@/abi/SecureResumeAddresses';
+import { BatchEvaluator } from './BatchEvaluator';
+import { CandidateDirectory } from './CandidateDirectory';
+import { CareerDetailsEvaluator } from './CareerDetailsEvaluator';
 import { useFhevm } from '@/fhevm/useFhevm';
+import { useFhevmWorker } from '@/fhevm/useFhevmWorker';
 import { FhevmDecryptionSignature } from '@/fhevm/FhevmDecryptionSignature';
 import { useInMemoryStorage } from '@/hooks/useInMemoryStorage';
+import { findReceiptEvent, useSecureResumeContract } from '@/hooks/useSecureResumeContract';
+import { DEFAULT_SKILL_WEIGHT, ScoringProfile, useScoringProfiles } from '@/hooks/useScoringProfiles';
+import { useTransactionActivity } from '@/hooks/useTransactionActivity';
+import { lastSkillChange, loadResumeVersions } from '@/lib/resumeVersions';
+import { errorMessage } from '@/lib/errors';
+import { shortAddress } from '@/lib/format';
 
 interface CandidateSkill {
   name: string;
   meetsRequirement: boolean | null; // null = not evaluated, true/false = evaluation result
+  shared: boolean; // whether the candidate granted us evaluation access to this skill
 }
 
 interface Candidate {
   address: string;
   name: string;
   skills: CandidateSkill[];
-  totalScore: number | null;
+  score: WeightedScore | null;
+  versionCount: number;
+  skillsChangedAt: Date | null; // latest version that added, removed or re-submitted a skill
 }
 
+interface WeightedScore {
+  weighted: number;
+  max: number;
+  normalized: number; // percentage of max, 0-100
+}
+
+// Required level each skill match handle was computed for. The contract only stores the encrypted result,
+// so this is kept in localStorage to reuse a result after a reload as well.
+const SKILL_MATCH_LEVELS_KEY = "secure-resume.skill-match-levels";
+
+const MAX_SKILL_MATCH_LEVELS = 200;
+
+const _loadSkillMatchLevels = (): Record<string, number> => {
+  try {
+    const stored = window.localStorage.getItem(SKILL_MATCH_LEVELS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Failed to load skill match levels:", error);
+    return {};
+  }
+};
+
+const _saveSkillMatchLevel = (handle: string, requiredLevel: number) => {
+  // Keys keep their insertion order, so the oldest handles are dropped first
+  const levels = Object.entries({ ..._loadSkillMatchLevels(), [handle]: requiredLevel });
+  const kept = Object.fromEntries(levels.slice(-MAX_SKILL_MATCH_LEVELS));
+  window.localStorage.setItem(SKILL_MATCH_LEVELS_KEY, JSON.stringify(kept));
+};
+
 export const HREvaluator = () => {
   const { address, isConnected } = useAccount();
-  const chainId = useChainId();
+  const { chainId, contractAddress, getSigner, getContract, getSignedContract } = useSecureResumeContract();
   const { storage } = useInMemoryStorage();
+  const { trackTransaction, setTransactionResult } = useTransactionActivity();
   const [candidateAddress, setCandidateAddress] = useState("");
   const [candidate, setCandidate] = useState<Candidate | null>(null);
   const [requiredSkill, setRequiredSkill] = useState("");
@@ -34,7 +75,15 @@ export const HREvaluator = () => {
   const [isCalculatingScore, setIsCalculatingScore] = useState(false);
   const [message, setMessage] = useState("");
   const [isHR, setIsHR] = useState<boolean | null>(null);
-  const [isAuthorizing, setIsAuthorizing] = useState(false);
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [requestAdmin, setRequestAdmin] = useState("");
+  const [pendingRequestAdmin, setPendingRequestAdmin] = useState<string | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [pendingRequests, setPendingRequests] = useState<string[]>([]);
+  const { profiles, saveProfile, deleteProfile } = useScoringProfiles();
+  const [weights, setWeights] = useState<ScoringProfile>({});
+  const [selectedProfile, setSelectedProfile] = useState("");
+  const [profileName, setProfileName] = useState("");
 
   // Get FHEVM instance
   const provider = typeof window !== 'undefined' ? window.ethereum : undefined;
@@ -43,6 +92,11 @@ export const HREvaluator = () => {
     chainId,
     enabled: isConnected && !!address,
   });
+  const { encrypt, userDecrypt } = useFhevmWorker({
+    chainId,
+    instance: fhevmInstance,
+    enabled: isConnected && !!address,
+  });
 
   // Check if current address is authorized as HR
   const checkHRStatus = useCallback(async () => {
@@ -52,62 +106,89 @@ export const HREvaluator = () => {
     }
 
     try {
-      if (!window.ethereum) {
-        throw new Error("No Ethereum wallet found");
-      }
-
-      const contractAddress = SecureResumeAddresses[chainId.toString() as keyof typeof SecureResumeAddresses]?.address;
       if (!contractAddress) {
         setIsHR(null);
         return;
       }
 
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const contract = new ethers.Contract(contractAddress, SecureResumeABI.abi, provider);
+      const contract = getContract();
       const hrStatus = await contract.hrAddresses(address);
       setIsHR(hrStatus);
+
+      // Pending request sent by this address, if any
+      const requestedAdmin: string = await contract.hrAccessRequests(address);
+      setPendingRequestAdmin(requestedAdmin === ethers.ZeroAddress ? null : requestedAdmin);
+
+      // Default the request target to the contract owner
+      const owner: string = await contract.owner();
+      setRequestAdmin(prev => prev || owner);
+
+      // Owners and organization admins review the requests sent to them
+      const adminStatus = owner.toLowerCase() === address.toLowerCase() || await contract.orgAdmins(address);
+      setIsAdmin(adminStatus);
+      setPendingRequests(adminStatus ? await contract.getPendingHRRequests(address) : []);
     } catch (error) {
       console.error("Error checking HR status:", error);
       setIsHR(null);
     }
-  }, [address, chainId, isConnected]);
+  }, [address, isConnected, contractAddress, getContract]);
 
-  // Authorize current address as HR
-  const authorizeAsHR = async () => {
+  // Ask an admin to authorize the current address as HR
+  const requestHRAccess = async () => {
     if (!address || !isConnected) {
       setMessage("Please connect your wallet first");
       return;
     }
 
-    setIsAuthorizing(true);
+    if (!ethers.isAddress(requestAdmin)) {
+      setMessage("Please enter a valid admin address");
+      return;
+    }
+
+    setIsRequesting(true);
     setMessage("");
 
     try {
-      if (!window.ethereum) {
-        throw new Error("No Ethereum wallet found");
-      }
+      const contract = await getSignedContract();
 
-      const contractAddress = SecureResumeAddresses[chainId.toString() as keyof typeof SecureResumeAddresses]?.address;
-      if (!contractAddress) {
-        throw new Error(`Contract not deployed on network ${chainId}`);
-      }
+      setMessage("📨 Requesting HR access...");
+      const tx = await contract.requestHRAccess(requestAdmin);
+      setMessage(`⏳ Transaction submitted: ${tx.hash}. Waiting for confirmation...`);
 
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const signer = await provider.getSigner();
-      const contract = new ethers.Contract(contractAddress, SecureResumeABI.abi, signer);
+      await trackTransaction(tx, { kind: "hr", label: `HR access request to ${shortAddress(requestAdmin)}` });
+      setMessage("✅ HR access requested successfully! An admin needs to approve it.");
+      setPendingRequestAdmin(requestAdmin);
+    } catch (error) {
+      console.error("Request error:", error);
+      setMessage(`Failed to request HR access: ${errorMessage(error)}`);
+    } finally {
+      setIsRequesting(false);
+    }
+  };
 
-      setMessage("🔐 Authorizing as HR...");
-      const tx = await contract.authorizeHR(address);
-      setMessage(`⏳ Transaction submitted: ${tx.hash}. Waiting for confirmation...`);
+  // Admin: approve or reject a pending HR access request
+  const respondToRequest = async (requester: string, approve: boolean) => {
+    if (!address || !isConnected) return;
+
+    setIsRequesting(true);
+    setMessage("");
 
-      await tx.wait();
-      setMessage("✅ Successfully authorized as HR!");
-      setIsHR(true);
+    try {
+      const contract = await getSignedContract();
+
+      const tx = approve ? await contract.authorizeHR(requester) : await contract.rejectHRRequest(requester);
+      await trackTransaction(tx, {
+        kind: "hr",
+        label: `${approve ? "Authorize" : "Reject"} HR access for ${shortAddress(requester)}`,
+      });
+
+      setMessage(approve ? `✅ Successfully authorized ${requester} as HR` : `Rejected HR request from ${requester}`);
+      await checkHRStatus();
     } catch (error) {
-      console.error("Authorization error:", error);
-      setMessage(`Failed to authorize as HR: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error("Request review error:", error);
+      setMessage(`Failed to ${approve ? "approve" : "reject"} request: ${errorMessage(error)}`);
     } finally {
-      setIsAuthorizing(false);
+      setIsRequesting(false);
     }
   };
 
@@ -116,8 +197,8 @@ export const HREvaluator = () => {
     checkHRStatus();
   }, [checkHRStatus]);
 
-  const loadCandidate = async () => {
-    if (!candidateAddress.trim()) {
+  const loadCandidate = async (target: string = candidateAddress) => {
+    if (!target.trim()) {
       setMessage("Please enter a candidate address");
       return;
     }
@@ -126,51 +207,55 @@ export const HREvaluator = () => {
     setMessage("");
 
     try {
-      if (!window.ethereum) {
-        throw new Error("No Ethereum wallet found");
-      }
-
-      // Get contract address for current network
-      const contractAddress = SecureResumeAddresses[chainId.toString() as keyof typeof SecureResumeAddresses]?.address;
-
       if (!contractAddress) {
         throw new Error(`Contract not deployed on network ${chainId}`);
       }
 
       console.log('Loading candidate from contract:', contractAddress);
 
-      // Create contract instance
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const contract = new ethers.Contract(contractAddress, SecureResumeABI.abi, provider);
+      const contract = getContract();
 
       // Check if candidate has resume
-      const hasResume = await contract.hasResume(candidateAddress);
+      const hasResume = await contract.hasResume(target);
       if (!hasResume) {
         throw new Error("Candidate has not submitted a resume");
       }
 
       // Get resume info
-      const resumeInfo = await contract.getResumeInfo(candidateAddress);
+      const resumeInfo = await contract.getResumeInfo(target);
       console.log('Candidate resume info loaded:', resumeInfo);
 
-      // Create skill objects with null evaluation status
-      const skills = resumeInfo[3].map((skillName: string) => ({
-        name: skillName,
-        meetsRequirement: null
-      }));
+      // Create skill objects with null evaluation status, noting which skills the candidate shared with us
+      const skills = await Promise.all(
+        resumeInfo[3].map(async (skillName: string, index: number) => ({
+          name: skillName,
+          meetsRequirement: null,
+          shared: address ? await contract.canEvaluate(target, address, index) : false,
+        }))
+      );
+
+      const versions = await loadResumeVersions(contract, target);
 
       setCandidate({
-        address: candidateAddress,
+        address: target,
         name: resumeInfo[0],
         skills: skills,
-        totalScore: null,
+        score: null,
+        versionCount: versions.length,
+        skillsChangedAt: lastSkillChange(versions)?.updatedAt ?? null,
       });
 
+      // Start from the selected profile, falling back to equal weights
+      const profile = profiles[selectedProfile] ?? {};
+      setWeights(Object.fromEntries(
+        (resumeInfo[3] as string[]).map((skillName) => [skillName, profile[skillName] ?? DEFAULT_SKILL_WEIGHT])
+      ));
+
       setMessage("Candidate resume loaded successfully.");
 
     } catch (error) {
       console.error("Loading error:", error);
-      setMessage(`Failed to load candidate resume: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setMessage(`Failed to load candidate resume: ${errorMessage(error)}`);
       setCandidate(null);
     } finally {
       setIsEvaluating(false);
@@ -188,21 +273,17 @@ export const HREvaluator = () => {
     setMessage("");
 
     try {
-      if (!window.ethereum || !address) {
-        throw new Error("No Ethereum wallet found or not connected");
+      if (!address) {
+        throw new Error("Wallet not connected");
       }
 
-      // Get contract address for current network
-      const contractAddress = SecureResumeAddresses[chainId.toString() as keyof typeof SecureResumeAddresses]?.address;
-
       if (!contractAddress) {
         throw new Error(`Contract not deployed on network ${chainId}`);
       }
 
       // Create contract instance with signer (HR needs to sign the transaction)
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const signer = await provider.getSigner();
-      const contract = new ethers.Contract(contractAddress, SecureResumeABI.abi, signer);
+      const signer = await getSigner();
+      const contract = await getSignedContract();
 
       // Find skill index
       const skillIndex = candidate.skills.findIndex(skill => skill.name === skillName);
@@ -210,38 +291,46 @@ export const HREvaluator = () => {
         throw new Error(`Skill "${skillName}" not found`);
       }
 
-      console.log(`Evaluating skill "${skillName}" at index ${skillIndex} for candidate ${candidate.address}`);
-
-      setMessage("📤 Requesting encrypted skill level from contract...");
-
-      // Call evaluateSkillMatch as a transaction to get permission and encrypted skill level handle
-      // This function returns euint32 (handle) which needs to be decrypted client-side
-      // Note: We need to send a transaction to get FHE permissions, then we can decrypt
-      const tx = await contract.evaluateSkillMatch(candidate.address, skillIndex);
-
-      console.log('Skill evaluation transaction submitted:', tx.hash);
-      setMessage(`⏳ Transaction submitted: ${tx.hash}. Waiting for confirmation...`);
-
-      // Wait for confirmation
-      const receipt = await tx.wait();
-      console.log('Transaction confirmed:', receipt);
-
-      // Get the encrypted skill level handle from the transaction return value
-      // evaluateSkillMatch returns euint32, which in ethers.js is represented as bytes32 (handle)
-      setMessage("🔐 Getting encrypted skill level handle...");
-
-      // After the transaction, we can use staticCall to get the handle
-      // The transaction already granted permissions via FHE.allow
-      const skillHandle = await contract.evaluateSkillMatch.staticCall(
-        candidate.address,
-        skillIndex
-      );
-
-      if (!skillHandle || skillHandle === ethers.ZeroHash || skillHandle === "0x0000000000000000000000000000000000000000000000000000000000000000") {
-        throw new Error("No encrypted skill level found or handle is zero");
+      // The contract keeps our latest result while the skill is unchanged; if it was computed for the same
+      // required level we already hold the ACL grant and can decrypt it again without a transaction
+      const storedHandle = await contract.getSkillMatch(candidate.address, skillIndex);
+      let matchHandle: string;
+      let txHash: string | undefined;
+
+      if (storedHandle !== ethers.ZeroHash && _loadSkillMatchLevels()[storedHandle] === requiredLevel) {
+        setMessage("♻️ Reusing the previous encrypted result for this skill...");
+        matchHandle = storedHandle;
+      } else {
+        setMessage("🔐 Encrypting required level with FHEVM...");
+
+        // The required level is encrypted too, so the comparison happens entirely in ciphertext
+        const { handles, inputProof } = await encrypt(
+          contractAddress as `0x${string}`,
+          address as `0x${string}`,
+          [{ type: "uint32", value: requiredLevel }]
+        );
+
+        setMessage("📤 Requesting encrypted skill match from contract...");
+
+        // The transaction grants us access to the encrypted comparison result via FHE.allow
+        const tx = await contract.evaluateSkillMatch(candidate.address, skillIndex, handles[0], inputProof);
+
+        setMessage(`⏳ Transaction submitted: ${tx.hash}. Waiting for confirmation...`);
+
+        txHash = tx.hash;
+        const receipt = await trackTransaction(tx, {
+          kind: "evaluation",
+          label: `Skill match for "${skillName}" ≥ ${requiredLevel}, ${shortAddress(candidate.address)}`,
+        });
+
+        // The result handle is emitted with SkillEvaluated
+        matchHandle = findReceiptEvent(contract, receipt, "SkillEvaluated").args.result;
+        _saveSkillMatchLevel(matchHandle, requiredLevel);
       }
 
-      console.log('Encrypted skill handle:', skillHandle);
+      if (!matchHandle || matchHandle === ethers.ZeroHash) {
+        throw new Error("No encrypted match result found or handle is zero");
+      }
 
       // Real FHE decryption using FHEVM
       const sig = await FhevmDecryptionSignature.loadOrSign(
@@ -257,26 +346,13 @@ export const HREvaluator = () => {
 
       setMessage("🔓 Decrypting with FHEVM...");
 
-      // Decrypt the skill level
-      const decryptedResults = await fhevmInstance.userDecrypt(
-        [{ handle: skillHandle, contractAddress }],
-        sig.privateKey,
-        sig.publicKey,
-        sig.signature,
-        sig.contractAddresses,
-        sig.userAddress,
-        sig.startTimestamp,
-        sig.durationDays
-      );
+      // Decrypt only the pass/fail bit, the raw skill level stays private
+      const decryptedResults = await userDecrypt([{ handle: matchHandle, contractAddress }], sig);
 
-      const decryptedLevel = Number(decryptedResults[skillHandle]);
-      console.log(`Decrypted skill level for "${skillName}":`, decryptedLevel);
+      const meetsRequirement = Boolean(decryptedResults[matchHandle]);
 
       setIsDecrypting(false);
 
-      // Compare with required level
-      const meetsRequirement = decryptedLevel >= requiredLevel;
-
       setCandidate(prev => {
         if (!prev) return prev;
         return {
@@ -289,71 +365,114 @@ export const HREvaluator = () => {
         };
       });
 
-      setMessage(`✅ Skill "${skillName}" evaluation complete. Decrypted level: ${decryptedLevel}, Required: ${requiredLevel}. Result: ${meetsRequirement ? '✅ Meets requirement' : '❌ Below requirement'}`);
+      if (txHash) {
+        setTransactionResult(txHash, `"${skillName}" ${meetsRequirement ? "meets" : "is below"} the required level ${requiredLevel}`);
+      }
+
+      setMessage(`✅ Skill "${skillName}" evaluation complete. Required: ${requiredLevel}. Result: ${meetsRequirement ? '✅ Meets requirement' : '❌ Below requirement'}`);
 
     } catch (error) {
       console.error("Evaluation error:", error);
       setIsDecrypting(false);
-      setMessage(`❌ Failed to evaluate skill: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setMessage(`❌ Failed to evaluate skill: ${errorMessage(error)}`);
     } finally {
       setIsEvaluating(false);
     }
   };
 
-  const calculateTotalScore = async () => {
+  const updateWeight = (skillName: string, field: keyof typeof DEFAULT_SKILL_WEIGHT, value: number) => {
+    setWeights(prev => ({
+      ...prev,
+      [skillName]: { ...(prev[skillName] ?? DEFAULT_SKILL_WEIGHT), [field]: value },
+    }));
+  };
+
+  const applyProfile = (name: string) => {
+    setSelectedProfile(name);
+    if (!candidate) return;
+
+    const profile = profiles[name] ?? {};
+    setWeights(Object.fromEntries(
+      candidate.skills.map((skill) => [skill.name, profile[skill.name] ?? DEFAULT_SKILL_WEIGHT])
+    ));
+  };
+
+  const saveCurrentProfile = () => {
+    const name = profileName.trim();
+    if (!name) {
+      setMessage("Please enter a profile name");
+      return;
+    }
+
+    // Merge into an existing profile so weights for skills this candidate lacks are kept
+    saveProfile(name, { ...(profiles[name] ?? {}), ...weights });
+    setSelectedProfile(name);
+    setProfileName("");
+    setMessage(`✅ Scoring profile "${name}" saved successfully`);
+  };
+
+  const calculateWeightedScore = async () => {
     if (!candidate) return;
 
+    // Only skills the candidate shared and that carry weight count towards the score
+    const scoredSkills = candidate.skills
+      .map((skill, index) => ({ index, ...(weights[skill.name] ?? DEFAULT_SKILL_WEIGHT), shared: skill.shared }))
+      .filter((skill) => skill.shared && skill.weight > 0);
+
+    // The contract needs MIN_WEIGHTED_SKILLS (2) skills, so a score is never a single capped level
+    if (scoredSkills.length < 2) {
+      setMessage("Give at least two shared skills a weight above zero");
+      return;
+    }
+
     setIsCalculatingScore(true);
     setMessage("");
 
     try {
-      if (!window.ethereum) {
-        throw new Error("No Ethereum wallet found");
-      }
-
-      // Get contract address for current network
-      const contractAddress = SecureResumeAddresses[chainId.toString() as keyof typeof SecureResumeAddresses]?.address;
-
       if (!contractAddress) {
         throw new Error(`Contract not deployed on network ${chainId}`);
       }
 
-      // Create contract instance with signer
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const signer = await provider.getSigner();
-      const contract = new ethers.Contract(contractAddress, SecureResumeABI.abi, signer);
-
-      // Create skill indices array
-      const skillIndices = candidate.skills.map((_, index) => index);
-
-      console.log(`Calculating total score for candidate ${candidate.address} with skill indices:`, skillIndices);
+      const signer = await getSigner();
+      const contract = await getSignedContract();
 
-      setMessage("📤 Calculating total skill score...");
+      const skillIndices = scoredSkills.map((skill) => skill.index);
+      const skillWeights = scoredSkills.map((skill) => skill.weight);
+      const caps = scoredSkills.map((skill) => skill.cap);
 
-      // Call calculateSkillScore function
-      const tx = await contract.calculateSkillScore(candidate.address, skillIndices);
+      // Scores are stored per set of weights and caps, so an unchanged profile needs no new transaction
+      let [weightedHandle, normalizedHandle] = await contract.getWeightedScore(
+        candidate.address,
+        skillIndices,
+        skillWeights,
+        caps
+      );
+      let txHash: string | undefined;
 
-      console.log('Score calculation transaction submitted:', tx.hash);
-      setMessage(`⏳ Transaction submitted: ${tx.hash}. Waiting for confirmation...`);
+      if (weightedHandle !== ethers.ZeroHash) {
+        setMessage("♻️ Reusing the previous encrypted score for these weights...");
+      } else {
+        setMessage("📤 Calculating weighted skill score...");
 
-      // Wait for confirmation
-      await tx.wait();
+        const tx = await contract.calculateWeightedScore(candidate.address, skillIndices, skillWeights, caps);
 
-      // Get the encrypted total score handle from the transaction return value
-      // calculateSkillScore returns euint32, which in ethers.js is represented as bytes32 (handle)
-      setMessage("🔐 Getting encrypted total score handle...");
+        setMessage(`⏳ Transaction submitted: ${tx.hash}. Waiting for confirmation...`);
 
-      // Use staticCall to get the handle
-      const scoreHandle = await contract.calculateSkillScore.staticCall(
-        candidate.address,
-        skillIndices
-      );
+        txHash = tx.hash;
+        const receipt = await trackTransaction(tx, {
+          kind: "evaluation",
+          label: `Weighted score for ${shortAddress(candidate.address)}`,
+        });
 
-      if (!scoreHandle || scoreHandle === ethers.ZeroHash || scoreHandle === "0x0000000000000000000000000000000000000000000000000000000000000000") {
-        throw new Error("No encrypted total score found or handle is zero");
+        // Both result handles are emitted with SkillScoreCalculated
+        const scoreEvent = findReceiptEvent(contract, receipt, "SkillScoreCalculated");
+        weightedHandle = scoreEvent.args.weightedScore;
+        normalizedHandle = scoreEvent.args.normalizedScore;
       }
 
-      console.log('Encrypted total score handle:', scoreHandle);
+      if (!weightedHandle || weightedHandle === ethers.ZeroHash) {
+        throw new Error("No encrypted score found or handle is zero");
+      }
 
       if (!fhevmInstance) {
         throw new Error("FHEVM instance not available");
@@ -371,36 +490,39 @@ export const HREvaluator = () => {
         throw new Error("Failed to create decryption signature");
       }
 
-      setMessage("🔓 Decrypting total score with FHEVM...");
-
-      // Decrypt the total score
-      const decryptedResults = await fhevmInstance.userDecrypt(
-        [{ handle: scoreHandle, contractAddress }],
-        sig.privateKey,
-        sig.publicKey,
-        sig.signature,
-        sig.contractAddresses,
-        sig.userAddress,
-        sig.startTimestamp,
-        sig.durationDays
+      setMessage("🔓 Decrypting weighted score with FHEVM...");
+
+      const decryptedResults = await userDecrypt(
+        [
+          { handle: weightedHandle, contractAddress },
+          { handle: normalizedHandle, contractAddress },
+        ],
+        sig
       );
 
-      const totalScore = Number(decryptedResults[scoreHandle]);
-      console.log(`Decrypted total score for candidate ${candidate.address}:`, totalScore);
+      const score: WeightedScore = {
+        weighted: Number(decryptedResults[weightedHandle]),
+        max: scoredSkills.reduce((sum, skill) => sum + skill.weight * skill.cap, 0),
+        normalized: Number(decryptedResults[normalizedHandle]),
+      };
 
       setCandidate(prev => {
         if (!prev) return prev;
         return {
           ...prev,
-          totalScore,
+          score,
         };
       });
 
-      setMessage(`✅ Total skill score calculated: ${totalScore}/${candidate.skills.length * 10}`);
+      if (txHash) {
+        setTransactionResult(txHash, `Weighted score ${score.weighted}/${score.max} (${score.normalized}%)`);
+      }
+
+      setMessage(`✅ Weighted score calculated successfully: ${score.weighted}/${score.max} (${score.normalized}%)`);
 
     } catch (error) {
       console.error("Calculation error:", error);
-      setMessage(`❌ Failed to calculate total score: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setMessage(`❌ Failed to calculate weighted score: ${errorMessage(error)}`);
     } finally {
       setIsCalculatingScore(false);
     }
@@ -435,16 +557,31 @@ export const HREvaluator = () => {
             <span className="text-3xl">⚠️</span>
             <div className="flex-1">
               <p className="text-sm font-bold text-orange-900 mb-1">HR Authorization Required</p>
-              <p className="text-sm text-orange-800 leading-relaxed mb-4">
-                You need to be authorized as HR to evaluate candidate skills. Click the button below to authorize your address.
-              </p>
-              <button
-                onClick={authorizeAsHR}
-                disabled={isAuthorizing}
-                className={buttonClass + " w-full"}
-              >
-                {isAuthorizing ? "⏳ Authorizing..." : "🔐 Authorize as HR"}
-              </button>
+              {pendingRequestAdmin ? (
+                <p className="text-sm text-orange-800 leading-relaxed">
+                  Your request for HR access is pending with admin <span className="font-mono break-all">{pendingRequestAdmin}</span>.
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-orange-800 leading-relaxed mb-4">
+                    You need to be authorized as HR to evaluate candidate skills. Ask the contract owner or your organization admin to approve your address.
+                  </p>
+                  <input
+                    type="text"
+                    value={requestAdmin}
+                    onChange={(e) => setRequestAdmin(e.target.value)}
+                    placeholder="🔍 Admin wallet address"
+                    className="w-full px-4 py-3 mb-3 border-2 border-orange-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-orange-300 focus:border-orange-400 transition-all bg-white"
+                  />
+                  <button
+                    onClick={requestHRAccess}
+                    disabled={isRequesting || !requestAdmin}
+                    className={buttonClass + " w-full"}
+                  >
+                    {isRequesting ? "⏳ Requesting..." : "📨 Request HR Access"}
+                  </button>
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -459,6 +596,43 @@ export const HREvaluator = () => {
         </div>
       )}
 
+      {/* Admin: pending HR access requests */}
+      {isConnected && address && isAdmin && (
+        <div className="bg-gradient-to-br from-indigo-50 to-purple-50 rounded-2xl p-6 mb-6 shadow-md border-2 border-indigo-100">
+          <div className="flex items-center space-x-2 mb-4">
+            <span className="text-2xl">🗂️</span>
+            <h3 className="text-xl font-bold text-indigo-800">Pending HR Requests</h3>
+          </div>
+          {pendingRequests.length === 0 ? (
+            <p className="text-sm text-gray-600">No pending requests.</p>
+          ) : (
+            <div className="space-y-3">
+              {pendingRequests.map((requester) => (
+                <div key={requester} className="flex flex-col md:flex-row md:items-center justify-between gap-3 bg-white/80 backdrop-blur-sm rounded-2xl p-4 shadow-sm">
+                  <p className="text-xs font-mono text-gray-700 break-all">{requester}</p>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => respondToRequest(requester, true)}
+                      disabled={isRequesting}
+                      className="px-4 py-2 rounded-xl text-sm font-semibold text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => respondToRequest(requester, false)}
+                      disabled={isRequesting}
+                      className="px-4 py-2 rounded-xl text-sm font-semibold text-red-600 bg-red-50 hover:bg-red-100 disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="bg-gradient-to-r from-amber-50 to-yellow-50 border-2 border-yellow-200 rounded-2xl p-6 mb-6 shadow-md">
         <div className="flex items-start space-x-3">
           <span className="text-3xl">🛡️</span>
@@ -471,6 +645,18 @@ export const HREvaluator = () => {
         </div>
       </div>
 
+      {isConnected && address && isHR === true && (
+        <>
+          <CandidateDirectory
+            onSelect={(selected) => {
+              setCandidateAddress(selected);
+              loadCandidate(selected);
+            }}
+          />
+          <BatchEvaluator fhevmInstance={fhevmInstance} />
+        </>
+      )}
+
       {/* Load Candidate */}
       <div className="bg-gradient-to-br from-gray-50 to-slate-50 rounded-2xl p-6 mb-6 shadow-md border-2 border-gray-100">
         <div className="flex items-center space-x-2 mb-5">
@@ -487,7 +673,7 @@ export const HREvaluator = () => {
             className="flex-1 px-4 py-3 border-2 border-purple-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-purple-300 focus:border-purple-400 transition-all"
           />
           <button
-            onClick={loadCandidate}
+            onClick={() => loadCandidate()}
             disabled={isEvaluating}
             className={buttonClass}
           >
@@ -519,6 +705,21 @@ export const HREvaluator = () => {
               <h3 className="text-xl font-bold text-gray-800">Candidate: {candidate.name}</h3>
             </div>
             <p className="text-sm text-gray-600 font-mono bg-white/60 backdrop-blur-sm rounded-xl px-4 py-2">{candidate.address}</p>
+            <p className="mt-3 text-sm text-gray-600">
+              🗂️ {candidate.versionCount} resume version{candidate.versionCount === 1 ? "" : "s"}
+              {candidate.skillsChangedAt
+                ? `, skill claims last changed ${candidate.skillsChangedAt.toLocaleString()}`
+                : ", skill claims unchanged since submission"}
+            </p>
+            {candidate.skills.every(skill => !skill.shared) ? (
+              <p className="mt-3 text-sm text-yellow-800 bg-yellow-50 border-2 border-yellow-200 rounded-xl px-4 py-2">
+                ⚠️ This candidate has not granted you evaluation access. Ask them to share their resume with your address.
+              </p>
+            ) : (
+              <p className="mt-3 text-sm text-gray-600">
+                Shared skills: {candidate.skills.filter(skill => skill.shared).map(skill => skill.name).join(", ")}
+              </p>
+            )}
           </div>
 
           {/* Individual Skill Evaluation */}
@@ -602,20 +803,98 @@ export const HREvaluator = () => {
               <h3 className="text-xl font-bold text-green-800">Overall Skill Assessment</h3>
             </div>
 
+            {/* Scoring profiles */}
+            <div className="flex flex-col md:flex-row gap-3 mb-4">
+              <select
+                value={selectedProfile}
+                onChange={(e) => applyProfile(e.target.value)}
+                className="flex-1 px-4 py-3 border-2 border-green-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-green-300 focus:border-green-400 transition-all bg-white"
+              >
+                <option value="">Equal weights</option>
+                {Object.keys(profiles).map((name) => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+              {selectedProfile && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    deleteProfile(selectedProfile);
+                    applyProfile("");
+                  }}
+                  className="px-4 py-2 text-red-600 hover:text-red-800 font-medium"
+                >
+                  Delete Profile
+                </button>
+              )}
+            </div>
+
+            {/* Per-skill weights and caps */}
+            <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-4 shadow-sm mb-4">
+              <div className="grid grid-cols-3 gap-3 text-xs font-semibold text-gray-500 uppercase mb-2">
+                <span>Skill</span>
+                <span>Weight</span>
+                <span>Cap (1-10)</span>
+              </div>
+              {candidate.skills.map((skill) => {
+                const skillWeight = weights[skill.name] ?? DEFAULT_SKILL_WEIGHT;
+                return (
+                  <div key={skill.name} className="grid grid-cols-3 gap-3 items-center py-1">
+                    <span className={`text-sm ${skill.shared ? "text-gray-800" : "text-gray-400 line-through"}`}>{skill.name}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={skillWeight.weight}
+                      onChange={(e) => updateWeight(skill.name, "weight", Math.max(0, parseInt(e.target.value) || 0))}
+                      disabled={!skill.shared}
+                      className="px-3 py-2 border-2 border-green-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-300"
+                    />
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={skillWeight.cap}
+                      onChange={(e) => updateWeight(skill.name, "cap", Math.min(10, Math.max(1, parseInt(e.target.value) || 1)))}
+                      disabled={!skill.shared}
+                      className="px-3 py-2 border-2 border-green-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-300"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex flex-col md:flex-row gap-3 mb-4">
+              <input
+                type="text"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="Profile name, e.g. Backend Engineer"
+                className="flex-1 px-4 py-3 border-2 border-green-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-green-300 focus:border-green-400 transition-all"
+              />
+              <button
+                type="button"
+                onClick={saveCurrentProfile}
+                className="px-6 py-3 bg-gradient-to-r from-green-500 to-emerald-500 text-white rounded-2xl hover:from-green-600 hover:to-emerald-600 transition-all duration-300 shadow-md font-semibold"
+              >
+                💾 Save Profile
+              </button>
+            </div>
+
             <div className="flex items-center justify-between mb-4">
               <div>
                 <p className="text-sm text-green-700">
-                  Calculate total proficiency score across all skills
+                  Calculate a weighted score across the shared skills
                 </p>
-                {candidate.totalScore !== null && (
+                {candidate.score !== null && (
                   <p className="text-lg font-bold text-green-800 mt-2">
-                    Total Score: {candidate.totalScore}/40
+                    Weighted Score: {candidate.score.weighted}/{candidate.score.max} ({candidate.score.normalized}%)
                   </p>
                 )}
               </div>
 
               <button
-                onClick={calculateTotalScore}
+                onClick={calculateWeightedScore}
                 disabled={isCalculatingScore || isHR === false}
                 className={buttonClass}
               >
@@ -631,6 +910,8 @@ export const HREvaluator = () => {
               </p>
             </div>
           </div>
+
+          <CareerDetailsEvaluator fhevmInstance={fhevmInstance} candidateAddress={candidate.address} />
         </div>
       )}
     </div>
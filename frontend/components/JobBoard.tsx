@@ -0,0 +1,605 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import { useAccount } from 'wagmi';
+import { useFhevm } from '@/fhevm/useFhevm';
+import { useFhevmWorker } from '@/fhevm/useFhevmWorker';
+import { FhevmDecryptionSignature } from '@/fhevm/FhevmDecryptionSignature';
+import { useInMemoryStorage } from '@/hooks/useInMemoryStorage';
+import { useSecureResumeContract } from '@/hooks/useSecureResumeContract';
+import { useTransactionActivity } from '@/hooks/useTransactionActivity';
+import { lastSkillChange, loadResumeVersions } from '@/lib/resumeVersions';
+import { errorMessage } from '@/lib/errors';
+
+interface JobPosting {
+  id: number;
+  hr: string;
+  title: string;
+  requiredSkillNames: string[];
+  createdAt: Date;
+  active: boolean;
+  applicantCount: number;
+  hasApplied: boolean;
+}
+
+interface RequirementInput {
+  name: string;
+  minLevel: number;
+}
+
+interface ApplicationResult {
+  candidate: string;
+  requirementMatches: boolean[];
+  overallMatch: boolean;
+  matchCount: number;
+  skillsChangedAt: Date | null; // last skill change before applying, if within RECENT_CHANGE_WINDOW_MS
+}
+
+// Skill changes this close before applying are flagged to HR
+const RECENT_CHANGE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const JobBoard = () => {
+  const { address, isConnected } = useAccount();
+  const { chainId, contractAddress, getSigner, getContract, getSignedContract } = useSecureResumeContract();
+  const { trackTransaction } = useTransactionActivity();
+  const { storage } = useInMemoryStorage();
+  const [postings, setPostings] = useState<JobPosting[]>([]);
+  const [isHR, setIsHR] = useState(false);
+  const [maxSkills, setMaxSkills] = useState(5);
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState("");
+
+  // Create posting form (HR only)
+  const [title, setTitle] = useState("");
+  const [requirements, setRequirements] = useState<RequirementInput[]>([{ name: "", minLevel: 5 }]);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const [applyingTo, setApplyingTo] = useState<number | null>(null);
+  const [reviewingPosting, setReviewingPosting] = useState<JobPosting | null>(null);
+  const [results, setResults] = useState<ApplicationResult[]>([]);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  // Get FHEVM instance
+  const provider = typeof window !== 'undefined' ? window.ethereum : undefined;
+  const { instance: fhevmInstance, status: fhevmStatus, error: fhevmError } = useFhevm({
+    provider,
+    chainId,
+    enabled: isConnected && !!address,
+  });
+  const { encrypt, userDecrypt } = useFhevmWorker({
+    chainId,
+    instance: fhevmInstance,
+    enabled: isConnected && !!address,
+  });
+
+  const loadPostings = useCallback(async () => {
+    if (!address) return;
+
+    setIsLoading(true);
+
+    try {
+      const contract = getContract();
+
+      setIsHR(await contract.hrAddresses(address));
+      setMaxSkills(Number(await contract.maxSkills()));
+
+      const count = Number(await contract.getJobPostingCount());
+      const loaded: JobPosting[] = [];
+      for (let id = count - 1; id >= 0; id--) {
+        const posting = await contract.getJobPosting(id);
+        const hasApplied = await contract.hasAppliedToJob(id, address);
+        loaded.push({
+          id,
+          hr: posting[0],
+          title: posting[1],
+          requiredSkillNames: [...posting[2]],
+          createdAt: new Date(Number(posting[3]) * 1000),
+          active: posting[4],
+          applicantCount: Number(posting[5]),
+          hasApplied,
+        });
+      }
+
+      setPostings(loaded);
+    } catch (error) {
+      console.error("Error loading job postings:", error);
+      setMessage(`Failed to load job postings: ${errorMessage(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, getContract]);
+
+  useEffect(() => {
+    loadPostings();
+  }, [loadPostings]);
+
+  const updateRequirement = (index: number, field: keyof RequirementInput, value: string | number) => {
+    const updated = [...requirements];
+    updated[index] = { ...updated[index], [field]: value };
+    setRequirements(updated);
+  };
+
+  const createPosting = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!address) {
+      setMessage("Please connect your wallet first");
+      return;
+    }
+
+    if (!title.trim()) {
+      setMessage("Job title is required");
+      return;
+    }
+
+    if (requirements.some(requirement => !requirement.name.trim())) {
+      setMessage("All required skill names are required");
+      return;
+    }
+
+    if (!fhevmInstance || fhevmStatus !== "ready") {
+      setMessage(`FHEVM is not ready. Status: ${fhevmStatus}${fhevmError ? `, Error: ${fhevmError.message}` : ''}`);
+      return;
+    }
+
+    setIsCreating(true);
+    setMessage("🔐 Encrypting minimum skill levels with FHEVM...");
+
+    try {
+      if (!contractAddress) {
+        throw new Error(`Contract not deployed on network ${chainId}`);
+      }
+
+      const { handles, inputProof } = await encrypt(
+        contractAddress as `0x${string}`,
+        address as `0x${string}`,
+        requirements.map((requirement) => ({ type: "uint32", value: requirement.minLevel }))
+      );
+
+      const contract = await getSignedContract();
+
+      setMessage("📤 Publishing job posting...");
+      const tx = await contract.createJobPosting(
+        title,
+        requirements.map(requirement => requirement.name.trim()),
+        handles,
+        inputProof
+      );
+      setMessage(`⏳ Transaction submitted: ${tx.hash}. Waiting for confirmation...`);
+      await trackTransaction(tx, { kind: "job", label: `Publish job posting "${title}"` });
+
+      setMessage("✅ Job posting published successfully! Minimum levels are stored encrypted.");
+      setTitle("");
+      setRequirements([{ name: "", minLevel: 5 }]);
+      await loadPostings();
+    } catch (error) {
+      console.error("Create posting error:", error);
+      setMessage(`❌ Failed to publish job posting: ${errorMessage(error)}`);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const applyToPosting = async (posting: JobPosting) => {
+    if (!address) {
+      setMessage("Please connect your wallet first");
+      return;
+    }
+
+    setApplyingTo(posting.id);
+    setMessage("");
+
+    try {
+      const contract = await getSignedContract();
+
+      if (!(await contract.hasResume(address))) {
+        throw new Error("Please submit your resume before applying");
+      }
+
+      setMessage(`📤 Applying to "${posting.title}"...`);
+      const tx = await contract.applyToJob(posting.id);
+      setMessage(`⏳ Transaction submitted: ${tx.hash}. Waiting for confirmation...`);
+      await trackTransaction(tx, { kind: "job", label: `Apply to "${posting.title}"` });
+
+      setMessage(`✅ Applied to "${posting.title}" successfully! Your skills were matched in ciphertext.`);
+      await loadPostings();
+    } catch (error) {
+      console.error("Apply error:", error);
+      setMessage(`❌ Failed to apply: ${errorMessage(error)}`);
+    } finally {
+      setApplyingTo(null);
+    }
+  };
+
+  // Decrypt the match results of the given candidates with a single userDecrypt call
+  const decryptApplications = async (posting: JobPosting, candidates: string[]) => {
+    if (!address) {
+      setMessage("Please connect your wallet first");
+      return;
+    }
+
+    if (!fhevmInstance || fhevmStatus !== "ready") {
+      setMessage(`FHEVM is not ready. Status: ${fhevmStatus}${fhevmError ? `, Error: ${fhevmError.message}` : ''}`);
+      return;
+    }
+
+    setReviewingPosting(posting);
+    setResults([]);
+    setIsDecrypting(true);
+    setMessage("");
+
+    try {
+      if (!contractAddress) {
+        throw new Error(`Contract not deployed on network ${chainId}`);
+      }
+      const signer = await getSigner();
+      const contract = await getSignedContract();
+
+      if (candidates.length === 0) {
+        setMessage(`No applicants for "${posting.title}" yet.`);
+        return;
+      }
+
+      const applications = await Promise.all(
+        candidates.map(async (candidate) => {
+          const application = await contract.getJobApplication(posting.id, candidate);
+          const appliedAt = new Date(Number(application[3]) * 1000);
+          const skillChange = lastSkillChange(await loadResumeVersions(contract, candidate), appliedAt);
+          return {
+            candidate,
+            requirementHandles: [...application[0]] as string[],
+            overallHandle: application[1] as string,
+            countHandle: application[2] as string,
+            skillsChangedAt:
+              skillChange && appliedAt.getTime() - skillChange.updatedAt.getTime() <= RECENT_CHANGE_WINDOW_MS
+                ? skillChange.updatedAt
+                : null,
+          };
+        })
+      );
+
+      const handles = applications.flatMap(application => [
+        ...application.requirementHandles,
+        application.overallHandle,
+        application.countHandle,
+      ]);
+
+      const sig = await FhevmDecryptionSignature.loadOrSign(
+        fhevmInstance,
+        [contractAddress],
+        signer,
+        storage
+      );
+
+      if (!sig) {
+        throw new Error("Failed to create decryption signature");
+      }
+
+      setMessage("🔓 Decrypting match results with FHEVM...");
+
+      const decryptedResults = await userDecrypt(handles.map(handle => ({ handle, contractAddress })), sig);
+
+      const decrypted = applications.map(application => ({
+        candidate: application.candidate,
+        requirementMatches: application.requirementHandles.map(handle => Boolean(decryptedResults[handle])),
+        overallMatch: Boolean(decryptedResults[application.overallHandle]),
+        matchCount: Number(decryptedResults[application.countHandle]),
+        skillsChangedAt: application.skillsChangedAt,
+      }));
+
+      // Full matches first, then by number of requirements met
+      decrypted.sort((a, b) => Number(b.overallMatch) - Number(a.overallMatch) || b.matchCount - a.matchCount);
+
+      setResults(decrypted);
+      setMessage(`✅ Match results for "${posting.title}" decrypted successfully.`);
+    } catch (error) {
+      console.error("Review error:", error);
+      setMessage(`❌ Failed to decrypt match results: ${errorMessage(error)}`);
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const reviewApplicants = async (posting: JobPosting) => {
+    try {
+      const contract = getContract();
+      const applicants: string[] = [...(await contract.getJobApplicants(posting.id))];
+      await decryptApplications(posting, applicants);
+    } catch (error) {
+      console.error("Error loading applicants:", error);
+      setMessage(`❌ Failed to load applicants: ${errorMessage(error)}`);
+    }
+  };
+
+  const closePosting = async (posting: JobPosting) => {
+    try {
+      const contract = await getSignedContract();
+
+      const tx = await contract.closeJobPosting(posting.id);
+      setMessage(`⏳ Transaction submitted: ${tx.hash}. Waiting for confirmation...`);
+      await trackTransaction(tx, { kind: "job", label: `Close job posting "${posting.title}"` });
+
+      setMessage(`✅ Job posting "${posting.title}" closed successfully.`);
+      await loadPostings();
+    } catch (error) {
+      console.error("Close posting error:", error);
+      setMessage(`❌ Failed to close job posting: ${errorMessage(error)}`);
+    }
+  };
+
+  const buttonClass =
+    "inline-flex items-center justify-center rounded-2xl px-6 py-3 font-semibold text-white shadow-lg " +
+    "transition-all duration-300 hover:scale-105 active:scale-95 " +
+    "focus-visible:outline-none focus-visible:ring-4 focus-visible:ring-purple-300 focus-visible:ring-offset-2 " +
+    "disabled:opacity-50 disabled:pointer-events-none bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600";
+
+  const smallButtonClass =
+    "px-4 py-2 rounded-xl text-sm font-semibold transition-all duration-300 shadow-md " +
+    "disabled:opacity-50 disabled:pointer-events-none";
+
+  if (!address) {
+    return (
+      <div className="text-center glass-card rounded-2xl p-8">
+        <div className="text-5xl mb-4">💼</div>
+        <p className="text-gray-700 text-lg">Please connect your wallet to browse job postings.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="flex items-center space-x-3 mb-8">
+        <span className="text-4xl">💼</span>
+        <h2 className="text-3xl font-bold bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent">
+          Job Board
+        </h2>
+      </div>
+
+      <div className="bg-gradient-to-r from-amber-50 to-yellow-50 border-2 border-yellow-200 rounded-2xl p-6 mb-6 shadow-md">
+        <div className="flex items-start space-x-3">
+          <span className="text-3xl">🛡️</span>
+          <div>
+            <p className="text-sm font-bold text-yellow-900 mb-1">Private Matching</p>
+            <p className="text-sm text-yellow-800 leading-relaxed">
+              Minimum levels are encrypted by HR and your skill levels stay encrypted on-chain. Applying compares
+              them in ciphertext - HR only learns which requirements you meet.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`text-center p-5 rounded-2xl mb-6 shadow-md border-2 ${
+          message.includes("successfully")
+            ? "bg-gradient-to-r from-green-50 to-emerald-50 text-green-800 border-green-200"
+            : "bg-gradient-to-r from-red-50 to-pink-50 text-red-800 border-red-200"
+        }`}>
+          <div className="flex items-center justify-center space-x-2">
+            <span className="text-2xl">{message.includes("successfully") ? "✅" : "❌"}</span>
+            <p className="font-medium">{message}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Create Posting (HR only) */}
+      {isHR && (
+        <form onSubmit={createPosting} className="bg-gradient-to-br from-purple-50 to-blue-50 rounded-2xl p-6 mb-6 shadow-md border-2 border-purple-100">
+          <div className="flex items-center space-x-2 mb-5">
+            <span className="text-2xl">📢</span>
+            <h3 className="text-xl font-bold text-gray-800">Publish a Job Posting</h3>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="job-title" className="block text-sm font-medium text-gray-700 mb-1">
+                Job Title *
+              </label>
+              <input
+                type="text"
+                id="job-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className="w-full px-4 py-3 border-2 border-purple-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-purple-300 focus:border-purple-400 transition-all"
+                placeholder="e.g., Senior Backend Engineer"
+                required
+              />
+            </div>
+
+            {requirements.map((requirement, index) => (
+              <div key={index} className="flex flex-col sm:flex-row gap-3 items-end">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Required Skill *
+                  </label>
+                  <input
+                    type="text"
+                    value={requirement.name}
+                    onChange={(e) => updateRequirement(index, "name", e.target.value)}
+                    className="w-full px-4 py-3 border-2 border-blue-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-blue-300 focus:border-blue-400 transition-all"
+                    placeholder="💻 Must match the candidate's skill name"
+                    required
+                  />
+                </div>
+                <div className="w-32">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Min Level 🔐
+                  </label>
+                  <select
+                    value={requirement.minLevel}
+                    onChange={(e) => updateRequirement(index, "minLevel", parseInt(e.target.value))}
+                    className="w-full px-4 py-3 border-2 border-blue-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-blue-300 focus:border-blue-400 transition-all bg-white"
+                  >
+                    {[1,2,3,4,5,6,7,8,9,10].map(level => (
+                      <option key={level} value={level}>{level}</option>
+                    ))}
+                  </select>
+                </div>
+                {requirements.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => setRequirements(requirements.filter((_, i) => i !== index))}
+                    className="px-3 py-2 text-red-600 hover:text-red-800 font-medium self-start sm:self-end"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              {requirements.length < maxSkills && (
+                <button
+                  type="button"
+                  onClick={() => setRequirements([...requirements, { name: "", minLevel: 5 }])}
+                  className="px-6 py-3 bg-gradient-to-r from-blue-500 to-indigo-500 text-white rounded-2xl hover:from-blue-600 hover:to-indigo-600 transition-all duration-300 shadow-md font-semibold"
+                >
+                  ➕ Add Requirement
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={isCreating || !fhevmInstance || fhevmStatus !== "ready"}
+                className={buttonClass + " flex-1"}
+              >
+                {isCreating ? "📤 Publishing..." : "Publish Posting"}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {/* Postings List */}
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl p-6 mb-6 shadow-md border-2 border-gray-100">
+        <div className="flex items-center justify-between mb-5">
+          <div className="flex items-center space-x-2">
+            <span className="text-2xl">📋</span>
+            <h3 className="text-xl font-bold text-gray-800">Open Positions</h3>
+          </div>
+          <button onClick={loadPostings} disabled={isLoading} className={smallButtonClass + " bg-white/60 text-gray-700 hover:bg-white/80"}>
+            {isLoading ? "Loading..." : "🔄 Refresh"}
+          </button>
+        </div>
+
+        {postings.length === 0 && !isLoading && (
+          <p className="text-center text-gray-600 py-6">No job postings yet.</p>
+        )}
+
+        <div className="space-y-4">
+          {postings.map((posting) => {
+            const isOwner = posting.hr.toLowerCase() === address.toLowerCase();
+            return (
+              <div key={posting.id} className="bg-gradient-to-br from-blue-50 to-indigo-50 rounded-2xl p-5 border-2 border-blue-100">
+                <div className="flex items-start justify-between gap-3 mb-3">
+                  <div>
+                    <p className="text-lg font-bold text-gray-800">
+                      #{posting.id} {posting.title}
+                    </p>
+                    <p className="text-xs text-gray-500 font-mono">HR: {posting.hr}</p>
+                    <p className="text-xs text-gray-500">
+                      Posted {posting.createdAt.toLocaleDateString()} · {posting.applicantCount} applicant(s)
+                    </p>
+                  </div>
+                  <span className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                    posting.active ? "bg-green-100 text-green-800" : "bg-gray-200 text-gray-700"
+                  }`}>
+                    {posting.active ? "Open" : "Closed"}
+                  </span>
+                </div>
+
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {posting.requiredSkillNames.map((skill, index) => (
+                    <span key={index} className="px-3 py-1 bg-white/80 text-blue-700 rounded-full text-sm font-medium">
+                      💻 {skill} · 🔐 min level
+                    </span>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {!isOwner && posting.active && !posting.hasApplied && (
+                    <button
+                      onClick={() => applyToPosting(posting)}
+                      disabled={applyingTo !== null}
+                      className={smallButtonClass + " bg-gradient-to-r from-purple-500 to-blue-500 text-white"}
+                    >
+                      {applyingTo === posting.id ? "Applying..." : "📨 Apply"}
+                    </button>
+                  )}
+                  {posting.hasApplied && (
+                    <button
+                      onClick={() => decryptApplications(posting, [address])}
+                      disabled={isDecrypting}
+                      className={smallButtonClass + " bg-white/60 text-gray-700 hover:bg-white/80"}
+                    >
+                      🔓 Check My Match
+                    </button>
+                  )}
+                  {isOwner && (
+                    <button
+                      onClick={() => reviewApplicants(posting)}
+                      disabled={isDecrypting}
+                      className={smallButtonClass + " bg-gradient-to-r from-green-400 to-emerald-500 text-white"}
+                    >
+                      {isDecrypting && reviewingPosting?.id === posting.id ? "🔓 Decrypting..." : "👥 Review Applicants"}
+                    </button>
+                  )}
+                  {isOwner && posting.active && (
+                    <button
+                      onClick={() => closePosting(posting)}
+                      className={smallButtonClass + " bg-white/60 text-red-600 hover:bg-white/80"}
+                    >
+                      Close Posting
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Match Results */}
+      {reviewingPosting && results.length > 0 && (
+        <div className="bg-gradient-to-br from-green-50 to-emerald-50 rounded-2xl p-6 shadow-md border-2 border-green-100">
+          <div className="flex items-center space-x-2 mb-5">
+            <span className="text-2xl">🏆</span>
+            <h3 className="text-xl font-bold text-green-800">Match Results: {reviewingPosting.title}</h3>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-700">
+                  <th className="py-2 pr-3">Candidate</th>
+                  {reviewingPosting.requiredSkillNames.map((skill, index) => (
+                    <th key={index} className="py-2 pr-3">{skill}</th>
+                  ))}
+                  <th className="py-2 pr-3">Met</th>
+                  <th className="py-2">Overall</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map((result) => (
+                  <tr key={result.candidate} className="border-t border-green-100">
+                    <td className="py-2 pr-3">
+                      <p className="font-mono text-xs">{result.candidate}</p>
+                      {result.skillsChangedAt && (
+                        <p className="text-xs text-amber-700">
+                          ⚠️ Skills changed {result.skillsChangedAt.toLocaleString()}, shortly before applying
+                        </p>
+                      )}
+                    </td>
+                    {result.requirementMatches.map((matches, index) => (
+                      <td key={index} className="py-2 pr-3">{matches ? "✅" : "❌"}</td>
+                    ))}
+                    <td className="py-2 pr-3">{result.matchCount}/{reviewingPosting.requiredSkillNames.length}</td>
+                    <td className="py-2 font-semibold">{result.overallMatch ? "✅ Match" : "❌ No match"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
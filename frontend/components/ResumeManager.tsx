@@ -5,9 +5,14 @@ import { useAccount, useChainId } from 'wagmi';
 import { ResumeSubmission } from "./ResumeSubmission";
 import { ResumeViewer } from "./ResumeViewer";
 import { HREvaluator } from "./HREvaluator";
+import { JobBoard } from "./JobBoard";
+import { ActivityCenter } from "./ActivityCenter";
 import { ErrorNotDeployed } from "./ErrorNotDeployed";
+import { DeploymentSelector } from "./DeploymentSelector";
+import { useDeploymentCheck } from "@/hooks/useDeploymentCheck";
+import { CHAINS } from "@/lib/registry";
 
-type TabType = "submit" | "view" | "evaluate";
+type TabType = "submit" | "view" | "evaluate" | "jobs";
 
 export const ResumeManager = () => {
   const wagmiAccount = useAccount();
@@ -22,14 +27,16 @@ export const ResumeManager = () => {
   // Simplified connection check - use wagmi connection status directly, but only after mounted
   const isConnected = mounted ? wagmiAccount.isConnected : false;
   const chainId = wagmiChainId;
-  const isLocalNetwork = chainId === 31337;
+  const chain = CHAINS[chainId];
+  const isLocalNetwork = chain?.mock === true;
 
   const [activeTab, setActiveTab] = useState<TabType>("submit");
+  const { check: deployment, recheck } = useDeploymentCheck();
 
   // Network status check
   const getNetworkStatus = () => {
-    if (chainId === 31337) return { status: "local", color: "blue", icon: "🔧" };
-    if (chainId === 11155111) return { status: "sepolia", color: "green", icon: "🌐" };
+    if (chain?.mock) return { status: "local", color: "blue", icon: "🔧" };
+    if (chain) return { status: "remote", color: "green", icon: "🌐" };
     return { status: "unknown", color: "gray", icon: "❓" };
   };
 
@@ -82,18 +89,26 @@ export const ResumeManager = () => {
     );
   }
 
-  // TODO: Add contract deployment check logic
-  // For now, assume it's deployed for development
-  const contractDeployed = true;
+  if (deployment.status === "checking") {
+    return (
+      <div className="mx-auto text-center max-w-2xl">
+        <div className="glass-card rounded-3xl p-12 shadow-2xl">
+          <div className="text-6xl mb-6 animate-pulse">🔍</div>
+          <p className="text-gray-700 text-lg">Checking the SecureResume deployment on chain {chainId}...</p>
+        </div>
+      </div>
+    );
+  }
 
-  if (!contractDeployed) {
-    return <ErrorNotDeployed chainId={31337} />;
+  if (deployment.status !== "deployed") {
+    return <ErrorNotDeployed chainId={chainId} check={deployment} onRetry={recheck} />;
   }
 
   const tabs = [
     { id: "submit" as TabType, label: "📝 Submit Resume", description: "Store your resume with encrypted skills", emoji: "📝" },
     { id: "view" as TabType, label: "👁️ View Resume", description: "View your stored resume information", emoji: "👁️" },
     { id: "evaluate" as TabType, label: "🎯 HR Evaluation", description: "Evaluate candidate skills (HR only)", emoji: "🎯" },
+    { id: "jobs" as TabType, label: "💼 Job Board", description: "Browse postings and apply privately", emoji: "💼" },
   ];
 
   return (
@@ -111,18 +126,18 @@ export const ResumeManager = () => {
           </p>
           <div className="flex justify-center items-center space-x-3 flex-wrap gap-2">
             <span className={`px-4 py-2 rounded-full text-sm font-medium shadow-md backdrop-blur-sm bg-${networkInfo.color}-100/80 text-${networkInfo.color}-800`}>
-              {networkInfo.icon} {networkInfo.status === "local" ? "Local Hardhat Network" :
-                                 networkInfo.status === "sepolia" ? "Sepolia Testnet" : "Unknown Network"}
+              {networkInfo.icon} {chain?.name ?? "Unknown Network"}
             </span>
             <span className="px-4 py-2 bg-white/60 backdrop-blur-sm rounded-full text-sm text-gray-700 font-medium shadow-md">
               Chain ID: {chainId}
             </span>
+            <DeploymentSelector chainId={chainId} />
           </div>
         </div>
       </div>
 
       {/* Tab Navigation */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-5 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-5 mb-8">
         {tabs.map((tab) => (
           <button
             key={tab.id}
@@ -143,8 +158,12 @@ export const ResumeManager = () => {
         {activeTab === "submit" && <ResumeSubmission />}
         {activeTab === "view" && <ResumeViewer />}
         {activeTab === "evaluate" && <HREvaluator />}
+        {activeTab === "jobs" && <JobBoard />}
       </div>
 
+      {/* Transactions from every tab, kept when switching between them */}
+      <ActivityCenter />
+
       {/* Info Section */}
       <div className="mt-8 glass-card rounded-3xl p-8 shadow-2xl">
         <div className="flex items-center space-x-3 mb-6">
@@ -1,11 +1,15 @@
 "use client";
 
-import { useState } from "react";
-import { useAccount, useChainId } from 'wagmi';
-import { ethers } from 'ethers';
-import { SecureResumeABI } from '@/abi/SecureResumeABI';
-import { SecureResumeAddresses } from '@/abi/SecureResumeAddresses';
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useAccount } from 'wagmi';
 import { useFhevm } from '@/fhevm/useFhevm';
+import { useFhevmWorker } from '@/fhevm/useFhevmWorker';
+import type { FhevmWorkerProgress, FhevmWorkerStage } from '@/fhevm/fhevmTypes';
+import { useSecureResumeContract } from '@/hooks/useSecureResumeContract';
+import { useTransactionActivity } from '@/hooks/useTransactionActivity';
+import { decodeError, errorMessage } from '@/lib/errors';
+import { parseJsonResume, ResumeFieldError } from '@/lib/jsonResume';
+import { SkillManager } from './SkillManager';
 
 // Common skill suggestions
 const SKILL_SUGGESTIONS = [
@@ -15,6 +19,16 @@ const SKILL_SUGGESTIONS = [
   "AWS", "Azure", "GCP", "Git", "CI/CD", "Agile", "Scrum"
 ];
 
+const ENCRYPTION_STAGES: Record<FhevmWorkerStage, string> = {
+  "starting": "Starting the encryption worker",
+  "loading-sdk": "Loading the FHEVM SDK",
+  "initializing-sdk": "Initializing the FHEVM SDK",
+  "creating-instance": "Fetching the FHEVM public key",
+  "encrypting": "Generating the encrypted input proof",
+  "decrypting": "Decrypting",
+  "done": "Encrypted",
+};
+
 interface SkillInput {
   name: string;
   level: number;
@@ -22,16 +36,28 @@ interface SkillInput {
 
 export const ResumeSubmission = () => {
   const { address, isConnected } = useAccount();
-  const chainId = useChainId();
+  const { chainId, isDeployed, contractAddress, getContract, getSignedContract } = useSecureResumeContract();
+  const { trackTransaction } = useTransactionActivity();
 
   const [name, setName] = useState("");
   const [education, setEducation] = useState("");
   const [workExperience, setWorkExperience] = useState("");
   const [skills, setSkills] = useState<SkillInput[]>([{ name: "", level: 1 }]);
+  // Optional, both encrypted; left empty in edit mode to keep the stored values
+  const [yearsOfExperience, setYearsOfExperience] = useState("");
+  const [expectedSalary, setExpectedSalary] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isEncrypting, setIsEncrypting] = useState(false);
+  const [encryptionProgress, setEncryptionProgress] = useState<FhevmWorkerProgress | null>(null);
+  const encryptionAbortRef = useRef<AbortController | null>(null);
   const [isValidating, setIsValidating] = useState(false);
   const [message, setMessage] = useState("");
+  const [isEditMode, setIsEditMode] = useState(false);
+  const [isLoadingExisting, setIsLoadingExisting] = useState(false);
+  const [maxSkills, setMaxSkills] = useState<number | null>(null);
+  const [onChainSkillNames, setOnChainSkillNames] = useState<string[]>([]);
+  const [importErrors, setImportErrors] = useState<ResumeFieldError[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // Get FHEVM instance
   const provider = typeof window !== 'undefined' ? window.ethereum : undefined;
@@ -40,8 +66,82 @@ export const ResumeSubmission = () => {
     chainId,
     enabled: isConnected && !!address,
   });
+  // Proof generation runs in a Web Worker so the form stays responsive and can be cancelled
+  const { encrypt } = useFhevmWorker({
+    chainId,
+    instance: fhevmInstance,
+    enabled: isConnected && !!address,
+  });
+
+  // Stop a running encryption when the form goes away
+  useEffect(() => () => encryptionAbortRef.current?.abort(), []);
+
+  const cancelEncryption = () => {
+    encryptionAbortRef.current?.abort();
+  };
+
+  // Encrypt for the current contract and wallet, cancellable through cancelEncryption
+  const encryptForContract = async (values: Parameters<typeof encrypt>[2]) => {
+    const controller = new AbortController();
+    encryptionAbortRef.current = controller;
+    setIsEncrypting(true);
+    try {
+      return await encrypt(contractAddress as `0x${string}`, address as `0x${string}`, values, {
+        signal: controller.signal,
+        onProgress: setEncryptionProgress,
+      });
+    } finally {
+      encryptionAbortRef.current = null;
+      setIsEncrypting(false);
+      setEncryptionProgress(null);
+    }
+  };
+
+  // Pre-fill the form from an existing on-chain resume and switch to edit mode
+  const loadExistingResume = useCallback(async () => {
+    if (!address || !isDeployed) {
+      setIsEditMode(false);
+      return;
+    }
+
+    setIsLoadingExisting(true);
+
+    try {
+      const contract = getContract();
+
+      // The skill limit is fixed per deployment
+      setMaxSkills(Number(await contract.maxSkills()));
+
+      const hasResume = await contract.hasResume(address);
+      if (!hasResume) {
+        setIsEditMode(false);
+        return;
+      }
+
+      const resumeInfo = await contract.getResumeInfo(address);
+      console.log('Existing resume loaded for editing:', resumeInfo);
+
+      setName(resumeInfo[0]);
+      setEducation(resumeInfo[1]);
+      setWorkExperience(resumeInfo[2]);
+      // Skill levels are encrypted on-chain, so only the names can be pre-filled
+      setSkills((resumeInfo[3] as string[]).map((skillName) => ({ name: skillName, level: 1 })));
+      setOnChainSkillNames([...resumeInfo[3]]);
+      setIsEditMode(true);
+    } catch (error) {
+      console.error("Error loading existing resume:", error);
+      setIsEditMode(false);
+    } finally {
+      setIsLoadingExisting(false);
+    }
+  }, [address, isDeployed, getContract]);
+
+  useEffect(() => {
+    loadExistingResume();
+  }, [loadExistingResume]);
 
   const addSkill = () => {
+    if (maxSkills !== null && skills.length >= maxSkills) return;
     setSkills([...skills, { name: "", level: 1 }]);
   };
 
@@ -55,6 +155,28 @@ export const ResumeSubmission = () => {
     setSkills(updatedSkills);
   };
 
+  // Fill the form from a JSON Resume file; nothing changes unless every field is valid
+  const importJsonResume = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after fixing it
+    e.target.value = "";
+    if (!file) return;
+
+    const { draft, errors } = parseJsonResume(await file.text(), maxSkills);
+    setImportErrors(errors);
+
+    if (!draft) {
+      setMessage(`❌ ${file.name} could not be imported, please fix the fields listed above`);
+      return;
+    }
+
+    setName(draft.name);
+    setEducation(draft.education);
+    setWorkExperience(draft.workExperience);
+    setSkills(draft.skills);
+    setMessage(`✅ ${file.name} imported successfully. Review the details, then ${isEditMode ? "update" : "submit"} to encrypt your skill levels.`);
+  };
+
   // Keyboard shortcuts
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.ctrlKey || e.metaKey) {
@@ -94,6 +216,11 @@ export const ResumeSubmission = () => {
       return;
     }
 
+    if (maxSkills !== null && skills.length > maxSkills) {
+      setMessage(`You can add at most ${maxSkills} skills`);
+      return;
+    }
+
     // Check for duplicate skill names
     const skillNames = skills.map(skill => skill.name.trim().toLowerCase());
     const uniqueSkillNames = new Set(skillNames);
@@ -108,6 +235,22 @@ export const ResumeSubmission = () => {
       return;
     }
 
+    const hasCareerDetails = yearsOfExperience !== "" || expectedSalary !== "";
+    if (hasCareerDetails && (yearsOfExperience === "" || expectedSalary === "")) {
+      setMessage("Please enter both years of experience and expected salary, or leave both empty");
+      return;
+    }
+
+    if (hasCareerDetails && !/^\d{1,2}$/.test(yearsOfExperience)) {
+      setMessage("Years of experience must be a whole number between 0 and 99");
+      return;
+    }
+
+    if (hasCareerDetails && !/^\d{1,15}$/.test(expectedSalary)) {
+      setMessage("Expected salary must be a whole number");
+      return;
+    }
+
     if (!fhevmInstance || fhevmStatus !== "ready") {
       setMessage(`FHEVM is not ready. Status: ${fhevmStatus}${fhevmError ? `, Error: ${fhevmError.message}` : ''}`);
       return;
@@ -121,17 +264,12 @@ export const ResumeSubmission = () => {
     await new Promise(resolve => setTimeout(resolve, 500));
 
     setIsValidating(false);
-    setIsEncrypting(true);
     setMessage("🔐 Encrypting skill levels with FHEVM...");
 
-    try {
-      if (!window.ethereum) {
-        throw new Error("No Ethereum wallet found");
-      }
-
-      // Get contract address for current network
-      const contractAddress = SecureResumeAddresses[chainId.toString() as keyof typeof SecureResumeAddresses]?.address;
+    // Set once the resume transaction is mined, a later cancel only skips the career details
+    let resumeSaved = false;
 
+    try {
       if (!contractAddress) {
         throw new Error(`Contract not deployed on network ${chainId}`);
       }
@@ -146,76 +284,97 @@ export const ResumeSubmission = () => {
       setMessage("🔐 Encrypting skill levels with FHEVM...");
       console.log('Encrypting skill levels:', skillLevels);
 
-      const encryptedInput = fhevmInstance.createEncryptedInput(
-        contractAddress as `0x${string}`,
-        address as `0x${string}`
+      const { handles, inputProof } = await encryptForContract(
+        skillLevels.map((level) => ({ type: "uint32", value: level }))
       );
 
-      // Add all skill levels to encrypted input
-      for (const level of skillLevels) {
-        encryptedInput.add32(level);
-      }
-
-      // Perform encryption (this is CPU-intensive)
-      const encrypted = await encryptedInput.encrypt();
-      const { handles, inputProof } = encrypted;
-
       console.log('Encryption completed. Handles:', handles);
-      setIsEncrypting(false);
 
-      // Create contract instance with signer
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const signer = await provider.getSigner();
-      const contract = new ethers.Contract(contractAddress, SecureResumeABI.abi, signer);
-
-      setMessage("📤 Submitting encrypted resume to blockchain...");
-
-      // Call contract function with encrypted data
-      const tx = await contract.submitResume(
-        name,
-        education,
-        workExperience,
-        skillNames,
-        handles, // Encrypted skill level handles
-        inputProof // Input proof for verification
-      );
+      const contract = await getSignedContract();
+
+      setMessage(isEditMode
+        ? "📤 Submitting encrypted resume update to blockchain..."
+        : "📤 Submitting encrypted resume to blockchain...");
+
+      // Returning users must go through updateResume, submitResume reverts once a resume exists
+      const tx = isEditMode
+        ? await contract.updateResume(
+            name,
+            education,
+            workExperience,
+            skillNames,
+            handles, // Encrypted skill level handles
+            inputProof // Input proof for verification
+          )
+        : await contract.submitResume(
+            name,
+            education,
+            workExperience,
+            skillNames,
+            handles, // Encrypted skill level handles
+            inputProof // Input proof for verification
+          );
 
       console.log('Transaction submitted:', tx.hash);
       setMessage(`⏳ Transaction submitted! Hash: ${tx.hash}. Waiting for confirmation...`);
 
       // Wait for confirmation
-      const receipt = await tx.wait();
+      const receipt = await trackTransaction(tx, {
+        kind: "resume",
+        label: isEditMode ? "Update resume" : "Submit resume",
+      });
       console.log('Transaction confirmed:', receipt);
+      resumeSaved = true;
+
+      // Experience and salary are stored by a separate call once the resume exists
+      if (hasCareerDetails) {
+        setMessage("🔐 Encrypting years of experience and expected salary...");
+        const careerDetails = await encryptForContract([
+          { type: "uint32", value: Number(yearsOfExperience) },
+          { type: "uint64", value: BigInt(expectedSalary) },
+        ]);
+
+        setMessage("📤 Submitting encrypted experience and salary to blockchain...");
+        const careerTx = await contract.setCareerDetails(
+          careerDetails.handles[0],
+          careerDetails.handles[1],
+          careerDetails.inputProof
+        );
+        await trackTransaction(careerTx, { kind: "career", label: "Set experience and expected salary" });
+        setYearsOfExperience("");
+        setExpectedSalary("");
+      }
 
-      setMessage("✅ Resume submitted successfully! Your skills are now stored with privacy-preserving encryption. You can view your resume in the 'View Resume' tab.");
+      setMessage(isEditMode
+        ? "✅ Resume updated successfully! Your skill levels have been re-encrypted on-chain."
+        : "✅ Resume submitted successfully! Your skills are now stored with privacy-preserving encryption. You can view your resume in the 'View Resume' tab.");
 
-      // Clear form
-      setName("");
-      setEducation("");
-      setWorkExperience("");
-      setSkills([{ name: "", level: 1 }]);
+      // Reload from chain so the form stays in edit mode with the stored data
+      await loadExistingResume();
 
     } catch (error) {
       console.error("Submission error:", error);
-      setIsEncrypting(false);
 
-      let errorMessage = "Unknown error occurred";
-
-      if (error instanceof Error) {
-        if (error.message.includes("User rejected")) {
-          errorMessage = "Transaction was cancelled by user";
-        } else if (error.message.includes("insufficient funds")) {
-          errorMessage = "Insufficient funds for transaction fees";
-        } else if (error.message.includes("network")) {
-          errorMessage = "Network error - please check your connection";
-        } else if (error.message.includes("FHE")) {
-          errorMessage = "FHE encryption error - please try again";
+      const decoded = decodeError(error);
+
+      if (decoded.kind === "cancelled") {
+        if (resumeSaved) {
+          await loadExistingResume();
+          setMessage("⏹️ Encryption cancelled. Your resume was saved, but the years of experience and expected salary were not - submit them again when you are ready.");
         } else {
-          errorMessage = error.message;
+          setMessage("⏹️ Encryption cancelled, nothing was submitted.");
         }
+        return;
+      }
+
+      // Someone who already has a resume only needs to submit again once the form is in edit mode
+      if (decoded.action === "edit-resume") {
+        await loadExistingResume();
+        setMessage(`❌ ${decoded.message} The form has been switched to edit mode - please submit again to update it.`);
+        return;
       }
 
-      setMessage(`❌ Failed to submit resume: ${errorMessage}`);
+      setMessage(`❌ Failed to ${isEditMode ? "update" : "submit"} resume: ${errorMessage(error)}`);
     } finally {
       setIsSubmitting(false);
     }
@@ -232,11 +391,73 @@ export const ResumeSubmission = () => {
       <div className="flex items-center space-x-3 mb-8">
         <span className="text-4xl">📝</span>
         <h2 className="text-3xl font-bold bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent">
-          Submit Your Resume
+          {isEditMode ? "Edit Your Resume" : "Submit Your Resume"}
         </h2>
       </div>
 
-      <form onSubmit={handleSubmit} onKeyDown={handleKeyDown} className="space-y-6" role="form" aria-label="Resume submission form">
+      {isLoadingExisting && (
+        <div className="bg-white/60 backdrop-blur-sm rounded-2xl p-4 mb-6 text-center text-sm text-gray-700">
+          🔍 Checking for an existing resume...
+        </div>
+      )}
+
+      {isEditMode && !isLoadingExisting && (
+        <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border-2 border-blue-200 rounded-2xl p-5 mb-6 shadow-md">
+          <div className="flex items-start space-x-3">
+            <span className="text-3xl">✏️</span>
+            <div>
+              <p className="text-sm font-bold text-blue-900 mb-1">Editing your existing resume</p>
+              <p className="text-sm text-blue-800 leading-relaxed">
+                Your details have been loaded from the blockchain. Skill levels are stored encrypted and cannot be
+                pre-filled, so please set each level again - they will be re-encrypted when you update.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* JSON Resume import */}
+      <div className="bg-white/60 backdrop-blur-sm rounded-2xl p-5 mb-6 shadow-md border-2 border-purple-100">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <p className="text-sm font-bold text-gray-800">Import from JSON Resume</p>
+            <p className="text-xs text-gray-600">
+              Fills the form from a{" "}
+              <a href="https://jsonresume.org/schema" target="_blank" rel="noopener noreferrer" className="text-purple-600 underline">
+                jsonresume.org
+              </a>{" "}
+              file. Skill levels are mapped onto the 1-10 scale.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => importInputRef.current?.click()}
+            disabled={isSubmitting}
+            className="px-4 py-2 rounded-xl text-sm font-semibold text-purple-700 bg-purple-50 hover:bg-purple-100 disabled:opacity-50"
+          >
+            📥 Import JSON
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={importJsonResume}
+            className="hidden"
+          />
+        </div>
+
+        {importErrors.length > 0 && (
+          <ul className="mt-4 space-y-1 text-sm text-red-800 bg-red-50 border-2 border-red-200 rounded-xl p-4">
+            {importErrors.map((error, index) => (
+              <li key={index}>
+                <code className="font-mono font-semibold">{error.field}</code>: {error.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} onKeyDown={handleKeyDown} className="space-y-6" role="form" aria-label={isEditMode ? "Resume update form" : "Resume submission form"}>
         {/* Basic Information */}
         <div className="bg-gradient-to-br from-purple-50 to-blue-50 rounded-2xl p-6 shadow-md">
           <div className="flex items-center space-x-2 mb-5">
@@ -374,11 +595,67 @@ export const ResumeSubmission = () => {
           <button
             type="button"
             onClick={addSkill}
-            className="mt-4 px-6 py-3 bg-gradient-to-r from-blue-500 to-indigo-500 text-white rounded-2xl hover:from-blue-600 hover:to-indigo-600 transition-all duration-300 shadow-md hover:shadow-lg font-semibold flex items-center space-x-2"
+            disabled={maxSkills !== null && skills.length >= maxSkills}
+            className="mt-4 disabled:opacity-50 px-6 py-3 bg-gradient-to-r from-blue-500 to-indigo-500 text-white rounded-2xl hover:from-blue-600 hover:to-indigo-600 transition-all duration-300 shadow-md hover:shadow-lg font-semibold flex items-center space-x-2"
           >
             <span>➕</span>
             <span>Add Skill</span>
           </button>
+          {maxSkills !== null && (
+            <p className="text-xs text-blue-600 mt-2">{skills.length}/{maxSkills} skills</p>
+          )}
+        </div>
+
+        {/* Experience & Salary Section */}
+        <div className="bg-gradient-to-br from-emerald-50 to-teal-50 rounded-2xl p-6 shadow-md">
+          <div className="flex items-center space-x-2 mb-4">
+            <span className="text-2xl">💰</span>
+            <h3 className="text-xl font-bold text-emerald-800">Experience & Salary (Encrypted)</h3>
+          </div>
+          <div className="bg-white/60 backdrop-blur-sm rounded-2xl p-4 mb-5">
+            <p className="text-sm text-emerald-700 leading-relaxed flex items-start space-x-2">
+              <span className="text-lg">✨</span>
+              <span>
+                Optional. HR can only check whether they fall within a required range or budget, never see them.
+                {isEditMode && " Leave both empty to keep the values you stored before."}
+              </span>
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="yearsOfExperience" className="block text-sm font-medium text-gray-700 mb-1">
+                Years of Experience
+              </label>
+              <input
+                type="number"
+                id="yearsOfExperience"
+                min={0}
+                max={99}
+                step={1}
+                value={yearsOfExperience}
+                onChange={(e) => setYearsOfExperience(e.target.value)}
+                className="w-full px-4 py-3 border-2 border-emerald-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-emerald-300 focus:border-emerald-400 transition-all"
+                placeholder="e.g., 5"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="expectedSalary" className="block text-sm font-medium text-gray-700 mb-1">
+                Expected Yearly Salary
+              </label>
+              <input
+                type="number"
+                id="expectedSalary"
+                min={0}
+                step={1}
+                value={expectedSalary}
+                onChange={(e) => setExpectedSalary(e.target.value)}
+                className="w-full px-4 py-3 border-2 border-emerald-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-emerald-300 focus:border-emerald-400 transition-all"
+                placeholder="e.g., 85000"
+              />
+            </div>
+          </div>
         </div>
 
         {/* FHEVM Status */}
@@ -403,13 +680,43 @@ export const ResumeSubmission = () => {
         <div className="flex justify-center">
           <button
             type="submit"
-            disabled={isSubmitting || !fhevmInstance || fhevmStatus !== "ready"}
+            disabled={isSubmitting || isLoadingExisting || !fhevmInstance || fhevmStatus !== "ready"}
             className={buttonClass}
           >
-            {isValidating ? "🔍 Validating..." : isEncrypting ? "🔐 Encrypting..." : isSubmitting ? "📤 Submitting..." : "Submit Resume"}
+            {isValidating ? "🔍 Validating..." : isEncrypting ? "🔐 Encrypting..." : isSubmitting ? "📤 Submitting..." : isEditMode ? "Update Resume" : "Submit Resume"}
           </button>
         </div>
 
+        {/* Encryption progress, reported by the FHEVM worker */}
+        {isEncrypting && encryptionProgress && (
+          <div className="bg-white/60 backdrop-blur-sm rounded-2xl p-5 shadow-md border-2 border-purple-100" aria-live="polite">
+            <div className="flex items-center justify-between gap-3 mb-3">
+              <p className="text-sm font-semibold text-gray-800">
+                🔐 {ENCRYPTION_STAGES[encryptionProgress.stage]}...
+              </p>
+              <button
+                type="button"
+                onClick={cancelEncryption}
+                className="px-4 py-1.5 rounded-xl text-sm font-semibold text-red-700 bg-red-50 border-2 border-red-200 hover:bg-red-100 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+            <div
+              className="h-2 w-full rounded-full bg-purple-100 overflow-hidden"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(encryptionProgress.progress * 100)}
+            >
+              <div
+                className="h-full rounded-full bg-gradient-to-r from-purple-500 to-blue-500 transition-all duration-500"
+                style={{ width: `${Math.round(encryptionProgress.progress * 100)}%` }}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Message */}
         {message && (
           <div className={`text-center p-5 rounded-2xl shadow-md ${
@@ -424,6 +731,18 @@ export const ResumeSubmission = () => {
           </div>
         )}
       </form>
+
+      {/* Single-skill edits go straight to the contract, outside the form so Enter does not submit the resume */}
+      {isEditMode && maxSkills !== null && (
+        <div className="mt-6">
+          <SkillManager
+            skillNames={onChainSkillNames}
+            maxSkills={maxSkills}
+            fhevmInstance={fhevmInstance}
+            onSkillsChanged={loadExistingResume}
+          />
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useAccount } from 'wagmi';
+import { FhevmInstance } from '@/fhevm/fhevmTypes';
+import { FhevmDecryptionSignature } from '@/fhevm/FhevmDecryptionSignature';
+import { useFhevmWorker } from '@/fhevm/useFhevmWorker';
+import { useInMemoryStorage } from '@/hooks/useInMemoryStorage';
+import { useSecureResumeContract } from '@/hooks/useSecureResumeContract';
+import { diffResumeVersions, loadResumeVersions, ResumeVersion } from '@/lib/resumeVersions';
+import { errorMessage } from '@/lib/errors';
+
+interface ResumeVersionHistoryProps {
+  fhevmInstance: FhevmInstance | undefined;
+  // Changes whenever the resume does, so the history is reloaded
+  updatedAt: Date;
+}
+
+const FIELD_LABELS = {
+  name: "Name",
+  education: "Education",
+  workExperience: "Work Experience",
+};
+
+// Lets the owner browse every stored version of their resume and compare any two of them
+export const ResumeVersionHistory = ({ fhevmInstance, updatedAt }: ResumeVersionHistoryProps) => {
+  const { address } = useAccount();
+  const { chainId, contractAddress, getContract, getSigner } = useSecureResumeContract();
+  const { userDecrypt } = useFhevmWorker({ chainId, instance: fhevmInstance });
+  const { storage } = useInMemoryStorage();
+
+  const [versions, setVersions] = useState<ResumeVersion[]>([]);
+  const [fromVersion, setFromVersion] = useState(0);
+  const [toVersion, setToVersion] = useState(0);
+  // Decrypted skill levels by handle, old versions keep their own handles
+  const [levels, setLevels] = useState<Record<string, number>>({});
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    if (!address || !contractAddress) return;
+
+    loadResumeVersions(getContract(), address)
+      .then((loaded) => {
+        setVersions(loaded);
+        // Default to the latest change
+        setFromVersion(Math.max(0, loaded.length - 2));
+        setToVersion(Math.max(0, loaded.length - 1));
+      })
+      .catch((error) => {
+        console.error("Error loading resume versions:", error);
+        setMessage(`❌ Failed to load version history: ${errorMessage(error)}`);
+      });
+  }, [address, contractAddress, getContract, updatedAt]);
+
+  const diff = useMemo(
+    () => (versions[fromVersion] && versions[toVersion] ? diffResumeVersions(versions[fromVersion], versions[toVersion]) : null),
+    [versions, fromVersion, toVersion]
+  );
+
+  // Decrypt every level handle involved in the comparison with a single userDecrypt call
+  const decryptComparedLevels = async () => {
+    if (!diff || !fhevmInstance) return;
+
+    setIsDecrypting(true);
+    setMessage("");
+
+    try {
+      if (!contractAddress) {
+        throw new Error(`Contract not deployed on network ${chainId}`);
+      }
+
+      const handles = [
+        ...new Set(
+          diff.skills
+            .flatMap((change) => [change.fromHandle, change.toHandle])
+            .filter((handle): handle is string => !!handle && !(handle in levels))
+        ),
+      ];
+      if (handles.length === 0) return;
+
+      const sig = await FhevmDecryptionSignature.loadOrSign(
+        fhevmInstance,
+        [contractAddress],
+        await getSigner(),
+        storage
+      );
+
+      if (!sig) {
+        throw new Error("Failed to create decryption signature");
+      }
+
+      const decryptedResults = await userDecrypt(handles.map(handle => ({ handle, contractAddress })), sig);
+
+      setLevels((previous) => ({
+        ...previous,
+        ...Object.fromEntries(handles.map((handle) => [handle, Number(decryptedResults[handle])])),
+      }));
+    } catch (error) {
+      console.error("Decryption error:", error);
+      setMessage(`❌ Failed to decrypt levels: ${errorMessage(error)}`);
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const levelOf = (handle: string | undefined) => (handle && handle in levels ? `${levels[handle]}/10` : "🔒");
+
+  const selectClass =
+    "px-4 py-2 border-2 border-indigo-200 rounded-xl focus:outline-none focus:ring-4 focus:ring-indigo-300 bg-white text-sm";
+
+  return (
+    <div className="bg-gradient-to-br from-indigo-50 to-violet-50 rounded-2xl p-6 shadow-md border-2 border-indigo-100">
+      <div className="flex items-center space-x-2 mb-2">
+        <span className="text-2xl">🗂️</span>
+        <h3 className="text-xl font-bold text-indigo-800">Version History</h3>
+      </div>
+      <p className="text-sm text-indigo-700 mb-4">
+        A version is stored every time your resume or skills change, and the latest ones are kept. Recruiters can see them too.
+      </p>
+
+      {message && <p className="text-sm text-red-700 mb-4">{message}</p>}
+
+      {versions.length < 2 ? (
+        <p className="text-sm text-gray-600">No changes since your resume was submitted.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-gray-700">
+            <span>Compare</span>
+            <select value={fromVersion} onChange={(e) => setFromVersion(Number(e.target.value))} className={selectClass}>
+              {versions.map((version, index) => (
+                <option key={version.version} value={index}>
+                  v{version.version + 1} · {version.updatedAt.toLocaleString()}
+                </option>
+              ))}
+            </select>
+            <span>with</span>
+            <select value={toVersion} onChange={(e) => setToVersion(Number(e.target.value))} className={selectClass}>
+              {versions.map((version, index) => (
+                <option key={version.version} value={index}>
+                  v{version.version + 1} · {version.updatedAt.toLocaleString()}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {diff && diff.fields.length === 0 && diff.skills.length === 0 ? (
+            <p className="text-sm text-gray-600">These versions are identical.</p>
+          ) : diff && (
+            <div className="space-y-3">
+              {diff.fields.map((change) => (
+                <div key={change.field} className="bg-white/80 backdrop-blur-sm rounded-2xl p-4 shadow-sm text-sm">
+                  <p className="font-semibold text-gray-800 mb-2">{FIELD_LABELS[change.field]}</p>
+                  <p className="text-red-700 line-through whitespace-pre-line">{change.from || "(empty)"}</p>
+                  <p className="text-green-700 whitespace-pre-line">{change.to || "(empty)"}</p>
+                </div>
+              ))}
+
+              {diff.skills.length > 0 && (
+                <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-4 shadow-sm text-sm">
+                  <p className="font-semibold text-gray-800 mb-2">Skills</p>
+                  <ul className="space-y-1">
+                    {diff.skills.map((change) => (
+                      <li key={`${change.kind}-${change.name}`}>
+                        {change.kind === "added" && <>➕ <span className="font-medium">{change.name}</span> added at {levelOf(change.toHandle)}</>}
+                        {change.kind === "removed" && <>➖ <span className="font-medium">{change.name}</span> removed, was {levelOf(change.fromHandle)}</>}
+                        {change.kind === "level" && (
+                          <>🔁 <span className="font-medium">{change.name}</span> level re-submitted: {levelOf(change.fromHandle)} → {levelOf(change.toHandle)}</>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  <button
+                    type="button"
+                    onClick={decryptComparedLevels}
+                    disabled={isDecrypting || !fhevmInstance}
+                    className="mt-3 px-4 py-2 rounded-xl text-sm font-semibold text-indigo-700 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50"
+                  >
+                    {isDecrypting ? "🔓 Decrypting..." : "🔓 Decrypt Compared Levels"}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,20 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useAccount, useChainId } from 'wagmi';
+import { useAccount } from 'wagmi';
 import { ethers } from 'ethers';
-import { SecureResumeABI } from '@/abi/SecureResumeABI';
-import { SecureResumeAddresses } from '@/abi/SecureResumeAddresses';
+import { useFhevm } from '@/fhevm/useFhevm';
+import { useFhevmWorker } from '@/fhevm/useFhevmWorker';
+import { FhevmDecryptionSignature } from '@/fhevm/FhevmDecryptionSignature';
+import { useInMemoryStorage } from '@/hooks/useInMemoryStorage';
+import { SecureResume, useSecureResumeContract } from '@/hooks/useSecureResumeContract';
+import { useTransactionActivity } from '@/hooks/useTransactionActivity';
+import { downloadFile } from '@/lib/download';
+import { toJsonResume } from '@/lib/jsonResume';
+import { errorMessage } from '@/lib/errors';
+import { shortAddress } from '@/lib/format';
+import { CHAINS } from '@/lib/registry';
+import { ResumeVersionHistory } from './ResumeVersionHistory';
 
 interface ResumeData {
   name: string;
@@ -15,36 +25,89 @@ interface ResumeData {
   updatedAt: Date;
 }
 
+interface EvaluationGrant {
+  hr: string;
+  active: boolean;
+  expiresAt: Date | null;
+  allSkills: boolean;
+  skillIndices: number[];
+}
+
+// Encrypted years of experience and expected salary, once revealed by the owner
+interface CareerDetails {
+  yearsOfExperience: number;
+  expectedSalary: bigint;
+}
+
+// One evaluation event HR emitted against the connected candidate
+interface AccessRecord {
+  hr: string;
+  kind: "evaluation" | "score" | "count" | "experience" | "salary" | "batch";
+  skillNames: string[];
+  timestamp: Date;
+  txHash: string;
+}
+
+const ACCESS_KIND_LABELS: Record<AccessRecord["kind"], string> = {
+  evaluation: "Skill match",
+  score: "Weighted score",
+  count: "Skill count",
+  experience: "Years of experience range",
+  salary: "Expected salary budget",
+  batch: "Batch requirement match",
+};
+
 export const ResumeViewer = () => {
-  const { address } = useAccount();
-  const chainId = useChainId();
+  const { address, isConnected } = useAccount();
+  const { chainId, contractAddress, deployment, getSigner, getContract, getSignedContract } = useSecureResumeContract();
+  const { storage } = useInMemoryStorage();
+  const { trackTransaction } = useTransactionActivity();
   const [resume, setResume] = useState<ResumeData | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState("");
+  const [skillLevels, setSkillLevels] = useState<number[] | null>(null);
+  // undefined until revealed, null when the owner never provided them
+  const [careerDetails, setCareerDetails] = useState<CareerDetails | null | undefined>(undefined);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [grants, setGrants] = useState<EvaluationGrant[]>([]);
+  const [grantHR, setGrantHR] = useState("");
+  const [grantSkillIndices, setGrantSkillIndices] = useState<number[]>([]);
+  const [grantExpiry, setGrantExpiry] = useState("");
+  const [isUpdatingGrant, setIsUpdatingGrant] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [deleteConfirmText, setDeleteConfirmText] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [accessHistory, setAccessHistory] = useState<AccessRecord[]>([]);
+
+  // Get FHEVM instance
+  const provider = typeof window !== 'undefined' ? window.ethereum : undefined;
+  const { instance: fhevmInstance, status: fhevmStatus, error: fhevmError } = useFhevm({
+    provider,
+    chainId,
+    enabled: isConnected && !!address,
+  });
+  const { userDecrypt } = useFhevmWorker({
+    chainId,
+    instance: fhevmInstance,
+    enabled: isConnected && !!address,
+  });
 
   const loadResume = async () => {
     if (!address) return;
 
     setIsLoading(true);
     setMessage("");
+    setSkillLevels(null);
+    setCareerDetails(undefined);
 
     try {
-      if (!window.ethereum) {
-        throw new Error("No Ethereum wallet found");
-      }
-
-      // Get contract address for current network
-      const contractAddress = SecureResumeAddresses[chainId.toString() as keyof typeof SecureResumeAddresses]?.address;
-
       if (!contractAddress) {
         throw new Error(`Contract not deployed on network ${chainId}`);
       }
 
       console.log('Loading resume from contract:', contractAddress);
 
-      // Create contract instance
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const contract = new ethers.Contract(contractAddress, SecureResumeABI.abi, provider);
+      const contract = getContract();
 
       // Check if user has resume
       const hasResume = await contract.hasResume(address);
@@ -65,18 +128,259 @@ export const ResumeViewer = () => {
         updatedAt: new Date(Number(resumeInfo[5]) * 1000),
       });
 
+      await loadGrants(contract);
+      await loadAccessHistory(contract);
+
     } catch (error) {
       console.error("Loading error:", error);
       if (error instanceof Error && error.message.includes("No resume found")) {
         setMessage("No resume found. Please submit your resume first.");
       } else {
-        setMessage(`Failed to load resume: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        setMessage(`Failed to load resume: ${errorMessage(error)}`);
       }
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Load every HR address this candidate has shared their resume with
+  const loadGrants = async (contract: SecureResume) => {
+    if (!address) return;
+
+    const grantees: string[] = await contract.getEvaluationGrantees(address);
+    const loaded = await Promise.all(
+      grantees.map(async (hr) => {
+        const [active, expiresAt, allSkills, skillMask] = await contract.getEvaluationGrant(address, hr);
+        const skillIndices: number[] = [];
+        for (let i = 0; i < 256 && (BigInt(skillMask) >> BigInt(i)) > BigInt(0); i++) {
+          if ((BigInt(skillMask) >> BigInt(i)) & BigInt(1)) skillIndices.push(i);
+        }
+        return {
+          hr,
+          active,
+          expiresAt: Number(expiresAt) === 0 ? null : new Date(Number(expiresAt) * 1000),
+          allSkills,
+          skillIndices,
+        };
+      })
+    );
+
+    setGrants(loaded);
+  };
+
+  // Every evaluation HR has run against this candidate, newest first
+  const loadAccessHistory = async (contract: SecureResume) => {
+    if (!address) return;
+
+    // Nothing can be logged before the selected deployment was mined
+    const fromBlock = deployment?.deployBlock ?? 0;
+    const [evaluations, scores, counts, experienceChecks, salaryChecks, batches] = await Promise.all([
+      contract.queryFilter(contract.filters.SkillEvaluated(address), fromBlock),
+      contract.queryFilter(contract.filters.SkillScoreCalculated(address), fromBlock),
+      contract.queryFilter(contract.filters.SkillCountCalculated(address), fromBlock),
+      contract.queryFilter(contract.filters.ExperienceEvaluated(address), fromBlock),
+      contract.queryFilter(contract.filters.SalaryEvaluated(address), fromBlock),
+      // Batch evaluations name each candidate with CandidateBatchEvaluated
+      contract.queryFilter(contract.filters.CandidateBatchEvaluated(address), fromBlock),
+    ]);
+
+    const timestamps = new Map<number, Date>();
+    const timestampOf = async (log: { blockNumber: number; getBlock: () => Promise<{ timestamp: number }> }) => {
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await log.getBlock();
+        timestamps.set(log.blockNumber, new Date(block.timestamp * 1000));
+      }
+      return timestamps.get(log.blockNumber)!;
+    };
+
+    // Skill names are taken from the events, the indices they were evaluated at may have moved since
+    const records: AccessRecord[] = [];
+    for (const log of evaluations) {
+      records.push({
+        hr: log.args.hr,
+        kind: "evaluation",
+        skillNames: [log.args.skillName],
+        timestamp: await timestampOf(log),
+        txHash: log.transactionHash,
+      });
+    }
+    for (const [kind, logs] of [["score", scores], ["count", counts], ["batch", batches]] as const) {
+      for (const log of logs) {
+        records.push({
+          hr: log.args.hr,
+          kind,
+          skillNames: [...log.args.skillNames],
+          timestamp: await timestampOf(log),
+          txHash: log.transactionHash,
+        });
+      }
+    }
+    for (const [kind, logs] of [["experience", experienceChecks], ["salary", salaryChecks]] as const) {
+      for (const log of logs) {
+        records.push({
+          hr: log.args.hr,
+          kind,
+          skillNames: [],
+          timestamp: await timestampOf(log),
+          txHash: log.transactionHash,
+        });
+      }
+    }
+
+    setAccessHistory(records.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
+  };
+
+  const grantAccess = async () => {
+    if (!address) return;
+
+    if (!ethers.isAddress(grantHR)) {
+      setMessage("Please enter a valid HR address");
+      return;
+    }
+
+    // An empty expiry means the grant never expires
+    const expiresAt = grantExpiry ? Math.floor(new Date(grantExpiry).getTime() / 1000) : 0;
+
+    setIsUpdatingGrant(true);
+    setMessage("");
+
+    try {
+      const contract = await getSignedContract();
+
+      // An empty index list shares every skill
+      const tx = await contract.grantEvaluationAccess(grantHR, grantSkillIndices, expiresAt);
+      await trackTransaction(tx, { kind: "access", label: `Grant evaluation access to ${shortAddress(grantHR)}` });
+
+      setGrantHR("");
+      setGrantSkillIndices([]);
+      setGrantExpiry("");
+      await loadGrants(contract);
+    } catch (error) {
+      console.error("Grant error:", error);
+      setMessage(`Failed to grant access: ${errorMessage(error)}`);
+    } finally {
+      setIsUpdatingGrant(false);
+    }
+  };
+
+  const revokeAccess = async (hr: string) => {
+    if (!address) return;
+
+    setIsUpdatingGrant(true);
+    setMessage("");
+
+    try {
+      const contract = await getSignedContract();
+
+      const tx = await contract.revokeEvaluationAccess(hr);
+      await trackTransaction(tx, { kind: "access", label: `Revoke evaluation access from ${shortAddress(hr)}` });
+
+      await loadGrants(contract);
+    } catch (error) {
+      console.error("Revoke error:", error);
+      setMessage(`Failed to revoke access: ${errorMessage(error)}`);
+    } finally {
+      setIsUpdatingGrant(false);
+    }
+  };
+
+  // Permanently delete the resume after the user typed DELETE to confirm
+  const deleteResume = async () => {
+    if (!address || deleteConfirmText !== "DELETE") return;
+
+    setIsDeleting(true);
+    setMessage("");
+
+    try {
+      const contract = await getSignedContract();
+
+      const tx = await contract.deleteResume();
+      await trackTransaction(tx, { kind: "resume", label: "Delete resume" });
+
+      setResume(null);
+      setSkillLevels(null);
+      setCareerDetails(undefined);
+      setGrants([]);
+      setShowDeleteConfirm(false);
+      setDeleteConfirmText("");
+      setMessage("Your resume has been deleted and all HR evaluation access was revoked.");
+    } catch (error) {
+      console.error("Delete error:", error);
+      setMessage(`Failed to delete resume: ${errorMessage(error)}`);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const toggleGrantSkill = (index: number) => {
+    setGrantSkillIndices(prev =>
+      prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b)
+    );
+  };
+
+  // Decrypt all of the owner's skill levels, experience and salary with a single userDecrypt call
+  const revealSkillLevels = async () => {
+    if (!address || !resume) return;
+
+    if (!fhevmInstance || fhevmStatus !== "ready") {
+      setMessage(`FHEVM is not ready. Status: ${fhevmStatus}${fhevmError ? `, Error: ${fhevmError.message}` : ''}`);
+      return;
+    }
+
+    setIsDecrypting(true);
+    setMessage("");
+
+    try {
+      if (!contractAddress) {
+        throw new Error(`Contract not deployed on network ${chainId}`);
+      }
+
+      const signer = await getSigner();
+      const contract = await getSignedContract();
+
+      // The contract already allows the owner on every stored skill level handle
+      const handles: string[] = await contract.getSkillLevels(address);
+      console.log('Encrypted skill level handles:', handles);
+
+      if (handles.some(handle => !handle || handle === ethers.ZeroHash)) {
+        throw new Error("One or more encrypted skill levels are missing");
+      }
+
+      // Zero handles until the owner stores their experience and salary
+      const [yearsHandle, salaryHandle]: string[] = await contract.getCareerDetails(address);
+      const hasCareerDetails = yearsHandle !== ethers.ZeroHash && salaryHandle !== ethers.ZeroHash;
+
+      const sig = await FhevmDecryptionSignature.loadOrSign(
+        fhevmInstance,
+        [contractAddress],
+        signer,
+        storage
+      );
+
+      if (!sig) {
+        throw new Error("Failed to create decryption signature");
+      }
+
+      const decryptedResults = await userDecrypt(
+        [...handles, ...(hasCareerDetails ? [yearsHandle, salaryHandle] : [])].map(handle => ({ handle, contractAddress })),
+        sig
+      );
+
+      setSkillLevels(handles.map(handle => Number(decryptedResults[handle])));
+      setCareerDetails(hasCareerDetails
+        ? {
+            yearsOfExperience: Number(decryptedResults[yearsHandle]),
+            expectedSalary: BigInt(decryptedResults[salaryHandle]),
+          }
+        : null);
+    } catch (error) {
+      console.error("Decryption error:", error);
+      setMessage(`Failed to reveal skill levels: ${errorMessage(error)}`);
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
   useEffect(() => {
     if (address) {
       loadResume();
@@ -84,6 +388,13 @@ export const ResumeViewer = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [address, chainId]);
 
+  // Levels are only exported once the owner has revealed them in this session
+  const exportJsonResume = () => {
+    if (!resume) return;
+    const jsonResume = toJsonResume({ ...resume, skillLevels });
+    downloadFile("resume.json", JSON.stringify(jsonResume, null, 2), "application/json");
+  };
+
   const buttonClass =
     "inline-flex items-center justify-center rounded-2xl px-6 py-3 font-semibold text-white shadow-lg " +
     "transition-all duration-300 hover:scale-105 active:scale-95 " +
@@ -108,7 +419,7 @@ export const ResumeViewer = () => {
         </h2>
       </div>
 
-      <div className="flex justify-center mb-6">
+      <div className="flex flex-wrap justify-center gap-3 mb-6">
         <button
           onClick={loadResume}
           disabled={isLoading}
@@ -116,6 +427,16 @@ export const ResumeViewer = () => {
         >
           {isLoading ? "Loading..." : "Refresh Resume"}
         </button>
+        {resume && (
+          <button
+            onClick={exportJsonResume}
+            disabled={isLoading}
+            className={buttonClass}
+            title={skillLevels ? undefined : "Reveal your levels first to include them in the export"}
+          >
+            ⬇️ Export JSON Resume{skillLevels ? "" : " (without levels)"}
+          </button>
+        )}
       </div>
 
       {message && (
@@ -178,11 +499,49 @@ export const ResumeViewer = () => {
                   >
                     <span>💻</span>
                     <span>{skill}</span>
+                    {skillLevels && (
+                      <span className="ml-1 px-2 py-0.5 bg-white/30 rounded-full text-xs">
+                        {skillLevels[index]}/10
+                      </span>
+                    )}
                   </span>
                 ))}
               </div>
             </div>
 
+            <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-5 mb-5 shadow-sm text-sm text-gray-700 space-y-1">
+              <p>
+                <span className="font-medium">💼 Years of Experience:</span>{" "}
+                {careerDetails === undefined ? "🔒" : careerDetails === null ? "Not provided" : careerDetails.yearsOfExperience}
+              </p>
+              <p>
+                <span className="font-medium">💰 Expected Salary:</span>{" "}
+                {careerDetails === undefined ? "🔒" : careerDetails === null ? "Not provided" : careerDetails.expectedSalary.toLocaleString()}
+              </p>
+            </div>
+
+            <div className="flex justify-center mb-5">
+              {skillLevels ? (
+                <button
+                  onClick={() => {
+                    setSkillLevels(null);
+                    setCareerDetails(undefined);
+                  }}
+                  className={buttonClass}
+                >
+                  🙈 Hide My Levels
+                </button>
+              ) : (
+                <button
+                  onClick={revealSkillLevels}
+                  disabled={isDecrypting || !fhevmInstance || fhevmStatus !== "ready"}
+                  className={buttonClass}
+                >
+                  {isDecrypting ? "🔓 Decrypting..." : "🔓 Reveal My Levels"}
+                </button>
+              )}
+            </div>
+
             <div className="bg-gradient-to-r from-yellow-50 to-amber-50 border-2 border-yellow-200 rounded-2xl p-5">
               <div className="flex items-start space-x-3">
                 <span className="text-3xl">🔒</span>
@@ -191,12 +550,107 @@ export const ResumeViewer = () => {
                   <p className="text-sm text-yellow-800 leading-relaxed">
                     Your skill proficiency levels are encrypted on-chain. HR can evaluate your qualifications 
                     for job matches without seeing your actual skill levels. Your privacy is our priority.
+                    Only you can reveal your levels, and they are decrypted locally in your browser.
                   </p>
                 </div>
               </div>
             </div>
           </div>
 
+          {/* Evaluation Access */}
+          <div className="bg-gradient-to-br from-green-50 to-emerald-50 rounded-2xl p-6 shadow-md border-2 border-green-100">
+            <div className="flex items-center space-x-2 mb-2">
+              <span className="text-2xl">🤝</span>
+              <h3 className="text-xl font-bold text-green-800">Who Can Evaluate Me</h3>
+            </div>
+            <p className="text-sm text-green-700 mb-5">
+              HR can only run encrypted evaluations on your skills after you share your resume with them.
+            </p>
+
+            {grants.length === 0 ? (
+              <p className="text-sm text-gray-600 mb-5">You have not shared your resume with any HR address yet.</p>
+            ) : (
+              <div className="space-y-3 mb-5">
+                {grants.map((grant) => {
+                  const expired = grant.expiresAt !== null && grant.expiresAt.getTime() <= Date.now();
+                  const status = !grant.active ? "Revoked" : expired ? "Expired" : "Active";
+                  return (
+                    <div key={grant.hr} className="bg-white/80 backdrop-blur-sm rounded-2xl p-4 shadow-sm">
+                      <div className="flex items-center justify-between gap-3">
+                        <p className="text-xs font-mono text-gray-700 break-all">{grant.hr}</p>
+                        <span className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                          status === "Active" ? "bg-green-100 text-green-800" : "bg-gray-200 text-gray-700"
+                        }`}>
+                          {status}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-600 mt-2">
+                        Skills: {grant.allSkills
+                          ? "All skills"
+                          : grant.skillIndices.map(i => resume.skillNames[i] ?? `#${i}`).join(", ")}
+                        {" · "}
+                        {grant.expiresAt ? `Expires ${grant.expiresAt.toLocaleString()}` : "No expiry"}
+                      </p>
+                      {grant.active && (
+                        <button
+                          onClick={() => revokeAccess(grant.hr)}
+                          disabled={isUpdatingGrant}
+                          className="mt-2 text-sm text-red-600 hover:text-red-800 font-medium disabled:opacity-50"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-4 shadow-sm space-y-3">
+              <input
+                type="text"
+                value={grantHR}
+                onChange={(e) => setGrantHR(e.target.value)}
+                placeholder="🔍 HR wallet address"
+                className="w-full px-4 py-3 border-2 border-green-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-green-300 focus:border-green-400 transition-all"
+              />
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Skills to share (none selected = all skills)</p>
+                <div className="flex flex-wrap gap-3">
+                  {resume.skillNames.map((skill, index) => (
+                    <label key={index} className="flex items-center space-x-1 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={grantSkillIndices.includes(index)}
+                        onChange={() => toggleGrantSkill(index)}
+                      />
+                      <span>{skill}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label htmlFor="grant-expiry" className="block text-sm font-medium text-gray-700 mb-1">
+                  Expires (optional)
+                </label>
+                <input
+                  type="datetime-local"
+                  id="grant-expiry"
+                  value={grantExpiry}
+                  onChange={(e) => setGrantExpiry(e.target.value)}
+                  className="w-full px-4 py-3 border-2 border-green-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-green-300 focus:border-green-400 transition-all"
+                />
+              </div>
+              <button
+                onClick={grantAccess}
+                disabled={isUpdatingGrant || !grantHR}
+                className={buttonClass + " w-full"}
+              >
+                {isUpdatingGrant ? "⏳ Updating..." : "🤝 Share With HR"}
+              </button>
+            </div>
+          </div>
+
           {/* Timestamps */}
           <div className="bg-gradient-to-br from-gray-50 to-slate-50 rounded-2xl p-6 shadow-md border-2 border-gray-100">
             <div className="flex items-center space-x-2 mb-4">
@@ -216,6 +670,102 @@ export const ResumeViewer = () => {
               </div>
             </div>
           </div>
+
+          <ResumeVersionHistory fhevmInstance={fhevmInstance} updatedAt={resume.updatedAt} />
+
+          {/* Access History */}
+          <div className="bg-gradient-to-br from-amber-50 to-yellow-50 rounded-2xl p-6 shadow-md border-2 border-amber-100">
+            <div className="flex items-center space-x-2 mb-2">
+              <span className="text-2xl">🕵️</span>
+              <h3 className="text-xl font-bold text-amber-800">Access History</h3>
+            </div>
+            <p className="text-sm text-amber-700 mb-5">
+              Every encrypted evaluation HR has run against your skills, experience and salary.
+            </p>
+
+            {accessHistory.length === 0 ? (
+              <p className="text-sm text-gray-600">No HR has evaluated your skills yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {accessHistory.map((record) => (
+                  <div key={`${record.txHash}-${record.kind}`} className="bg-white/80 backdrop-blur-sm rounded-2xl px-4 py-3 shadow-sm">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="font-mono text-sm text-gray-800 break-all">{record.hr}</span>
+                      <span className="text-xs text-gray-500 whitespace-nowrap">{record.timestamp.toLocaleString()}</span>
+                    </div>
+                    <p className="text-sm text-amber-800 mt-1">
+                      {ACCESS_KIND_LABELS[record.kind]}
+                      {record.skillNames.length > 0 && <>: {record.skillNames.join(", ")}</>}
+                    </p>
+                    {CHAINS[chainId]?.explorerUrl ? (
+                      <a
+                        href={`${CHAINS[chainId].explorerUrl}/tx/${record.txHash}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-blue-600 hover:text-blue-800 font-mono break-all"
+                      >
+                        {record.txHash}
+                      </a>
+                    ) : (
+                      <p className="text-xs text-gray-500 font-mono break-all">{record.txHash}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Delete Resume */}
+          <div className="bg-gradient-to-br from-red-50 to-pink-50 rounded-2xl p-6 shadow-md border-2 border-red-100">
+            <div className="flex items-center space-x-2 mb-2">
+              <span className="text-2xl">🗑️</span>
+              <h3 className="text-xl font-bold text-red-800">Delete Resume</h3>
+            </div>
+            <p className="text-sm text-red-700 mb-4">
+              Removes your resume from the contract and revokes every HR evaluation grant. This cannot be undone.
+            </p>
+
+            {!showDeleteConfirm ? (
+              <button
+                onClick={() => setShowDeleteConfirm(true)}
+                className="px-6 py-3 rounded-2xl font-semibold text-red-700 bg-white border-2 border-red-200 hover:bg-red-100 transition-all"
+              >
+                Delete My Resume
+              </button>
+            ) : (
+              <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-4 shadow-sm space-y-3">
+                <label htmlFor="delete-confirm" className="block text-sm font-medium text-gray-700">
+                  Type <span className="font-mono font-bold">DELETE</span> to confirm
+                </label>
+                <input
+                  type="text"
+                  id="delete-confirm"
+                  value={deleteConfirmText}
+                  onChange={(e) => setDeleteConfirmText(e.target.value)}
+                  className="w-full px-4 py-3 border-2 border-red-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-red-300 focus:border-red-400 transition-all"
+                />
+                <div className="flex gap-3">
+                  <button
+                    onClick={deleteResume}
+                    disabled={isDeleting || deleteConfirmText !== "DELETE"}
+                    className="flex-1 px-6 py-3 rounded-2xl font-semibold text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 transition-all"
+                  >
+                    {isDeleting ? "⏳ Deleting..." : "Permanently Delete"}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setShowDeleteConfirm(false);
+                      setDeleteConfirmText("");
+                    }}
+                    disabled={isDeleting}
+                    className="px-6 py-3 rounded-2xl font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 transition-all"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
         </div>
       )}
 
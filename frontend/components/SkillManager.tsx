@@ -0,0 +1,189 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount } from 'wagmi';
+import { ethers } from 'ethers';
+import { FhevmInstance } from '@/fhevm/fhevmTypes';
+import { useFhevmWorker } from '@/fhevm/useFhevmWorker';
+import { SecureResume, useSecureResumeContract } from '@/hooks/useSecureResumeContract';
+import { useTransactionActivity } from '@/hooks/useTransactionActivity';
+import { errorMessage } from '@/lib/errors';
+
+interface SkillManagerProps {
+  skillNames: string[];
+  maxSkills: number;
+  fhevmInstance: FhevmInstance | undefined;
+  onSkillsChanged: () => Promise<void>;
+}
+
+// Edits individual skills on an existing resume without re-submitting the whole resume
+export const SkillManager = ({ skillNames, maxSkills, fhevmInstance, onSkillsChanged }: SkillManagerProps) => {
+  const { address } = useAccount();
+  const { chainId, contractAddress, getSignedContract } = useSecureResumeContract();
+  const { encrypt } = useFhevmWorker({ chainId, instance: fhevmInstance });
+  const { trackTransaction } = useTransactionActivity();
+
+  const [newSkillName, setNewSkillName] = useState("");
+  const [newSkillLevel, setNewSkillLevel] = useState(5);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [message, setMessage] = useState("");
+
+  // Send a skill transaction, then reload the resume from chain; resolves to whether it succeeded
+  const runUpdate = async (
+    send: (contract: SecureResume) => Promise<ethers.ContractTransactionResponse>,
+    label: string,
+    successMessage: string
+  ) => {
+    setIsUpdating(true);
+    setMessage("");
+
+    try {
+      const contract = await getSignedContract();
+      const tx = await send(contract);
+      setMessage(`⏳ Transaction submitted: ${tx.hash}. Waiting for confirmation...`);
+      await trackTransaction(tx, { kind: "skills", label });
+
+      setMessage(successMessage);
+      await onSkillsChanged();
+      return true;
+    } catch (error) {
+      console.error("Skill update error:", error);
+      setMessage(`❌ Failed to update skills: ${errorMessage(error)}`);
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const addSkill = async () => {
+    if (!newSkillName.trim()) {
+      setMessage("Skill name is required");
+      return;
+    }
+
+    if (skillNames.some(skill => skill.toLowerCase() === newSkillName.trim().toLowerCase())) {
+      setMessage("Skill names must be unique");
+      return;
+    }
+
+    if (!fhevmInstance || !address || !contractAddress) {
+      setMessage("FHEVM is not ready");
+      return;
+    }
+
+    const added = await runUpdate(async (contract) => {
+      const encrypted = await encrypt(
+        contractAddress as `0x${string}`,
+        address,
+        [{ type: "uint32", value: newSkillLevel }]
+      );
+      return contract.addSkill(newSkillName.trim(), encrypted.handles[0], encrypted.inputProof);
+    }, `Add skill "${newSkillName.trim()}"`, `✅ Skill "${newSkillName.trim()}" added successfully!`);
+
+    if (added) {
+      setNewSkillName("");
+      setNewSkillLevel(5);
+    }
+  };
+
+  const removeSkill = (index: number) =>
+    runUpdate(
+      (contract) => contract.removeSkill(index),
+      `Remove skill "${skillNames[index]}"`,
+      `✅ Skill "${skillNames[index]}" removed successfully!`
+    );
+
+  // Swap a skill with its neighbour
+  const moveSkill = (index: number, offset: -1 | 1) => {
+    const newOrder = skillNames.map((_, i) => i);
+    [newOrder[index], newOrder[index + offset]] = [newOrder[index + offset], newOrder[index]];
+    return runUpdate(
+      (contract) => contract.reorderSkills(newOrder),
+      "Reorder skills",
+      "✅ Skills reordered successfully!"
+    );
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-indigo-50 to-purple-50 rounded-2xl p-6 shadow-md border-2 border-indigo-100">
+      <div className="flex items-center space-x-2 mb-2">
+        <span className="text-2xl">🧩</span>
+        <h3 className="text-xl font-bold text-indigo-800">Manage Individual Skills</h3>
+      </div>
+      <p className="text-sm text-indigo-700 mb-5">
+        Add, remove or reorder single skills without re-encrypting the rest of your resume ({skillNames.length}/{maxSkills} skills).
+      </p>
+
+      <div className="space-y-2 mb-5">
+        {skillNames.map((skill, index) => (
+          <div key={`${skill}-${index}`} className="flex items-center justify-between bg-white/80 backdrop-blur-sm rounded-2xl px-4 py-3 shadow-sm">
+            <span className="font-medium text-gray-800">{skill}</span>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => moveSkill(index, -1)}
+                disabled={isUpdating || index === 0}
+                className="px-2 py-1 text-indigo-600 hover:text-indigo-800 disabled:opacity-30"
+                aria-label={`Move ${skill} up`}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => moveSkill(index, 1)}
+                disabled={isUpdating || index === skillNames.length - 1}
+                className="px-2 py-1 text-indigo-600 hover:text-indigo-800 disabled:opacity-30"
+                aria-label={`Move ${skill} down`}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => removeSkill(index)}
+                disabled={isUpdating || skillNames.length <= 1}
+                className="px-3 py-1 text-red-600 hover:text-red-800 font-medium disabled:opacity-30"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {skillNames.length < maxSkills && (
+        <div className="flex flex-col sm:flex-row gap-3">
+          <input
+            type="text"
+            value={newSkillName}
+            onChange={(e) => setNewSkillName(e.target.value)}
+            placeholder="💻 New skill name"
+            className="flex-1 px-4 py-3 border-2 border-indigo-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-indigo-300 focus:border-indigo-400 transition-all"
+          />
+          <select
+            value={newSkillLevel}
+            onChange={(e) => setNewSkillLevel(parseInt(e.target.value))}
+            className="w-full sm:w-32 px-4 py-3 border-2 border-indigo-200 rounded-2xl focus:outline-none focus:ring-4 focus:ring-indigo-300 focus:border-indigo-400 transition-all bg-white"
+          >
+            {[1,2,3,4,5,6,7,8,9,10].map(level => (
+              <option key={level} value={level}>{level}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={addSkill}
+            disabled={isUpdating || !fhevmInstance}
+            className="px-6 py-3 bg-gradient-to-r from-blue-500 to-indigo-500 text-white rounded-2xl hover:from-blue-600 hover:to-indigo-600 transition-all duration-300 shadow-md font-semibold disabled:opacity-50"
+          >
+            {isUpdating ? "⏳ Updating..." : "➕ Add Skill"}
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <p className={`mt-4 text-sm font-medium ${message.includes("successfully") ? "text-green-700" : "text-red-700"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, expect, test, vi } from "vitest";
+import { GenericStringPersistentStorage } from "./GenericStringPersistentStorage";
+
+const ALICE = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const BOB = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+
+// The shape FhevmDecryptionSignature stores, which is what gives an entry its expiry
+const signature = (startTimestamp: number, durationDays: number) =>
+  JSON.stringify({ publicKey: "0x01", signature: "0x02", startTimestamp, durationDays });
+
+beforeEach(() => {
+  // jsdom has no IndexedDB, so these run against the in-memory fallback
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+test("falls back to memory when IndexedDB is unavailable", async () => {
+  const storage = new GenericStringPersistentStorage("test-fallback");
+  expect(await storage.backend()).toBe("memory");
+
+  await storage.setItem(`${ALICE}:hash`, "value");
+  expect(await storage.getItem(`${ALICE}:hash`)).toBe("value");
+  expect(window.localStorage.length).toBe(0);
+
+  await storage.removeItem(`${ALICE}:hash`);
+  expect(await storage.getItem(`${ALICE}:hash`)).toBeNull();
+});
+
+test("drops decryption signatures once their validity window has passed", async () => {
+  const storage = new GenericStringPersistentStorage("test-expiry");
+  const now = Math.floor(Date.now() / 1000);
+  await storage.setItem(`${ALICE}:short`, signature(now, 1));
+  await storage.setItem(`${ALICE}:long`, signature(now, 30));
+  await storage.setItem(`${ALICE}:plain`, "not a signature");
+
+  vi.setSystemTime(new Date("2026-01-01T23:59:59Z"));
+  expect(await storage.getItem(`${ALICE}:short`)).toBe(signature(now, 1));
+
+  vi.setSystemTime(new Date("2026-01-02T00:00:00Z"));
+  expect(await storage.getItem(`${ALICE}:short`)).toBeNull();
+  expect(await storage.getItem(`${ALICE}:long`)).toBe(signature(now, 30));
+  // Values without a validity window never expire
+  vi.setSystemTime(new Date("2030-01-01T00:00:00Z"));
+  expect(await storage.getItem(`${ALICE}:plain`)).toBe("not a signature");
+});
+
+test("clears only the entries of one wallet", async () => {
+  const storage = new GenericStringPersistentStorage("test-clear");
+  await storage.setItem(`${ALICE}:first`, "alice 1");
+  await storage.setItem(`${ALICE}:second`, "alice 2");
+  await storage.setItem(`${BOB}:first`, "bob");
+  await storage.setItem("unscoped", "shared");
+
+  // Addresses are matched regardless of checksum casing
+  await storage.clearUser(ALICE.toLowerCase());
+
+  expect(await storage.getItem(`${ALICE}:first`)).toBeNull();
+  expect(await storage.getItem(`${ALICE}:second`)).toBeNull();
+  expect(await storage.getItem(`${BOB}:first`)).toBe("bob");
+  expect(await storage.getItem("unscoped")).toBe("shared");
+});
@@ -0,0 +1,261 @@
+import { openDB, DBSchema, IDBPDatabase } from "idb";
+import { GenericStringStorage } from "./GenericStringStorage";
+
+type StoredEntry = {
+  key: string;
+  owner: string; // lower-cased wallet address, "" when the key is not wallet scoped
+  expiresAt: number | null; // ms since epoch, null = never expires
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+};
+
+interface PersistentStorageDB extends DBSchema {
+  entries: {
+    key: string;
+    value: StoredEntry;
+    indexes: { owner: string };
+  };
+  cryptoKeys: {
+    key: string;
+    value: { id: string; key: CryptoKey };
+  };
+}
+
+// Where the encrypted entries and their AES key actually live
+interface EntryStore {
+  readonly backend: PersistentStorageBackend;
+  get(key: string): Promise<StoredEntry | undefined>;
+  put(entry: StoredEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  all(): Promise<StoredEntry[]>;
+  byOwner(owner: string): Promise<StoredEntry[]>;
+  cryptoKey(): Promise<CryptoKey>;
+}
+
+// "memory" when IndexedDB is unavailable and entries are lost on reload
+export type PersistentStorageBackend = "indexeddb" | "memory";
+
+const CRYPTO_KEY_ID = "master";
+const AES_PARAMS = { name: "AES-GCM", length: 256 } as const;
+
+class IndexedDBEntryStore implements EntryStore {
+  readonly backend = "indexeddb";
+  #db: IDBPDatabase<PersistentStorageDB>;
+
+  constructor(db: IDBPDatabase<PersistentStorageDB>) {
+    this.#db = db;
+  }
+
+  static async open(name: string): Promise<IndexedDBEntryStore> {
+    const db = await openDB<PersistentStorageDB>(name, 1, {
+      upgrade(db) {
+        if (!db.objectStoreNames.contains("entries")) {
+          const entries = db.createObjectStore("entries", { keyPath: "key" });
+          entries.createIndex("owner", "owner");
+        }
+        if (!db.objectStoreNames.contains("cryptoKeys")) {
+          db.createObjectStore("cryptoKeys", { keyPath: "id" });
+        }
+      },
+    });
+    return new IndexedDBEntryStore(db);
+  }
+
+  get(key: string) {
+    return this.#db.get("entries", key);
+  }
+
+  async put(entry: StoredEntry) {
+    await this.#db.put("entries", entry);
+  }
+
+  delete(key: string) {
+    return this.#db.delete("entries", key);
+  }
+
+  all() {
+    return this.#db.getAll("entries");
+  }
+
+  byOwner(owner: string) {
+    return this.#db.getAllFromIndex("entries", "owner", owner);
+  }
+
+  // IndexedDB can hold a CryptoKey as-is, so the key is never extractable by page scripts
+  async cryptoKey() {
+    const stored = await this.#db.get("cryptoKeys", CRYPTO_KEY_ID);
+    if (stored) {
+      return stored.key;
+    }
+    const key = await crypto.subtle.generateKey(AES_PARAMS, false, [
+      "encrypt",
+      "decrypt",
+    ]);
+    await this.#db.put("cryptoKeys", { id: CRYPTO_KEY_ID, key });
+    return key;
+  }
+}
+
+// Used when IndexedDB is unavailable. Nothing is written to disk: localStorage only holds strings, so
+// the AES key would have to be exported next to the ciphertext it protects.
+class InMemoryEntryStore implements EntryStore {
+  readonly backend = "memory";
+  #entries = new Map<string, StoredEntry>();
+  #cryptoKey: Promise<CryptoKey> | undefined;
+
+  async get(key: string) {
+    return this.#entries.get(key);
+  }
+
+  async put(entry: StoredEntry) {
+    this.#entries.set(entry.key, entry);
+  }
+
+  async delete(key: string) {
+    this.#entries.delete(key);
+  }
+
+  async all() {
+    return [...this.#entries.values()];
+  }
+
+  async byOwner(owner: string) {
+    return (await this.all()).filter((entry) => entry.owner === owner);
+  }
+
+  cryptoKey() {
+    if (!this.#cryptoKey) {
+      this.#cryptoKey = crypto.subtle.generateKey(AES_PARAMS, false, [
+        "encrypt",
+        "decrypt",
+      ]);
+    }
+    return this.#cryptoKey;
+  }
+}
+
+// Keys written by FhevmDecryptionSignature look like `${userAddress}:${hash}`
+function _ownerOf(key: string): string {
+  const separator = key.indexOf(":");
+  return separator === -1 ? "" : key.slice(0, separator).toLowerCase();
+}
+
+// Decryption signatures carry their own validity window, anything else never expires
+function _expiresAtOf(value: string): number | null {
+  try {
+    const parsed = JSON.parse(value);
+    if (
+      typeof parsed?.startTimestamp === "number" &&
+      typeof parsed?.durationDays === "number"
+    ) {
+      return (parsed.startTimestamp + parsed.durationDays * 24 * 60 * 60) * 1000;
+    }
+  } catch {
+    //
+  }
+  return null;
+}
+
+/**
+ * GenericStringStorage that survives page reloads.
+ *
+ * Values are AES-GCM encrypted before they are written, expired decryption
+ * signatures are evicted on open and on read, and `clearUser` drops every
+ * entry that belongs to one wallet. Uses IndexedDB when available and falls
+ * back to keeping the entries in memory otherwise, see `backend()`.
+ */
+export class GenericStringPersistentStorage implements GenericStringStorage {
+  #name: string;
+  #store: Promise<EntryStore> | undefined;
+
+  constructor(name: string = "fhevm-decryption-signatures") {
+    this.#name = name;
+  }
+
+  #open(): Promise<EntryStore> {
+    if (!this.#store) {
+      this.#store = (async () => {
+        let store: EntryStore;
+        try {
+          store = await IndexedDBEntryStore.open(this.#name);
+        } catch (e) {
+          console.warn(
+            `IndexedDB unavailable, keeping decryption signatures in memory: ${e}`
+          );
+          store = new InMemoryEntryStore();
+        }
+        await this.#evictExpired(store);
+        return store;
+      })();
+    }
+    return this.#store;
+  }
+
+  async #evictExpired(store: EntryStore) {
+    const now = Date.now();
+    for (const entry of await store.all()) {
+      if (entry.expiresAt !== null && entry.expiresAt <= now) {
+        await store.delete(entry.key);
+      }
+    }
+  }
+
+  // Where the entries ended up, so callers can tell the user signatures will not survive a reload
+  async backend(): Promise<PersistentStorageBackend> {
+    return (await this.#open()).backend;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const store = await this.#open();
+    const entry = await store.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      await store.delete(key);
+      return null;
+    }
+
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: entry.iv },
+        await store.cryptoKey(),
+        entry.data
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch {
+      // Written with a key that no longer exists, treat it as missing
+      await store.delete(key);
+      return null;
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const store = await this.#open();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      await store.cryptoKey(),
+      new TextEncoder().encode(value)
+    );
+    await store.put({
+      key,
+      owner: _ownerOf(key),
+      expiresAt: _expiresAtOf(value),
+      iv,
+      data,
+    });
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const store = await this.#open();
+    await store.delete(key);
+  }
+
+  async clearUser(userAddress: string): Promise<void> {
+    const store = await this.#open();
+    for (const entry of await store.byOwner(userAddress.toLowerCase())) {
+      await store.delete(entry.key);
+    }
+  }
+}
@@ -33,3 +33,35 @@ export type EIP712Type = {
     }[];
   };
 };
+
+// A cleartext value for an encrypted input, `type` picks the add* method of the input builder
+export type FhevmEncryptValue =
+  | { type: "bool"; value: boolean }
+  | { type: "uint8" | "uint16" | "uint32"; value: number }
+  | { type: "uint64" | "uint128" | "uint256"; value: bigint }
+  | { type: "address"; value: string };
+
+export type FhevmEncryptedInput = {
+  handles: Uint8Array[];
+  inputProof: Uint8Array;
+};
+
+// Stages of a worker job, in the order they happen; the instance stages only run on first use
+export type FhevmWorkerStage =
+  | "starting"
+  | "loading-sdk"
+  | "initializing-sdk"
+  | "creating-instance"
+  | "encrypting"
+  | "decrypting"
+  | "done";
+
+export type FhevmWorkerProgress = {
+  stage: FhevmWorkerStage;
+  progress: number; // 0 to 1
+};
+
+export type FhevmWorkerJobOptions = {
+  signal?: AbortSignal;
+  onProgress?: (progress: FhevmWorkerProgress) => void;
+};
@@ -0,0 +1,167 @@
+import type {
+  FhevmWorkerJobOptions,
+  FhevmWorkerProgress,
+  FhevmWorkerStage,
+} from "../fhevmTypes";
+import { FhevmAbortError, FhevmReactError } from "./fhevm";
+import type {
+  FhevmWorkerConfig,
+  FhevmWorkerError,
+  FhevmWorkerJob,
+  FhevmWorkerRequest,
+  FhevmWorkerResponse,
+  FhevmWorkerResultType,
+} from "./fhevmWorkerTypes";
+
+// Rough share of the total time each stage has started at, creating the instance only happens on first use
+export const FHEVM_WORKER_STAGE_PROGRESS: Record<FhevmWorkerStage, number> = {
+  starting: 0.05,
+  "loading-sdk": 0.15,
+  "initializing-sdk": 0.3,
+  "creating-instance": 0.45,
+  encrypting: 0.6,
+  decrypting: 0.6,
+  done: 1,
+};
+
+export const fhevmWorkerProgress = (stage: FhevmWorkerStage): FhevmWorkerProgress => ({
+  stage,
+  progress: FHEVM_WORKER_STAGE_PROGRESS[stage],
+});
+
+type PendingJob = {
+  request: FhevmWorkerRequest;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: FhevmWorkerProgress) => void;
+  detach: () => void;
+};
+
+function toError(error: FhevmWorkerError): Error {
+  if (error.code) {
+    return new FhevmReactError(error.code, error.message);
+  }
+  const e = new Error(error.message);
+  e.name = error.name;
+  return e;
+}
+
+/**
+ * Promise API over fhevm.worker.ts for one network.
+ *
+ * Encryption cannot be interrupted once the worker is inside the SDK, so cancelling a job
+ * terminates the worker, which stops the computation, and replays the other pending jobs
+ * on a fresh one.
+ */
+export class FhevmWorkerClient {
+  private readonly _config: FhevmWorkerConfig;
+  private _worker: Worker | undefined;
+  private _nextId = 1;
+  private readonly _pending = new Map<number, PendingJob>();
+
+  constructor(config: FhevmWorkerConfig) {
+    this._config = config;
+  }
+
+  public static isSupported(): boolean {
+    return typeof Worker !== "undefined";
+  }
+
+  public run<J extends FhevmWorkerJob>(
+    job: J,
+    options: FhevmWorkerJobOptions = {}
+  ): Promise<FhevmWorkerResultType<J["type"]>> {
+    const { signal, onProgress } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new FhevmAbortError());
+    }
+
+    const id = this._nextId++;
+    const request: FhevmWorkerRequest = { id, config: this._config, job };
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => this._cancel(id);
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this._pending.set(id, {
+        request,
+        resolve: resolve as (result: unknown) => void,
+        reject,
+        onProgress,
+        detach: () => signal?.removeEventListener("abort", onAbort),
+      });
+
+      onProgress?.(fhevmWorkerProgress("starting"));
+      this._post(request);
+    });
+  }
+
+  // Stop the worker for good, pending jobs reject with FhevmAbortError
+  public terminate() {
+    this._worker?.terminate();
+    this._worker = undefined;
+    for (const id of [...this._pending.keys()]) {
+      this._settle(id)?.reject(new FhevmAbortError());
+    }
+  }
+
+  private _post(request: FhevmWorkerRequest) {
+    if (!this._worker) {
+      this._worker = new Worker(new URL("./fhevm.worker.ts", import.meta.url));
+      this._worker.addEventListener("message", (event: MessageEvent<FhevmWorkerResponse>) =>
+        this._onMessage(event.data)
+      );
+      // The worker script itself failed, e.g. it could not be fetched
+      this._worker.addEventListener("error", (event) => {
+        event.preventDefault();
+        this._fail(event.message || "The FHEVM worker could not be started.");
+      });
+    }
+    this._worker.postMessage(request);
+  }
+
+  private _onMessage(response: FhevmWorkerResponse) {
+    switch (response.type) {
+      case "progress":
+        this._pending.get(response.id)?.onProgress?.(fhevmWorkerProgress(response.stage));
+        break;
+      case "result":
+        this._settle(response.id)?.resolve(response.result);
+        break;
+      case "error":
+        this._settle(response.id)?.reject(toError(response.error));
+        break;
+    }
+  }
+
+  private _settle(id: number): PendingJob | undefined {
+    const job = this._pending.get(id);
+    if (job) {
+      this._pending.delete(id);
+      job.detach();
+    }
+    return job;
+  }
+
+  private _cancel(id: number) {
+    const job = this._settle(id);
+    if (!job) return;
+    job.reject(new FhevmAbortError());
+
+    // The worker may be busy with this very job, restart it and replay the rest in order
+    this._worker?.terminate();
+    this._worker = undefined;
+    for (const pending of this._pending.values()) {
+      pending.onProgress?.(fhevmWorkerProgress("starting"));
+      this._post(pending.request);
+    }
+  }
+
+  private _fail(message: string) {
+    this._worker?.terminate();
+    this._worker = undefined;
+    for (const id of [...this._pending.keys()]) {
+      this._settle(id)?.reject(new FhevmReactError("FHEVM_WORKER_ERROR", message));
+    }
+  }
+}
@@ -33,7 +33,8 @@ async function _getDB(): Promise<IDBPDatabase<PublicParamsDB> | undefined> {
   if (__dbPromise) {
     return __dbPromise;
   }
-  if (typeof window === "undefined") {
+  // IndexedDB is also available in the FHEVM Web Worker, which has no window
+  if (typeof indexedDB === "undefined") {
     return undefined;
   }
   __dbPromise = openDB<PublicParamsDB>("fhevm", 1, {
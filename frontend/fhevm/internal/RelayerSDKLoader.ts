@@ -19,6 +19,13 @@ export class RelayerSDKLoader {
 
   public load(): Promise<void> {
     console.log("[RelayerSDKLoader] load...");
+    // A Web Worker has no document to add the script tag to, it loads the UMD bundle synchronously instead.
+    // Checked by capability: Next.js compiles `typeof window` to a constant in client bundles, workers included
+    const scope: unknown = globalThis;
+    if (isWorkerScope(scope)) {
+      return this._loadInWorker(scope);
+    }
+
     // Ensure this only runs in the browser
     if (typeof window === "undefined") {
       console.log("[RelayerSDKLoader] window === undefined");
@@ -82,6 +89,40 @@ export class RelayerSDKLoader {
       console.log("[RelayerSDKLoader] script added!")
     });
   }
+
+  private _loadInWorker(scope: WorkerScopeType): Promise<void> {
+    if (!("relayerSDK" in scope)) {
+      try {
+        scope.importScripts(SDK_CDN_URL);
+      } catch (e) {
+        return Promise.reject(
+          new Error(
+            `RelayerSDKLoader: Failed to load Relayer SDK from ${SDK_CDN_URL} in the worker`,
+            { cause: e }
+          )
+        );
+      }
+    }
+    if (!isFhevmWindowType(scope, this._trace)) {
+      return Promise.reject(
+        new Error(
+          "RelayerSDKLoader: worker scope does not contain a valid relayerSDK object."
+        )
+      );
+    }
+    return Promise.resolve();
+  }
+}
+
+type WorkerScopeType = { importScripts: (...urls: string[]) => void };
+
+function isWorkerScope(scope: unknown): scope is WorkerScopeType {
+  return (
+    typeof scope === "object" &&
+    scope !== null &&
+    "importScripts" in scope &&
+    typeof scope.importScripts === "function"
+  );
 }
 
 function isFhevmRelayerSDKType(
@@ -26,11 +26,13 @@ function throwFhevmError(
   throw new FhevmReactError(code, message, cause ? { cause } : undefined);
 }
 
+// globalThis rather than window, so instances can also be created inside the FHEVM Web Worker
 const isFhevmInitialized = (): boolean => {
-  if (!isFhevmWindowType(window, console.log)) {
+  const scope: unknown = globalThis;
+  if (!isFhevmWindowType(scope, console.log)) {
     return false;
   }
-  return window.relayerSDK.__initialized__ === true;
+  return scope.relayerSDK.__initialized__ === true;
 };
 
 const fhevmLoadSDK: FhevmLoadSDKType = () => {
@@ -41,11 +43,12 @@ const fhevmLoadSDK: FhevmLoadSDKType = () => {
 const fhevmInitSDK: FhevmInitSDKType = async (
   options?: FhevmInitSDKOptions
 ) => {
-  if (!isFhevmWindowType(window, console.log)) {
+  const scope: unknown = globalThis;
+  if (!isFhevmWindowType(scope, console.log)) {
     throw new Error("window.relayerSDK is not available");
   }
-  const result = await window.relayerSDK.initSDK(options);
-  window.relayerSDK.__initialized__ = result;
+  const result = await scope.relayerSDK.initSDK(options);
+  scope.relayerSDK.__initialized__ = result;
   if (!result) {
     throw new Error("window.relayerSDK.initSDK failed.");
   }
@@ -69,7 +72,7 @@ export class FhevmAbortError extends Error {
   }
 }
 
-type FhevmRelayerStatusType =
+export type FhevmRelayerStatusType =
   | "sdk-loading"
   | "sdk-loaded"
   | "sdk-initializing"
@@ -332,7 +335,7 @@ export const createFhevmInstance = async (parameters: {
 
   throwIfAborted();
 
-  if (!isFhevmWindowType(window, console.log)) {
+  if (!isFhevmWindowType(globalThis, console.log)) {
     notify("sdk-loading");
 
     // throws an error if failed
@@ -354,7 +357,7 @@ export const createFhevmInstance = async (parameters: {
     notify("sdk-initialized");
   }
 
-  const relayerSDK = (window as unknown as FhevmWindowType).relayerSDK;
+  const relayerSDK = (globalThis as unknown as FhevmWindowType).relayerSDK;
 
   const aclAddress = relayerSDK.SepoliaConfig.aclContractAddress;
   if (!checkIsAddress(aclAddress)) {
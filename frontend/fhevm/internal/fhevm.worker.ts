@@ -0,0 +1,93 @@
+import type { FhevmInstance, FhevmWorkerStage } from "../fhevmTypes";
+import { createFhevmInstance, FhevmReactError, FhevmRelayerStatusType } from "./fhevm";
+import { encryptValues, userDecryptHandles } from "./fhevmJobs";
+import type {
+  FhevmWorkerConfig,
+  FhevmWorkerRequest,
+  FhevmWorkerResponse,
+} from "./fhevmWorkerTypes";
+
+//////////////////////////////////////////////////////////////////////////
+//
+// Runs FHEVM encryption and user decryption off the main thread.
+// Jobs run one at a time in the order they arrive. Cancelling a job
+// terminates the whole worker (see FhevmWorkerClient), so nothing here
+// needs to check for aborts.
+//
+//////////////////////////////////////////////////////////////////////////
+
+const STATUS_STAGES: Record<FhevmRelayerStatusType, FhevmWorkerStage> = {
+  "sdk-loading": "loading-sdk",
+  "sdk-loaded": "loading-sdk",
+  "sdk-initializing": "initializing-sdk",
+  "sdk-initialized": "initializing-sdk",
+  creating: "creating-instance",
+};
+
+const post = (response: FhevmWorkerResponse) => self.postMessage(response);
+
+// One instance per network, created by the first job that needs it
+let _instance: { key: string; promise: Promise<FhevmInstance> } | undefined;
+
+const getInstance = (
+  config: FhevmWorkerConfig,
+  onStage: (stage: FhevmWorkerStage) => void
+): Promise<FhevmInstance> => {
+  const key = JSON.stringify(config);
+  if (_instance?.key !== key) {
+    const promise = createFhevmInstance({
+      provider: config.rpcUrl,
+      mockChains: config.mockChains,
+      signal: new AbortController().signal,
+      onStatusChange: (status) => onStage(STATUS_STAGES[status]),
+    });
+    _instance = { key, promise };
+    // Let the next job try again instead of failing on the same rejected promise
+    promise.catch(() => {
+      if (_instance?.promise === promise) _instance = undefined;
+    });
+  }
+  return _instance.promise;
+};
+
+const run = async ({ id, config, job }: FhevmWorkerRequest): Promise<unknown> => {
+  const onStage = (stage: FhevmWorkerStage) => post({ id, type: "progress", stage });
+
+  const instance = await getInstance(config, onStage);
+
+  switch (job.type) {
+    case "init":
+      return undefined;
+    case "encrypt":
+      onStage("encrypting");
+      return encryptValues(instance, job.contractAddress, job.userAddress, job.values);
+    case "userDecrypt":
+      onStage("decrypting");
+      return userDecryptHandles(instance, job.pairs, job.signature);
+  }
+};
+
+let _queue: Promise<void> = Promise.resolve();
+
+self.addEventListener("message", (event: MessageEvent<FhevmWorkerRequest>) => {
+  const request = event.data;
+  _queue = _queue.then(() =>
+    run(request)
+      .then((result) => {
+        post({ id: request.id, type: "progress", stage: "done" });
+        post({ id: request.id, type: "result", result });
+      })
+      .catch((e: unknown) => {
+        const error = e instanceof Error ? e : new Error(String(e));
+        post({
+          id: request.id,
+          type: "error",
+          error: {
+            name: error.name,
+            message: error.message,
+            code: error instanceof FhevmReactError ? error.code : undefined,
+          },
+        });
+      })
+  );
+});
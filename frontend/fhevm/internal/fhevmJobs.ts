@@ -0,0 +1,65 @@
+import type {
+  DecryptedResults,
+  FhevmDecryptionSignatureType,
+  FhevmEncryptedInput,
+  FhevmEncryptValue,
+  FhevmInstance,
+  HandleContractPair,
+} from "../fhevmTypes";
+
+// The FHEVM work itself, shared by the Web Worker and the main-thread fallback
+
+export const encryptValues = (
+  instance: FhevmInstance,
+  contractAddress: `0x${string}`,
+  userAddress: `0x${string}`,
+  values: FhevmEncryptValue[]
+): Promise<FhevmEncryptedInput> => {
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  for (const v of values) {
+    switch (v.type) {
+      case "bool":
+        input.addBool(v.value);
+        break;
+      case "uint8":
+        input.add8(v.value);
+        break;
+      case "uint16":
+        input.add16(v.value);
+        break;
+      case "uint32":
+        input.add32(v.value);
+        break;
+      case "uint64":
+        input.add64(v.value);
+        break;
+      case "uint128":
+        input.add128(v.value);
+        break;
+      case "uint256":
+        input.add256(v.value);
+        break;
+      case "address":
+        input.addAddress(v.value);
+        break;
+    }
+  }
+  // Builds the ZK proof of the ciphertexts, the CPU-intensive part
+  return input.encrypt();
+};
+
+export const userDecryptHandles = (
+  instance: FhevmInstance,
+  pairs: HandleContractPair[],
+  sig: FhevmDecryptionSignatureType
+): Promise<DecryptedResults> =>
+  instance.userDecrypt(
+    pairs,
+    sig.privateKey,
+    sig.publicKey,
+    sig.signature,
+    sig.contractAddresses,
+    sig.userAddress,
+    sig.startTimestamp,
+    sig.durationDays
+  );
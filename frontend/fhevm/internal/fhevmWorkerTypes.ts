@@ -0,0 +1,54 @@
+import type {
+  DecryptedResults,
+  FhevmDecryptionSignatureType,
+  FhevmEncryptedInput,
+  FhevmEncryptValue,
+  FhevmWorkerStage,
+  HandleContractPair,
+} from "../fhevmTypes";
+
+// The worker builds its own instance, it only gets a URL since the wallet's EIP-1193 provider cannot be posted
+export type FhevmWorkerConfig = {
+  rpcUrl: string;
+  mockChains?: Record<number, string>;
+};
+
+export type FhevmWorkerJob =
+  | {
+      type: "init";
+    }
+  | {
+      type: "encrypt";
+      contractAddress: `0x${string}`;
+      userAddress: `0x${string}`;
+      values: FhevmEncryptValue[];
+    }
+  | {
+      type: "userDecrypt";
+      pairs: HandleContractPair[];
+      signature: FhevmDecryptionSignatureType;
+    };
+
+export type FhevmWorkerResultType<J extends FhevmWorkerJob["type"]> = J extends "encrypt"
+  ? FhevmEncryptedInput
+  : J extends "userDecrypt"
+  ? DecryptedResults
+  : void;
+
+export type FhevmWorkerRequest = {
+  id: number;
+  config: FhevmWorkerConfig;
+  job: FhevmWorkerJob;
+};
+
+// Errors lose their class crossing the worker boundary, `code` is kept so FhevmReactError can be rebuilt
+export type FhevmWorkerError = {
+  name: string;
+  message: string;
+  code?: string;
+};
+
+export type FhevmWorkerResponse =
+  | { id: number; type: "progress"; stage: FhevmWorkerStage }
+  | { id: number; type: "result"; result: unknown }
+  | { id: number; type: "error"; error: FhevmWorkerError };
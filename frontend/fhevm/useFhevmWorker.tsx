@@ -0,0 +1,166 @@
+import { useCallback, useEffect } from "react";
+import { useChains } from "wagmi";
+import { CHAINS } from "@/lib/registry";
+import type { FhevmDecryptionSignature } from "./FhevmDecryptionSignature";
+import type {
+  DecryptedResults,
+  FhevmEncryptedInput,
+  FhevmEncryptValue,
+  FhevmInstance,
+  FhevmWorkerJobOptions,
+  FhevmWorkerStage,
+  HandleContractPair,
+} from "./fhevmTypes";
+import { FhevmAbortError } from "./internal/fhevm";
+import { encryptValues, userDecryptHandles } from "./internal/fhevmJobs";
+import { fhevmWorkerProgress, FhevmWorkerClient } from "./internal/FhevmWorkerClient";
+
+type SharedClient = {
+  key: string;
+  client: FhevmWorkerClient;
+  // false once the worker failed to create its instance, e.g. the SDK cannot run in a worker here
+  usable: Promise<boolean>;
+};
+
+// One worker for the whole page, so every component reuses the instance it created
+let _shared: SharedClient | undefined;
+
+function _sharedClient(chainId: number, rpcUrl: string): SharedClient {
+  const key = `${chainId}:${rpcUrl}`;
+  if (_shared?.key !== key) {
+    _shared?.client.terminate();
+    const client = new FhevmWorkerClient({
+      rpcUrl,
+      mockChains: CHAINS[chainId]?.mock ? { [chainId]: rpcUrl } : undefined,
+    });
+    const usable = client.run({ type: "init" }).then(
+      () => true,
+      (e) => {
+        console.warn("[useFhevmWorker] FHEVM worker unavailable, using the main thread.", e);
+        return false;
+      }
+    );
+    _shared = { key, client, usable };
+  }
+  return _shared;
+}
+
+// Same job without a worker; the computation cannot be stopped here, cancelling only stops waiting for it
+async function _onMainThread<T>(
+  instance: FhevmInstance | undefined,
+  stage: FhevmWorkerStage,
+  { signal, onProgress }: FhevmWorkerJobOptions,
+  work: (instance: FhevmInstance) => Promise<T>
+): Promise<T> {
+  if (!instance) {
+    throw new Error("FHEVM instance is not ready");
+  }
+  if (signal?.aborted) {
+    throw new FhevmAbortError();
+  }
+  onProgress?.(fhevmWorkerProgress(stage));
+
+  const result = await new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new FhevmAbortError());
+    signal?.addEventListener("abort", onAbort, { once: true });
+    work(instance)
+      .then(resolve, reject)
+      .finally(() => signal?.removeEventListener("abort", onAbort));
+  });
+
+  onProgress?.(fhevmWorkerProgress("done"));
+  return result;
+}
+
+/**
+ * Encryption and user decryption in a Web Worker, so proof generation does not freeze the UI.
+ * Falls back to `instance` on the main thread where workers are unavailable or fail to start.
+ * Decryption signatures still need `instance`, see FhevmDecryptionSignature.loadOrSign.
+ */
+export function useFhevmWorker(parameters: {
+  chainId: number | undefined;
+  instance: FhevmInstance | undefined;
+  enabled?: boolean;
+}): {
+  encrypt: (
+    contractAddress: `0x${string}`,
+    userAddress: `0x${string}`,
+    values: FhevmEncryptValue[],
+    options?: FhevmWorkerJobOptions
+  ) => Promise<FhevmEncryptedInput>;
+  userDecrypt: (
+    pairs: HandleContractPair[],
+    sig: FhevmDecryptionSignature,
+    options?: FhevmWorkerJobOptions
+  ) => Promise<DecryptedResults>;
+} {
+  const { chainId, instance, enabled = true } = parameters;
+  const chains = useChains();
+  const rpcUrl = chains.find((chain) => chain.id === chainId)?.rpcUrls.default.http[0];
+
+  const shared = useCallback((): SharedClient | undefined => {
+    if (!enabled || chainId === undefined || !rpcUrl || !FhevmWorkerClient.isSupported()) {
+      return undefined;
+    }
+    return _sharedClient(chainId, rpcUrl);
+  }, [enabled, chainId, rpcUrl]);
+
+  // Create the worker instance ahead of the first job, that is the slow part
+  useEffect(() => {
+    shared();
+  }, [shared]);
+
+  const run = useCallback(
+    async <T,>(
+      stage: FhevmWorkerStage,
+      options: FhevmWorkerJobOptions,
+      inWorker: (client: FhevmWorkerClient) => Promise<T>,
+      onMainThread: (instance: FhevmInstance) => Promise<T>
+    ): Promise<T> => {
+      const current = shared();
+      if (current) {
+        try {
+          return await inWorker(current.client);
+        } catch (e) {
+          if (e instanceof FhevmAbortError || (await current.usable)) {
+            throw e;
+          }
+        }
+      }
+      return _onMainThread(instance, stage, options, onMainThread);
+    },
+    [shared, instance]
+  );
+
+  const encrypt = useCallback(
+    (
+      contractAddress: `0x${string}`,
+      userAddress: `0x${string}`,
+      values: FhevmEncryptValue[],
+      options: FhevmWorkerJobOptions = {}
+    ) =>
+      run(
+        "encrypting",
+        options,
+        (client) => client.run({ type: "encrypt", contractAddress, userAddress, values }, options),
+        (i) => encryptValues(i, contractAddress, userAddress, values)
+      ),
+    [run]
+  );
+
+  const userDecrypt = useCallback(
+    (pairs: HandleContractPair[], sig: FhevmDecryptionSignature, options: FhevmWorkerJobOptions = {}) => {
+      // The class does not survive postMessage, its JSON form does
+      const signature = sig.toJSON();
+      return run(
+        "decrypting",
+        options,
+        (client) => client.run({ type: "userDecrypt", pairs, signature }, options),
+        (i) => userDecryptHandles(i, pairs, signature)
+      );
+    },
+    [run]
+  );
+
+  return { encrypt, userDecrypt };
+}
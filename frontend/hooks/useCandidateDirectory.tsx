@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useState } from "react";
+import { useSecureResumeContract } from "@/hooks/useSecureResumeContract";
+import { errorMessage } from "@/lib/errors";
+
+export interface DirectoryCandidate {
+  address: string;
+  name: string;
+  skillNames: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Lists every live resume by replaying ResumeSubmitted/ResumeUpdated logs, then keeps it in sync with new events
+export const useCandidateDirectory = () => {
+  const { deployment, getContract } = useSecureResumeContract();
+  const [candidates, setCandidates] = useState<DirectoryCandidate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Read the plaintext resume fields, or null once the resume is gone
+  const fetchCandidate = useCallback(
+    async (candidate: string): Promise<DirectoryCandidate | null> => {
+      const contract = getContract();
+      if (!(await contract.hasResume(candidate))) {
+        return null;
+      }
+      const info = await contract.getResumeInfo(candidate);
+      return {
+        address: candidate,
+        name: info.name,
+        skillNames: [...info.skillNames],
+        createdAt: new Date(Number(info.createdAt) * 1000),
+        updatedAt: new Date(Number(info.updatedAt) * 1000),
+      };
+    },
+    [getContract]
+  );
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const contract = getContract();
+      // Nothing can be logged before the selected deployment was mined
+      const fromBlock = deployment?.deployBlock ?? 0;
+      const [submitted, updated] = await Promise.all([
+        contract.queryFilter(contract.filters.ResumeSubmitted(), fromBlock),
+        contract.queryFilter(contract.filters.ResumeUpdated(), fromBlock),
+      ]);
+
+      const addresses = new Set([...submitted, ...updated].map((log) => log.args.user));
+      const loaded = await Promise.all([...addresses].map(fetchCandidate));
+      setCandidates(loaded.filter((candidate): candidate is DirectoryCandidate => candidate !== null));
+    } catch (error) {
+      console.error("Error loading candidate directory:", error);
+      setError(errorMessage(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getContract, fetchCandidate, deployment?.deployBlock]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Patch single entries as events arrive instead of replaying every log again
+  useEffect(() => {
+    let contract;
+    try {
+      contract = getContract();
+    } catch {
+      return;
+    }
+
+    const upsert = async (user: string) => {
+      try {
+        const candidate = await fetchCandidate(user);
+        setCandidates((previous) => {
+          const others = previous.filter((entry) => entry.address.toLowerCase() !== user.toLowerCase());
+          return candidate ? [...others, candidate] : others;
+        });
+      } catch (error) {
+        console.error("Error refreshing candidate:", error);
+      }
+    };
+    const onChange = (user: string) => {
+      upsert(user);
+    };
+
+    // Skill edits change the plaintext skill names too
+    const filters = [
+      contract.filters.ResumeSubmitted,
+      contract.filters.ResumeUpdated,
+      contract.filters.ResumeDeleted,
+      contract.filters.SkillAdded,
+      contract.filters.SkillRemoved,
+      contract.filters.SkillsReordered,
+    ];
+    for (const filter of filters) {
+      contract.on(filter, onChange);
+    }
+
+    return () => {
+      for (const filter of filters) {
+        contract.off(filter, onChange);
+      }
+    };
+  }, [getContract, fetchCandidate]);
+
+  return { candidates, isLoading, error, refresh };
+};
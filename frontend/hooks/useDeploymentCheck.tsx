@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from "react";
+import { useSecureResumeContract } from "@/hooks/useSecureResumeContract";
+import { checkDeployment, DeploymentCheck } from "@/lib/deployment";
+import { errorMessage } from "@/lib/errors";
+
+// Whether SecureResume is really deployed on the connected chain, checked again on every chain switch
+export const useDeploymentCheck = () => {
+  const { chainId, contractAddress, provider } = useSecureResumeContract();
+  const [check, setCheck] = useState<DeploymentCheck>({ status: "checking", missingFunctions: [] });
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!provider) {
+      setCheck({ status: "unreachable", missingFunctions: [], error: "No Ethereum wallet found" });
+      return;
+    }
+
+    let cancelled = false;
+    setCheck({ status: "checking", address: contractAddress, missingFunctions: [] });
+
+    checkDeployment(provider, contractAddress)
+      .then((result) => {
+        if (!cancelled) setCheck(result);
+      })
+      .catch((error) => {
+        console.error(`Deployment check failed on chain ${chainId}:`, error);
+        if (!cancelled) {
+          setCheck({ status: "unreachable", address: contractAddress, missingFunctions: [], error: errorMessage(error) });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chainId, contractAddress, provider, attempt]);
+
+  const recheck = useCallback(() => setAttempt((previous) => previous + 1), []);
+
+  return { check, recheck };
+};
@@ -0,0 +1,52 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from "react";
+
+interface UseDeploymentSelectionState {
+  // Selected deployment address per chain id, missing chains follow the latest deployment
+  selection: Record<string, string>;
+  selectDeployment: (chainId: number, addressOrLatest: string) => void;
+}
+
+interface DeploymentSelectionProviderProps {
+  children: ReactNode;
+}
+
+const STORAGE_KEY = "secure-resume.deployment-selection";
+
+const DeploymentSelectionContext = createContext<UseDeploymentSelectionState | undefined>(undefined);
+
+export const useDeploymentSelection = () => {
+  const context = useContext(DeploymentSelectionContext);
+  if (!context) {
+    throw new Error("useDeploymentSelection must be used within a DeploymentSelectionProvider");
+  }
+  return context;
+};
+
+export const DeploymentSelectionProvider: React.FC<DeploymentSelectionProviderProps> = ({ children }) => {
+  const [selection, setSelection] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        setSelection(JSON.parse(stored));
+      }
+    } catch (error) {
+      console.error("Failed to load deployment selection:", error);
+    }
+  }, []);
+
+  const selectDeployment = useCallback((chainId: number, addressOrLatest: string) => {
+    setSelection((previous) => {
+      const next = { ...previous, [chainId]: addressOrLatest };
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  return (
+    <DeploymentSelectionContext.Provider value={{ selection, selectDeployment }}>
+      {children}
+    </DeploymentSelectionContext.Provider>
+  );
+};
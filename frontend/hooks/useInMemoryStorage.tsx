@@ -1,8 +1,10 @@
-import { createContext, ReactNode, useContext, useState } from "react";
+import { createContext, ReactNode, useContext, useEffect, useRef, useState } from "react";
+import { useAccount } from "wagmi";
 import {
   GenericStringInMemoryStorage,
   GenericStringStorage,
 } from "@/fhevm/GenericStringStorage";
+import { GenericStringPersistentStorage } from "@/fhevm/GenericStringPersistentStorage";
 
 interface UseInMemoryStorageState {
   storage: GenericStringStorage;
@@ -10,6 +12,8 @@ interface UseInMemoryStorageState {
 
 interface InMemoryStorageProviderProps {
   children: ReactNode;
+  // "persistent" keeps decryption signatures across reloads, encrypted in IndexedDB
+  backend?: "memory" | "persistent";
 }
 
 const InMemoryStorageContext = createContext<
@@ -28,10 +32,26 @@ export const useInMemoryStorage = () => {
 
 export const InMemoryStorageProvider: React.FC<
   InMemoryStorageProviderProps
-> = ({ children }) => {
-  const [storage] = useState<GenericStringStorage>(
-    new GenericStringInMemoryStorage()
+> = ({ children, backend = "memory" }) => {
+  const [storage] = useState<GenericStringStorage>(() =>
+    backend === "persistent"
+      ? new GenericStringPersistentStorage()
+      : new GenericStringInMemoryStorage()
   );
+
+  // Forget the previous wallet's signatures once it disconnects
+  const { address } = useAccount();
+  const previousAddress = useRef(address);
+  useEffect(() => {
+    const previous = previousAddress.current;
+    previousAddress.current = address;
+    if (previous && !address && storage instanceof GenericStringPersistentStorage) {
+      storage.clearUser(previous).catch((error) => {
+        console.error("Failed to clear stored signatures:", error);
+      });
+    }
+  }, [address, storage]);
+
   return (
     <InMemoryStorageContext.Provider value={{ storage }}>
       {children}
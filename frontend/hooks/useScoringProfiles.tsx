@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from "react";
+
+export interface SkillWeight {
+  weight: number;
+  cap: number;
+}
+
+// Weights are keyed by skill name so one profile can be applied to any candidate
+export type ScoringProfile = Record<string, SkillWeight>;
+
+const STORAGE_KEY = "secure-resume.scoring-profiles";
+
+export const DEFAULT_SKILL_WEIGHT: SkillWeight = { weight: 1, cap: 10 };
+
+export const useScoringProfiles = () => {
+  const [profiles, setProfiles] = useState<Record<string, ScoringProfile>>({});
+
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        setProfiles(JSON.parse(stored));
+      }
+    } catch (error) {
+      console.error("Failed to load scoring profiles:", error);
+    }
+  }, []);
+
+  const updateProfiles = useCallback(
+    (update: (previous: Record<string, ScoringProfile>) => Record<string, ScoringProfile>) => {
+      setProfiles((previous) => {
+        const next = update(previous);
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+        return next;
+      });
+    },
+    []
+  );
+
+  const saveProfile = useCallback(
+    (name: string, profile: ScoringProfile) => {
+      updateProfiles((previous) => ({ ...previous, [name]: profile }));
+    },
+    [updateProfiles]
+  );
+
+  const deleteProfile = useCallback(
+    (name: string) => {
+      updateProfiles((previous) => {
+        const next = { ...previous };
+        delete next[name];
+        return next;
+      });
+    },
+    [updateProfiles]
+  );
+
+  return { profiles, saveProfile, deleteProfile };
+};
@@ -0,0 +1,111 @@
+import { useCallback, useMemo, useRef } from "react";
+import { useAccount, useChainId } from "wagmi";
+import { ethers } from "ethers";
+import { SecureResumeABI } from "@/abi/SecureResumeABI";
+import { useDeploymentSelection } from "@/hooks/useDeploymentSelection";
+import { DeploymentRecord, resolveDeployment } from "@/lib/registry";
+// Type-only import, so none of the Hardhat output ends up in the bundle
+import type { SecureResume } from "../../types/contracts/SecureResume";
+
+export type { SecureResume };
+
+export interface UseSecureResumeContractState {
+  chainId: number;
+  contractAddress: string | undefined;
+  deployment: DeploymentRecord | undefined;
+  isDeployed: boolean;
+  provider: ethers.BrowserProvider | undefined;
+  getSigner: () => Promise<ethers.JsonRpcSigner>;
+  getContract: () => SecureResume;
+  getSignedContract: () => Promise<SecureResume>;
+}
+
+// Find an event a SecureResume transaction emitted, e.g. to read the result handles it carries
+export const findReceiptEvent = (
+  contract: SecureResume,
+  receipt: ethers.ContractTransactionReceipt | null,
+  eventName: string
+): ethers.LogDescription => {
+  for (const log of receipt?.logs ?? []) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === eventName) {
+      return parsed;
+    }
+  }
+  throw new Error(`${eventName} event not found in transaction receipt`);
+};
+
+// Single entry point for reading from and writing to the SecureResume contract on the connected chain
+export const useSecureResumeContract = (): UseSecureResumeContractState => {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { selection } = useDeploymentSelection();
+
+  // The registry deployment picked for this chain, or its latest one
+  const deployment = resolveDeployment(chainId, selection[chainId]);
+  const contractAddress = deployment?.address;
+
+  // BrowserProvider is bound to one network, so build a new one whenever the chain changes
+  const provider = useMemo(
+    () =>
+      typeof window !== "undefined" && window.ethereum ? new ethers.BrowserProvider(window.ethereum, chainId) : undefined,
+    [chainId]
+  );
+
+  // Reuse the signer until the provider or connected account changes
+  const signerCache = useRef<{
+    provider: ethers.BrowserProvider;
+    address: string | undefined;
+    signer: Promise<ethers.JsonRpcSigner>;
+  }>(undefined);
+
+  const getSigner = useCallback(async () => {
+    if (!provider) {
+      throw new Error("No Ethereum wallet found");
+    }
+
+    const cached = signerCache.current;
+    if (cached && cached.provider === provider && cached.address === address) {
+      return cached.signer;
+    }
+
+    const signer = provider.getSigner();
+    signerCache.current = { provider, address, signer };
+    // Do not keep a rejected request (e.g. the user closed the wallet prompt) around
+    signer.catch(() => {
+      if (signerCache.current?.signer === signer) {
+        signerCache.current = undefined;
+      }
+    });
+    return signer;
+  }, [provider, address]);
+
+  const getContract = useCallback(() => {
+    if (!provider) {
+      throw new Error("No Ethereum wallet found");
+    }
+    if (!contractAddress) {
+      throw new Error(`Contract not deployed on network ${chainId}`);
+    }
+    return new ethers.Contract(contractAddress, SecureResumeABI.abi, provider) as unknown as SecureResume;
+  }, [provider, contractAddress, chainId]);
+
+  const getSignedContract = useCallback(async () => {
+    if (!contractAddress) {
+      throw new Error(`Contract not deployed on network ${chainId}`);
+    }
+    const signer = await getSigner();
+    return new ethers.Contract(contractAddress, SecureResumeABI.abi, signer) as unknown as SecureResume;
+  }, [contractAddress, chainId, getSigner]);
+
+  return {
+    chainId,
+    contractAddress,
+    deployment,
+    isDeployed: contractAddress !== undefined,
+    provider,
+    getSigner,
+    getContract,
+    getSignedContract,
+  };
+};
@@ -0,0 +1,192 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { useAccount } from "wagmi";
+import { ethers } from "ethers";
+import { useSecureResumeContract } from "@/hooks/useSecureResumeContract";
+import { errorMessage } from "@/lib/errors";
+
+export type TransactionKind = "resume" | "skills" | "career" | "access" | "evaluation" | "hr" | "job";
+
+export type TransactionStatus = "pending" | "confirmed" | "failed";
+
+export interface TransactionRecord {
+  hash: string;
+  kind: TransactionKind;
+  label: string;
+  status: TransactionStatus;
+  submittedAt: number;
+  blockNumber?: number;
+  gasUsed?: string; // bigint as a decimal string, localStorage only holds JSON
+  error?: string;
+  result?: string; // decrypted outcome, for evaluations
+}
+
+interface UseTransactionActivityState {
+  transactions: TransactionRecord[];
+  // Record a sent transaction and wait for it, failures are recorded and rethrown
+  trackTransaction: (
+    tx: ethers.ContractTransactionResponse,
+    details: { kind: TransactionKind; label: string }
+  ) => Promise<ethers.ContractTransactionReceipt | null>;
+  setTransactionResult: (hash: string, result: string) => void;
+  clearFinishedTransactions: () => void;
+}
+
+interface TransactionActivityProviderProps {
+  children: ReactNode;
+}
+
+const STORAGE_KEY_PREFIX = "secure-resume.transactions";
+
+const MAX_TRANSACTIONS = 50;
+
+// One history per chain and wallet
+const _storageKey = (chainId: number, account: string) => `${STORAGE_KEY_PREFIX}.${chainId}.${account.toLowerCase()}`;
+
+const _load = (key: string): TransactionRecord[] => {
+  try {
+    const stored = window.localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to load transaction history:", error);
+    return [];
+  }
+};
+
+const _receiptDetails = (receipt: ethers.TransactionReceipt): Partial<TransactionRecord> => ({
+  status: receipt.status === 1 ? "confirmed" : "failed",
+  blockNumber: receipt.blockNumber,
+  gasUsed: receipt.gasUsed.toString(),
+  ...(receipt.status === 1 ? {} : { error: "The transaction reverted." }),
+});
+
+const _patch = (hash: string, patch: Partial<TransactionRecord>) => (previous: TransactionRecord[]) =>
+  previous.map((record) => (record.hash === hash ? { ...record, ...patch } : record));
+
+const TransactionActivityContext = createContext<UseTransactionActivityState | undefined>(undefined);
+
+export const useTransactionActivity = () => {
+  const context = useContext(TransactionActivityContext);
+  if (!context) {
+    throw new Error("useTransactionActivity must be used within a TransactionActivityProvider");
+  }
+  return context;
+};
+
+export const TransactionActivityProvider: React.FC<TransactionActivityProviderProps> = ({ children }) => {
+  const { address } = useAccount();
+  const { chainId, provider } = useSecureResumeContract();
+
+  const [transactions, setTransactions] = useState<TransactionRecord[]>([]);
+  const currentKey = useRef<string | undefined>(undefined);
+  // Hashes with a receipt wait in flight, so a reload or chain switch does not watch them twice
+  const watching = useRef(new Set<string>());
+
+  // localStorage is the source of truth, a transaction may finish after the wallet or chain changed
+  const update = useCallback((key: string, change: (previous: TransactionRecord[]) => TransactionRecord[]) => {
+    const next = change(_load(key)).slice(0, MAX_TRANSACTIONS);
+    window.localStorage.setItem(key, JSON.stringify(next));
+    if (key === currentKey.current) {
+      setTransactions(next);
+    }
+  }, []);
+
+  useEffect(() => {
+    const key = address ? _storageKey(chainId, address) : undefined;
+    currentKey.current = key;
+    setTransactions(key ? _load(key) : []);
+  }, [address, chainId]);
+
+  // Other browser tabs write to the same key
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key && event.key === currentKey.current) {
+        setTransactions(_load(event.key));
+      }
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  // Pick up transactions that were still pending when the page was closed
+  useEffect(() => {
+    if (!address || !provider) return;
+
+    const key = _storageKey(chainId, address);
+    for (const { hash } of _load(key).filter((record) => record.status === "pending")) {
+      if (watching.current.has(hash)) continue;
+      watching.current.add(hash);
+
+      provider
+        .getTransaction(hash)
+        .then(async (tx) => {
+          if (!tx) {
+            update(key, _patch(hash, {
+              status: "failed",
+              error: "The transaction is unknown to the node, it was dropped or the node was restarted.",
+            }));
+            return;
+          }
+          const receipt = await provider.waitForTransaction(hash);
+          if (receipt) {
+            update(key, _patch(hash, _receiptDetails(receipt)));
+          }
+        })
+        .catch((error) => {
+          console.error(`Failed to watch transaction ${hash}:`, error);
+        })
+        .finally(() => {
+          watching.current.delete(hash);
+        });
+    }
+  }, [address, chainId, provider, update]);
+
+  const trackTransaction = useCallback<UseTransactionActivityState["trackTransaction"]>(
+    async (tx, { kind, label }) => {
+      const key = _storageKey(Number(tx.chainId), tx.from);
+      update(key, (previous) => [
+        { hash: tx.hash, kind, label, status: "pending", submittedAt: Date.now() },
+        ...previous.filter((record) => record.hash !== tx.hash),
+      ]);
+
+      watching.current.add(tx.hash);
+      try {
+        const receipt = await tx.wait();
+        if (receipt) {
+          update(key, _patch(tx.hash, _receiptDetails(receipt)));
+        }
+        return receipt;
+      } catch (error) {
+        // A reverted transaction still has a receipt with the block and gas it used
+        const receipt = ethers.isError(error, "CALL_EXCEPTION") && error.receipt ? _receiptDetails(error.receipt) : {};
+        update(key, _patch(tx.hash, { ...receipt, status: "failed", error: errorMessage(error) }));
+        throw error;
+      } finally {
+        watching.current.delete(tx.hash);
+      }
+    },
+    [update]
+  );
+
+  const setTransactionResult = useCallback(
+    (hash: string, result: string) => {
+      if (currentKey.current) {
+        update(currentKey.current, _patch(hash, { result }));
+      }
+    },
+    [update]
+  );
+
+  const clearFinishedTransactions = useCallback(() => {
+    if (currentKey.current) {
+      update(currentKey.current, (previous) => previous.filter((record) => record.status === "pending"));
+    }
+  }, [update]);
+
+  return (
+    <TransactionActivityContext.Provider
+      value={{ transactions, trackTransaction, setTransactionResult, clearFinishedTransactions }}
+    >
+      {children}
+    </TransactionActivityContext.Provider>
+  );
+};
@@ -0,0 +1,75 @@
+import { ethers } from "ethers";
+import { SecureResumeABI } from "@/abi/SecureResumeABI";
+
+export type DeploymentStatus =
+  | "checking"
+  | "deployed"
+  | "no-address" // the deployment registry has nothing on the chain
+  | "no-code" // nothing deployed at the address, e.g. a restarted Hardhat node
+  | "abi-mismatch" // a contract is there, but not the version this frontend was built for
+  | "unreachable"; // the node could not be asked
+
+export interface DeploymentCheck {
+  status: DeploymentStatus;
+  address?: string;
+  missingFunctions: string[];
+  error?: string;
+}
+
+const SECURE_RESUME_INTERFACE = new ethers.Interface(SecureResumeABI.abi);
+
+const PUSH1 = 0x60;
+const PUSH4 = 0x63;
+const PUSH32 = 0x7f;
+
+// Operands of every PUSH1-PUSH4 in the code as 4-byte selectors, skipping the data of wider pushes
+const pushedSelectors = (code: string): Set<string> => {
+  const bytes = ethers.getBytes(code);
+  const selectors = new Set<string>();
+  for (let i = 0; i < bytes.length; i++) {
+    const opcode = bytes[i];
+    if (opcode < PUSH1 || opcode > PUSH32) continue;
+
+    const size = opcode - PUSH1 + 1;
+    if (opcode <= PUSH4) {
+      selectors.add(ethers.zeroPadValue(bytes.slice(i + 1, i + 1 + size), 4));
+    }
+    i += size;
+  }
+  return selectors;
+};
+
+/**
+ * Functions of the frontend ABI whose selector is not pushed by the runtime code.
+ * The dispatcher pushes every selector as a constant, leading zero bytes dropped, so a contract built
+ * from an older or newer source is missing some. The code hash cannot be compared instead: the
+ * immutable maxSkills is baked into it and differs per deployment.
+ */
+export const missingFunctions = (code: string): string[] => {
+  const selectors = pushedSelectors(code);
+  const missing: string[] = [];
+  SECURE_RESUME_INTERFACE.forEachFunction((fragment) => {
+    if (!selectors.has(fragment.selector)) {
+      missing.push(fragment.name);
+    }
+  });
+  return missing;
+};
+
+// Ask the node what lives at the configured address
+export const checkDeployment = async (
+  provider: ethers.Provider,
+  address: string | undefined
+): Promise<DeploymentCheck> => {
+  if (!address || address === ethers.ZeroAddress) {
+    return { status: "no-address", missingFunctions: [] };
+  }
+
+  const code = await provider.getCode(address);
+  if (code === "0x") {
+    return { status: "no-code", address, missingFunctions: [] };
+  }
+
+  const missing = missingFunctions(code);
+  return { status: missing.length > 0 ? "abi-mismatch" : "deployed", address, missingFunctions: missing };
+};
@@ -0,0 +1,78 @@
+import { ethers } from "ethers";
+import { expect, test } from "vitest";
+import { SecureResumeABI } from "@/abi/SecureResumeABI";
+import { FhevmAbortError, FhevmReactError } from "@/fhevm/internal/fhevm";
+import { decodeError, errorMessage } from "./errors";
+
+const secureResumeInterface = new ethers.Interface(SecureResumeABI.abi);
+const CANDIDATE = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const HR = "0x90F79bf6EB2c4f870365E785982E1f101E93b906";
+
+test("decodes custom errors wherever the revert data is nested", () => {
+  const data = secureResumeInterface.encodeErrorResult("NoEvaluationAccess", [CANDIDATE, HR]);
+
+  // ethers, MetaMask and Hardhat each wrap the revert data differently
+  for (const error of [
+    { data },
+    { code: "CALL_EXCEPTION", info: { error: { data } } },
+    { error: { data: { data } } },
+    new Error("execution reverted", { cause: { data } }),
+  ]) {
+    const decoded = decodeError(error);
+    expect(decoded.kind).toBe("contract");
+    expect(decoded.code).toBe("NoEvaluationAccess");
+    expect(decoded.args).toEqual([CANDIDATE, HR]);
+    expect(decoded.action).toBe("request-grant");
+    expect(decoded.message).toBe("0x7099…79C8 has not granted 0x90F7…b906 evaluation access for this.");
+    expect(decoded.cause).toBe(error);
+  }
+});
+
+test("describes every custom error in the ABI", () => {
+  secureResumeInterface.forEachError((fragment) => {
+    const args = ethers.AbiCoder.defaultAbiCoder().getDefaultValue(fragment.inputs);
+    const decoded = decodeError({ data: secureResumeInterface.encodeErrorResult(fragment, args) });
+    expect(decoded.kind, fragment.name).toBe("contract");
+    expect(decoded.code).toBe(fragment.name);
+    expect(decoded.message).not.toBe("");
+  });
+});
+
+test("decodes Error(string) reverts", () => {
+  const data = ethers.concat([
+    "0x08c379a0",
+    ethers.AbiCoder.defaultAbiCoder().encode(["string"], ["Resume not found"]),
+  ]);
+  expect(decodeError({ data })).toMatchObject({ kind: "contract", code: "Error", args: ["Resume not found"] });
+  expect(errorMessage({ data })).toBe("Resume not found.");
+});
+
+test("recognizes wallet rejections, cancellations and FHEVM errors", () => {
+  expect(decodeError({ code: 4001, message: "User denied" })).toMatchObject({ kind: "rejected", action: "retry" });
+  expect(decodeError({ info: { error: { code: 4001 } } }).kind).toBe("rejected");
+  expect(decodeError(new FhevmAbortError())).toMatchObject({ kind: "cancelled", code: "FHEVM_ABORTED" });
+  expect(decodeError(new FhevmReactError("WEB3_CLIENTVERSION_ERROR", "boom"))).toMatchObject({
+    kind: "fhevm",
+    action: "check-connection",
+    message: "The FHEVM node is not reachable.",
+  });
+  expect(decodeError(new FhevmReactError("SOMETHING_ELSE", "Relayer down")).message).toBe("Relayer down");
+});
+
+test("falls back to ethers codes and readable messages", () => {
+  const callException = ethers.makeError("missing revert data", "CALL_EXCEPTION", {
+    action: "call",
+    data: null,
+    reason: null,
+    transaction: { to: null, data: "0x" },
+    invocation: null,
+    revert: null,
+  });
+  expect(decodeError(callException)).toMatchObject({ kind: "contract", code: "CALL_EXCEPTION", action: "reload" });
+  expect(decodeError(ethers.makeError("no funds", "INSUFFICIENT_FUNDS", { transaction: {} })).kind).toBe("funds");
+  expect(decodeError(ethers.makeError("down", "NETWORK_ERROR", { event: "noNetwork" })).kind).toBe("network");
+
+  expect(decodeError({ shortMessage: "short", message: "long" }).message).toBe("short");
+  expect(decodeError(new Error("plain"))).toMatchObject({ kind: "unknown", message: "plain" });
+  expect(errorMessage(undefined)).toBe("Unknown error");
+});
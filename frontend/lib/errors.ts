@@ -0,0 +1,257 @@
+import { ethers } from "ethers";
+import { SecureResumeABI } from "@/abi/SecureResumeABI";
+import { FhevmAbortError, FhevmReactError } from "@/fhevm/internal/fhevm";
+import { shortAddress } from "@/lib/format";
+
+// Every custom error SecureResume can revert with, taken from the generated ABI
+export type SecureResumeErrorName = Extract<(typeof SecureResumeABI.abi)[number], { type: "error" }>["name"];
+
+export type AppErrorKind = "contract" | "rejected" | "funds" | "network" | "fhevm" | "cancelled" | "unknown";
+
+// What the user can do about an error; components decide how to offer it
+export type SuggestedAction =
+  | "edit-resume" // switch to updateResume
+  | "submit-resume"
+  | "request-grant" // ask the candidate to share their resume
+  | "request-hr-access"
+  | "check-input"
+  | "reload"
+  | "retry"
+  | "fund-wallet"
+  | "check-connection"
+  | "none";
+
+export interface AppError {
+  kind: AppErrorKind;
+  code: string; // custom error name, ethers error code or FhevmReactError code
+  args: unknown[]; // custom error arguments, in ABI order
+  message: string; // what went wrong, in user-facing terms
+  action: SuggestedAction;
+  hint: string; // what to do about it, empty when there is nothing to suggest
+  cause: unknown;
+}
+
+type ErrorDescription = { message: string; action?: SuggestedAction; hint?: string };
+
+// Typed on the ABI, so a new custom error does not compile until it has a message here
+const CONTRACT_ERRORS: Record<SecureResumeErrorName, (args: unknown[]) => ErrorDescription> = {
+  NotOwner: () => ({ message: "Only the contract owner can do this." }),
+  NotAdmin: () => ({ message: "Only the owner or an organization admin can do this." }),
+  NotAuthorizedHR: ([account]) => ({
+    message: `${shortAddress(account)} is not an authorized HR account.`,
+    action: "request-hr-access",
+    hint: "Request HR access from an organization admin on the HR tab.",
+  }),
+  NotHRAdmin: () => ({ message: "Only the admin who authorized this HR account, or the owner, can revoke it." }),
+  ZeroAddress: () => ({ message: "The zero address is not allowed.", action: "check-input", hint: "Please enter a valid address." }),
+  AdminAlreadyAdded: ([admin]) => ({ message: `${shortAddress(admin)} is already an organization admin.` }),
+  AdminNotFound: ([admin]) => ({
+    message: `${shortAddress(admin)} is not an organization admin.`,
+    action: "check-input",
+    hint: "Please check the admin address.",
+  }),
+  HRAlreadyAuthorized: ([hr]) => ({ message: `${shortAddress(hr)} is already an authorized HR account.` }),
+  RequestAlreadyPending: ([admin]) => ({
+    message: `You already have a pending HR access request with ${shortAddress(admin)}.`,
+    hint: "Wait for it to be approved or rejected.",
+  }),
+  NoPendingRequest: ([requester]) => ({ message: `${shortAddress(requester)} has no pending HR access request.`, action: "reload" }),
+  NotRequestedAdmin: () => ({ message: "This HR access request was sent to a different admin." }),
+  InvalidMaxSkills: () => ({ message: "The skill limit must be between 1 and 255." }),
+  ResumeNotFound: ([user]) => ({
+    message: `No resume found for ${shortAddress(user)}.`,
+    action: "submit-resume",
+    hint: "A resume has to be submitted first.",
+  }),
+  ResumeAlreadyExists: () => ({
+    message: "You already have a resume.",
+    action: "edit-resume",
+    hint: "Update your existing resume instead.",
+  }),
+  InvalidName: () => ({ message: "The name must be 1-100 characters.", action: "check-input" }),
+  EducationTooLong: () => ({ message: "Education must be at most 1000 bytes.", action: "check-input" }),
+  WorkExperienceTooLong: () => ({ message: "Work experience must be at most 1000 bytes.", action: "check-input" }),
+  SkillArraysLengthMismatch: () => ({ message: "Every skill needs exactly one level.", action: "check-input" }),
+  SkillCountOutOfRange: ([count, maxCount]) => ({
+    message: `${count} skills given, between 1 and ${maxCount} are allowed.`,
+    action: "check-input",
+  }),
+  InvalidSkillIndex: ([skillIndex]) => ({
+    message: `Skill #${skillIndex} does not exist.`,
+    action: "reload",
+    hint: "The skill list may have changed, please reload it.",
+  }),
+  InvalidSkillOrder: () => ({ message: "Every skill must appear exactly once in the new order.", action: "reload" }),
+  LastSkillCannotBeRemoved: () => ({ message: "A resume must keep at least one skill." }),
+  VersionNotFound: ([version]) => ({ message: `Resume version ${version} does not exist.`, action: "reload" }),
+  CareerDetailsNotProvided: () => ({
+    message: "This candidate has not provided years of experience or an expected salary.",
+  }),
+  NoEvaluationAccess: ([candidate, hr]) => ({
+    message: `${shortAddress(candidate)} has not granted ${shortAddress(hr)} evaluation access for this.`,
+    action: "request-grant",
+    hint: "Ask the candidate to share their resume with your address.",
+  }),
+  ExpiryNotInFuture: () => ({ message: "The expiry date must be in the future.", action: "check-input" }),
+  NoSkillsSelected: () => ({ message: "Select at least one skill.", action: "check-input" }),
+  ScoreArraysLengthMismatch: () => ({
+    message: "Every selected skill needs a weight and a cap, or a minimum level.",
+    action: "check-input",
+  }),
+  TooFewSkillsSelected: ([count, minCount]) => ({
+    message: `A weighted score needs at least ${minCount} skills, ${count} selected.`,
+    action: "check-input",
+    hint: "Give more shared skills a weight above zero.",
+  }),
+  DuplicateSkillIndex: ([skillIndex]) => ({ message: `Skill #${skillIndex} is selected twice.`, action: "check-input" }),
+  InvalidMinLevel: () => ({ message: "Every minimum level must be at least 1.", action: "check-input" }),
+  InvalidCap: () => ({ message: "Every cap must be at least 1.", action: "check-input" }),
+  InvalidWeights: () => ({
+    message: "A weight is zero or the weights are too large.",
+    action: "check-input",
+    hint: "Give every selected skill a positive weight, and keep weight × cap summed below 42,949,673.",
+  }),
+  CandidateCountOutOfRange: ([count, maxCount]) => ({
+    message: `${count} candidates given, between 1 and ${maxCount} can be evaluated at once.`,
+    action: "check-input",
+  }),
+  InvalidTitle: () => ({ message: "The job title must be 1-100 characters.", action: "check-input" }),
+  JobPostingNotFound: ([postingId]) => ({ message: `Job posting #${postingId} does not exist.`, action: "reload" }),
+  JobPostingNotActive: ([postingId]) => ({ message: `Job posting #${postingId} is closed.`, action: "reload" }),
+  NotPostingOwner: ([postingId]) => ({ message: `Only the HR account that published job posting #${postingId} can do this.` }),
+  AlreadyApplied: ([postingId]) => ({ message: `You have already applied to job posting #${postingId}.` }),
+  ApplicationNotFound: ([postingId, candidate]) => ({
+    message: `${shortAddress(candidate)} has not applied to job posting #${postingId}.`,
+    action: "reload",
+  }),
+};
+
+const FHEVM_ERRORS: Record<string, ErrorDescription> = {
+  WEB3_CLIENTVERSION_ERROR: {
+    message: "The FHEVM node is not reachable.",
+    action: "check-connection",
+    hint: "Check that your wallet points at a running node.",
+  },
+  FHEVM_RELAYER_METADATA_ERROR: {
+    message: "The local node is not an FHEVM Hardhat node.",
+    action: "check-connection",
+    hint: "Start it with `npx hardhat node` from the project root.",
+  },
+};
+
+const SECURE_RESUME_INTERFACE = new ethers.Interface(SecureResumeABI.abi);
+
+// Revert data is nested differently by ethers, wallets and RPC nodes, so search the whole error
+const _findRevertData = (error: unknown, depth = 0): string | null => {
+  if (depth > 5 || typeof error !== "object" || error === null) return null;
+  const record = error as Record<string, unknown>;
+  if (typeof record.data === "string" && /^0x[0-9a-fA-F]{8}/.test(record.data)) return record.data;
+  for (const key of ["data", "error", "info", "cause"]) {
+    const found = _findRevertData(record[key], depth + 1);
+    if (found) return found;
+  }
+  return null;
+};
+
+// MetaMask reports rejections as EIP-1193 code 4001, sometimes without ethers wrapping them
+const _isRejection = (error: unknown, depth = 0): boolean => {
+  if (depth > 5 || typeof error !== "object" || error === null) return false;
+  const record = error as Record<string, unknown>;
+  return (
+    record.code === "ACTION_REJECTED" ||
+    record.code === 4001 ||
+    ["error", "info", "cause"].some((key) => _isRejection(record[key], depth + 1))
+  );
+};
+
+const _appError = (
+  kind: AppErrorKind,
+  code: string,
+  description: ErrorDescription,
+  cause: unknown,
+  args: unknown[] = []
+): AppError => ({
+  kind,
+  code,
+  args,
+  message: description.message,
+  action: description.action ?? "none",
+  hint: description.hint ?? "",
+  cause,
+});
+
+/**
+ * Turn anything thrown by a contract call, the wallet or FHEVM into a typed error.
+ * SecureResume custom errors are decoded from the revert data, whichever layer wrapped it.
+ */
+export const decodeError = (error: unknown): AppError => {
+  if (error instanceof FhevmAbortError) {
+    return _appError("cancelled", "FHEVM_ABORTED", { message: "The operation was cancelled." }, error);
+  }
+
+  if (error instanceof FhevmReactError) {
+    const description = FHEVM_ERRORS[error.code] ?? { message: error.message, action: "retry" };
+    return _appError("fhevm", error.code, description, error);
+  }
+
+  if (_isRejection(error)) {
+    return _appError("rejected", "ACTION_REJECTED", {
+      message: "The request was rejected in your wallet.",
+      action: "retry",
+      hint: "Try again and confirm it when your wallet asks.",
+    }, error);
+  }
+
+  const revertData = _findRevertData(error);
+  if (revertData) {
+    const parsed = SECURE_RESUME_INTERFACE.parseError(revertData);
+    if (parsed && parsed.name in CONTRACT_ERRORS) {
+      const args = [...parsed.args];
+      return _appError("contract", parsed.name, CONTRACT_ERRORS[parsed.name as SecureResumeErrorName](args), error, args);
+    }
+    // Error(string) from an older deployment or another contract
+    if (revertData.startsWith("0x08c379a0")) {
+      const [reason] = ethers.AbiCoder.defaultAbiCoder().decode(["string"], ethers.dataSlice(revertData, 4));
+      return _appError("contract", "Error", { message: `${reason}.` }, error, [reason]);
+    }
+  }
+
+  if (ethers.isError(error, "CALL_EXCEPTION")) {
+    return _appError("contract", error.code, {
+      message: "The contract rejected the transaction without a reason.",
+      action: "reload",
+      hint: "The contract may have been redeployed, please reload the page.",
+    }, error);
+  }
+
+  if (ethers.isError(error, "INSUFFICIENT_FUNDS")) {
+    return _appError("funds", error.code, {
+      message: "Your wallet cannot cover the transaction fee.",
+      action: "fund-wallet",
+      hint: "Add some ETH to your account and try again.",
+    }, error);
+  }
+
+  if (ethers.isError(error, "NETWORK_ERROR") || ethers.isError(error, "TIMEOUT") || ethers.isError(error, "SERVER_ERROR")) {
+    return _appError("network", error.code, {
+      message: "The network request failed.",
+      action: "check-connection",
+      hint: "Check your connection and the selected network, then try again.",
+    }, error);
+  }
+
+  // ethers keeps the readable part of its messages in shortMessage
+  const message =
+    (typeof error === "object" && error !== null && typeof (error as { shortMessage?: unknown }).shortMessage === "string"
+      ? (error as { shortMessage: string }).shortMessage
+      : error instanceof Error
+        ? error.message
+        : "") || "Unknown error";
+  return _appError("unknown", "UNKNOWN_ERROR", { message, action: "retry" }, error);
+};
+
+// Message and hint in one line, for the status messages components show
+export const errorMessage = (error: unknown): string => {
+  const { message, hint } = decodeError(error);
+  return hint ? `${message} ${hint}` : message;
+};
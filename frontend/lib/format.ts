@@ -0,0 +1,7 @@
+import { ethers } from "ethers";
+
+// 0x1234…abcd, anything that is not an address is returned as is
+export const shortAddress = (address: unknown): string => {
+  const text = String(address);
+  return ethers.isAddress(text) ? `${text.slice(0, 6)}…${text.slice(-4)}` : text;
+};
@@ -0,0 +1,122 @@
+import { expect, test } from "vitest";
+import { JSON_RESUME_SCHEMA, parseJsonResume, toJsonResume, toSkillLevel } from "./jsonResume";
+
+const resume = {
+  name: "Alice",
+  education: "MSc Computer Science\nBSc Mathematics",
+  workExperience: "Senior developer at Acme\nJunior developer at Initech",
+  skillNames: ["TypeScript", "Go"],
+  skillLevels: [8, 6],
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+};
+
+test("round-trips an on-chain resume through JSON Resume", () => {
+  const json = toJsonResume(resume);
+  expect(json.$schema).toBe(JSON_RESUME_SCHEMA);
+  expect(json.meta?.lastModified).toBe("2026-01-01T00:00:00.000Z");
+
+  const { draft, errors } = parseJsonResume(JSON.stringify(json), 8);
+  expect(errors).toEqual([]);
+  expect(draft).toEqual({
+    name: "Alice",
+    education: resume.education,
+    workExperience: resume.workExperience,
+    skills: [
+      { name: "TypeScript", level: 8 },
+      { name: "Go", level: 6 },
+    ],
+  });
+});
+
+test("leaves levels out until the owner decrypted them", () => {
+  const json = toJsonResume({ ...resume, skillLevels: null });
+  expect(json.skills).toEqual([{ name: "TypeScript" }, { name: "Go" }]);
+
+  // Such an export cannot be submitted again without levels
+  expect(parseJsonResume(JSON.stringify(json), 8).errors).toEqual([
+    { field: "skills[0].level", message: "Level is required" },
+    { field: "skills[1].level", message: "Level is required" },
+  ]);
+});
+
+test("formats structured work and education entries into the on-chain text", () => {
+  const { draft } = parseJsonResume(
+    JSON.stringify({
+      basics: { name: "  Bob  " },
+      work: [
+        {
+          name: "Acme",
+          position: "Engineer",
+          startDate: "2020-01",
+          summary: "Built things",
+          highlights: ["Shipped v1"],
+        },
+      ],
+      education: [{ institution: "MIT", area: "Physics", studyType: "BSc", startDate: "2015", endDate: "2019" }],
+      skills: [{ name: "Rust", level: "Advanced" }],
+    }),
+    null
+  );
+
+  expect(draft).toEqual({
+    name: "Bob",
+    workExperience: "Engineer at Acme (2020-01 - present): Built things\n- Shipped v1",
+    education: "BSc in Physics, MIT (2015 - 2019)",
+    skills: [{ name: "Rust", level: 8 }],
+  });
+});
+
+test("maps JSON Resume skill levels onto 1-10", () => {
+  expect(toSkillLevel(7)).toBe(7);
+  expect(toSkillLevel("7")).toBe(7);
+  expect(toSkillLevel("4/5")).toBe(8);
+  expect(toSkillLevel("80%")).toBe(8);
+  expect(toSkillLevel("7.5")).toBe(8);
+  expect(toSkillLevel("Upper intermediate")).toBe(5);
+  expect(toSkillLevel("expert-level")).toBe(9);
+
+  for (const invalid of [0, 11, 7.5, "0", "11", "150%", "great", "", null, undefined, {}]) {
+    expect(toSkillLevel(invalid)).toBeNull();
+  }
+});
+
+test("reports every invalid field with its path", () => {
+  const { draft, errors } = parseJsonResume(
+    JSON.stringify({
+      basics: { name: "é".repeat(51) },
+      work: [{ summary: "ok" }, "not an object", { highlights: ["ok", 3] }],
+      education: [{ institution: "x".repeat(1001) }],
+      skills: [
+        { name: "Go", level: "5" },
+        { name: "go", level: "5" },
+        { name: "", level: "5" },
+        { name: "Rust", level: "great" },
+      ],
+    }),
+    3
+  );
+
+  expect(draft).toBeNull();
+  expect(errors.map((error) => error.field)).toEqual([
+    "basics.name",
+    "work[1]",
+    "work[2].highlights",
+    "education",
+    "skills",
+    "skills[1].name",
+    "skills[2].name",
+    "skills[3].level",
+  ]);
+  // Limits are counted in bytes like the contract does, not in characters
+  expect(errors[0].message).toBe("Name is 102 bytes, at most 100 fit on-chain");
+  expect(errors[4].message).toBe("4 skills, at most 3 are allowed");
+  expect(errors[5].message).toBe('Duplicate skill "go"');
+});
+
+test("rejects files that are not a JSON Resume object", () => {
+  expect(parseJsonResume("{", 8).errors[0].field).toBe("(file)");
+  expect(parseJsonResume("[]", 8).errors).toEqual([{ field: "(file)", message: "Expected a JSON Resume object" }]);
+  expect(parseJsonResume(JSON.stringify({ basics: { name: "Alice" } }), 8).errors).toEqual([
+    { field: "skills", message: "At least one skill is required" },
+  ]);
+});
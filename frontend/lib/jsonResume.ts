@@ -0,0 +1,259 @@
+// Conversion between the on-chain resume fields and the JSON Resume format (https://jsonresume.org/schema)
+
+export const JSON_RESUME_SCHEMA = "https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json";
+
+// Limits enforced by SecureResume.submitResume
+const MAX_NAME_LENGTH = 100;
+const MAX_TEXT_LENGTH = 1000;
+
+export interface JsonResumeWork {
+  name?: string;
+  position?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+}
+
+export interface JsonResumeEducation {
+  institution?: string;
+  area?: string;
+  studyType?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface JsonResumeSkill {
+  name?: string;
+  level?: string;
+  keywords?: string[];
+}
+
+export interface JsonResume {
+  $schema?: string;
+  basics?: { name?: string; label?: string; summary?: string };
+  work?: JsonResumeWork[];
+  education?: JsonResumeEducation[];
+  skills?: JsonResumeSkill[];
+  meta?: { lastModified?: string };
+}
+
+// The fields ResumeSubmission encrypts and submits
+export interface ResumeDraft {
+  name: string;
+  education: string;
+  workExperience: string;
+  skills: { name: string; level: number }[];
+}
+
+export interface ResumeFieldError {
+  field: string; // JSON path in the imported file, e.g. skills[2].level
+  message: string;
+}
+
+// Proficiency words commonly used in JSON Resume files, mapped onto the 1-10 scale
+const LEVEL_WORDS: Record<string, number> = {
+  novice: 2,
+  beginner: 2,
+  basic: 3,
+  elementary: 3,
+  junior: 4,
+  intermediate: 5,
+  competent: 6,
+  proficient: 6,
+  experienced: 7,
+  advanced: 8,
+  fluent: 8,
+  senior: 8,
+  expert: 9,
+  master: 10,
+  native: 10,
+};
+
+/**
+ * Map a JSON Resume skill level onto the 1-10 scale.
+ * Accepts numbers ("7", "4/5", "80%") and proficiency words ("Advanced", "Upper intermediate").
+ */
+export const toSkillLevel = (level: unknown): number | null => {
+  if (typeof level === "number") {
+    return Number.isInteger(level) && level >= 1 && level <= 10 ? level : null;
+  }
+  if (typeof level !== "string") {
+    return null;
+  }
+
+  const text = level.trim().toLowerCase();
+  const fraction = text.match(/^(\d+(?:\.\d+)?)\s*(?:\/\s*(\d+(?:\.\d+)?))?$/);
+  const percentage = text.match(/^(\d+(?:\.\d+)?)\s*%$/);
+  let scaled: number | undefined;
+  if (fraction) {
+    scaled = (Number(fraction[1]) / Number(fraction[2] ?? 10)) * 10;
+  } else if (percentage) {
+    scaled = Number(percentage[1]) / 10;
+  } else {
+    const word = text.split(/[\s-]+/).find((part) => part in LEVEL_WORDS);
+    scaled = word ? LEVEL_WORDS[word] : undefined;
+  }
+
+  if (scaled === undefined || !Number.isFinite(scaled)) {
+    return null;
+  }
+  const rounded = Math.round(scaled);
+  return rounded >= 1 && rounded <= 10 ? rounded : null;
+};
+
+const _dateRange = (startDate?: string, endDate?: string) =>
+  startDate ? `(${startDate} - ${endDate || "present"})` : "";
+
+// Byte length, which is what the contract limits
+const _byteLength = (text: string) => new TextEncoder().encode(text).length;
+
+const _isText = (value: unknown) => value === undefined || typeof value === "string";
+const _isTextList = (value: unknown) =>
+  value === undefined || (Array.isArray(value) && value.every((item) => typeof item === "string"));
+
+// "Position at Company (start - end): summary", only the parts that are present
+const _formatWork = (work: JsonResumeWork) => {
+  const heading = [[work.position, work.name].filter(Boolean).join(" at "), _dateRange(work.startDate, work.endDate)]
+    .filter(Boolean)
+    .join(" ");
+  const details = [work.summary, ...(work.highlights ?? []).map((highlight) => `- ${highlight}`)]
+    .filter(Boolean)
+    .join("\n");
+  return [heading, details].filter(Boolean).join(": ");
+};
+
+// "Degree in Area, Institution (start - end)", only the parts that are present
+const _formatEducation = (education: JsonResumeEducation) => {
+  const degree = [education.studyType, education.area].filter(Boolean).join(" in ");
+  return [[degree, education.institution].filter(Boolean).join(", "), _dateRange(education.startDate, education.endDate)]
+    .filter(Boolean)
+    .join(" ");
+};
+
+/**
+ * Parse a JSON Resume document into the fields ResumeSubmission submits.
+ * Every problem is reported with the path of the offending field, and no draft is returned unless there are none.
+ */
+export const parseJsonResume = (
+  text: string,
+  maxSkills: number | null
+): { draft: ResumeDraft | null; errors: ResumeFieldError[] } => {
+  let json: JsonResume;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    return { draft: null, errors: [{ field: "(file)", message: `Not valid JSON: ${error instanceof Error ? error.message : error}` }] };
+  }
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    return { draft: null, errors: [{ field: "(file)", message: "Expected a JSON Resume object" }] };
+  }
+
+  const errors: ResumeFieldError[] = [];
+
+  const name = typeof json.basics?.name === "string" ? json.basics.name.trim() : "";
+  if (!name) {
+    errors.push({ field: "basics.name", message: "Name is required" });
+  } else if (_byteLength(name) > MAX_NAME_LENGTH) {
+    errors.push({ field: "basics.name", message: `Name is ${_byteLength(name)} bytes, at most ${MAX_NAME_LENGTH} fit on-chain` });
+  }
+
+  const formatSection = <T extends object>(section: string, entries: unknown, format: (entry: T) => string) => {
+    if (entries === undefined) return "";
+    if (!Array.isArray(entries)) {
+      errors.push({ field: section, message: "Expected an array" });
+      return "";
+    }
+
+    const lines: string[] = [];
+    entries.forEach((entry, index) => {
+      const invalidField = typeof entry === "object" && entry !== null
+        ? Object.entries(entry).find(([key, value]) =>
+            key === "highlights" || key === "courses" ? !_isTextList(value) : !_isText(value)
+          )
+        : undefined;
+      if (typeof entry !== "object" || entry === null) {
+        errors.push({ field: `${section}[${index}]`, message: "Expected an object" });
+      } else if (invalidField) {
+        errors.push({ field: `${section}[${index}].${invalidField[0]}`, message: "Expected text or a list of text" });
+      } else {
+        lines.push(format(entry as T));
+      }
+    });
+
+    const textValue = lines.filter(Boolean).join("\n");
+    if (_byteLength(textValue) > MAX_TEXT_LENGTH) {
+      errors.push({
+        field: section,
+        message: `${_byteLength(textValue)} bytes once combined, at most ${MAX_TEXT_LENGTH} fit on-chain`,
+      });
+    }
+    return textValue;
+  };
+
+  const workExperience = formatSection<JsonResumeWork>("work", json.work, _formatWork);
+  const education = formatSection<JsonResumeEducation>("education", json.education, _formatEducation);
+
+  const skills: ResumeDraft["skills"] = [];
+  if (!Array.isArray(json.skills) || json.skills.length === 0) {
+    errors.push({ field: "skills", message: "At least one skill is required" });
+  } else {
+    if (maxSkills !== null && json.skills.length > maxSkills) {
+      errors.push({ field: "skills", message: `${json.skills.length} skills, at most ${maxSkills} are allowed` });
+    }
+
+    const seen = new Set<string>();
+    json.skills.forEach((skill, index) => {
+      const skillName = typeof skill?.name === "string" ? skill.name.trim() : "";
+      if (!skillName) {
+        errors.push({ field: `skills[${index}].name`, message: "Skill name is required" });
+      } else if (seen.has(skillName.toLowerCase())) {
+        errors.push({ field: `skills[${index}].name`, message: `Duplicate skill "${skillName}"` });
+      }
+      seen.add(skillName.toLowerCase());
+
+      const level = toSkillLevel(skill?.level);
+      if (level === null) {
+        errors.push({
+          field: `skills[${index}].level`,
+          message: skill?.level === undefined
+            ? "Level is required"
+            : `Cannot map "${skill.level}" to 1-10, use a number, a fraction like 4/5, or a word like Advanced`,
+        });
+      }
+
+      skills.push({ name: skillName, level: level ?? 1 });
+    });
+  }
+
+  return errors.length > 0
+    ? { draft: null, errors }
+    : { draft: { name, education, workExperience, skills }, errors };
+};
+
+/**
+ * Build a JSON Resume document from an on-chain resume.
+ * Education and work experience are stored as plain text, so each line becomes one entry.
+ * Levels are only included when the owner has decrypted them.
+ */
+export const toJsonResume = (resume: {
+  name: string;
+  education: string;
+  workExperience: string;
+  skillNames: string[];
+  skillLevels: number[] | null;
+  updatedAt: Date;
+}): JsonResume => {
+  const lines = (text: string) => text.split("\n").map((line) => line.trim()).filter(Boolean);
+
+  return {
+    $schema: JSON_RESUME_SCHEMA,
+    basics: { name: resume.name },
+    work: lines(resume.workExperience).map((summary) => ({ summary })),
+    education: lines(resume.education).map((institution) => ({ institution })),
+    skills: resume.skillNames.map((name, index) =>
+      resume.skillLevels ? { name, level: `${resume.skillLevels[index]}/10` } : { name }
+    ),
+    meta: { lastModified: resume.updatedAt.toISOString() },
+  };
+};
@@ -0,0 +1,53 @@
+import { SecureResumeAbiHash, SecureResumeChains, SecureResumeDeployments } from "@/abi/SecureResumeAddresses";
+
+// Mirrors registry/index.ts in the project root, genabi copies the registry into abi/SecureResumeAddresses.ts
+export interface ChainConfig {
+  network: string; // Hardhat network name
+  name: string;
+  rpcUrl: string; // may contain {NAME} placeholders
+  explorerUrl?: string;
+  mock?: boolean; // a local FHEVM Hardhat node
+}
+
+export interface DeploymentRecord {
+  version: string;
+  address: string;
+  deployBlock: number;
+  abiHash: string;
+  transactionHash?: string;
+  maxSkills?: number;
+  stale?: boolean; // deployed from an older source, never picked as the latest
+}
+
+// Follow whatever was deployed last instead of a fixed address
+export const LATEST_DEPLOYMENT = "latest";
+
+export const CHAINS: Record<string, ChainConfig> = SecureResumeChains;
+
+const DEPLOYMENTS: Record<string, DeploymentRecord[]> = SecureResumeDeployments;
+
+// Every deployment on a chain, oldest first
+export const deploymentsOn = (chainId: number): DeploymentRecord[] => DEPLOYMENTS[chainId] ?? [];
+
+// Built from the same ABI as this frontend
+export const isAbiCompatible = (deployment: DeploymentRecord): boolean => deployment.abiHash === SecureResumeAbiHash;
+
+// The last deployment on a chain that is not stale
+export const latestDeployment = (chainId: number): DeploymentRecord | undefined =>
+  deploymentsOn(chainId).filter((deployment) => !deployment.stale).pop();
+
+/**
+ * The deployment to use on a chain: the selected address, or the latest one.
+ * A selected address that is no longer in the registry falls back to the latest as well.
+ */
+export const resolveDeployment = (chainId: number, selection: string = LATEST_DEPLOYMENT): DeploymentRecord | undefined => {
+  const selected = deploymentsOn(chainId).find((deployment) => deployment.address.toLowerCase() === selection.toLowerCase());
+  return selected ?? latestDeployment(chainId);
+};
+
+export const rpcUrl = (chain: ChainConfig, variables: Record<string, string>): string =>
+  chain.rpcUrl.replace(/\{(\w+)\}/g, (_, name: string) => variables[name] ?? "");
+
+// Variables the chain's RPC URL needs, e.g. INFURA_API_KEY
+export const rpcUrlVariables = (chain: ChainConfig): string[] =>
+  [...chain.rpcUrl.matchAll(/\{(\w+)\}/g)].map((match) => match[1]);
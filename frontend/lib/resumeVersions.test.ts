@@ -0,0 +1,80 @@
+import { expect, test } from "vitest";
+import type { SecureResume } from "@/hooks/useSecureResumeContract";
+import { diffResumeVersions, lastSkillChange, loadResumeVersions, ResumeVersion } from "./resumeVersions";
+
+const version = (
+  number: number,
+  skills: Record<string, string>,
+  fields: Partial<Pick<ResumeVersion, "name" | "education" | "workExperience">> = {}
+): ResumeVersion => ({
+  version: number,
+  name: "Alice",
+  education: "BSc",
+  workExperience: "Developer",
+  skillNames: Object.keys(skills),
+  skillLevelHandles: Object.values(skills),
+  updatedAt: new Date(Date.UTC(2026, 0, number + 1)),
+  ...fields,
+});
+
+test("loads only the versions the contract still keeps, oldest first", async () => {
+  const snapshots = new Map<number, [string, string[], string[]]>([
+    [7, ["Alice", ["Go"], ["0x07"]]],
+    [8, ["Alice B.", ["Go", "Rust"], ["0x07", "0x08"]]],
+  ]);
+  const contract = {
+    getResumeVersionCount: async () => BigInt(9),
+    getOldestResumeVersion: async () => BigInt(7),
+    getResumeVersion: async (_user: string, number: number) => {
+      const [name, skillNames, skillLevels] = snapshots.get(number)!;
+      const updatedAt = BigInt(1767225600 + number);
+      return { name, education: "BSc", workExperience: "Developer", skillNames, skillLevels, updatedAt };
+    },
+  } as unknown as SecureResume;
+
+  const versions = await loadResumeVersions(contract, "0x01");
+  expect(versions.map((loaded) => loaded.version)).toEqual([7, 8]);
+  expect(versions[1]).toEqual({
+    version: 8,
+    name: "Alice B.",
+    education: "BSc",
+    workExperience: "Developer",
+    skillNames: ["Go", "Rust"],
+    skillLevelHandles: ["0x07", "0x08"],
+    updatedAt: new Date((1767225600 + 8) * 1000),
+  });
+});
+
+test("diffs fields and matches skills by name", () => {
+  const from = version(0, { TypeScript: "0x01", Go: "0x02", Docker: "0x03" });
+  const to = version(1, { Go: "0x02", TypeScript: "0x04", Rust: "0x05" }, { education: "MSc" });
+
+  expect(diffResumeVersions(from, to)).toEqual({
+    fields: [{ field: "education", from: "BSc", to: "MSc" }],
+    skills: [
+      { name: "Docker", kind: "removed", fromHandle: "0x03" },
+      { name: "TypeScript", kind: "level", fromHandle: "0x01", toHandle: "0x04" },
+      { name: "Rust", kind: "added", toHandle: "0x05" },
+    ],
+  });
+});
+
+test("does not count reordering as a change", () => {
+  const from = version(0, { TypeScript: "0x01", Go: "0x02" });
+  const to = version(1, { Go: "0x02", TypeScript: "0x01" });
+  expect(diffResumeVersions(from, to)).toEqual({ fields: [], skills: [] });
+});
+
+test("finds the latest skill change before a date", () => {
+  const versions = [
+    version(0, { Go: "0x01" }),
+    version(1, { Go: "0x02" }), // level re-submitted
+    version(2, { Go: "0x02" }, { name: "Alice B." }), // only a field changed
+    version(3, { Go: "0x02", Rust: "0x03" }), // skill added
+  ];
+
+  expect(lastSkillChange(versions)).toBe(versions[3]);
+  expect(lastSkillChange(versions, versions[2].updatedAt)).toBe(versions[1]);
+  expect(lastSkillChange(versions, versions[0].updatedAt)).toBeNull();
+  expect(lastSkillChange(versions.slice(0, 1))).toBeNull();
+});
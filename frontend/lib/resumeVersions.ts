@@ -0,0 +1,83 @@
+import type { SecureResume } from "@/hooks/useSecureResumeContract";
+
+export interface ResumeVersion {
+  version: number;
+  name: string;
+  education: string;
+  workExperience: string;
+  skillNames: string[];
+  skillLevelHandles: string[];
+  updatedAt: Date;
+}
+
+export interface SkillChange {
+  name: string;
+  kind: "added" | "removed" | "level"; // "level" = the encrypted level was replaced
+  fromHandle?: string;
+  toHandle?: string;
+}
+
+export interface ResumeDiff {
+  fields: { field: "name" | "education" | "workExperience"; from: string; to: string }[];
+  skills: SkillChange[];
+}
+
+// The versions of a resume the contract still keeps (the last MAX_VERSIONS), oldest first
+export const loadResumeVersions = async (contract: SecureResume, user: string): Promise<ResumeVersion[]> => {
+  const [count, oldest] = (
+    await Promise.all([contract.getResumeVersionCount(user), contract.getOldestResumeVersion(user)])
+  ).map(Number);
+  return Promise.all(
+    Array.from({ length: count - oldest }, async (_, i) => {
+      const version = oldest + i;
+      const snapshot = await contract.getResumeVersion(user, version);
+      return {
+        version,
+        name: snapshot.name,
+        education: snapshot.education,
+        workExperience: snapshot.workExperience,
+        skillNames: [...snapshot.skillNames],
+        skillLevelHandles: [...snapshot.skillLevels],
+        updatedAt: new Date(Number(snapshot.updatedAt) * 1000),
+      };
+    })
+  );
+};
+
+/**
+ * Compare two versions. Skills are matched by name, so reordering is not a change.
+ * Levels are encrypted: a replaced handle means the level was re-submitted, not necessarily changed.
+ */
+export const diffResumeVersions = (from: ResumeVersion, to: ResumeVersion): ResumeDiff => {
+  const fields = (["name", "education", "workExperience"] as const)
+    .filter((field) => from[field] !== to[field])
+    .map((field) => ({ field, from: from[field], to: to[field] }));
+
+  const fromHandles = new Map(from.skillNames.map((name, index) => [name, from.skillLevelHandles[index]]));
+  const toHandles = new Map(to.skillNames.map((name, index) => [name, to.skillLevelHandles[index]]));
+
+  const skills: SkillChange[] = [
+    ...from.skillNames
+      .filter((name) => !toHandles.has(name))
+      .map((name): SkillChange => ({ name, kind: "removed", fromHandle: fromHandles.get(name) })),
+    ...to.skillNames.flatMap((name): SkillChange[] => {
+      const fromHandle = fromHandles.get(name);
+      const toHandle = toHandles.get(name);
+      if (fromHandle === undefined) return [{ name, kind: "added", toHandle }];
+      return fromHandle !== toHandle ? [{ name, kind: "level", fromHandle, toHandle }] : [];
+    }),
+  ];
+
+  return { fields, skills };
+};
+
+// When the skill claims last changed at or before `before`, or null if they did not change within the kept versions
+export const lastSkillChange = (versions: ResumeVersion[], before?: Date): ResumeVersion | null => {
+  for (let i = versions.length - 1; i > 0; i--) {
+    if (before && versions[i].updatedAt > before) continue;
+    if (diffResumeVersions(versions[i - 1], versions[i]).skills.length > 0) {
+      return versions[i];
+    }
+  }
+  return null;
+};
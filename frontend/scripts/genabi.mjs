@@ -1,4 +1,5 @@
 import { execSync } from "child_process";
+import { ethers } from "ethers";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -129,22 +130,18 @@ if (!deployLocalhost) {
   process.exit(1);
 }
 
-// Sepolia is optional
-let deploySepolia = readDeployment("sepolia", 11155111, CONTRACT_NAME, true /* optional */);
-if (!deploySepolia) {
-  deploySepolia = { abi: deployLocalhost.abi, address: "0x0000000000000000000000000000000000000000" };
+// Every chain and deployment, written by the deploy script
+const registryPath = path.join(dir, "registry", `${CONTRACT_NAME}.json`);
+if (!fs.existsSync(registryPath)) {
+  console.error(`${line}Unable to locate the deployment registry ${registryPath}.${line}`);
+  process.exit(1);
 }
+const registry = JSON.parse(fs.readFileSync(registryPath, "utf-8"));
 
-if (deployLocalhost && deploySepolia) {
-  if (
-    JSON.stringify(deployLocalhost.abi) !== JSON.stringify(deploySepolia.abi)
-  ) {
-    console.error(
-      `${line}Deployments on localhost and Sepolia differ. Cant use the same abi on both networks. Consider re-deploying the contracts on both networks.${line}`
-    );
-    process.exit(1);
-  }
-}
+// Same hash as abiHash() in registry/index.ts, deployments with another hash need a different ABI
+const abiHash = ethers.id(
+  new ethers.Interface(deployLocalhost.abi).format().sort().join("\n")
+);
 
 
 const tsCode = `
@@ -156,13 +153,14 @@ export const ${CONTRACT_NAME}ABI = ${JSON.stringify({ abi: deployLocalhost.abi }
 \n`;
 const tsAddresses = `
 /*
-  This file is auto-generated.
+  This file is auto-generated from registry/${CONTRACT_NAME}.json.
   Command: 'npm run genabi'
 */
-export const ${CONTRACT_NAME}Addresses = { 
-  "11155111": { address: "${deploySepolia.address}", chainId: 11155111, chainName: "sepolia" },
-  "31337": { address: "${deployLocalhost.address}", chainId: 31337, chainName: "hardhat" },
-};
+export const ${CONTRACT_NAME}AbiHash = "${abiHash}";
+
+export const ${CONTRACT_NAME}Chains = ${JSON.stringify(registry.chains, null, 2)};
+
+export const ${CONTRACT_NAME}Deployments = ${JSON.stringify(registry.deployments, null, 2)};
 `;
 
 console.log(`Generated ${path.join(outdir, `${CONTRACT_NAME}ABI.ts`)}`);
@@ -9,6 +9,7 @@ import type { HardhatUserConfig } from "hardhat/config";
 import { vars } from "hardhat/config";
 import "solidity-coverage";
 
+import { loadRegistry, rpcUrl } from "./registry";
 import "./tasks/accounts";
 import "./tasks/SecureResume";
 
@@ -17,6 +18,24 @@ import "./tasks/SecureResume";
 const MNEMONIC: string = vars.get("MNEMONIC", "test test test test test test test test test test test junk");
 const INFURA_API_KEY: string = vars.get("INFURA_API_KEY", "b18fb7e6ca7045ac83c41157ab93f990");
 
+// Every remote chain in registry/SecureResume.json gets a network, so supporting a new chain is a registry change
+const registryNetworks = Object.fromEntries(
+  Object.entries(loadRegistry().chains)
+    .filter(([, chain]) => !chain.mock)
+    .map(([chainId, chain]) => [
+      chain.network,
+      {
+        accounts: {
+          mnemonic: MNEMONIC,
+          path: "m/44'/60'/0'/0/",
+          count: 10,
+        },
+        chainId: Number(chainId),
+        url: rpcUrl(chain, (name) => (name === "INFURA_API_KEY" ? INFURA_API_KEY : vars.get(name))),
+      },
+    ]),
+);
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   namedAccounts: {
@@ -48,15 +67,7 @@ const config: HardhatUserConfig = {
       chainId: 31337,
       url: "http://localhost:8545",
     },
-    sepolia: {
-      accounts: {
-        mnemonic: MNEMONIC,
-        path: "m/44'/60'/0'/0/",
-        count: 10,
-      },
-      chainId: 11155111,
-      url: `https://sepolia.infura.io/v3/${INFURA_API_KEY}`,
-    },
+    ...registryNetworks,
   },
   paths: {
     artifacts: "./artifacts",
@@ -79,6 +90,8 @@ const config: HardhatUserConfig = {
         runs: 800,
       },
       evmVersion: "cancun",
+      // The IR pipeline keeps SecureResume below the 24 KB contract size limit
+      viaIR: true,
     },
   },
   typechain: {
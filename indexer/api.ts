@@ -0,0 +1,121 @@
+import { ethers } from "ethers";
+import http from "http";
+
+import { EVALUATION_EVENTS, IndexerDatabase } from "./database";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function _pagination(query: URLSearchParams) {
+  const limit = Number(query.get("limit") ?? DEFAULT_LIMIT);
+  const offset = Number(query.get("offset") ?? 0);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new HttpError(400, `limit must be between 1 and ${MAX_LIMIT}`);
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new HttpError(400, "offset must be a non-negative integer");
+  }
+  return { limit, offset };
+}
+
+function _address(value: string | null, name: string): string | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  if (!ethers.isAddress(value)) {
+    throw new HttpError(400, `Invalid ${name} address ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Read-only REST API over the indexed events.
+ *
+ *   GET /status
+ *   GET /candidates                         ?limit&offset
+ *   GET /candidates/:address/events         ?limit&offset
+ *   GET /hr
+ *   GET /hr/:address/activity               ?limit&offset
+ *   GET /evaluations                        ?candidate&hr&limit&offset
+ */
+export function createApiServer(db: IndexerDatabase): http.Server {
+  const routes: [RegExp, (match: RegExpMatchArray, query: URLSearchParams) => unknown][] = [
+    [
+      /^\/status$/,
+      () => ({
+        contract: db.getContractAddress(),
+        lastBlock: db.getCursor()?.number ?? null,
+        eventCount: db.countEvents(),
+      }),
+    ],
+    [
+      /^\/candidates$/,
+      (_match, query) => {
+        const { limit, offset } = _pagination(query);
+        return db.getCandidates(limit, offset);
+      },
+    ],
+    [
+      /^\/candidates\/([^/]+)\/events$/,
+      (match, query) => db.getEvents({ candidate: _address(match[1], "candidate"), ..._pagination(query) }),
+    ],
+    [/^\/hr$/, () => db.getHRs()],
+    [
+      /^\/hr\/([^/]+)\/activity$/,
+      (match, query) => db.getEvents({ hr: _address(match[1], "HR"), ..._pagination(query) }),
+    ],
+    [
+      /^\/evaluations$/,
+      (_match, query) =>
+        db.getEvents({
+          candidate: _address(query.get("candidate"), "candidate"),
+          hr: _address(query.get("hr"), "HR"),
+          names: EVALUATION_EVENTS,
+          ..._pagination(query),
+        }),
+    ],
+  ];
+
+  return http.createServer((request, response) => {
+    const send = (status: number, body: unknown) => {
+      response.writeHead(status, {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+      });
+      response.end(JSON.stringify(body));
+    };
+
+    if (request.method !== "GET") {
+      send(405, { error: "Method not allowed" });
+      return;
+    }
+
+    const url = new URL(request.url ?? "/", "http://localhost");
+    try {
+      for (const [pattern, handler] of routes) {
+        const match = url.pathname.match(pattern);
+        if (match) {
+          send(200, handler(match, url.searchParams));
+          return;
+        }
+      }
+      send(404, { error: `No route for ${url.pathname}` });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        send(error.status, { error: error.message });
+      } else {
+        console.error("API request failed:", error);
+        send(500, { error: "Internal server error" });
+      }
+    }
+  });
+}
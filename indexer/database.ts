@@ -0,0 +1,262 @@
+import Database from "better-sqlite3";
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+export interface IndexedEvent {
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  name: string;
+  candidate: string | null;
+  hr: string | null;
+  args: Record<string, unknown>;
+  timestamp: number;
+}
+
+export interface CandidateSummary {
+  address: string;
+  exists: boolean;
+  submittedAt: number | null;
+  updatedAt: number | null;
+  evaluationCount: number;
+}
+
+export interface HRSummary {
+  address: string;
+  authorized: boolean;
+  evaluationCount: number;
+  scoreCount: number;
+  lastActivityAt: number | null;
+}
+
+interface EventRow {
+  block_number: number;
+  block_hash: string;
+  transaction_hash: string;
+  log_index: number;
+  name: string;
+  candidate: string | null;
+  hr: string | null;
+  args: string;
+  timestamp: number;
+}
+
+// Evaluations of one candidate by one HR, each names both
+const MATCH_EVENTS = ["SkillEvaluated", "ExperienceEvaluated", "SalaryEvaluated", "CandidateBatchEvaluated"];
+const SCORE_EVENTS = ["SkillScoreCalculated", "SkillCountCalculated"];
+
+// BatchEvaluated only names the HR, its candidates are indexed through CandidateBatchEvaluated
+export const EVALUATION_EVENTS = [...MATCH_EVENTS, ...SCORE_EVENTS, "BatchEvaluated"];
+
+const _sqlList = (names: string[]) => names.map((name) => `'${name}'`).join(", ");
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    candidate TEXT,
+    hr TEXT,
+    args TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_candidate ON events (candidate, block_number);
+  CREATE INDEX IF NOT EXISTS events_hr ON events (hr, block_number);
+  CREATE INDEX IF NOT EXISTS events_name ON events (name, block_number);
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+function _toEvent(row: EventRow): IndexedEvent {
+  return {
+    blockNumber: row.block_number,
+    blockHash: row.block_hash,
+    transactionHash: row.transaction_hash,
+    logIndex: row.log_index,
+    name: row.name,
+    candidate: row.candidate,
+    hr: row.hr,
+    args: JSON.parse(row.args),
+    timestamp: row.timestamp,
+  };
+}
+
+/**
+ * SQLite store for indexed SecureResume events.
+ *
+ * Addresses are stored lower-cased so lookups do not depend on checksum casing.
+ * `blocks` remembers the hash of every block the indexer has seen an event in, plus the
+ * last synced block, which is what reorg detection compares against.
+ */
+export class IndexerDatabase {
+  readonly db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  getContractAddress(): string | undefined {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = 'contract'").get() as { value: string } | undefined;
+    return row?.value;
+  }
+
+  setContractAddress(address: string) {
+    this.db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES ('contract', ?)").run(address.toLowerCase());
+  }
+
+  // Last block that has been fully synced
+  getCursor(): IndexedBlock | undefined {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = 'cursor'").get() as { value: string } | undefined;
+    return row ? this.getBlock(Number(row.value)) : undefined;
+  }
+
+  getBlock(number: number): IndexedBlock | undefined {
+    return this.db.prepare("SELECT number, hash, timestamp FROM blocks WHERE number = ?").get(number) as
+      | IndexedBlock
+      | undefined;
+  }
+
+  // Known blocks below `number`, newest first, used to find the common ancestor after a reorg
+  getBlocksBefore(number: number): IndexedBlock[] {
+    return this.db
+      .prepare("SELECT number, hash, timestamp FROM blocks WHERE number < ? ORDER BY number DESC")
+      .all(number) as IndexedBlock[];
+  }
+
+  // Store one synced range atomically so a crash never leaves half a batch behind
+  saveBatch(blocks: IndexedBlock[], events: IndexedEvent[], cursor: IndexedBlock) {
+    const insertBlock = this.db.prepare(
+      "INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (@number, @hash, @timestamp)",
+    );
+    const insertEvent = this.db.prepare(
+      `INSERT OR REPLACE INTO events
+        (block_number, block_hash, transaction_hash, log_index, name, candidate, hr, args, timestamp)
+       VALUES
+        (@blockNumber, @blockHash, @transactionHash, @logIndex, @name, @candidate, @hr, @args, @timestamp)`,
+    );
+
+    this.db.transaction(() => {
+      for (const block of [...blocks, cursor]) {
+        insertBlock.run(block);
+      }
+      for (const event of events) {
+        insertEvent.run({
+          ...event,
+          candidate: event.candidate?.toLowerCase() ?? null,
+          hr: event.hr?.toLowerCase() ?? null,
+          args: JSON.stringify(event.args),
+        });
+      }
+      this.db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES ('cursor', ?)").run(String(cursor.number));
+    })();
+  }
+
+  // Drop everything after `number`, the last block still on the canonical chain
+  rollback(number: number) {
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM events WHERE block_number > ?").run(number);
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(number);
+      if (number < 0) {
+        this.db.prepare("DELETE FROM meta WHERE key = 'cursor'").run();
+      } else {
+        this.db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES ('cursor', ?)").run(String(number));
+      }
+    })();
+  }
+
+  countEvents(): number {
+    return (this.db.prepare("SELECT COUNT(*) AS count FROM events").get() as { count: number }).count;
+  }
+
+  getEvents(filter: { candidate?: string; hr?: string; names?: string[]; limit: number; offset: number }) {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (filter.candidate) {
+      conditions.push("candidate = ?");
+      params.push(filter.candidate.toLowerCase());
+    }
+    if (filter.hr) {
+      conditions.push("hr = ?");
+      params.push(filter.hr.toLowerCase());
+    }
+    if (filter.names) {
+      conditions.push(`name IN (${filter.names.map(() => "?").join(", ")})`);
+      params.push(...filter.names);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(`SELECT * FROM events ${where} ORDER BY block_number DESC, log_index DESC LIMIT ? OFFSET ?`)
+      .all(...params, filter.limit, filter.offset) as EventRow[];
+    return rows.map(_toEvent);
+  }
+
+  getCandidates(limit: number, offset: number): CandidateSummary[] {
+    // The latest lifecycle event decides whether the resume still exists
+    const rows = this.db
+      .prepare(
+        `SELECT
+           candidate AS address,
+           MAX(CASE WHEN name = 'ResumeSubmitted' THEN timestamp END) AS submittedAt,
+           MAX(CASE WHEN name IN ('ResumeSubmitted', 'ResumeUpdated') THEN timestamp END) AS updatedAt,
+           (SELECT e.name FROM events e
+              WHERE e.candidate = events.candidate
+                AND e.name IN ('ResumeSubmitted', 'ResumeDeleted')
+              ORDER BY e.block_number DESC, e.log_index DESC LIMIT 1) AS lastLifecycle,
+           SUM(CASE WHEN name IN (${_sqlList(EVALUATION_EVENTS)}) THEN 1 ELSE 0 END) AS evaluationCount
+         FROM events
+         WHERE candidate IS NOT NULL
+         GROUP BY candidate
+         HAVING submittedAt IS NOT NULL
+         ORDER BY updatedAt DESC
+         LIMIT ? OFFSET ?`,
+      )
+      .all(limit, offset) as (Omit<CandidateSummary, "exists"> & { lastLifecycle: string })[];
+
+    return rows.map(({ lastLifecycle, ...row }) => ({ ...row, exists: lastLifecycle === "ResumeSubmitted" }));
+  }
+
+  getHRs(): HRSummary[] {
+    const rows = this.db
+      .prepare(
+        `SELECT
+           hr AS address,
+           (SELECT e.name FROM events e
+              WHERE e.hr = events.hr
+                AND e.name IN ('HRAuthorized', 'HRRevoked')
+              ORDER BY e.block_number DESC, e.log_index DESC LIMIT 1) AS lastAuthorization,
+           SUM(CASE WHEN name IN (${_sqlList(MATCH_EVENTS)}) THEN 1 ELSE 0 END) AS evaluationCount,
+           SUM(CASE WHEN name IN (${_sqlList(SCORE_EVENTS)}) THEN 1 ELSE 0 END) AS scoreCount,
+           MAX(CASE WHEN name IN (${_sqlList(EVALUATION_EVENTS)}) THEN timestamp END) AS lastActivityAt
+         FROM events
+         WHERE hr IS NOT NULL
+         GROUP BY hr
+         HAVING lastAuthorization IS NOT NULL
+         ORDER BY address`,
+      )
+      .all() as (Omit<HRSummary, "authorized"> & { lastAuthorization: string })[];
+
+    return rows.map(({ lastAuthorization, ...row }) => ({ ...row, authorized: lastAuthorization === "HRAuthorized" }));
+  }
+}
@@ -0,0 +1,73 @@
+import { ethers } from "ethers";
+
+import { chainIdOfNetwork, loadRegistry, resolveDeployment, rpcUrl as registryRpcUrl } from "../registry";
+import { createApiServer } from "./api";
+import { IndexerDatabase } from "./database";
+import { SecureResumeIndexer } from "./indexer";
+
+/**
+ * Standalone SecureResume event indexer.
+ *
+ *   npm run indexer
+ *
+ * Environment:
+ *   INDEXER_NETWORK           network name in registry/SecureResume.json (default localhost)
+ *   INDEXER_RPC_URL           JSON-RPC endpoint to follow (default: the network's rpcUrl, placeholders from the environment)
+ *   INDEXER_CONTRACT_ADDRESS  SecureResume address, read from the registry when unset
+ *   INDEXER_DEPLOYMENT        version or address of the registry deployment to index (default latest)
+ *   INDEXER_START_BLOCK       first block to index (default: deployment block, or 0)
+ *   INDEXER_DB                SQLite file (default indexer.sqlite)
+ *   INDEXER_PORT              REST API port (default 4000)
+ */
+function _network(network: string): { rpcUrl?: string; address?: string; blockNumber?: number } {
+  const registry = loadRegistry();
+  const chainId = chainIdOfNetwork(registry, network);
+  if (chainId === undefined) {
+    return {};
+  }
+  const deployment = resolveDeployment(registry, chainId, process.env.INDEXER_DEPLOYMENT);
+  return {
+    rpcUrl: registryRpcUrl(registry.chains[chainId], (name) => process.env[name] ?? ""),
+    address: deployment?.address,
+    blockNumber: deployment?.deployBlock,
+  };
+}
+
+async function main() {
+  const networkName = process.env.INDEXER_NETWORK ?? "localhost";
+  const network = _network(networkName);
+  const rpcUrl = process.env.INDEXER_RPC_URL ?? network.rpcUrl ?? "http://127.0.0.1:8545";
+  const address = process.env.INDEXER_CONTRACT_ADDRESS ?? network.address;
+  if (!address) {
+    throw new Error(`No SecureResume deployment for ${networkName} in the registry, set INDEXER_CONTRACT_ADDRESS`);
+  }
+  // The deploy block only applies to the registry deployment
+  const deployBlock = process.env.INDEXER_CONTRACT_ADDRESS ? undefined : network.blockNumber;
+  const startBlock = Number(process.env.INDEXER_START_BLOCK ?? deployBlock ?? 0);
+  const port = Number(process.env.INDEXER_PORT ?? 4000);
+
+  const db = new IndexerDatabase(process.env.INDEXER_DB ?? "indexer.sqlite");
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const indexer = new SecureResumeIndexer(provider, db, { contractAddress: address, startBlock });
+  const server = createApiServer(db);
+
+  console.log(`Indexing SecureResume at ${indexer.contractAddress} from block ${startBlock} via ${rpcUrl}`);
+  indexer.start();
+  server.listen(port, () => {
+    console.log(`Indexer API listening on http://localhost:${port}`);
+  });
+
+  const shutdown = () => {
+    indexer.stop();
+    server.close();
+    provider.destroy();
+    db.close();
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,175 @@
+import { ethers } from "ethers";
+
+import { SecureResume__factory } from "../types";
+import { IndexedBlock, IndexedEvent, IndexerDatabase } from "./database";
+
+export interface IndexerOptions {
+  contractAddress: string;
+  startBlock?: number;
+  batchSize?: number;
+  pollIntervalMs?: number;
+}
+
+const secureResumeInterface = SecureResume__factory.createInterface();
+
+// Event arguments that name the candidate or the recruiter, so both can be queried without parsing args
+const CANDIDATE_ARGS = ["user", "candidate"];
+const HR_ARGS = ["hr"];
+
+function _jsonArgs(parsed: ethers.LogDescription): Record<string, unknown> {
+  const args: Record<string, unknown> = {};
+  parsed.fragment.inputs.forEach((input, index) => {
+    const value = parsed.args[index];
+    args[input.name] = Array.isArray(value)
+      ? value.map((item) => (typeof item === "bigint" ? item.toString() : item))
+      : typeof value === "bigint"
+        ? value.toString()
+        : value;
+  });
+  return args;
+}
+
+function _argOf(parsed: ethers.LogDescription, names: string[]): string | null {
+  const input = parsed.fragment.inputs.find((fragmentInput) => names.includes(fragmentInput.name));
+  return input ? (parsed.args.getValue(input.name) as string) : null;
+}
+
+/**
+ * Follows a JSON-RPC node and copies every SecureResume event into the database.
+ *
+ * Each poll first checks that the last synced block is still canonical. If it is not, the
+ * indexer walks back through the block hashes it stored until it finds the common ancestor,
+ * drops everything after it and syncs forward again.
+ */
+export class SecureResumeIndexer {
+  readonly #provider: ethers.Provider;
+  readonly #db: IndexerDatabase;
+  readonly #contractAddress: string;
+  readonly #startBlock: number;
+  readonly #batchSize: number;
+  readonly #pollIntervalMs: number;
+  #timer: NodeJS.Timeout | undefined;
+  #stopped = true;
+
+  constructor(provider: ethers.Provider, db: IndexerDatabase, options: IndexerOptions) {
+    this.#provider = provider;
+    this.#db = db;
+    this.#contractAddress = ethers.getAddress(options.contractAddress);
+    this.#startBlock = options.startBlock ?? 0;
+    this.#batchSize = options.batchSize ?? 2000;
+    this.#pollIntervalMs = options.pollIntervalMs ?? 2000;
+
+    // A database built for another deployment cannot be reused
+    const indexedContract = db.getContractAddress();
+    if (indexedContract && indexedContract !== this.#contractAddress.toLowerCase()) {
+      throw new Error(`Database already indexes ${indexedContract}, not ${this.#contractAddress}`);
+    }
+    db.setContractAddress(this.#contractAddress);
+  }
+
+  get contractAddress(): string {
+    return this.#contractAddress;
+  }
+
+  async #getBlock(number: number): Promise<IndexedBlock> {
+    const block = await this.#provider.getBlock(number);
+    if (!block || !block.hash) {
+      throw new Error(`Block ${number} not found`);
+    }
+    return { number: block.number, hash: block.hash, timestamp: block.timestamp };
+  }
+
+  async #handleReorg() {
+    const cursor = this.#db.getCursor();
+    if (!cursor) {
+      return;
+    }
+
+    const head = await this.#provider.getBlockNumber();
+    if (cursor.number <= head && (await this.#getBlock(cursor.number)).hash === cursor.hash) {
+      return;
+    }
+
+    for (const known of this.#db.getBlocksBefore(cursor.number)) {
+      if (known.number <= head && (await this.#getBlock(known.number)).hash === known.hash) {
+        console.warn(`Reorg detected, rolling back from block ${cursor.number} to ${known.number}`);
+        this.#db.rollback(known.number);
+        return;
+      }
+    }
+
+    console.warn(`Reorg detected below every indexed block, re-indexing from block ${this.#startBlock}`);
+    this.#db.rollback(this.#startBlock - 1);
+  }
+
+  async #syncRange(fromBlock: number, toBlock: number): Promise<number> {
+    const logs = await this.#provider.getLogs({ address: this.#contractAddress, fromBlock, toBlock });
+
+    const blocks = new Map<number, IndexedBlock>();
+    for (const log of logs) {
+      if (!blocks.has(log.blockNumber)) {
+        blocks.set(log.blockNumber, await this.#getBlock(log.blockNumber));
+      }
+    }
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const parsed = secureResumeInterface.parseLog(log);
+      if (!parsed) {
+        continue;
+      }
+      events.push({
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        name: parsed.name,
+        candidate: _argOf(parsed, CANDIDATE_ARGS),
+        hr: _argOf(parsed, HR_ARGS),
+        args: _jsonArgs(parsed),
+        timestamp: blocks.get(log.blockNumber)!.timestamp,
+      });
+    }
+
+    this.#db.saveBatch([...blocks.values()], events, await this.#getBlock(toBlock));
+    return events.length;
+  }
+
+  // Sync up to the current head once; resolves to the number of new events
+  async sync(): Promise<number> {
+    await this.#handleReorg();
+
+    const head = await this.#provider.getBlockNumber();
+    let fromBlock = (this.#db.getCursor()?.number ?? this.#startBlock - 1) + 1;
+    let count = 0;
+    while (fromBlock <= head) {
+      const toBlock = Math.min(fromBlock + this.#batchSize - 1, head);
+      count += await this.#syncRange(fromBlock, toBlock);
+      fromBlock = toBlock + 1;
+    }
+    return count;
+  }
+
+  start() {
+    this.#stopped = false;
+    const poll = async () => {
+      try {
+        const count = await this.sync();
+        if (count > 0) {
+          console.log(`Indexed ${count} new event(s) up to block ${this.#db.getCursor()?.number}`);
+        }
+      } catch (error) {
+        console.error("Indexer sync failed:", error);
+      }
+      if (!this.#stopped) {
+        this.#timer = setTimeout(poll, this.#pollIntervalMs);
+      }
+    };
+    void poll();
+  }
+
+  stop() {
+    this.#stopped = true;
+    clearTimeout(this.#timer);
+  }
+}
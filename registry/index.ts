@@ -0,0 +1,90 @@
+import { ethers } from "ethers";
+import fs from "fs";
+import path from "path";
+
+/**
+ * Registry of SecureResume deployments, the single source of contract addresses for Hardhat, the tasks,
+ * the scripts, the indexer and (through `npm run genabi`) the frontend.
+ *
+ *   chains       every chain the project runs on, keyed by chain id
+ *   deployments  every deployment per chain id, oldest first, so the last entry that is not stale is the latest
+ */
+export interface ChainConfig {
+  network: string; // Hardhat network name
+  name: string;
+  rpcUrl: string; // {NAME} placeholders are filled from Hardhat vars
+  explorerUrl?: string;
+  mock?: boolean; // a local FHEVM Hardhat node rather than a real coprocessor
+}
+
+export interface DeploymentRecord {
+  version: string; // package version the contract was deployed from
+  address: string;
+  deployBlock: number;
+  abiHash: string; // see abiHash(), tells the frontend whether it can talk to this deployment
+  transactionHash?: string;
+  maxSkills?: number;
+  stale?: boolean; // deployed from an older source than the current build, only used when selected explicitly
+}
+
+export interface Registry {
+  chains: Record<string, ChainConfig>;
+  deployments: Record<string, DeploymentRecord[]>;
+}
+
+export const REGISTRY_FILE = path.join(__dirname, "SecureResume.json");
+
+export function loadRegistry(): Registry {
+  return JSON.parse(fs.readFileSync(REGISTRY_FILE, "utf8")) as Registry;
+}
+
+export function saveRegistry(registry: Registry) {
+  fs.writeFileSync(REGISTRY_FILE, JSON.stringify(registry, null, 2) + "\n", "utf8");
+}
+
+/**
+ * Hash of the ABI that ignores fragment order and formatting.
+ * frontend/scripts/genabi.mjs computes the same hash for the ABI the frontend is built with.
+ */
+export function abiHash(abi: ethers.InterfaceAbi): string {
+  return ethers.id(new ethers.Interface(abi).format().sort().join("\n"));
+}
+
+export function rpcUrl(chain: ChainConfig, variable: (name: string) => string): string {
+  return chain.rpcUrl.replace(/\{(\w+)\}/g, (_, name: string) => variable(name));
+}
+
+export function chainIdOfNetwork(registry: Registry, network: string): number | undefined {
+  const entry = Object.entries(registry.chains).find(([, chain]) => chain.network === network);
+  return entry ? Number(entry[0]) : undefined;
+}
+
+/**
+ * The deployment `selector` names on a chain: an address, a version (its latest deployment) or
+ * undefined / "latest" for the latest deployment that is not stale.
+ */
+export function resolveDeployment(
+  registry: Registry,
+  chainId: number,
+  selector?: string,
+): DeploymentRecord | undefined {
+  const deployments = registry.deployments[chainId] ?? [];
+  if (!selector || selector === "latest") {
+    return deployments.filter((deployment) => !deployment.stale).pop();
+  }
+  if (ethers.isAddress(selector)) {
+    return deployments.find((deployment) => deployment.address.toLowerCase() === selector.toLowerCase());
+  }
+  return deployments.filter((deployment) => deployment.version === selector).pop();
+}
+
+// Add a deployment as the latest on its chain; a restarted local node reuses addresses, so those are replaced
+export function recordDeployment(chainId: number, deployment: DeploymentRecord): Registry {
+  const registry = loadRegistry();
+  const previous = (registry.deployments[chainId] ?? []).filter(
+    (existing) => existing.address.toLowerCase() !== deployment.address.toLowerCase(),
+  );
+  registry.deployments[chainId] = [...previous, deployment];
+  saveRegistry(registry);
+  return registry;
+}
@@ -35,7 +35,7 @@ async function main() {
   // Deploy contract
   console.log("\n📦 Deploying SecureResume contract...");
   const SecureResumeFactory = await ethers.getContractFactory("SecureResume");
-  const secureResume = await SecureResumeFactory.deploy();
+  const secureResume = await SecureResumeFactory.deploy(20); // max skills per resume
   await secureResume.waitForDeployment();
   const contractAddress = await secureResume.getAddress();
   console.log("  ✅ Contract deployed at:", contractAddress);
@@ -107,14 +107,19 @@ async function main() {
   console.log("Test 3: HR Authorization");
   console.log("=".repeat(60));
 
-  console.log("\n🔑 Authorizing HR...");
-  const authorizeTx = await secureResume.connect(alice).authorizeHR(hr.address);
+  console.log("\n🔑 Owner authorizing HR...");
+  const authorizeTx = await secureResume.connect(deployer).authorizeHR(hr.address);
   await authorizeTx.wait();
   console.log("  ✅ HR authorized! Tx hash:", authorizeTx.hash);
 
   const isHR = await secureResume.hrAddresses(hr.address);
   console.log("  ✅ HR status:", isHR);
 
+  console.log("\n🤝 Alice grants HR evaluation access...");
+  const grantTx = await secureResume.connect(alice).grantEvaluationAccess(hr.address, [], 0);
+  await grantTx.wait();
+  console.log("  ✅ Evaluation access granted! Tx hash:", grantTx.hash);
+
   // Test 4: HR Skill Evaluation (with decryption)
   console.log("\n" + "=".repeat(60));
   console.log("Test 4: HR Skill Evaluation (with FHE Decryption)");
@@ -123,32 +128,34 @@ async function main() {
   const requiredLevel = 7;
   console.log("\n🎯 Evaluating skill 'JavaScript' (required level:", requiredLevel + ")");
 
-  // Get encrypted skill level from contract
-  console.log("\n📥 Getting encrypted skill level from contract...");
-  const skillLevelHandle = await secureResume
+  // HR encrypts the required level so the comparison happens in ciphertext
+  console.log("\n🔐 Encrypting required level...");
+  const encryptedRequiredLevel = await fhevm
+    .createEncryptedInput(contractAddress, hr.address)
+    .add32(requiredLevel)
+    .encrypt();
+
+  console.log("\n📥 Requesting encrypted skill match from contract...");
+  const evaluateTx = await secureResume
     .connect(hr)
-    .evaluateSkillMatch(alice.address, 0); // JavaScript is at index 0
+    .evaluateSkillMatch(alice.address, 0, encryptedRequiredLevel.handles[0], encryptedRequiredLevel.inputProof); // JavaScript is at index 0
+  await evaluateTx.wait();
 
-  console.log("  ✅ Encrypted skill level handle received");
+  const matchHandle = await secureResume.connect(hr).getSkillMatch(alice.address, 0);
 
-  // Decrypt the skill level
+  console.log("  ✅ Encrypted match result handle received");
+
+  // Decrypt the pass/fail result, HR never sees the raw skill level
   if (isMock) {
-    console.log("\n🔓 Decrypting skill level (MOCK mode)...");
-    const decryptedLevel = await fhevm.userDecryptEuint(
-      contractAddress,
-      skillLevelHandle,
-      alice.address
-    );
-    console.log("  ✅ Decrypted skill level:", Number(decryptedLevel));
+    console.log("\n🔓 Decrypting match result (MOCK mode)...");
+    const meetsRequirement = await fhevm.userDecryptEbool(matchHandle, contractAddress, hr);
 
-    const meetsRequirement = Number(decryptedLevel) >= requiredLevel;
     console.log("\n📊 Evaluation Result:");
-    console.log("  Decrypted Level:", Number(decryptedLevel));
     console.log("  Required Level:", requiredLevel);
     console.log("  Meets Requirement:", meetsRequirement ? "✅ YES" : "❌ NO");
   } else {
     console.log("\n⚠️  Real FHEVM decryption requires frontend interaction");
-    console.log("  The handle is:", skillLevelHandle);
+    console.log("  The handle is:", matchHandle);
     console.log("  Use the frontend to decrypt this handle");
   }
 
@@ -1,22 +1,27 @@
-const { ethers } = require("hardhat");
+const hre = require("hardhat");
+const { ethers } = hre;
+const { loadRegistry, resolveDeployment } = require("../registry");
 
-async function testNetwork(networkName, contractAddress) {
+async function testNetwork(networkName, rpcUrl, contractAddress) {
   console.log(`\n🔍 Testing ${networkName} network...`);
   console.log(`📍 Contract address: ${contractAddress}`);
 
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+
   try {
     // Get contract instance
     const SecureResume = await ethers.getContractAt("SecureResume", contractAddress);
+    const connected = SecureResume.connect(provider);
 
     // Test basic functionality
     const testAddress = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
 
     console.log(`👤 Testing hasResume for address: ${testAddress}`);
-    const hasResume = await SecureResume.hasResume(testAddress);
+    const hasResume = await connected.hasResume(testAddress);
     console.log(`✅ hasResume result: ${hasResume}`);
 
     // Test contract address
-    const contractAddr = await SecureResume.getAddress();
+    const contractAddr = await connected.getAddress();
     console.log(`✅ Contract address verification: ${contractAddr === contractAddress ? 'MATCH' : 'MISMATCH'}`);
 
     console.log(`🎉 ${networkName} network test PASSED`);
@@ -24,25 +29,31 @@ async function testNetwork(networkName, contractAddress) {
   } catch (error) {
     console.error(`❌ ${networkName} network test FAILED:`, error.message);
     throw error;
+  } finally {
+    provider.destroy();
   }
 }
 
 async function main() {
-  console.log("🚀 Testing Secure Career contract on multiple networks\n");
+  console.log("🚀 Testing Secure Career contract on every network in the deployment registry\n");
 
-  try {
-    // Test localhost network
-    await testNetwork("Localhost", "0x5FbDB2315678afecb367f032d93F642f64180aa3");
+  const registry = loadRegistry();
 
-    console.log("\n⏳ Switching to Sepolia network...");
+  try {
+    for (const [chainId, chain] of Object.entries(registry.chains)) {
+      // SECURE_RESUME_DEPLOYMENT picks a version or address instead of the latest deployment
+      const deployment = resolveDeployment(registry, Number(chainId), process.env.SECURE_RESUME_DEPLOYMENT);
+      if (!deployment) {
+        console.log(`\n⏭️  No deployment on ${chain.name}, skipping`);
+        continue;
+      }
 
-    // Test Sepolia network
-    process.env.HARDHAT_NETWORK = 'sepolia';
-    await testNetwork("Sepolia", "0x9D1280c8F82bB3412029509453884673cef0De55");
+      // Hardhat builds the network URLs from the registry, with the configured variables filled in
+      await testNetwork(chain.name, hre.config.networks[chain.network].url, deployment.address);
+    }
 
     console.log("\n🎊 ALL NETWORK TESTS PASSED!");
-    console.log("✅ Secure Career contract works on both Localhost and Sepolia networks");
-    console.log("✅ Network switching functionality is working correctly");
+    console.log("✅ Secure Career contract works on every deployed network");
 
   } catch (error) {
     console.error("\n💥 NETWORK TESTS FAILED:", error.message);
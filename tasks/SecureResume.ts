@@ -1,10 +1,130 @@
-import { task } from "hardhat/config";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { ContractTransactionReceipt, Interface, LogDescription } from "ethers";
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { abiHash, loadRegistry, resolveDeployment } from "../registry";
+
+/**
+ * Resume file read by SecureResume:submit and SecureResume:update
+ *
+ *   {
+ *     "name": "Alice",
+ *     "education": "BSc Computer Science",
+ *     "workExperience": "5 years backend development",
+ *     "skills": [{ "name": "TypeScript", "level": 8 }, { "name": "Docker", "level": 6 }]
+ *   }
+ */
+interface ResumeFile {
+  name: string;
+  education: string;
+  workExperience: string;
+  skills: { name: string; level: number }[];
+}
+
+function _readResumeFile(file: string): ResumeFile {
+  const resume = JSON.parse(fs.readFileSync(file, "utf8")) as ResumeFile;
+  if (typeof resume.name !== "string" || !Array.isArray(resume.skills) || resume.skills.length === 0) {
+    throw new Error(`${file} must contain a name and at least one skill`);
+  }
+  for (const skill of resume.skills) {
+    if (typeof skill.name !== "string" || !Number.isInteger(skill.level) || skill.level < 1 || skill.level > 10) {
+      throw new Error(`Invalid skill ${JSON.stringify(skill)}: levels must be integers between 1 and 10`);
+    }
+  }
+  return { ...resume, education: resume.education ?? "", workExperience: resume.workExperience ?? "" };
+}
+
+function _parseList(value: string): string[] {
+  return value.split(",").map((item) => item.trim());
+}
+
+function _parseLevels(value: string, min: number, max: number, name: string): number[] {
+  const levels = _parseList(value).map((level) => Number(level));
+  if (levels.some((level) => !Number.isInteger(level) || level < min || level > max)) {
+    throw new Error(`${name} must be integers between ${min} and ${max}`);
+  }
+  return levels;
+}
+
+// Index of each named skill on the candidate's resume
+function _skillIndices(skillNames: string[], names: string[]): number[] {
+  return names.map((name) => {
+    const index = skillNames.indexOf(name);
+    if (index === -1) {
+      throw new Error(`Candidate has no skill named ${name}, available: ${skillNames.join(", ")}`);
+    }
+    return index;
+  });
+}
+
+function _findEvent(
+  contractInterface: Interface,
+  receipt: ContractTransactionReceipt | null,
+  eventName: string,
+): LogDescription {
+  for (const log of receipt?.logs ?? []) {
+    const parsed = contractInterface.parseLog(log);
+    if (parsed?.name === eventName) {
+      return parsed;
+    }
+  }
+  throw new Error(`${eventName} event not found in transaction receipt`);
+}
+
+/**
+ * SecureResume address from registry/SecureResume.json, the latest deployment on the chain unless
+ * SECURE_RESUME_DEPLOYMENT names a version or an address.
+ */
+async function _secureResumeAddress(hre: HardhatRuntimeEnvironment): Promise<string> {
+  // The in-process hardhat network only has what hardhat-deploy deployed during this run
+  if (hre.network.name === "hardhat") {
+    return (await hre.deployments.get("SecureResume")).address;
+  }
+
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+  const selector = process.env.SECURE_RESUME_DEPLOYMENT;
+  const deployment = resolveDeployment(loadRegistry(), chainId, selector);
+  if (!deployment) {
+    throw new Error(
+      selector
+        ? `No SecureResume deployment ${selector} on chain ${chainId} in the registry`
+        : `No SecureResume deployment on chain ${chainId}, run 'npx hardhat deploy --network ${hre.network.name}'`,
+    );
+  }
+  return deployment.address;
+}
+
+// SecureResume deployment plus the signer picked with --account
+async function _connect(hre: HardhatRuntimeEnvironment, account: number) {
+  const { ethers } = hre;
+  const signers = await ethers.getSigners();
+  const signer = signers[account];
+  if (!signer) {
+    throw new Error(`Account ${account} not found, ${signers.length} accounts are configured`);
+  }
+
+  const secureResumeAddress = await _secureResumeAddress(hre);
+  const secureResume = await ethers.getContractAt("SecureResume", secureResumeAddress, signer);
+  return { secureResume, secureResumeAddress, signer };
+}
+
+async function _encryptResume(hre: HardhatRuntimeEnvironment, contractAddress: string, user: string, file: string) {
+  const resume = _readResumeFile(file);
+  const encryptedInput = hre.fhevm.createEncryptedInput(contractAddress, user);
+  for (const skill of resume.skills) {
+    encryptedInput.add32(skill.level);
+  }
+  const encryptedSkills = await encryptedInput.encrypt();
+  return { resume, skillNames: resume.skills.map((skill) => skill.name), encryptedSkills };
+}
 
 task("SecureResume:getResume", "Get resume info for an address")
   .addParam("address", "The address to query")
   .setAction(async (taskArgs, hre) => {
     const { ethers } = hre;
-    const secureResume = await ethers.getContractAt("SecureResume", (await hre.deployments.get("SecureResume")).address);
+    const secureResume = await ethers.getContractAt("SecureResume", await _secureResumeAddress(hre));
 
     const resumeInfo = await secureResume.getResumeInfo(taskArgs.address);
     console.log("Resume Info:");
@@ -20,7 +140,7 @@ task("SecureResume:hasResume", "Check if address has submitted a resume")
   .addParam("address", "The address to check")
   .setAction(async (taskArgs, hre) => {
     const { ethers } = hre;
-    const secureResume = await ethers.getContractAt("SecureResume", (await hre.deployments.get("SecureResume")).address);
+    const secureResume = await ethers.getContractAt("SecureResume", await _secureResumeAddress(hre));
 
     const hasResume = await secureResume.hasResume(taskArgs.address);
     console.log(`Address ${taskArgs.address} ${hasResume ? "has" : "does not have"} a resume`);
@@ -30,19 +150,314 @@ task("SecureResume:authorizeHR", "Authorize an HR address")
   .addParam("hr", "The HR address to authorize")
   .setAction(async (taskArgs, hre) => {
     const { ethers } = hre;
-    const secureResume = await ethers.getContractAt("SecureResume", (await hre.deployments.get("SecureResume")).address);
+    const secureResume = await ethers.getContractAt("SecureResume", await _secureResumeAddress(hre));
 
     const tx = await secureResume.authorizeHR(taskArgs.hr);
     await tx.wait();
     console.log(`Authorized HR: ${taskArgs.hr}`);
   });
 
+task("SecureResume:revokeHR", "Revoke an HR address (owner or the admin that authorized it)")
+  .addParam("hr", "The HR address to revoke")
+  .setAction(async (taskArgs, hre) => {
+    const { ethers } = hre;
+    const secureResume = await ethers.getContractAt("SecureResume", await _secureResumeAddress(hre));
+
+    const tx = await secureResume.revokeHR(taskArgs.hr);
+    await tx.wait();
+    console.log(`Revoked HR: ${taskArgs.hr}`);
+  });
+
+task("SecureResume:listHR", "List the owner, organization admins and authorized HR addresses").setAction(async (_taskArgs, hre) => {
+  const { ethers } = hre;
+  const secureResume = await ethers.getContractAt("SecureResume", await _secureResumeAddress(hre));
+
+  console.log(`Owner: ${await secureResume.owner()}`);
+
+  // Organization admins are only recorded in events, so rebuild the current set from them
+  const added = await secureResume.queryFilter(secureResume.filters.OrgAdminAdded());
+  const admins = [...new Set(added.map((event) => event.args.admin))];
+  const activeAdmins = [];
+  for (const admin of admins) {
+    if (await secureResume.orgAdmins(admin)) activeAdmins.push(admin);
+  }
+  console.log(`Organization Admins: ${activeAdmins.length > 0 ? activeAdmins.join(", ") : "none"}`);
+
+  const hrAddresses = await secureResume.getHRAddresses();
+  if (hrAddresses.length === 0) {
+    console.log("No authorized HR addresses");
+    return;
+  }
+
+  console.log("Authorized HR:");
+  for (const hr of hrAddresses) {
+    console.log(`  ${hr} (authorized by ${await secureResume.hrAdminOf(hr)})`);
+  }
+});
+
+task("SecureResume:auditLog", "List every HR evaluation run against a candidate")
+  .addParam("address", "The candidate address")
+  .setAction(async (taskArgs, hre) => {
+    const { ethers } = hre;
+    const secureResume = await ethers.getContractAt("SecureResume", await _secureResumeAddress(hre));
+
+    // Skill names come from the events themselves, indices shift whenever the candidate edits their skills
+    const { filters } = secureResume;
+    const [evaluations, scores, counts, experienceChecks, salaryChecks, batches] = await Promise.all([
+      secureResume.queryFilter(filters.SkillEvaluated(taskArgs.address)),
+      secureResume.queryFilter(filters.SkillScoreCalculated(taskArgs.address)),
+      secureResume.queryFilter(filters.SkillCountCalculated(taskArgs.address)),
+      secureResume.queryFilter(filters.ExperienceEvaluated(taskArgs.address)),
+      secureResume.queryFilter(filters.SalaryEvaluated(taskArgs.address)),
+      // BatchEvaluated lists its candidates unindexed, each of them is also named by CandidateBatchEvaluated
+      secureResume.queryFilter(filters.CandidateBatchEvaluated(taskArgs.address)),
+    ]);
+    const records = [
+      ...evaluations.map((event) => ({ event, kind: "Skill match", skills: [event.args.skillName] })),
+      ...scores.map((event) => ({ event, kind: "Weighted score", skills: [...event.args.skillNames] })),
+      ...counts.map((event) => ({ event, kind: "Skill count", skills: [...event.args.skillNames] })),
+      ...experienceChecks.map((event) => ({ event, kind: "Years of experience range", skills: [] })),
+      ...salaryChecks.map((event) => ({ event, kind: "Expected salary budget", skills: [] })),
+      ...batches.map((event) => ({ event, kind: "Batch requirement match", skills: [...event.args.skillNames] })),
+    ].sort((a, b) => a.event.blockNumber - b.event.blockNumber || a.event.index - b.event.index);
+
+    if (records.length === 0) {
+      console.log(`No evaluations recorded for ${taskArgs.address}`);
+      return;
+    }
+
+    console.log(`Access history for ${taskArgs.address}:`);
+    for (const { event, kind, skills } of records) {
+      const block = await event.getBlock();
+      console.log(`  ${new Date(block.timestamp * 1000).toISOString()} ${kind} by ${event.args.hr}`);
+      if (skills.length > 0) {
+        console.log(`    Skills: ${skills.join(", ")}`);
+      }
+      console.log(`    Tx: ${event.transactionHash}`);
+    }
+  });
+
 task("SecureResume:isHR", "Check if address is authorized HR")
   .addParam("address", "The address to check")
   .setAction(async (taskArgs, hre) => {
     const { ethers } = hre;
-    const secureResume = await ethers.getContractAt("SecureResume", (await hre.deployments.get("SecureResume")).address);
+    const secureResume = await ethers.getContractAt("SecureResume", await _secureResumeAddress(hre));
 
     const isHR = await secureResume.hrAddresses(taskArgs.address);
     console.log(`Address ${taskArgs.address} is ${isHR ? "" : "not "}authorized as HR`);
   });
+
+task("SecureResume:createJobPosting", "Publish a job posting with encrypted minimum skill levels (HR only)")
+  .addParam("title", "The job title")
+  .addParam("skills", "Comma-separated required skill names, e.g. TypeScript,Docker")
+  .addParam("levels", "Comma-separated minimum levels (1-10), one per skill")
+  .setAction(async (taskArgs, hre) => {
+    const { ethers, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const secureResumeAddress = await _secureResumeAddress(hre);
+    const secureResume = await ethers.getContractAt("SecureResume", secureResumeAddress);
+    const [signer] = await ethers.getSigners();
+
+    const skillNames = (taskArgs.skills as string).split(",").map((skill) => skill.trim());
+    const minLevels = (taskArgs.levels as string).split(",").map((level) => parseInt(level.trim()));
+    if (skillNames.length !== minLevels.length) {
+      throw new Error("Number of skills and levels must match");
+    }
+    if (minLevels.some((level) => !Number.isInteger(level) || level < 1 || level > 10)) {
+      throw new Error("Levels must be integers between 1 and 10");
+    }
+
+    const encryptedInput = fhevm.createEncryptedInput(secureResumeAddress, signer.address);
+    for (const level of minLevels) {
+      encryptedInput.add32(level);
+    }
+    const encryptedMinLevels = await encryptedInput.encrypt();
+
+    const tx = await secureResume
+      .connect(signer)
+      .createJobPosting(taskArgs.title, skillNames, encryptedMinLevels.handles, encryptedMinLevels.inputProof);
+    await tx.wait();
+
+    const postingId = (await secureResume.getJobPostingCount()) - 1n;
+    console.log(`Created job posting #${postingId}: ${taskArgs.title} (${skillNames.join(", ")})`);
+  });
+
+task("SecureResume:listJobPostings", "List all job postings").setAction(async (_taskArgs, hre) => {
+  const { ethers } = hre;
+  const secureResume = await ethers.getContractAt("SecureResume", await _secureResumeAddress(hre));
+
+  const count = await secureResume.getJobPostingCount();
+  if (count === 0n) {
+    console.log("No job postings found");
+    return;
+  }
+
+  for (let postingId = 0n; postingId < count; postingId++) {
+    const [hr, title, requiredSkillNames, createdAt, active, applicantCount] =
+      await secureResume.getJobPosting(postingId);
+    console.log(`#${postingId} ${title} [${active ? "open" : "closed"}]`);
+    console.log(`  HR: ${hr}`);
+    console.log(`  Required Skills: ${requiredSkillNames.join(", ")}`);
+    console.log(`  Applicants: ${applicantCount}`);
+    console.log(`  Created At: ${new Date(Number(createdAt) * 1000).toISOString()}`);
+  }
+});
+
+task("SecureResume:submit", "Submit a resume from a JSON file, encrypting its skill levels")
+  .addParam("file", "Path to the resume JSON file")
+  .addOptionalParam("account", "Index of the signer submitting the resume", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    await hre.fhevm.initializeCLIApi();
+    const { secureResume, secureResumeAddress, signer } = await _connect(hre, taskArgs.account);
+
+    const { resume, skillNames, encryptedSkills } = await _encryptResume(
+      hre,
+      secureResumeAddress,
+      signer.address,
+      taskArgs.file,
+    );
+    const tx = await secureResume.submitResume(
+      resume.name,
+      resume.education,
+      resume.workExperience,
+      skillNames,
+      encryptedSkills.handles,
+      encryptedSkills.inputProof,
+    );
+    await tx.wait();
+
+    console.log(`Submitted resume for ${signer.address}: ${resume.name} (${skillNames.join(", ")})`);
+  });
+
+task("SecureResume:update", "Replace the signer's resume with the contents of a JSON file")
+  .addParam("file", "Path to the resume JSON file")
+  .addOptionalParam("account", "Index of the signer owning the resume", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    await hre.fhevm.initializeCLIApi();
+    const { secureResume, secureResumeAddress, signer } = await _connect(hre, taskArgs.account);
+
+    const { resume, skillNames, encryptedSkills } = await _encryptResume(
+      hre,
+      secureResumeAddress,
+      signer.address,
+      taskArgs.file,
+    );
+    const tx = await secureResume.updateResume(
+      resume.name,
+      resume.education,
+      resume.workExperience,
+      skillNames,
+      encryptedSkills.handles,
+      encryptedSkills.inputProof,
+    );
+    await tx.wait();
+
+    console.log(`Updated resume for ${signer.address}: ${resume.name} (${skillNames.join(", ")})`);
+  });
+
+task("SecureResume:grantAccess", "Let an HR address evaluate the signer's skills")
+  .addParam("hr", "The HR address to grant access to")
+  .addOptionalParam("skills", "Comma-separated skill names, all skills when omitted")
+  .addOptionalParam("account", "Index of the signer owning the resume", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const { secureResume, signer } = await _connect(hre, taskArgs.account);
+
+    const skillIndices = taskArgs.skills
+      ? _skillIndices((await secureResume.getResumeInfo(signer.address)).skillNames, _parseList(taskArgs.skills))
+      : [];
+    const tx = await secureResume.grantEvaluationAccess(taskArgs.hr, skillIndices, 0);
+    await tx.wait();
+
+    console.log(`Granted ${taskArgs.hr} access to ${taskArgs.skills ?? "all skills"} of ${signer.address}`);
+  });
+
+task("SecureResume:evaluate", "Check a candidate's skill against an encrypted required level and decrypt it (HR only)")
+  .addParam("candidate", "The candidate address")
+  .addParam("skill", "The skill name to evaluate")
+  .addParam("level", "The required level (1-10)", undefined, types.int)
+  .addOptionalParam("account", "Index of the HR signer", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    await hre.fhevm.initializeCLIApi();
+    const { secureResume, secureResumeAddress, signer } = await _connect(hre, taskArgs.account);
+
+    const [requiredLevel] = _parseLevels(String(taskArgs.level), 1, 10, "Level");
+    const [skillIndex] = _skillIndices((await secureResume.getResumeInfo(taskArgs.candidate)).skillNames, [
+      taskArgs.skill,
+    ]);
+
+    const encryptedRequiredLevel = await hre.fhevm
+      .createEncryptedInput(secureResumeAddress, signer.address)
+      .add32(requiredLevel)
+      .encrypt();
+    const tx = await secureResume.evaluateSkillMatch(
+      taskArgs.candidate,
+      skillIndex,
+      encryptedRequiredLevel.handles[0],
+      encryptedRequiredLevel.inputProof,
+    );
+    const receipt = await tx.wait();
+
+    const matchHandle = _findEvent(secureResume.interface, receipt, "SkillEvaluated").args.result;
+    const meetsRequirement = await hre.fhevm.userDecryptEbool(matchHandle, secureResumeAddress, signer);
+
+    console.log(`Encrypted result handle: ${matchHandle}`);
+    console.log(`${taskArgs.skill} >= ${requiredLevel}: ${meetsRequirement ? "meets" : "below"} requirement`);
+  });
+
+task("SecureResume:score", "Calculate a candidate's weighted skill score and decrypt it (HR only)")
+  .addParam("candidate", "The candidate address")
+  .addOptionalParam("skills", "Comma-separated skill names, all skills when omitted")
+  .addOptionalParam("weights", "Comma-separated weights (1-100), one per skill, default 1 each")
+  .addOptionalParam("caps", "Comma-separated caps (1-10), one per skill, default 10 each")
+  .addOptionalParam("account", "Index of the HR signer", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    await hre.fhevm.initializeCLIApi();
+    const { secureResume, secureResumeAddress, signer } = await _connect(hre, taskArgs.account);
+
+    const resumeSkills = (await secureResume.getResumeInfo(taskArgs.candidate)).skillNames;
+    const skillNames = taskArgs.skills ? _parseList(taskArgs.skills) : [...resumeSkills];
+    const skillIndices = _skillIndices(resumeSkills, skillNames);
+    const weights = taskArgs.weights ? _parseLevels(taskArgs.weights, 1, 100, "Weights") : skillNames.map(() => 1);
+    const caps = taskArgs.caps ? _parseLevels(taskArgs.caps, 1, 10, "Caps") : skillNames.map(() => 10);
+    if (weights.length !== skillNames.length || caps.length !== skillNames.length) {
+      throw new Error("Number of skills, weights and caps must match");
+    }
+
+    const tx = await secureResume.calculateWeightedScore(taskArgs.candidate, skillIndices, weights, caps);
+    const receipt = await tx.wait();
+
+    const scoreEvent = _findEvent(secureResume.interface, receipt, "SkillScoreCalculated");
+    const weightedScore = await hre.fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      scoreEvent.args.weightedScore,
+      secureResumeAddress,
+      signer,
+    );
+    const normalizedScore = await hre.fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      scoreEvent.args.normalizedScore,
+      secureResumeAddress,
+      signer,
+    );
+    const maxScore = skillNames.reduce((sum, _name, i) => sum + weights[i] * caps[i], 0);
+
+    console.log(`Skills: ${skillNames.map((name, i) => `${name} (weight ${weights[i]}, cap ${caps[i]})`).join(", ")}`);
+    console.log(`Weighted score: ${weightedScore}/${maxScore} (${normalizedScore}%)`);
+  });
+
+task("SecureResume:deployments", "List the SecureResume deployments in the registry").setAction(async (_taskArgs, hre) => {
+  const registry = loadRegistry();
+  const currentAbiHash = abiHash((await hre.artifacts.readArtifact("SecureResume")).abi);
+
+  for (const [chainId, deployments] of Object.entries(registry.deployments)) {
+    const chain = registry.chains[chainId];
+    const latestDeployment = resolveDeployment(registry, Number(chainId));
+    console.log(`${chain?.name ?? "Unconfigured chain"} (${chainId}):`);
+    deployments.forEach((deployment) => {
+      const latest = deployment === latestDeployment ? " [latest]" : deployment.stale ? " [stale]" : "";
+      const abi = deployment.abiHash === currentAbiHash ? "" : " (ABI differs from the current build)";
+      console.log(`  v${deployment.version} ${deployment.address} from block ${deployment.deployBlock}${latest}${abi}`);
+    });
+  }
+});
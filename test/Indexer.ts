@@ -0,0 +1,193 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm, network } from "hardhat";
+import { AddressInfo } from "net";
+import { expect } from "chai";
+import { SecureResume, SecureResume__factory } from "../types";
+import { createApiServer } from "../indexer/api";
+import { CandidateSummary, EVALUATION_EVENTS, IndexedEvent, IndexerDatabase } from "../indexer/database";
+import { SecureResumeIndexer } from "../indexer/indexer";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  hr: HardhatEthersSigner;
+};
+
+describe("SecureResume indexer", function () {
+  let signers: Signers;
+  let secureResumeContract: SecureResume;
+  let secureResumeContractAddress: string;
+  let db: IndexerDatabase;
+  let indexer: SecureResumeIndexer;
+
+  async function submitResume(user: HardhatEthersSigner, name: string, levels: number[]) {
+    const input = fhevm.createEncryptedInput(secureResumeContractAddress, user.address);
+    levels.forEach((level) => input.add32(level));
+    const encrypted = await input.encrypt();
+    const skillNames = levels.map((_, index) => `Skill ${index}`);
+    await (
+      await secureResumeContract
+        .connect(user)
+        .submitResume(name, "Education", "Experience", skillNames, encrypted.handles, encrypted.inputProof)
+    ).wait();
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], hr: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const factory = (await ethers.getContractFactory("SecureResume")) as SecureResume__factory;
+    secureResumeContract = (await factory.deploy(8)) as SecureResume;
+    secureResumeContractAddress = await secureResumeContract.getAddress();
+
+    const deployBlock = (await secureResumeContract.deploymentTransaction()!.wait())!.blockNumber;
+    db = new IndexerDatabase(":memory:");
+    indexer = new SecureResumeIndexer(ethers.provider, db, {
+      contractAddress: secureResumeContractAddress,
+      startBlock: deployBlock,
+    });
+  });
+
+  afterEach(function () {
+    db?.close();
+  });
+
+  it("should index candidates, HR activity and evaluations", async function () {
+    await submitResume(signers.alice, "Alice", [8, 4]);
+    await (await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address)).wait();
+    await (await secureResumeContract.connect(signers.alice).grantEvaluationAccess(signers.hr.address, [], 0)).wait();
+
+    const required = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.hr.address)
+      .add32(5)
+      .encrypt();
+    await (
+      await secureResumeContract
+        .connect(signers.hr)
+        .evaluateSkillMatch(signers.alice.address, 0, required.handles[0], required.inputProof)
+    ).wait();
+
+    expect(await indexer.sync()).to.equal(5);
+    // Nothing new on the second pass
+    expect(await indexer.sync()).to.equal(0);
+
+    const [candidate] = db.getCandidates(10, 0);
+    expect(candidate.address).to.equal(signers.alice.address.toLowerCase());
+    expect(candidate.exists).to.equal(true);
+    expect(candidate.evaluationCount).to.equal(1);
+
+    const [hr] = db.getHRs();
+    expect(hr.address).to.equal(signers.hr.address.toLowerCase());
+    expect(hr.authorized).to.equal(true);
+    expect(hr.evaluationCount).to.equal(1);
+
+    const [evaluation] = db.getEvents({ hr: signers.hr.address, names: ["SkillEvaluated"], limit: 10, offset: 0 });
+    expect(evaluation.candidate).to.equal(signers.alice.address.toLowerCase());
+    expect(evaluation.args.skillIndex).to.equal("0");
+    expect(evaluation.args.skillName).to.equal("Skill 0");
+
+    await (await secureResumeContract.connect(signers.alice).deleteResume()).wait();
+    await (await secureResumeContract.connect(signers.deployer).revokeHR(signers.hr.address)).wait();
+    await indexer.sync();
+
+    expect(db.getCandidates(10, 0)[0].exists).to.equal(false);
+    expect(db.getHRs()[0].authorized).to.equal(false);
+  });
+
+  it("should index every kind of HR evaluation", async function () {
+    await submitResume(signers.alice, "Alice", [8, 4]);
+    await (await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address)).wait();
+    await (await secureResumeContract.connect(signers.alice).grantEvaluationAccess(signers.hr.address, [], 0)).wait();
+
+    const hrContract = secureResumeContract.connect(signers.hr);
+    await (await hrContract.calculateSkillScore(signers.alice.address, [0, 1], [5, 5])).wait();
+    await (await hrContract.calculateWeightedScore(signers.alice.address, [0, 1], [2, 1], [5, 5])).wait();
+    const required = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.hr.address)
+      .add32(5)
+      .encrypt();
+    await (
+      await hrContract.batchEvaluate([signers.alice.address], ["Skill 0"], required.handles, required.inputProof)
+    ).wait();
+    await indexer.sync();
+
+    const names = (filter: { candidate?: string; hr?: string }) =>
+      db
+        .getEvents({ ...filter, names: EVALUATION_EVENTS, limit: 10, offset: 0 })
+        .map((event) => event.name)
+        .sort();
+    expect(names({ candidate: signers.alice.address })).to.deep.equal([
+      "CandidateBatchEvaluated",
+      "SkillCountCalculated",
+      "SkillScoreCalculated",
+    ]);
+    expect(names({ hr: signers.hr.address })).to.deep.equal([
+      "BatchEvaluated",
+      "CandidateBatchEvaluated",
+      "SkillCountCalculated",
+      "SkillScoreCalculated",
+    ]);
+
+    expect(db.getCandidates(10, 0)[0].evaluationCount).to.equal(3);
+    const [hr] = db.getHRs();
+    expect(hr.evaluationCount).to.equal(1);
+    expect(hr.scoreCount).to.equal(2);
+  });
+
+  it("should roll back events from blocks dropped by a reorg", async function () {
+    await submitResume(signers.alice, "Alice", [8]);
+    await indexer.sync();
+
+    const snapshot = await network.provider.send("evm_snapshot");
+    await submitResume(signers.bob, "Bob", [6]);
+    await indexer.sync();
+    expect(db.getCandidates(10, 0)).to.have.length(2);
+
+    // Replace Bob's block with a different chain of the same height
+    await network.provider.send("evm_revert", [snapshot]);
+    await network.provider.send("hardhat_mine", ["0x2"]);
+    await indexer.sync();
+
+    const candidates = db.getCandidates(10, 0);
+    expect(candidates).to.have.length(1);
+    expect(candidates[0].address).to.equal(signers.alice.address.toLowerCase());
+  });
+
+  it("should serve indexed data over the REST API", async function () {
+    await submitResume(signers.alice, "Alice", [8]);
+    await indexer.sync();
+
+    const server = createApiServer(db).listen(0);
+    try {
+      const { port } = server.address() as AddressInfo;
+      const base = `http://127.0.0.1:${port}`;
+
+      const status = (await (await fetch(`${base}/status`)).json()) as { contract: string; eventCount: number };
+      expect(status.contract).to.equal(secureResumeContractAddress.toLowerCase());
+      // OwnershipTransferred from the constructor plus Alice's ResumeSubmitted
+      expect(status.eventCount).to.equal(2);
+
+      const candidates = (await (await fetch(`${base}/candidates`)).json()) as CandidateSummary[];
+      expect(candidates[0].address).to.equal(signers.alice.address.toLowerCase());
+
+      const events = (await (
+        await fetch(`${base}/candidates/${signers.alice.address}/events`)
+      ).json()) as IndexedEvent[];
+      expect(events[0].name).to.equal("ResumeSubmitted");
+
+      expect((await fetch(`${base}/hr/not-an-address/activity`)).status).to.equal(400);
+      expect((await fetch(`${base}/evaluations?limit=0`)).status).to.equal(400);
+      expect((await fetch(`${base}/unknown`)).status).to.equal(404);
+    } finally {
+      server.close();
+    }
+  });
+});
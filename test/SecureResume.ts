@@ -3,6 +3,8 @@ import { ethers, fhevm } from "hardhat";
 import { SecureResume, SecureResume__factory } from "../types";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 
 type Signers = {
   deployer: HardhatEthersSigner;
@@ -11,9 +13,11 @@ type Signers = {
   hr: HardhatEthersSigner;
 };
 
+const MAX_SKILLS = 8;
+
 async function deployFixture() {
   const factory = (await ethers.getContractFactory("SecureResume")) as SecureResume__factory;
-  const secureResumeContract = (await factory.deploy()) as SecureResume;
+  const secureResumeContract = (await factory.deploy(MAX_SKILLS)) as SecureResume;
   const secureResumeContractAddress = await secureResumeContract.getAddress();
 
   return { secureResumeContract, secureResumeContractAddress };
@@ -140,13 +144,67 @@ describe("SecureResume", function () {
     expect(skillNames).to.deep.equal(updatedSkillNames);
   });
 
-  it.skip("should allow HR to evaluate skill match", async function () {
-    // TODO: Fix FHE decryption issue for HR evaluation
+  it("should allow HR to evaluate skill match against an encrypted threshold", async function () {
     // Submit resume with skill level 7
-    const skillLevels = [7];
     const encryptedSkills = await fhevm
       .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
-      .add32(skillLevels[0])
+      .add32(7)
+      .encrypt();
+
+    await secureResumeContract
+      .connect(signers.alice)
+      .submitResume(
+        "Alice",
+        "Education",
+        "Experience",
+        ["JavaScript"],
+        encryptedSkills.handles,
+        encryptedSkills.inputProof
+      );
+
+    // Authorize HR and share the resume with them
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+    await secureResumeContract.connect(signers.alice).grantEvaluationAccess(signers.hr.address, [], 0);
+
+    for (const [requiredLevel, expected] of [
+      [5, true],
+      [7, true],
+      [8, false],
+    ] as const) {
+      // HR encrypts the required level
+      const encryptedRequiredLevel = await fhevm
+        .createEncryptedInput(secureResumeContractAddress, signers.hr.address)
+        .add32(requiredLevel)
+        .encrypt();
+
+      const tx = await secureResumeContract
+        .connect(signers.hr)
+        .evaluateSkillMatch(
+          signers.alice.address,
+          0, // skill index
+          encryptedRequiredLevel.handles[0],
+          encryptedRequiredLevel.inputProof
+        );
+      await expect(tx)
+        .to.emit(secureResumeContract, "SkillEvaluated")
+        .withArgs(signers.alice.address, signers.hr.address, 0, "JavaScript", anyValue);
+
+      // The latest result is stored, so HR reads the handle back without repeating the call
+      const matchHandle = await secureResumeContract.connect(signers.hr).getSkillMatch(signers.alice.address, 0);
+
+      const meetsRequirement = await fhevm.userDecryptEbool(
+        matchHandle,
+        secureResumeContractAddress,
+        signers.hr
+      );
+      expect(meetsRequirement).to.equal(expected);
+    }
+  });
+
+  it("should not let HR decrypt the raw skill level after evaluation", async function () {
+    const encryptedSkills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(7)
       .encrypt();
 
     await secureResumeContract
@@ -160,20 +218,90 @@ describe("SecureResume", function () {
         encryptedSkills.inputProof
       );
 
-    // Authorize HR
-    await secureResumeContract.connect(signers.alice).authorizeHR(signers.hr.address);
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+    await secureResumeContract.connect(signers.alice).grantEvaluationAccess(signers.hr.address, [], 0);
 
-    // HR gets the encrypted skill level
-    const skillLevelResult = await secureResumeContract
+    const encryptedRequiredLevel = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.hr.address)
+      .add32(5)
+      .encrypt();
+
+    const tx = await secureResumeContract
       .connect(signers.hr)
       .evaluateSkillMatch(
         signers.alice.address,
-        0 // skill index
+        0,
+        encryptedRequiredLevel.handles[0],
+        encryptedRequiredLevel.inputProof
       );
+    await tx.wait();
 
-    // This test is skipped due to FHE decryption issues
-    // In a real implementation, HR would decrypt the skill level client-side
-    expect(skillLevelResult).to.not.be.undefined;
+    const [skillLevelHandle] = await secureResumeContract.getSkillLevels(signers.alice.address);
+
+    // The owner can still decrypt the raw level
+    const clearLevel = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      skillLevelHandle,
+      secureResumeContractAddress,
+      signers.alice
+    );
+    expect(clearLevel).to.equal(7n);
+
+    // HR was only granted the comparison result
+    let hrDecryptionFailed = false;
+    try {
+      await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        skillLevelHandle,
+        secureResumeContractAddress,
+        signers.hr
+      );
+    } catch {
+      hrDecryptionFailed = true;
+    }
+    expect(hrDecryptionFailed).to.equal(true);
+  });
+
+  it("should not let HR recover a raw skill level from a single-skill score", async function () {
+    // Alice and Bob have different levels on the only skill HR scores
+    for (const [signer, level] of [
+      [signers.alice, 7],
+      [signers.bob, 9],
+    ] as const) {
+      const encryptedSkills = await fhevm
+        .createEncryptedInput(secureResumeContractAddress, signer.address)
+        .add32(level)
+        .encrypt();
+      await secureResumeContract
+        .connect(signer)
+        .submitResume("Candidate", "Education", "Experience", ["Go"], encryptedSkills.handles, encryptedSkills.inputProof);
+      await secureResumeContract.connect(signer).grantEvaluationAccess(signers.hr.address, [], 0);
+    }
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+
+    const hrContract = secureResumeContract.connect(signers.hr);
+    const decrypt = (handle: string) =>
+      fhevm.userDecryptEuint(FhevmType.euint32, handle, secureResumeContractAddress, signers.hr);
+
+    for (const candidate of [signers.alice.address, signers.bob.address]) {
+      const receipt = await (await hrContract.calculateSkillScore(candidate, [0], [5])).wait();
+      const [counted] = await secureResumeContract.queryFilter(
+        secureResumeContract.filters.SkillCountCalculated(candidate, signers.hr.address),
+        receipt!.blockNumber
+      );
+      const skillScore = counted.args.matchCount;
+
+      // Both levels 7 and 9 only show up as "meets level 5", never as the level itself
+      expect(await decrypt(skillScore)).to.equal(1n);
+
+      // A weighted score sums capped levels, so it cannot be limited to one skill
+      await expect(hrContract.calculateWeightedScore(candidate, [0], [1], [10]))
+        .to.be.revertedWithCustomError(secureResumeContract, "TooFewSkillsSelected")
+        .withArgs(1, 2);
+      await expect(hrContract.calculateWeightedScore(candidate, [0, 0], [1, 1], [10, 10]))
+        .to.be.revertedWithCustomError(secureResumeContract, "DuplicateSkillIndex")
+        .withArgs(0);
+    }
   });
 
   it.skip("should allow HR to calculate skill score", async function () {
@@ -198,13 +326,14 @@ describe("SecureResume", function () {
         encryptedSkills.inputProof
       );
 
-    // Authorize HR
-    await secureResumeContract.connect(signers.bob).authorizeHR(signers.hr.address);
+    // Authorize HR and share the resume with them
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+    await secureResumeContract.connect(signers.bob).grantEvaluationAccess(signers.hr.address, [], 0);
 
     // HR calculates total score for all skills
     const totalScore = await secureResumeContract
       .connect(signers.hr)
-      .calculateSkillScore(signers.bob.address, [0, 1, 2]);
+      .calculateSkillScore(signers.bob.address, [0, 1, 2], [5, 5, 5]);
 
     // This test is skipped due to FHE decryption issues
     // In a real implementation, HR would decrypt the total score client-side
@@ -229,15 +358,22 @@ describe("SecureResume", function () {
         encryptedSkills.inputProof
       );
 
+    const encryptedRequiredLevel = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.bob.address)
+      .add32(5)
+      .encrypt();
+
     // Try to evaluate without HR authorization
     await expect(
       secureResumeContract
         .connect(signers.bob)
         .evaluateSkillMatch(
           signers.alice.address,
-          0
+          0,
+          encryptedRequiredLevel.handles[0],
+          encryptedRequiredLevel.inputProof
         )
-    ).to.be.revertedWith("Not authorized HR");
+    ).to.be.revertedWithCustomError(secureResumeContract, "NotAuthorizedHR");
   });
 
   it("should reject resume operations with invalid data", async function () {
@@ -258,7 +394,7 @@ describe("SecureResume", function () {
           encryptedSkills.handles,
           encryptedSkills.inputProof
         )
-    ).to.be.revertedWith("Name cannot be empty");
+    ).to.be.revertedWithCustomError(secureResumeContract, "InvalidName");
 
     // Try to submit resume with mismatched array lengths
     await expect(
@@ -272,7 +408,7 @@ describe("SecureResume", function () {
           [encryptedSkills.handles[0]], // 1 encrypted value
           encryptedSkills.inputProof
         )
-    ).to.be.revertedWith("Skill arrays length mismatch");
+    ).to.be.revertedWithCustomError(secureResumeContract, "SkillArraysLengthMismatch");
   });
 
   it("should track total resume count correctly", async function () {
@@ -357,7 +493,7 @@ describe("SecureResume", function () {
           encryptedSkills.handles,
           encryptedSkills.inputProof
         )
-    ).to.be.revertedWith("Name must be 1-100 characters");
+    ).to.be.revertedWithCustomError(secureResumeContract, "InvalidName");
 
     // Test name too long
     const longName = "a".repeat(101);
@@ -372,6 +508,1187 @@ describe("SecureResume", function () {
           encryptedSkills.handles,
           encryptedSkills.inputProof
         )
-    ).to.be.revertedWith("Name must be 1-100 characters");
+    ).to.be.revertedWithCustomError(secureResumeContract, "InvalidName");
+  });
+
+  it("should apply the submission length limits to resume updates", async function () {
+    const encryptedSkills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(5)
+      .encrypt();
+    await secureResumeContract
+      .connect(signers.alice)
+      .submitResume("Alice", "Education", "Experience", ["Skill"], encryptedSkills.handles, encryptedSkills.inputProof);
+
+    const update = (name: string, education: string, workExperience: string) =>
+      secureResumeContract
+        .connect(signers.alice)
+        .updateResume(name, education, workExperience, ["Skill"], encryptedSkills.handles, encryptedSkills.inputProof);
+
+    await expect(update("a".repeat(101), "Education", "Experience")).to.be.revertedWithCustomError(
+      secureResumeContract,
+      "InvalidName",
+    );
+    await expect(update("Alice", "a".repeat(1001), "Experience")).to.be.revertedWithCustomError(
+      secureResumeContract,
+      "EducationTooLong",
+    );
+    await expect(update("Alice", "Education", "a".repeat(1001))).to.be.revertedWithCustomError(
+      secureResumeContract,
+      "WorkExperienceTooLong",
+    );
+
+    // The limits themselves are still accepted, and nothing was stored by the rejected updates
+    await update("a".repeat(100), "a".repeat(1000), "a".repeat(1000));
+    expect(await secureResumeContract.getResumeVersionCount(signers.alice.address)).to.equal(2);
+  });
+
+  it("should match a candidate against a job posting with encrypted requirements", async function () {
+    // Alice stores TypeScript 8, Docker 4, Solidity 6
+    const encryptedSkills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(8)
+      .add32(4)
+      .add32(6)
+      .encrypt();
+
+    await secureResumeContract
+      .connect(signers.alice)
+      .submitResume(
+        "Alice",
+        "Education",
+        "Experience",
+        ["TypeScript", "Docker", "Solidity"],
+        encryptedSkills.handles,
+        encryptedSkills.inputProof
+      );
+
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+
+    // HR requires TypeScript >= 7, Docker >= 5 and Rust >= 1 (Alice has no Rust)
+    const encryptedMinLevels = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.hr.address)
+      .add32(7)
+      .add32(5)
+      .add32(1)
+      .encrypt();
+
+    await expect(
+      secureResumeContract
+        .connect(signers.hr)
+        .createJobPosting(
+          "Backend Engineer",
+          ["TypeScript", "Docker", "Rust"],
+          encryptedMinLevels.handles,
+          encryptedMinLevels.inputProof
+        )
+    )
+      .to.emit(secureResumeContract, "JobPostingCreated")
+      .withArgs(0, signers.hr.address, 3);
+
+    expect(await secureResumeContract.getJobPostingCount()).to.equal(1);
+
+    await expect(secureResumeContract.connect(signers.alice).applyToJob(0))
+      .to.emit(secureResumeContract, "JobApplicationSubmitted")
+      .withArgs(0, signers.alice.address);
+
+    const [hr, title, requiredSkillNames, , active, applicantCount] = await secureResumeContract.getJobPosting(0);
+    expect(hr).to.equal(signers.hr.address);
+    expect(title).to.equal("Backend Engineer");
+    expect(requiredSkillNames).to.deep.equal(["TypeScript", "Docker", "Rust"]);
+    expect(active).to.equal(true);
+    expect(applicantCount).to.equal(1);
+    expect(await secureResumeContract.getJobApplicants(0)).to.deep.equal([signers.alice.address]);
+    expect(await secureResumeContract.hasAppliedToJob(0, signers.alice.address)).to.equal(true);
+
+    const [requirementMatches, overallMatch, matchCount] = await secureResumeContract.getJobApplication(
+      0,
+      signers.alice.address
+    );
+
+    const clearRequirementMatches = [];
+    for (const handle of requirementMatches) {
+      clearRequirementMatches.push(await fhevm.userDecryptEbool(handle, secureResumeContractAddress, signers.hr));
+    }
+    expect(clearRequirementMatches).to.deep.equal([true, false, false]);
+    expect(await fhevm.userDecryptEbool(overallMatch, secureResumeContractAddress, signers.hr)).to.equal(false);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, matchCount, secureResumeContractAddress, signers.hr)
+    ).to.equal(1n);
+
+    // The candidate can decrypt their own result too
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, matchCount, secureResumeContractAddress, signers.alice)
+    ).to.equal(1n);
+  });
+
+  it("should enforce job posting and application rules", async function () {
+    const encryptedMinLevels = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.hr.address)
+      .add32(5)
+      .encrypt();
+
+    // Only HR can publish postings
+    await expect(
+      secureResumeContract
+        .connect(signers.hr)
+        .createJobPosting("Engineer", ["Skill"], encryptedMinLevels.handles, encryptedMinLevels.inputProof)
+    ).to.be.revertedWithCustomError(secureResumeContract, "NotAuthorizedHR");
+
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+    await secureResumeContract
+      .connect(signers.hr)
+      .createJobPosting("Engineer", ["Skill"], encryptedMinLevels.handles, encryptedMinLevels.inputProof);
+
+    // Candidates need a resume to apply
+    await expect(secureResumeContract.connect(signers.alice).applyToJob(0)).to.be.revertedWithCustomError(
+      secureResumeContract,
+      "ResumeNotFound",
+    );
+    await expect(secureResumeContract.connect(signers.alice).applyToJob(1))
+      .to.be.revertedWithCustomError(secureResumeContract, "JobPostingNotFound")
+      .withArgs(1);
+
+    const encryptedSkills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(5)
+      .encrypt();
+    await secureResumeContract
+      .connect(signers.alice)
+      .submitResume("Alice", "Education", "Experience", ["Skill"], encryptedSkills.handles, encryptedSkills.inputProof);
+
+    await secureResumeContract.connect(signers.alice).applyToJob(0);
+    await expect(secureResumeContract.connect(signers.alice).applyToJob(0)).to.be.revertedWithCustomError(
+      secureResumeContract,
+      "AlreadyApplied",
+    );
+
+    // Only the posting owner can close it, and closed postings reject new applicants
+    await expect(secureResumeContract.connect(signers.bob).closeJobPosting(0)).to.be.revertedWithCustomError(
+      secureResumeContract,
+      "NotPostingOwner",
+    );
+    await expect(secureResumeContract.connect(signers.hr).closeJobPosting(0))
+      .to.emit(secureResumeContract, "JobPostingClosed")
+      .withArgs(0, signers.hr.address);
+
+    const bobSkills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.bob.address)
+      .add32(9)
+      .encrypt();
+    await secureResumeContract
+      .connect(signers.bob)
+      .submitResume("Bob", "Education", "Experience", ["Skill"], bobSkills.handles, bobSkills.inputProof);
+    await expect(secureResumeContract.connect(signers.bob).applyToJob(0)).to.be.revertedWithCustomError(
+      secureResumeContract,
+      "JobPostingNotActive",
+    );
+  });
+
+  it("should only let HR evaluate candidates who granted them access", async function () {
+    const encryptedSkills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(7)
+      .add32(3)
+      .encrypt();
+
+    await secureResumeContract
+      .connect(signers.alice)
+      .submitResume(
+        "Alice",
+        "Education",
+        "Experience",
+        ["JavaScript", "Docker"],
+        encryptedSkills.handles,
+        encryptedSkills.inputProof
+      );
+
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+
+    const encryptedRequiredLevel = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.hr.address)
+      .add32(5)
+      .encrypt();
+    const evaluate = (skillIndex: number) =>
+      secureResumeContract
+        .connect(signers.hr)
+        .evaluateSkillMatch(
+          signers.alice.address,
+          skillIndex,
+          encryptedRequiredLevel.handles[0],
+          encryptedRequiredLevel.inputProof
+        );
+
+    // An authorized HR without a grant is rejected
+    await expect(evaluate(0)).to.be.revertedWithCustomError(secureResumeContract, "NoEvaluationAccess");
+    await expect(
+      secureResumeContract.connect(signers.hr).calculateSkillScore(signers.alice.address, [0, 1], [5, 5])
+    ).to.be.revertedWithCustomError(secureResumeContract, "NoEvaluationAccess");
+
+    // Alice only shares JavaScript
+    await expect(secureResumeContract.connect(signers.alice).grantEvaluationAccess(signers.hr.address, [0], 0))
+      .to.emit(secureResumeContract, "EvaluationAccessGranted")
+      .withArgs(signers.alice.address, signers.hr.address, 0, [0]);
+
+    expect(await secureResumeContract.canEvaluate(signers.alice.address, signers.hr.address, 0)).to.equal(true);
+    expect(await secureResumeContract.canEvaluate(signers.alice.address, signers.hr.address, 1)).to.equal(false);
+    expect(await secureResumeContract.getEvaluationGrantees(signers.alice.address)).to.deep.equal([
+      signers.hr.address,
+    ]);
+
+    await evaluate(0);
+    await expect(evaluate(1)).to.be.revertedWithCustomError(secureResumeContract, "NoEvaluationAccess");
+    await expect(
+      secureResumeContract.connect(signers.hr).calculateSkillScore(signers.alice.address, [0, 1], [5, 5])
+    ).to.be.revertedWithCustomError(secureResumeContract, "NoEvaluationAccess");
+
+    // Revoking removes access again
+    await expect(secureResumeContract.connect(signers.alice).revokeEvaluationAccess(signers.hr.address))
+      .to.emit(secureResumeContract, "EvaluationAccessRevoked")
+      .withArgs(signers.alice.address, signers.hr.address);
+    await expect(evaluate(0)).to.be.revertedWithCustomError(secureResumeContract, "NoEvaluationAccess");
+    await expect(
+      secureResumeContract.connect(signers.alice).revokeEvaluationAccess(signers.hr.address)
+    ).to.be.revertedWithCustomError(secureResumeContract, "NoEvaluationAccess");
+
+    // The grantee list keeps revoked entries without duplicating re-grants
+    await secureResumeContract.connect(signers.alice).grantEvaluationAccess(signers.hr.address, [], 0);
+    expect(await secureResumeContract.getEvaluationGrantees(signers.alice.address)).to.deep.equal([
+      signers.hr.address,
+    ]);
+    await evaluate(1);
+  });
+
+  it("should expire evaluation grants", async function () {
+    const encryptedSkills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(7)
+      .encrypt();
+
+    await secureResumeContract
+      .connect(signers.alice)
+      .submitResume("Alice", "Education", "Experience", ["JavaScript"], encryptedSkills.handles, encryptedSkills.inputProof);
+
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+
+    const now = await time.latest();
+    await expect(
+      secureResumeContract.connect(signers.alice).grantEvaluationAccess(signers.hr.address, [], now)
+    ).to.be.revertedWithCustomError(secureResumeContract, "ExpiryNotInFuture");
+    await expect(
+      secureResumeContract.connect(signers.alice).grantEvaluationAccess(signers.hr.address, [1], 0)
+    ).to.be.revertedWithCustomError(secureResumeContract, "InvalidSkillIndex");
+
+    await secureResumeContract.connect(signers.alice).grantEvaluationAccess(signers.hr.address, [], now + 3600);
+    expect(await secureResumeContract.canEvaluate(signers.alice.address, signers.hr.address, 0)).to.equal(true);
+
+    await time.increaseTo(now + 3600);
+    expect(await secureResumeContract.canEvaluate(signers.alice.address, signers.hr.address, 0)).to.equal(false);
+
+    const [active, expiresAt, allSkills] = await secureResumeContract.getEvaluationGrant(
+      signers.alice.address,
+      signers.hr.address
+    );
+    expect(active).to.equal(true);
+    expect(expiresAt).to.equal(now + 3600);
+    expect(allSkills).to.equal(true);
+  });
+
+  it("should restrict HR management to the owner and organization admins", async function () {
+    expect(await secureResumeContract.owner()).to.equal(signers.deployer.address);
+
+    await expect(
+      secureResumeContract.connect(signers.alice).authorizeHR(signers.hr.address)
+    ).to.be.revertedWithCustomError(secureResumeContract, "NotAdmin");
+
+    // The owner appoints bob as an organization admin, who manages his own recruiters
+    await expect(secureResumeContract.connect(signers.deployer).addOrgAdmin(signers.bob.address))
+      .to.emit(secureResumeContract, "OrgAdminAdded")
+      .withArgs(signers.bob.address, signers.deployer.address);
+    await expect(secureResumeContract.connect(signers.bob).authorizeHR(signers.hr.address))
+      .to.emit(secureResumeContract, "HRAuthorized")
+      .withArgs(signers.hr.address, signers.bob.address);
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.alice.address);
+
+    expect(await secureResumeContract.hrAdminOf(signers.hr.address)).to.equal(signers.bob.address);
+    expect(await secureResumeContract.getHRAddresses()).to.deep.equal([signers.hr.address, signers.alice.address]);
+
+    // An organization admin cannot revoke recruiters authorized by someone else
+    await expect(
+      secureResumeContract.connect(signers.bob).revokeHR(signers.alice.address)
+    ).to.be.revertedWithCustomError(secureResumeContract, "NotHRAdmin");
+    await expect(secureResumeContract.connect(signers.bob).revokeHR(signers.hr.address))
+      .to.emit(secureResumeContract, "HRRevoked")
+      .withArgs(signers.hr.address, signers.bob.address);
+    expect(await secureResumeContract.hrAddresses(signers.hr.address)).to.equal(false);
+    expect(await secureResumeContract.getHRAddresses()).to.deep.equal([signers.alice.address]);
+
+    // The owner can revoke any recruiter
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+    await secureResumeContract.connect(signers.deployer).revokeHR(signers.hr.address);
+
+    await expect(secureResumeContract.connect(signers.deployer).removeOrgAdmin(signers.bob.address))
+      .to.emit(secureResumeContract, "OrgAdminRemoved")
+      .withArgs(signers.bob.address, signers.deployer.address);
+    await expect(
+      secureResumeContract.connect(signers.bob).authorizeHR(signers.hr.address)
+    ).to.be.revertedWithCustomError(secureResumeContract, "NotAdmin");
+  });
+
+  it("should transfer ownership", async function () {
+    await expect(
+      secureResumeContract.connect(signers.alice).transferOwnership(signers.alice.address)
+    ).to.be.revertedWithCustomError(secureResumeContract, "NotOwner");
+
+    await expect(secureResumeContract.connect(signers.deployer).transferOwnership(signers.alice.address))
+      .to.emit(secureResumeContract, "OwnershipTransferred")
+      .withArgs(signers.deployer.address, signers.alice.address);
+    expect(await secureResumeContract.owner()).to.equal(signers.alice.address);
+
+    await expect(
+      secureResumeContract.connect(signers.deployer).addOrgAdmin(signers.bob.address)
+    ).to.be.revertedWithCustomError(secureResumeContract, "NotOwner");
+    await secureResumeContract.connect(signers.alice).addOrgAdmin(signers.bob.address);
+    expect(await secureResumeContract.orgAdmins(signers.bob.address)).to.equal(true);
+  });
+
+  it("should let HR request access from an admin", async function () {
+    await expect(
+      secureResumeContract.connect(signers.hr).requestHRAccess(signers.bob.address)
+    ).to.be.revertedWithCustomError(secureResumeContract, "AdminNotFound");
+
+    await secureResumeContract.connect(signers.deployer).addOrgAdmin(signers.bob.address);
+    await expect(secureResumeContract.connect(signers.hr).requestHRAccess(signers.bob.address))
+      .to.emit(secureResumeContract, "HRAccessRequested")
+      .withArgs(signers.hr.address, signers.bob.address);
+    await expect(
+      secureResumeContract.connect(signers.hr).requestHRAccess(signers.bob.address)
+    ).to.be.revertedWithCustomError(secureResumeContract, "RequestAlreadyPending");
+
+    await secureResumeContract.connect(signers.alice).requestHRAccess(signers.bob.address);
+    expect(await secureResumeContract.getPendingHRRequests(signers.bob.address)).to.deep.equal([
+      signers.hr.address,
+      signers.alice.address
+    ]);
+
+    await expect(secureResumeContract.connect(signers.bob).rejectHRRequest(signers.alice.address))
+      .to.emit(secureResumeContract, "HRAccessRequestRejected")
+      .withArgs(signers.alice.address, signers.bob.address);
+
+    // Approving a request authorizes the HR and clears it
+    await secureResumeContract.connect(signers.bob).authorizeHR(signers.hr.address);
+    expect(await secureResumeContract.hrAddresses(signers.hr.address)).to.equal(true);
+    expect(await secureResumeContract.hrAccessRequests(signers.hr.address)).to.equal(ethers.ZeroAddress);
+    expect(await secureResumeContract.getPendingHRRequests(signers.bob.address)).to.deep.equal([]);
+  });
+
+  it("should list a request once when HR asks again after a rejection", async function () {
+    await secureResumeContract.connect(signers.deployer).addOrgAdmin(signers.bob.address);
+    const bobContract = secureResumeContract.connect(signers.bob);
+
+    await secureResumeContract.connect(signers.hr).requestHRAccess(signers.bob.address);
+    await secureResumeContract.connect(signers.alice).requestHRAccess(signers.bob.address);
+    for (let i = 0; i < 3; i++) {
+      await bobContract.rejectHRRequest(signers.hr.address);
+      await secureResumeContract.connect(signers.hr).requestHRAccess(signers.bob.address);
+    }
+    expect(await bobContract.getPendingHRRequests(signers.bob.address)).to.deep.equal([
+      signers.alice.address,
+      signers.hr.address,
+    ]);
+
+    // Asking another admin after a rejection moves the request
+    await bobContract.rejectHRRequest(signers.alice.address);
+    await secureResumeContract.connect(signers.alice).requestHRAccess(signers.deployer.address);
+    expect(await bobContract.getPendingHRRequests(signers.bob.address)).to.deep.equal([signers.hr.address]);
+    expect(await bobContract.getPendingHRRequests(signers.deployer.address)).to.deep.equal([signers.alice.address]);
+
+    await bobContract.authorizeHR(signers.hr.address);
+    expect(await bobContract.getPendingHRRequests(signers.bob.address)).to.deep.equal([]);
+  });
+
+  it("should store more than five skills up to the configured maximum", async function () {
+    expect(await secureResumeContract.maxSkills()).to.equal(MAX_SKILLS);
+
+    const skillNames = Array.from({ length: MAX_SKILLS + 1 }, (_, i) => `Skill${i}`);
+    const input = fhevm.createEncryptedInput(secureResumeContractAddress, signers.alice.address);
+    skillNames.forEach((_, i) => input.add32(i + 1));
+    const encryptedSkills = await input.encrypt();
+
+    await expect(
+      secureResumeContract
+        .connect(signers.alice)
+        .submitResume("Alice", "Education", "Experience", skillNames, encryptedSkills.handles, encryptedSkills.inputProof)
+    )
+      .to.be.revertedWithCustomError(secureResumeContract, "SkillCountOutOfRange")
+      .withArgs(MAX_SKILLS + 1, MAX_SKILLS);
+
+    await secureResumeContract
+      .connect(signers.alice)
+      .submitResume(
+        "Alice",
+        "Education",
+        "Experience",
+        skillNames.slice(0, MAX_SKILLS),
+        encryptedSkills.handles.slice(0, MAX_SKILLS),
+        encryptedSkills.inputProof
+      );
+
+    const [, , , storedNames] = await secureResumeContract.getResumeInfo(signers.alice.address);
+    expect(storedNames).to.deep.equal(skillNames.slice(0, MAX_SKILLS));
+
+    const skillLevels = await secureResumeContract.getSkillLevels(signers.alice.address);
+    const lastLevel = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      skillLevels[MAX_SKILLS - 1],
+      secureResumeContractAddress,
+      signers.alice
+    );
+    expect(lastLevel).to.equal(MAX_SKILLS);
+
+    const extraSkill = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(3)
+      .encrypt();
+    await expect(
+      secureResumeContract.connect(signers.alice).addSkill("Extra", extraSkill.handles[0], extraSkill.inputProof)
+    )
+      .to.be.revertedWithCustomError(secureResumeContract, "SkillCountOutOfRange")
+      .withArgs(MAX_SKILLS + 1, MAX_SKILLS);
+  });
+
+  it("should add, remove and reorder skills while keeping grants on the same skills", async function () {
+    const encryptedSkills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(3)
+      .add32(6)
+      .add32(9)
+      .encrypt();
+
+    await secureResumeContract
+      .connect(signers.alice)
+      .submitResume(
+        "Alice",
+        "Education",
+        "Experience",
+        ["Go", "Rust", "SQL"],
+        encryptedSkills.handles,
+        encryptedSkills.inputProof
+      );
+
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+    // HR may only evaluate SQL
+    await secureResumeContract.connect(signers.alice).grantEvaluationAccess(signers.hr.address, [2], 0);
+
+    const newSkill = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(7)
+      .encrypt();
+    await expect(
+      secureResumeContract.connect(signers.alice).addSkill("Docker", newSkill.handles[0], newSkill.inputProof)
+    )
+      .to.emit(secureResumeContract, "SkillAdded")
+      .withArgs(signers.alice.address, 3);
+
+    // Removing Go shifts SQL to index 1
+    await expect(secureResumeContract.connect(signers.alice).removeSkill(0))
+      .to.emit(secureResumeContract, "SkillRemoved")
+      .withArgs(signers.alice.address, 0);
+    let [, , , skillNames] = await secureResumeContract.getResumeInfo(signers.alice.address);
+    expect(skillNames).to.deep.equal(["Rust", "SQL", "Docker"]);
+    expect(await secureResumeContract.canEvaluate(signers.alice.address, signers.hr.address, 1)).to.equal(true);
+    expect(await secureResumeContract.canEvaluate(signers.alice.address, signers.hr.address, 2)).to.equal(false);
+
+    await expect(secureResumeContract.connect(signers.alice).reorderSkills([1, 1, 0])).to.be.revertedWithCustomError(
+      secureResumeContract,
+      "InvalidSkillOrder",
+    );
+    await expect(secureResumeContract.connect(signers.alice).reorderSkills([2, 0, 1])).to.emit(
+      secureResumeContract,
+      "SkillsReordered"
+    );
+    [, , , skillNames] = await secureResumeContract.getResumeInfo(signers.alice.address);
+    expect(skillNames).to.deep.equal(["Docker", "Rust", "SQL"]);
+    expect(await secureResumeContract.canEvaluate(signers.alice.address, signers.hr.address, 2)).to.equal(true);
+    expect(await secureResumeContract.canEvaluate(signers.alice.address, signers.hr.address, 1)).to.equal(false);
+
+    // Encrypted levels moved together with their names
+    const skillLevels = await secureResumeContract.getSkillLevels(signers.alice.address);
+    const decryptedLevels = [];
+    for (const handle of skillLevels) {
+      decryptedLevels.push(
+        await fhevm.userDecryptEuint(FhevmType.euint32, handle, secureResumeContractAddress, signers.alice)
+      );
+    }
+    expect(decryptedLevels).to.deep.equal([7n, 6n, 9n]);
+
+    await secureResumeContract.connect(signers.alice).removeSkill(2);
+    await secureResumeContract.connect(signers.alice).removeSkill(1);
+    await expect(secureResumeContract.connect(signers.alice).removeSkill(0)).to.be.revertedWithCustomError(
+      secureResumeContract,
+      "LastSkillCannotBeRemoved",
+    );
+  });
+
+  it("should keep grants on the approved skills when the resume is updated", async function () {
+    const encryptedSkills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(3)
+      .add32(6)
+      .add32(9)
+      .encrypt();
+
+    await secureResumeContract
+      .connect(signers.alice)
+      .submitResume(
+        "Alice",
+        "Education",
+        "Experience",
+        ["Go", "Rust", "SQL"],
+        encryptedSkills.handles,
+        encryptedSkills.inputProof
+      );
+
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+    // HR may only evaluate SQL
+    await secureResumeContract.connect(signers.alice).grantEvaluationAccess(signers.hr.address, [2], 0);
+
+    // SQL moves to index 0, the new skill Docker takes index 2
+    const updatedSkills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(9)
+      .add32(6)
+      .add32(7)
+      .encrypt();
+    await secureResumeContract
+      .connect(signers.alice)
+      .updateResume(
+        "Alice",
+        "Education",
+        "Experience",
+        ["SQL", "Rust", "Docker"],
+        updatedSkills.handles,
+        updatedSkills.inputProof
+      );
+
+    let [active, , allSkills, skillMask] = await secureResumeContract.getEvaluationGrant(
+      signers.alice.address,
+      signers.hr.address
+    );
+    expect(active).to.equal(true);
+    expect(allSkills).to.equal(false);
+    expect(skillMask).to.equal(1n);
+    expect(await secureResumeContract.canEvaluate(signers.alice.address, signers.hr.address, 0)).to.equal(true);
+    expect(await secureResumeContract.canEvaluate(signers.alice.address, signers.hr.address, 2)).to.equal(false);
+
+    const requiredLevel = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.hr.address)
+      .add32(5)
+      .encrypt();
+    await expect(
+      secureResumeContract
+        .connect(signers.hr)
+        .evaluateSkillMatch(signers.alice.address, 2, requiredLevel.handles[0], requiredLevel.inputProof)
+    )
+      .to.be.revertedWithCustomError(secureResumeContract, "NoEvaluationAccess")
+      .withArgs(signers.alice.address, signers.hr.address);
+
+    // Dropping SQL leaves the grant without any skill, even though Rust now sits at index 0
+    const withoutSql = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(6)
+      .add32(7)
+      .encrypt();
+    await secureResumeContract
+      .connect(signers.alice)
+      .updateResume("Alice", "Education", "Experience", ["Rust", "Docker"], withoutSql.handles, withoutSql.inputProof);
+
+    [active, , allSkills, skillMask] = await secureResumeContract.getEvaluationGrant(
+      signers.alice.address,
+      signers.hr.address
+    );
+    expect(skillMask).to.equal(0n);
+    expect(await secureResumeContract.canEvaluate(signers.alice.address, signers.hr.address, 0)).to.equal(false);
+    expect(await secureResumeContract.canEvaluate(signers.alice.address, signers.hr.address, 1)).to.equal(false);
+  });
+
+  it("should calculate a weighted, capped and normalized skill score", async function () {
+    const encryptedSkills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(8)
+      .add32(4)
+      .add32(10)
+      .encrypt();
+
+    await secureResumeContract
+      .connect(signers.alice)
+      .submitResume(
+        "Alice",
+        "Education",
+        "Experience",
+        ["TypeScript", "Docker", "Go"],
+        encryptedSkills.handles,
+        encryptedSkills.inputProof
+      );
+
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+    await secureResumeContract.connect(signers.alice).grantEvaluationAccess(signers.hr.address, [], 0);
+
+    await expect(
+      secureResumeContract.connect(signers.hr).calculateWeightedScore(signers.alice.address, [0, 1], [3], [10, 10])
+    ).to.be.revertedWithCustomError(secureResumeContract, "ScoreArraysLengthMismatch");
+    await expect(
+      secureResumeContract.connect(signers.hr).calculateWeightedScore(signers.alice.address, [0, 1], [1, 0], [10, 10])
+    ).to.be.revertedWithCustomError(secureResumeContract, "InvalidWeights");
+    await expect(
+      secureResumeContract.connect(signers.hr).calculateWeightedScore(signers.alice.address, [0, 1], [1, 1], [10, 0])
+    ).to.be.revertedWithCustomError(secureResumeContract, "InvalidCap");
+
+    // TypeScript x3 capped at 7, Docker x1 capped at 5, Go x2 capped at 10:
+    // 7*3 + 4*1 + 10*2 = 45 out of 7*3 + 5*1 + 10*2 = 46, i.e. 97%
+    const args: [string, number[], number[], number[]] = [signers.alice.address, [0, 1, 2], [3, 1, 2], [7, 5, 10]];
+    await expect(secureResumeContract.connect(signers.hr).calculateWeightedScore(...args))
+      .to.emit(secureResumeContract, "SkillScoreCalculated")
+      .withArgs(signers.alice.address, signers.hr.address, [0, 1, 2], ["TypeScript", "Docker", "Go"], anyValue, anyValue);
+
+    const [weightedHandle, normalizedHandle] = await secureResumeContract
+      .connect(signers.hr)
+      .getWeightedScore(...args);
+
+    const weightedScore = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      weightedHandle,
+      secureResumeContractAddress,
+      signers.hr
+    );
+    const normalizedScore = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      normalizedHandle,
+      secureResumeContractAddress,
+      signers.hr
+    );
+    expect(weightedScore).to.equal(45);
+    expect(normalizedScore).to.equal(97);
+  });
+
+  it("should name the evaluated skills in evaluation events as they were at the time", async function () {
+    const encryptedSkills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(8)
+      .add32(4)
+      .add32(10)
+      .encrypt();
+
+    await secureResumeContract
+      .connect(signers.alice)
+      .submitResume(
+        "Alice",
+        "Education",
+        "Experience",
+        ["TypeScript", "Docker", "Go"],
+        encryptedSkills.handles,
+        encryptedSkills.inputProof
+      );
+
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+    await secureResumeContract.connect(signers.alice).grantEvaluationAccess(signers.hr.address, [], 0);
+
+    const hrContract = secureResumeContract.connect(signers.hr);
+    await expect(hrContract.calculateSkillScore(signers.alice.address, [2, 0], [5, 5]))
+      .to.emit(secureResumeContract, "SkillCountCalculated")
+      .withArgs(signers.alice.address, signers.hr.address, [2, 0], ["Go", "TypeScript"], [5, 5], anyValue);
+
+    // Removing TypeScript shifts every index, the earlier event still names the skills HR evaluated
+    await secureResumeContract.connect(signers.alice).removeSkill(0);
+    const requiredLevel = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.hr.address)
+      .add32(5)
+      .encrypt();
+    await expect(
+      hrContract.evaluateSkillMatch(signers.alice.address, 0, requiredLevel.handles[0], requiredLevel.inputProof)
+    )
+      .to.emit(secureResumeContract, "SkillEvaluated")
+      .withArgs(signers.alice.address, signers.hr.address, 0, "Docker", anyValue);
+
+    const [counted] = await secureResumeContract.queryFilter(
+      secureResumeContract.filters.SkillCountCalculated(signers.alice.address)
+    );
+    expect(counted.args.skillNames).to.deep.equal(["Go", "TypeScript"]);
+  });
+
+  it("should delete a resume and block HR evaluation afterwards", async function () {
+    const encryptedSkills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(7)
+      .encrypt();
+
+    await secureResumeContract
+      .connect(signers.alice)
+      .submitResume("Alice", "Education", "Experience", ["JavaScript"], encryptedSkills.handles, encryptedSkills.inputProof);
+
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+    await secureResumeContract.connect(signers.alice).grantEvaluationAccess(signers.hr.address, [], 0);
+    expect(await secureResumeContract.getStats()).to.equal(1);
+
+    await expect(secureResumeContract.connect(signers.alice).deleteResume())
+      .to.emit(secureResumeContract, "ResumeDeleted")
+      .and.to.emit(secureResumeContract, "EvaluationAccessRevoked")
+      .withArgs(signers.alice.address, signers.hr.address);
+
+    expect(await secureResumeContract.hasResume(signers.alice.address)).to.equal(false);
+    expect(await secureResumeContract.getStats()).to.equal(0);
+    await expect(secureResumeContract.getResumeInfo(signers.alice.address)).to.be.revertedWithCustomError(
+      secureResumeContract,
+      "ResumeNotFound",
+    );
+    await expect(secureResumeContract.getSkillLevels(signers.alice.address)).to.be.revertedWithCustomError(
+      secureResumeContract,
+      "ResumeNotFound",
+    );
+
+    const encryptedRequiredLevel = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.hr.address)
+      .add32(5)
+      .encrypt();
+    await expect(
+      secureResumeContract
+        .connect(signers.hr)
+        .evaluateSkillMatch(
+          signers.alice.address,
+          0,
+          encryptedRequiredLevel.handles[0],
+          encryptedRequiredLevel.inputProof
+        )
+    ).to.be.revertedWithCustomError(secureResumeContract, "ResumeNotFound");
+
+    await expect(secureResumeContract.connect(signers.alice).deleteResume())
+      .to.be.revertedWithCustomError(secureResumeContract, "ResumeNotFound")
+      .withArgs(signers.alice.address);
+
+    // Resubmitting starts from a clean slate without the old grants
+    const newSkills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(4)
+      .encrypt();
+    await secureResumeContract
+      .connect(signers.alice)
+      .submitResume("Alice", "Education", "Experience", ["Go"], newSkills.handles, newSkills.inputProof);
+    expect(await secureResumeContract.getStats()).to.equal(1);
+    expect(await secureResumeContract.canEvaluate(signers.alice.address, signers.hr.address, 0)).to.equal(false);
+  });
+
+  it("should expose evaluation handles in events and reuse them until the skills change", async function () {
+    const encryptedSkills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(8)
+      .add32(4)
+      .encrypt();
+
+    await secureResumeContract
+      .connect(signers.alice)
+      .submitResume(
+        "Alice",
+        "Education",
+        "Experience",
+        ["TypeScript", "Docker"],
+        encryptedSkills.handles,
+        encryptedSkills.inputProof
+      );
+
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+    await secureResumeContract.connect(signers.alice).grantEvaluationAccess(signers.hr.address, [], 0);
+
+    const hrContract = secureResumeContract.connect(signers.hr);
+    expect(await hrContract.getSkillMatch(signers.alice.address, 0)).to.equal(ethers.ZeroHash);
+
+    const encryptedRequiredLevel = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.hr.address)
+      .add32(6)
+      .encrypt();
+    const receipt = await (
+      await hrContract.evaluateSkillMatch(
+        signers.alice.address,
+        0,
+        encryptedRequiredLevel.handles[0],
+        encryptedRequiredLevel.inputProof
+      )
+    ).wait();
+
+    // The handle in the receipt is the one the getter returns
+    const [evaluated] = await secureResumeContract.queryFilter(
+      secureResumeContract.filters.SkillEvaluated(signers.alice.address, signers.hr.address),
+      receipt!.blockNumber
+    );
+    const matchHandle = evaluated.args.result;
+    expect(await hrContract.getSkillMatch(signers.alice.address, 0)).to.equal(matchHandle);
+    expect(await fhevm.userDecryptEbool(matchHandle, secureResumeContractAddress, signers.hr)).to.equal(true);
+
+    // Other recruiters never see it
+    expect(await secureResumeContract.connect(signers.bob).getSkillMatch(signers.alice.address, 0)).to.equal(
+      ethers.ZeroHash
+    );
+
+    // Reordering keeps the result with the same skill
+    await secureResumeContract.connect(signers.alice).reorderSkills([1, 0]);
+    expect(await hrContract.getSkillMatch(signers.alice.address, 1)).to.equal(matchHandle);
+    expect(await hrContract.getSkillMatch(signers.alice.address, 0)).to.equal(ethers.ZeroHash);
+
+    const scoreArgs: [string, number[], number[], number[]] = [signers.alice.address, [0, 1], [1, 1], [5, 5]];
+    await hrContract.calculateWeightedScore(...scoreArgs);
+    const [weightedHandle] = await hrContract.getWeightedScore(...scoreArgs);
+    expect(weightedHandle).to.not.equal(ethers.ZeroHash);
+    const weightedScore = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      weightedHandle,
+      secureResumeContractAddress,
+      signers.hr
+    );
+    // Docker 4 and TypeScript 8 capped at 5
+    expect(weightedScore).to.equal(9);
+    // Different weights are a different score
+    expect((await hrContract.getWeightedScore(signers.alice.address, [0, 1], [2, 1], [5, 5]))[0]).to.equal(
+      ethers.ZeroHash
+    );
+
+    // New skill levels invalidate every stored result
+    const newSkills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(4)
+      .add32(8)
+      .encrypt();
+    await secureResumeContract
+      .connect(signers.alice)
+      .updateResume(
+        "Alice",
+        "Education",
+        "Experience",
+        ["Docker", "TypeScript"],
+        newSkills.handles,
+        newSkills.inputProof
+      );
+    expect(await hrContract.getSkillMatch(signers.alice.address, 1)).to.equal(ethers.ZeroHash);
+    expect((await hrContract.getWeightedScore(...scoreArgs))[0]).to.equal(ethers.ZeroHash);
+  });
+
+  it("should evaluate several candidates against the same requirements in one batch", async function () {
+    // Alice has both skills, Bob only shares TypeScript, the deployer is missing Docker
+    const candidates = [
+      { signer: signers.alice, skillNames: ["TypeScript", "Docker"], levels: [8, 6], grant: [] },
+      { signer: signers.bob, skillNames: ["Docker", "TypeScript"], levels: [6, 9], grant: [1] },
+      { signer: signers.deployer, skillNames: ["TypeScript"], levels: [5], grant: [] },
+    ];
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+    for (const { signer, skillNames, levels, grant } of candidates) {
+      const input = fhevm.createEncryptedInput(secureResumeContractAddress, signer.address);
+      levels.forEach((level) => input.add32(level));
+      const encrypted = await input.encrypt();
+      await secureResumeContract
+        .connect(signer)
+        .submitResume("Candidate", "Education", "Experience", skillNames, encrypted.handles, encrypted.inputProof);
+      await secureResumeContract.connect(signer).grantEvaluationAccess(signers.hr.address, grant, 0);
+    }
+    const addresses = candidates.map(({ signer }) => signer.address);
+
+    // TypeScript >= 7 and Docker >= 5
+    const encryptedMinLevels = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.hr.address)
+      .add32(7)
+      .add32(5)
+      .encrypt();
+    const hrContract = secureResumeContract.connect(signers.hr);
+    const tx = hrContract.batchEvaluate(
+      addresses,
+      ["TypeScript", "Docker"],
+      encryptedMinLevels.handles,
+      encryptedMinLevels.inputProof
+    );
+    await expect(tx)
+      .to.emit(secureResumeContract, "BatchEvaluated")
+      .withArgs(signers.hr.address, addresses, anyValue, anyValue);
+
+    const [evaluated] = await secureResumeContract.queryFilter(
+      secureResumeContract.filters.BatchEvaluated(signers.hr.address),
+      (await (await tx).wait())!.blockNumber
+    );
+    const { overallMatches, matchCounts } = evaluated.args;
+
+    const clearMatches = [];
+    const clearCounts = [];
+    for (let i = 0; i < addresses.length; i++) {
+      clearMatches.push(await fhevm.userDecryptEbool(overallMatches[i], secureResumeContractAddress, signers.hr));
+      clearCounts.push(
+        await fhevm.userDecryptEuint(FhevmType.euint32, matchCounts[i], secureResumeContractAddress, signers.hr)
+      );
+    }
+    // Bob's Docker skill is not covered by his grant, so it counts as not met
+    expect(clearMatches).to.deep.equal([true, false, false]);
+    expect(clearCounts).to.deep.equal([2n, 1n, 0n]);
+
+    await expect(
+      secureResumeContract
+        .connect(signers.bob)
+        .batchEvaluate(addresses, ["TypeScript"], [encryptedMinLevels.handles[0]], encryptedMinLevels.inputProof)
+    ).to.be.revertedWithCustomError(secureResumeContract, "NotAuthorizedHR");
+    await expect(
+      hrContract.batchEvaluate([], ["TypeScript"], [encryptedMinLevels.handles[0]], encryptedMinLevels.inputProof)
+    ).to.be.revertedWithCustomError(secureResumeContract, "CandidateCountOutOfRange");
+    await expect(
+      hrContract.batchEvaluate(
+        Array(21).fill(signers.alice.address),
+        ["TypeScript"],
+        [encryptedMinLevels.handles[0]],
+        encryptedMinLevels.inputProof
+      )
+    ).to.be.revertedWithCustomError(secureResumeContract, "CandidateCountOutOfRange");
+  });
+
+  it("should count a deleted candidate as not matching in a batch", async function () {
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+    for (const signer of [signers.alice, signers.bob]) {
+      const encrypted = await fhevm
+        .createEncryptedInput(secureResumeContractAddress, signer.address)
+        .add32(8)
+        .encrypt();
+      await secureResumeContract
+        .connect(signer)
+        .submitResume("Candidate", "Education", "Experience", ["TypeScript"], encrypted.handles, encrypted.inputProof);
+      await secureResumeContract.connect(signer).grantEvaluationAccess(signers.hr.address, [], 0);
+    }
+    // Bob deletes his resume after HR shortlisted him
+    await secureResumeContract.connect(signers.bob).deleteResume();
+
+    const encryptedMinLevels = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.hr.address)
+      .add32(7)
+      .encrypt();
+    const addresses = [signers.alice.address, signers.bob.address];
+    const tx = secureResumeContract
+      .connect(signers.hr)
+      .batchEvaluate(addresses, ["TypeScript"], encryptedMinLevels.handles, encryptedMinLevels.inputProof);
+    await expect(tx)
+      .to.emit(secureResumeContract, "CandidateBatchEvaluated")
+      .withArgs(signers.bob.address, signers.hr.address, ["TypeScript"], anyValue, anyValue);
+    const blockNumber = (await (await tx).wait())!.blockNumber;
+
+    // Each candidate's results can be found by candidate address
+    for (const [candidate, expected] of [
+      [signers.alice.address, true],
+      [signers.bob.address, false],
+    ] as const) {
+      const [evaluated] = await secureResumeContract.queryFilter(
+        secureResumeContract.filters.CandidateBatchEvaluated(candidate, signers.hr.address),
+        blockNumber
+      );
+      const { overallMatch, matchCount } = evaluated.args;
+      expect(await fhevm.userDecryptEbool(overallMatch, secureResumeContractAddress, signers.hr)).to.equal(expected);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, matchCount, secureResumeContractAddress, signers.hr)
+      ).to.equal(expected ? 1n : 0n);
+    }
+  });
+
+  it("should keep a version of the resume after every change", async function () {
+    const original = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(5)
+      .encrypt();
+    await secureResumeContract
+      .connect(signers.alice)
+      .submitResume("Alice", "BSc", "Junior developer", ["TypeScript"], original.handles, original.inputProof);
+
+    const updated = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(9)
+      .add32(3)
+      .encrypt();
+    await secureResumeContract
+      .connect(signers.alice)
+      .updateResume("Alice", "MSc", "Senior developer", ["TypeScript", "Go"], updated.handles, updated.inputProof);
+    await secureResumeContract.connect(signers.alice).reorderSkills([1, 0]);
+
+    expect(await secureResumeContract.getResumeVersionCount(signers.alice.address)).to.equal(3);
+
+    const [name, education, workExperience, skillNames, skillLevels] = await secureResumeContract.getResumeVersion(
+      signers.alice.address,
+      0
+    );
+    expect([name, education, workExperience]).to.deep.equal(["Alice", "BSc", "Junior developer"]);
+    expect(skillNames).to.deep.equal(["TypeScript"]);
+    // The owner can still decrypt the level they originally claimed
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, skillLevels[0], secureResumeContractAddress, signers.alice)
+    ).to.equal(5);
+
+    const latest = await secureResumeContract.getResumeVersion(signers.alice.address, 2);
+    expect(latest.skillNames).to.deep.equal(["Go", "TypeScript"]);
+    expect(latest.skillLevels).to.deep.equal(await secureResumeContract.getSkillLevels(signers.alice.address));
+
+    await expect(secureResumeContract.getResumeVersion(signers.alice.address, 3))
+      .to.be.revertedWithCustomError(secureResumeContract, "VersionNotFound")
+      .withArgs(3);
+
+    // Deleting the resume drops its history too
+    await secureResumeContract.connect(signers.alice).deleteResume();
+    expect(await secureResumeContract.getResumeVersionCount(signers.alice.address)).to.equal(0);
+  });
+
+  it("should keep only the latest versions and delete a resume after many changes", async function () {
+    const maxVersions = Number(await secureResumeContract.MAX_VERSIONS());
+    const encryptedSkills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(5)
+      .add32(7)
+      .encrypt();
+    const aliceContract = secureResumeContract.connect(signers.alice);
+    await aliceContract.submitResume(
+      "Alice",
+      "Education",
+      "Experience",
+      ["TypeScript", "Go"],
+      encryptedSkills.handles,
+      encryptedSkills.inputProof
+    );
+
+    // Every reorder stores a version, odd versions list Go first
+    const versionCount = maxVersions * 3;
+    for (let i = 1; i < versionCount; i++) {
+      await aliceContract.reorderSkills([1, 0]);
+    }
+
+    const oldest = versionCount - maxVersions;
+    expect(await secureResumeContract.getResumeVersionCount(signers.alice.address)).to.equal(versionCount);
+    expect(await secureResumeContract.getOldestResumeVersion(signers.alice.address)).to.equal(oldest);
+    await expect(secureResumeContract.getResumeVersion(signers.alice.address, oldest - 1))
+      .to.be.revertedWithCustomError(secureResumeContract, "VersionNotFound")
+      .withArgs(oldest - 1);
+    for (const version of [oldest, versionCount - 1]) {
+      const snapshot = await secureResumeContract.getResumeVersion(signers.alice.address, version);
+      expect(snapshot.skillNames).to.deep.equal(version % 2 === 0 ? ["TypeScript", "Go"] : ["Go", "TypeScript"]);
+    }
+
+    const receipt = await (await aliceContract.deleteResume()).wait();
+    expect(receipt!.status).to.equal(1);
+    expect(await secureResumeContract.getResumeVersionCount(signers.alice.address)).to.equal(0);
+    expect(await secureResumeContract.getOldestResumeVersion(signers.alice.address)).to.equal(0);
+
+    // A resubmission starts a fresh history without leftovers from the ring buffer
+    const resubmitted = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(6)
+      .encrypt();
+    await aliceContract.submitResume("Alice", "Education", "Experience", ["Rust"], resubmitted.handles, resubmitted.inputProof);
+    expect(await secureResumeContract.getResumeVersionCount(signers.alice.address)).to.equal(1);
+    expect((await secureResumeContract.getResumeVersion(signers.alice.address, 0)).skillNames).to.deep.equal(["Rust"]);
+    await expect(secureResumeContract.getResumeVersion(signers.alice.address, 1)).to.be.revertedWithCustomError(
+      secureResumeContract,
+      "VersionNotFound"
+    );
+  });
+
+  it("should match encrypted years of experience and salary against HR ranges", async function () {
+    const skills = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(7)
+      .encrypt();
+    await secureResumeContract
+      .connect(signers.alice)
+      .submitResume("Alice", "BSc", "Developer", ["TypeScript"], skills.handles, skills.inputProof);
+    await secureResumeContract.connect(signers.deployer).authorizeHR(signers.hr.address);
+
+    const hrContract = secureResumeContract.connect(signers.hr);
+    const range = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.hr.address)
+      .add32(3)
+      .add32(8)
+      .encrypt();
+    await expect(
+      hrContract.evaluateExperienceRange(signers.alice.address, range.handles[0], range.handles[1], range.inputProof)
+    ).to.be.revertedWithCustomError(secureResumeContract, "NoEvaluationAccess");
+
+    // A grant scoped to some skills still covers experience and salary
+    await secureResumeContract.connect(signers.alice).grantEvaluationAccess(signers.hr.address, [0], 0);
+    await expect(
+      hrContract.evaluateExperienceRange(signers.alice.address, range.handles[0], range.handles[1], range.inputProof)
+    ).to.be.revertedWithCustomError(secureResumeContract, "CareerDetailsNotProvided");
+
+    const details = await fhevm
+      .createEncryptedInput(secureResumeContractAddress, signers.alice.address)
+      .add32(5)
+      .add64(120_000)
+      .encrypt();
+    await expect(
+      secureResumeContract
+        .connect(signers.alice)
+        .setCareerDetails(details.handles[0], details.handles[1], details.inputProof)
+    )
+      .to.emit(secureResumeContract, "CareerDetailsUpdated")
+      .withArgs(signers.alice.address);
+
+    // The owner can decrypt their own values
+    const [yearsOfExperience, expectedSalary] = await secureResumeContract.getCareerDetails(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, yearsOfExperience, secureResumeContractAddress, signers.alice)
+    ).to.equal(5);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, expectedSalary, secureResumeContractAddress, signers.alice)
+    ).to.equal(120_000);
+
+    const evaluate = async (minYears: number, maxYears: number) => {
+      const bounds = await fhevm
+        .createEncryptedInput(secureResumeContractAddress, signers.hr.address)
+        .add32(minYears)
+        .add32(maxYears)
+        .encrypt();
+      const tx = hrContract.evaluateExperienceRange(
+        signers.alice.address,
+        bounds.handles[0],
+        bounds.handles[1],
+        bounds.inputProof
+      );
+      await expect(tx)
+        .to.emit(secureResumeContract, "ExperienceEvaluated")
+        .withArgs(signers.alice.address, signers.hr.address, anyValue);
+      const [evaluated] = await secureResumeContract.queryFilter(
+        secureResumeContract.filters.ExperienceEvaluated(signers.alice.address),
+        (await (await tx).wait())!.blockNumber
+      );
+      return fhevm.userDecryptEbool(evaluated.args.result, secureResumeContractAddress, signers.hr);
+    };
+    expect(await evaluate(3, 8)).to.equal(true);
+    expect(await evaluate(5, 5)).to.equal(true);
+    expect(await evaluate(6, 2 ** 32 - 1)).to.equal(false);
+    expect(await evaluate(0, 4)).to.equal(false);
+
+    const checkBudget = async (budget: number) => {
+      const encryptedBudget = await fhevm
+        .createEncryptedInput(secureResumeContractAddress, signers.hr.address)
+        .add64(budget)
+        .encrypt();
+      const tx = hrContract.evaluateSalaryBudget(
+        signers.alice.address,
+        encryptedBudget.handles[0],
+        encryptedBudget.inputProof
+      );
+      await expect(tx)
+        .to.emit(secureResumeContract, "SalaryEvaluated")
+        .withArgs(signers.alice.address, signers.hr.address, anyValue);
+      const [evaluated] = await secureResumeContract.queryFilter(
+        secureResumeContract.filters.SalaryEvaluated(signers.alice.address),
+        (await (await tx).wait())!.blockNumber
+      );
+      return fhevm.userDecryptEbool(evaluated.args.result, secureResumeContractAddress, signers.hr);
+    };
+    expect(await checkBudget(150_000)).to.equal(true);
+    expect(await checkBudget(120_000)).to.equal(true);
+    expect(await checkBudget(100_000)).to.equal(false);
+
+    // HR only gets the comparison results, never the values themselves
+    let hrDecryptionFailed = false;
+    try {
+      await fhevm.userDecryptEuint(FhevmType.euint64, expectedSalary, secureResumeContractAddress, signers.hr);
+    } catch {
+      hrDecryptionFailed = true;
+    }
+    expect(hrDecryptionFailed).to.equal(true);
   });
 });
@@ -45,7 +45,7 @@ describe("SecureResumeSepolia", function () {
   });
 
   it("submit and evaluate resume on Sepolia", async function () {
-    steps = 12;
+    steps = 13;
     this.timeout(4 * 60000); // 4 minutes timeout
 
     progress("Checking if user already has resume...");
@@ -88,10 +88,15 @@ describe("SecureResumeSepolia", function () {
     expect(name).to.equal("John Doe (Sepolia Test)");
     expect(skillNames).to.deep.equal(["JavaScript", "React", "Solidity"]);
 
+    // alice is the first account, which deploys the contract and owns it
     progress("Authorizing HR...");
     tx = await secureResumeContract.connect(signers.alice).authorizeHR(signers.hr.address);
     await tx.wait();
 
+    progress("Granting HR evaluation access...");
+    tx = await secureResumeContract.connect(signers.alice).grantEvaluationAccess(signers.hr.address, [], 0);
+    await tx.wait();
+
     progress("HR encrypting required skill level...");
     const requiredLevel = 7;
     const encryptedRequiredLevel = await fhevm
@@ -100,7 +105,7 @@ describe("SecureResumeSepolia", function () {
       .encrypt();
 
     progress("HR evaluating skill match...");
-    const matchResult = await secureResumeContract
+    tx = await secureResumeContract
       .connect(signers.hr)
       .evaluateSkillMatch(
         signers.alice.address,
@@ -108,30 +113,35 @@ describe("SecureResumeSepolia", function () {
         encryptedRequiredLevel.handles[0],
         encryptedRequiredLevel.inputProof
       );
+    await tx.wait();
+    const matchResult = await secureResumeContract.connect(signers.hr).getSkillMatch(signers.alice.address, 0);
 
     progress("Decrypting match result...");
-    const clearMatchResult = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+    const clearMatchResult = await fhevm.userDecryptEbool(
       matchResult,
       secureResumeContractAddress,
       signers.hr,
     );
-    progress(`Skill match result: ${clearMatchResult} (expected: 1 for 8 >= 7)`);
-    expect(clearMatchResult).to.equal(1);
+    progress(`Skill match result: ${clearMatchResult} (expected: true for 8 >= 7)`);
+    expect(clearMatchResult).to.equal(true);
 
-    progress("HR calculating total skill score...");
+    progress("HR counting skills at level 7 or above...");
+    tx = await secureResumeContract
+      .connect(signers.hr)
+      .calculateSkillScore(signers.alice.address, [0, 1, 2], [7, 7, 7]);
+    await tx.wait();
     const totalScore = await secureResumeContract
       .connect(signers.hr)
-      .calculateSkillScore(signers.alice.address, [0, 1, 2]);
+      .calculateSkillScore.staticCall(signers.alice.address, [0, 1, 2], [7, 7, 7]);
 
-    progress("Decrypting total score...");
+    progress("Decrypting skill count...");
     const clearTotalScore = await fhevm.userDecryptEuint(
       FhevmType.euint32,
       totalScore,
       secureResumeContractAddress,
       signers.hr,
     );
-    progress(`Total skill score: ${clearTotalScore} (expected: 21 for 8+7+6)`);
-    expect(clearTotalScore).to.equal(21);
+    progress(`Skills at level 7 or above: ${clearTotalScore} (expected: 2 for 8, 7 and 6)`);
+    expect(clearTotalScore).to.equal(2);
   });
 });
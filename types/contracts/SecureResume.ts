@@ -26,117 +26,897 @@ import type {
 export interface SecureResumeInterface extends Interface {
   getFunction(
     nameOrSignature:
+      | "MAX_BATCH_SIZE"
+      | "MAX_VERSIONS"
+      | "MIN_WEIGHTED_SKILLS"
+      | "addOrgAdmin"
+      | "addSkill"
+      | "applyToJob"
       | "authorizeHR"
+      | "batchEvaluate"
       | "calculateSkillScore"
+      | "calculateWeightedScore"
+      | "canEvaluate"
+      | "closeJobPosting"
+      | "createJobPosting"
+      | "deleteResume"
+      | "evaluateExperienceRange"
+      | "evaluateSalaryBudget"
       | "evaluateSkillMatch"
+      | "getCareerDetails"
+      | "getEvaluationGrant"
+      | "getEvaluationGrantees"
+      | "getHRAddresses"
+      | "getJobApplicants"
+      | "getJobApplication"
+      | "getJobPosting"
+      | "getJobPostingCount"
+      | "getJobPostingMinLevels"
+      | "getOldestResumeVersion"
+      | "getPendingHRRequests"
       | "getResumeInfo"
+      | "getResumeVersion"
+      | "getResumeVersionCount"
       | "getSkillLevels"
+      | "getSkillMatch"
       | "getStats"
+      | "getWeightedScore"
+      | "grantEvaluationAccess"
+      | "hasAppliedToJob"
       | "hasResume"
+      | "hrAccessRequests"
       | "hrAddresses"
+      | "hrAdminOf"
+      | "maxSkills"
+      | "orgAdmins"
+      | "owner"
       | "protocolId"
+      | "rejectHRRequest"
+      | "removeOrgAdmin"
+      | "removeSkill"
+      | "reorderSkills"
+      | "requestHRAccess"
+      | "revokeEvaluationAccess"
       | "revokeHR"
+      | "setCareerDetails"
       | "submitResume"
+      | "transferOwnership"
       | "updateResume"
   ): FunctionFragment;
 
   getEvent(
     nameOrSignatureOrTopic:
+      | "BatchEvaluated"
+      | "CandidateBatchEvaluated"
+      | "CareerDetailsUpdated"
+      | "EvaluationAccessGranted"
+      | "EvaluationAccessRevoked"
+      | "ExperienceEvaluated"
+      | "HRAccessRequestRejected"
+      | "HRAccessRequested"
       | "HRAuthorized"
       | "HRRevoked"
+      | "JobApplicationSubmitted"
+      | "JobPostingClosed"
+      | "JobPostingCreated"
+      | "OrgAdminAdded"
+      | "OrgAdminRemoved"
+      | "OwnershipTransferred"
+      | "ResumeDeleted"
       | "ResumeSubmitted"
       | "ResumeUpdated"
+      | "SalaryEvaluated"
+      | "SkillAdded"
+      | "SkillCountCalculated"
+      | "SkillEvaluated"
+      | "SkillRemoved"
+      | "SkillScoreCalculated"
+      | "SkillsReordered"
   ): EventFragment;
 
+  encodeFunctionData(
+    functionFragment: "MAX_BATCH_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_VERSIONS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_WEIGHTED_SKILLS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addOrgAdmin",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addSkill",
+    values: [string, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "applyToJob",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "authorizeHR",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "batchEvaluate",
+    values: [AddressLike[], string[], BytesLike[], BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "calculateSkillScore",
-    values: [AddressLike, BigNumberish[]]
+    values: [AddressLike, BigNumberish[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "calculateWeightedScore",
+    values: [AddressLike, BigNumberish[], BigNumberish[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "canEvaluate",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeJobPosting",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createJobPosting",
+    values: [string, string[], BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deleteResume",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "evaluateExperienceRange",
+    values: [AddressLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "evaluateSalaryBudget",
+    values: [AddressLike, BytesLike, BytesLike]
   ): string;
   encodeFunctionData(
     functionFragment: "evaluateSkillMatch",
-    values: [AddressLike, BigNumberish]
+    values: [AddressLike, BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCareerDetails",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEvaluationGrant",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEvaluationGrantees",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getHRAddresses",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getJobApplicants",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getJobApplication",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getJobPosting",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getJobPostingCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getJobPostingMinLevels",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOldestResumeVersion",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPendingHRRequests",
+    values: [AddressLike]
   ): string;
   encodeFunctionData(
     functionFragment: "getResumeInfo",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getResumeVersion",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getResumeVersionCount",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "getSkillLevels",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getSkillMatch",
+    values: [AddressLike, BigNumberish]
+  ): string;
   encodeFunctionData(functionFragment: "getStats", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getWeightedScore",
+    values: [AddressLike, BigNumberish[], BigNumberish[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantEvaluationAccess",
+    values: [AddressLike, BigNumberish[], BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasAppliedToJob",
+    values: [BigNumberish, AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "hasResume",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "hrAccessRequests",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "hrAddresses",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "hrAdminOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "maxSkills", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "orgAdmins",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "protocolId",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "rejectHRRequest",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeOrgAdmin",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeSkill",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reorderSkills",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestHRAccess",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeEvaluationAccess",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "revokeHR",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setCareerDetails",
+    values: [BytesLike, BytesLike, BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "submitResume",
     values: [string, string, string, string[], BytesLike[], BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "updateResume",
     values: [string, string, string, string[], BytesLike[], BytesLike]
   ): string;
 
+  decodeFunctionResult(
+    functionFragment: "MAX_BATCH_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_VERSIONS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_WEIGHTED_SKILLS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addOrgAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "addSkill", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "applyToJob", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "authorizeHR",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchEvaluate",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "calculateSkillScore",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "calculateWeightedScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "canEvaluate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "closeJobPosting",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createJobPosting",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "deleteResume",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "evaluateExperienceRange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "evaluateSalaryBudget",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "evaluateSkillMatch",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCareerDetails",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEvaluationGrant",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEvaluationGrantees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getHRAddresses",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getJobApplicants",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getJobApplication",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getJobPosting",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getJobPostingCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getJobPostingMinLevels",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOldestResumeVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPendingHRRequests",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getResumeInfo",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getResumeVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getResumeVersionCount",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getSkillLevels",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSkillMatch",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "getStats", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getWeightedScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "grantEvaluationAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasAppliedToJob",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "hasResume", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "hrAccessRequests",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "hrAddresses",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "hrAdminOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "maxSkills", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "orgAdmins", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "rejectHRRequest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeOrgAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeSkill",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reorderSkills",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestHRAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeEvaluationAccess",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "revokeHR", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setCareerDetails",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "submitResume",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "updateResume",
     data: BytesLike
   ): Result;
 }
 
-export namespace HRAuthorizedEvent {
-  export type InputTuple = [hr: AddressLike];
-  export type OutputTuple = [hr: string];
+export namespace BatchEvaluatedEvent {
+  export type InputTuple = [
+    hr: AddressLike,
+    candidates: AddressLike[],
+    overallMatches: BytesLike[],
+    matchCounts: BytesLike[]
+  ];
+  export type OutputTuple = [
+    hr: string,
+    candidates: string[],
+    overallMatches: string[],
+    matchCounts: string[]
+  ];
+  export interface OutputObject {
+    hr: string;
+    candidates: string[];
+    overallMatches: string[];
+    matchCounts: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CandidateBatchEvaluatedEvent {
+  export type InputTuple = [
+    candidate: AddressLike,
+    hr: AddressLike,
+    skillNames: string[],
+    overallMatch: BytesLike,
+    matchCount: BytesLike
+  ];
+  export type OutputTuple = [
+    candidate: string,
+    hr: string,
+    skillNames: string[],
+    overallMatch: string,
+    matchCount: string
+  ];
+  export interface OutputObject {
+    candidate: string;
+    hr: string;
+    skillNames: string[];
+    overallMatch: string;
+    matchCount: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CareerDetailsUpdatedEvent {
+  export type InputTuple = [user: AddressLike];
+  export type OutputTuple = [user: string];
+  export interface OutputObject {
+    user: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EvaluationAccessGrantedEvent {
+  export type InputTuple = [
+    candidate: AddressLike,
+    hr: AddressLike,
+    expiresAt: BigNumberish,
+    skillIndices: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    candidate: string,
+    hr: string,
+    expiresAt: bigint,
+    skillIndices: bigint[]
+  ];
+  export interface OutputObject {
+    candidate: string;
+    hr: string;
+    expiresAt: bigint;
+    skillIndices: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EvaluationAccessRevokedEvent {
+  export type InputTuple = [candidate: AddressLike, hr: AddressLike];
+  export type OutputTuple = [candidate: string, hr: string];
+  export interface OutputObject {
+    candidate: string;
+    hr: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ExperienceEvaluatedEvent {
+  export type InputTuple = [
+    candidate: AddressLike,
+    hr: AddressLike,
+    result: BytesLike
+  ];
+  export type OutputTuple = [candidate: string, hr: string, result: string];
+  export interface OutputObject {
+    candidate: string;
+    hr: string;
+    result: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace HRAccessRequestRejectedEvent {
+  export type InputTuple = [requester: AddressLike, admin: AddressLike];
+  export type OutputTuple = [requester: string, admin: string];
+  export interface OutputObject {
+    requester: string;
+    admin: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace HRAccessRequestedEvent {
+  export type InputTuple = [requester: AddressLike, admin: AddressLike];
+  export type OutputTuple = [requester: string, admin: string];
+  export interface OutputObject {
+    requester: string;
+    admin: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace HRAuthorizedEvent {
+  export type InputTuple = [hr: AddressLike, authorizedBy: AddressLike];
+  export type OutputTuple = [hr: string, authorizedBy: string];
+  export interface OutputObject {
+    hr: string;
+    authorizedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace HRRevokedEvent {
+  export type InputTuple = [hr: AddressLike, revokedBy: AddressLike];
+  export type OutputTuple = [hr: string, revokedBy: string];
+  export interface OutputObject {
+    hr: string;
+    revokedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace JobApplicationSubmittedEvent {
+  export type InputTuple = [postingId: BigNumberish, candidate: AddressLike];
+  export type OutputTuple = [postingId: bigint, candidate: string];
+  export interface OutputObject {
+    postingId: bigint;
+    candidate: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace JobPostingClosedEvent {
+  export type InputTuple = [postingId: BigNumberish, hr: AddressLike];
+  export type OutputTuple = [postingId: bigint, hr: string];
+  export interface OutputObject {
+    postingId: bigint;
+    hr: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace JobPostingCreatedEvent {
+  export type InputTuple = [
+    postingId: BigNumberish,
+    hr: AddressLike,
+    requirementCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    postingId: bigint,
+    hr: string,
+    requirementCount: bigint
+  ];
+  export interface OutputObject {
+    postingId: bigint;
+    hr: string;
+    requirementCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OrgAdminAddedEvent {
+  export type InputTuple = [admin: AddressLike, addedBy: AddressLike];
+  export type OutputTuple = [admin: string, addedBy: string];
+  export interface OutputObject {
+    admin: string;
+    addedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OrgAdminRemovedEvent {
+  export type InputTuple = [admin: AddressLike, removedBy: AddressLike];
+  export type OutputTuple = [admin: string, removedBy: string];
+  export interface OutputObject {
+    admin: string;
+    removedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ResumeDeletedEvent {
+  export type InputTuple = [user: AddressLike, timestamp: BigNumberish];
+  export type OutputTuple = [user: string, timestamp: bigint];
+  export interface OutputObject {
+    user: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ResumeSubmittedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    timestamp: BigNumberish,
+    skillCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    timestamp: bigint,
+    skillCount: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    timestamp: bigint;
+    skillCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ResumeUpdatedEvent {
+  export type InputTuple = [user: AddressLike, timestamp: BigNumberish];
+  export type OutputTuple = [user: string, timestamp: bigint];
+  export interface OutputObject {
+    user: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SalaryEvaluatedEvent {
+  export type InputTuple = [
+    candidate: AddressLike,
+    hr: AddressLike,
+    result: BytesLike
+  ];
+  export type OutputTuple = [candidate: string, hr: string, result: string];
+  export interface OutputObject {
+    candidate: string;
+    hr: string;
+    result: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SkillAddedEvent {
+  export type InputTuple = [user: AddressLike, skillIndex: BigNumberish];
+  export type OutputTuple = [user: string, skillIndex: bigint];
+  export interface OutputObject {
+    user: string;
+    skillIndex: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SkillCountCalculatedEvent {
+  export type InputTuple = [
+    candidate: AddressLike,
+    hr: AddressLike,
+    skillIndices: BigNumberish[],
+    skillNames: string[],
+    minLevels: BigNumberish[],
+    matchCount: BytesLike
+  ];
+  export type OutputTuple = [
+    candidate: string,
+    hr: string,
+    skillIndices: bigint[],
+    skillNames: string[],
+    minLevels: bigint[],
+    matchCount: string
+  ];
+  export interface OutputObject {
+    candidate: string;
+    hr: string;
+    skillIndices: bigint[];
+    skillNames: string[];
+    minLevels: bigint[];
+    matchCount: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SkillEvaluatedEvent {
+  export type InputTuple = [
+    candidate: AddressLike,
+    hr: AddressLike,
+    skillIndex: BigNumberish,
+    skillName: string,
+    result: BytesLike
+  ];
+  export type OutputTuple = [
+    candidate: string,
+    hr: string,
+    skillIndex: bigint,
+    skillName: string,
+    result: string
+  ];
   export interface OutputObject {
+    candidate: string;
     hr: string;
+    skillIndex: bigint;
+    skillName: string;
+    result: string;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -144,11 +924,12 @@ export namespace HRAuthorizedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace HRRevokedEvent {
-  export type InputTuple = [hr: AddressLike];
-  export type OutputTuple = [hr: string];
+export namespace SkillRemovedEvent {
+  export type InputTuple = [user: AddressLike, skillIndex: BigNumberish];
+  export type OutputTuple = [user: string, skillIndex: bigint];
   export interface OutputObject {
-    hr: string;
+    user: string;
+    skillIndex: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -156,11 +937,30 @@ export namespace HRRevokedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace ResumeSubmittedEvent {
-  export type InputTuple = [user: AddressLike];
-  export type OutputTuple = [user: string];
+export namespace SkillScoreCalculatedEvent {
+  export type InputTuple = [
+    candidate: AddressLike,
+    hr: AddressLike,
+    skillIndices: BigNumberish[],
+    skillNames: string[],
+    weightedScore: BytesLike,
+    normalizedScore: BytesLike
+  ];
+  export type OutputTuple = [
+    candidate: string,
+    hr: string,
+    skillIndices: bigint[],
+    skillNames: string[],
+    weightedScore: string,
+    normalizedScore: string
+  ];
   export interface OutputObject {
-    user: string;
+    candidate: string;
+    hr: string;
+    skillIndices: bigint[];
+    skillNames: string[];
+    weightedScore: string;
+    normalizedScore: string;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -168,7 +968,7 @@ export namespace ResumeSubmittedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace ResumeUpdatedEvent {
+export namespace SkillsReorderedEvent {
   export type InputTuple = [user: AddressLike];
   export type OutputTuple = [user: string];
   export interface OutputObject {
@@ -223,20 +1023,196 @@ export interface SecureResume extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
+  MAX_BATCH_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_VERSIONS: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_WEIGHTED_SKILLS: TypedContractMethod<[], [bigint], "view">;
+
+  addOrgAdmin: TypedContractMethod<[admin: AddressLike], [void], "nonpayable">;
+
+  addSkill: TypedContractMethod<
+    [skillName: string, skillLevelExt: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  applyToJob: TypedContractMethod<
+    [postingId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   authorizeHR: TypedContractMethod<[hr: AddressLike], [void], "nonpayable">;
 
+  batchEvaluate: TypedContractMethod<
+    [
+      candidates: AddressLike[],
+      skillNames: string[],
+      minLevelsExt: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [
+      [string[], string[]] & { overallMatches: string[]; matchCounts: string[] }
+    ],
+    "nonpayable"
+  >;
+
   calculateSkillScore: TypedContractMethod<
-    [candidate: AddressLike, skillIndices: BigNumberish[]],
+    [
+      candidate: AddressLike,
+      skillIndices: BigNumberish[],
+      minLevels: BigNumberish[]
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  calculateWeightedScore: TypedContractMethod<
+    [
+      candidate: AddressLike,
+      skillIndices: BigNumberish[],
+      weights: BigNumberish[],
+      caps: BigNumberish[]
+    ],
+    [[string, string] & { weightedScore: string; normalizedScore: string }],
+    "nonpayable"
+  >;
+
+  canEvaluate: TypedContractMethod<
+    [candidate: AddressLike, hr: AddressLike, skillIndex: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  closeJobPosting: TypedContractMethod<
+    [postingId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  createJobPosting: TypedContractMethod<
+    [
+      title: string,
+      skillNames: string[],
+      minLevelsExt: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  deleteResume: TypedContractMethod<[], [void], "nonpayable">;
+
+  evaluateExperienceRange: TypedContractMethod<
+    [
+      candidate: AddressLike,
+      minYearsExt: BytesLike,
+      maxYearsExt: BytesLike,
+      inputProof: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  evaluateSalaryBudget: TypedContractMethod<
+    [candidate: AddressLike, budgetExt: BytesLike, inputProof: BytesLike],
     [string],
     "nonpayable"
   >;
 
   evaluateSkillMatch: TypedContractMethod<
-    [candidate: AddressLike, skillIndex: BigNumberish],
+    [
+      candidate: AddressLike,
+      skillIndex: BigNumberish,
+      requiredLevelExt: BytesLike,
+      inputProof: BytesLike
+    ],
     [string],
     "nonpayable"
   >;
 
+  getCareerDetails: TypedContractMethod<
+    [user: AddressLike],
+    [[string, string] & { yearsOfExperience: string; expectedSalary: string }],
+    "view"
+  >;
+
+  getEvaluationGrant: TypedContractMethod<
+    [candidate: AddressLike, hr: AddressLike],
+    [
+      [boolean, bigint, boolean, bigint] & {
+        active: boolean;
+        expiresAt: bigint;
+        allSkills: boolean;
+        skillMask: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEvaluationGrantees: TypedContractMethod<
+    [candidate: AddressLike],
+    [string[]],
+    "view"
+  >;
+
+  getHRAddresses: TypedContractMethod<[], [string[]], "view">;
+
+  getJobApplicants: TypedContractMethod<
+    [postingId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getJobApplication: TypedContractMethod<
+    [postingId: BigNumberish, candidate: AddressLike],
+    [
+      [string[], string, string, bigint] & {
+        requirementMatches: string[];
+        overallMatch: string;
+        matchCount: string;
+        appliedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getJobPosting: TypedContractMethod<
+    [postingId: BigNumberish],
+    [
+      [string, string, string[], bigint, boolean, bigint] & {
+        hr: string;
+        title: string;
+        requiredSkillNames: string[];
+        createdAt: bigint;
+        active: boolean;
+        applicantCount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getJobPostingCount: TypedContractMethod<[], [bigint], "view">;
+
+  getJobPostingMinLevels: TypedContractMethod<
+    [postingId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getOldestResumeVersion: TypedContractMethod<
+    [user: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getPendingHRRequests: TypedContractMethod<
+    [admin: AddressLike],
+    [string[]],
+    "view"
+  >;
+
   getResumeInfo: TypedContractMethod<
     [user: AddressLike],
     [
@@ -252,65 +1228,350 @@ export interface SecureResume extends BaseContract {
     "view"
   >;
 
+  getResumeVersion: TypedContractMethod<
+    [user: AddressLike, version: BigNumberish],
+    [
+      [string, string, string, string[], string[], bigint] & {
+        name: string;
+        education: string;
+        workExperience: string;
+        skillNames: string[];
+        skillLevels: string[];
+        updatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getResumeVersionCount: TypedContractMethod<
+    [user: AddressLike],
+    [bigint],
+    "view"
+  >;
+
   getSkillLevels: TypedContractMethod<[user: AddressLike], [string[]], "view">;
 
+  getSkillMatch: TypedContractMethod<
+    [candidate: AddressLike, skillIndex: BigNumberish],
+    [string],
+    "view"
+  >;
+
   getStats: TypedContractMethod<[], [bigint], "view">;
 
+  getWeightedScore: TypedContractMethod<
+    [
+      candidate: AddressLike,
+      skillIndices: BigNumberish[],
+      weights: BigNumberish[],
+      caps: BigNumberish[]
+    ],
+    [[string, string] & { weightedScore: string; normalizedScore: string }],
+    "view"
+  >;
+
+  grantEvaluationAccess: TypedContractMethod<
+    [hr: AddressLike, skillIndices: BigNumberish[], expiresAt: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  hasAppliedToJob: TypedContractMethod<
+    [postingId: BigNumberish, candidate: AddressLike],
+    [boolean],
+    "view"
+  >;
+
   hasResume: TypedContractMethod<[user: AddressLike], [boolean], "view">;
 
+  hrAccessRequests: TypedContractMethod<[arg0: AddressLike], [string], "view">;
+
   hrAddresses: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
 
+  hrAdminOf: TypedContractMethod<[arg0: AddressLike], [string], "view">;
+
+  maxSkills: TypedContractMethod<[], [bigint], "view">;
+
+  orgAdmins: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
   protocolId: TypedContractMethod<[], [bigint], "view">;
 
+  rejectHRRequest: TypedContractMethod<
+    [requester: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  removeOrgAdmin: TypedContractMethod<
+    [admin: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  removeSkill: TypedContractMethod<
+    [skillIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  reorderSkills: TypedContractMethod<
+    [newOrder: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  requestHRAccess: TypedContractMethod<
+    [admin: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeEvaluationAccess: TypedContractMethod<
+    [hr: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
   revokeHR: TypedContractMethod<[hr: AddressLike], [void], "nonpayable">;
 
+  setCareerDetails: TypedContractMethod<
+    [
+      yearsOfExperienceExt: BytesLike,
+      expectedSalaryExt: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
   submitResume: TypedContractMethod<
     [
-      name: string,
-      education: string,
-      workExperience: string,
+      name: string,
+      education: string,
+      workExperience: string,
+      skillNames: string[],
+      skillLevelsExt: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  updateResume: TypedContractMethod<
+    [
+      name: string,
+      education: string,
+      workExperience: string,
+      skillNames: string[],
+      skillLevelsExt: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_BATCH_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_VERSIONS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_WEIGHTED_SKILLS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addOrgAdmin"
+  ): TypedContractMethod<[admin: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addSkill"
+  ): TypedContractMethod<
+    [skillName: string, skillLevelExt: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "applyToJob"
+  ): TypedContractMethod<[postingId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "authorizeHR"
+  ): TypedContractMethod<[hr: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchEvaluate"
+  ): TypedContractMethod<
+    [
+      candidates: AddressLike[],
+      skillNames: string[],
+      minLevelsExt: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [
+      [string[], string[]] & { overallMatches: string[]; matchCounts: string[] }
+    ],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "calculateSkillScore"
+  ): TypedContractMethod<
+    [
+      candidate: AddressLike,
+      skillIndices: BigNumberish[],
+      minLevels: BigNumberish[]
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "calculateWeightedScore"
+  ): TypedContractMethod<
+    [
+      candidate: AddressLike,
+      skillIndices: BigNumberish[],
+      weights: BigNumberish[],
+      caps: BigNumberish[]
+    ],
+    [[string, string] & { weightedScore: string; normalizedScore: string }],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "canEvaluate"
+  ): TypedContractMethod<
+    [candidate: AddressLike, hr: AddressLike, skillIndex: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "closeJobPosting"
+  ): TypedContractMethod<[postingId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "createJobPosting"
+  ): TypedContractMethod<
+    [
+      title: string,
       skillNames: string[],
-      skillLevelsExt: BytesLike[],
+      minLevelsExt: BytesLike[],
       inputProof: BytesLike
     ],
-    [void],
+    [bigint],
     "nonpayable"
   >;
-
-  updateResume: TypedContractMethod<
+  getFunction(
+    nameOrSignature: "deleteResume"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "evaluateExperienceRange"
+  ): TypedContractMethod<
     [
-      name: string,
-      education: string,
-      workExperience: string,
-      skillNames: string[],
-      skillLevelsExt: BytesLike[],
+      candidate: AddressLike,
+      minYearsExt: BytesLike,
+      maxYearsExt: BytesLike,
       inputProof: BytesLike
     ],
-    [void],
+    [string],
     "nonpayable"
   >;
-
-  getFunction<T extends ContractMethod = ContractMethod>(
-    key: string | FunctionFragment
-  ): T;
-
   getFunction(
-    nameOrSignature: "authorizeHR"
-  ): TypedContractMethod<[hr: AddressLike], [void], "nonpayable">;
-  getFunction(
-    nameOrSignature: "calculateSkillScore"
+    nameOrSignature: "evaluateSalaryBudget"
   ): TypedContractMethod<
-    [candidate: AddressLike, skillIndices: BigNumberish[]],
+    [candidate: AddressLike, budgetExt: BytesLike, inputProof: BytesLike],
     [string],
     "nonpayable"
   >;
   getFunction(
     nameOrSignature: "evaluateSkillMatch"
   ): TypedContractMethod<
-    [candidate: AddressLike, skillIndex: BigNumberish],
+    [
+      candidate: AddressLike,
+      skillIndex: BigNumberish,
+      requiredLevelExt: BytesLike,
+      inputProof: BytesLike
+    ],
     [string],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "getCareerDetails"
+  ): TypedContractMethod<
+    [user: AddressLike],
+    [[string, string] & { yearsOfExperience: string; expectedSalary: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEvaluationGrant"
+  ): TypedContractMethod<
+    [candidate: AddressLike, hr: AddressLike],
+    [
+      [boolean, bigint, boolean, bigint] & {
+        active: boolean;
+        expiresAt: bigint;
+        allSkills: boolean;
+        skillMask: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEvaluationGrantees"
+  ): TypedContractMethod<[candidate: AddressLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getHRAddresses"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getJobApplicants"
+  ): TypedContractMethod<[postingId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getJobApplication"
+  ): TypedContractMethod<
+    [postingId: BigNumberish, candidate: AddressLike],
+    [
+      [string[], string, string, bigint] & {
+        requirementMatches: string[];
+        overallMatch: string;
+        matchCount: string;
+        appliedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getJobPosting"
+  ): TypedContractMethod<
+    [postingId: BigNumberish],
+    [
+      [string, string, string[], bigint, boolean, bigint] & {
+        hr: string;
+        title: string;
+        requiredSkillNames: string[];
+        createdAt: bigint;
+        active: boolean;
+        applicantCount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getJobPostingCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getJobPostingMinLevels"
+  ): TypedContractMethod<[postingId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getOldestResumeVersion"
+  ): TypedContractMethod<[user: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getPendingHRRequests"
+  ): TypedContractMethod<[admin: AddressLike], [string[]], "view">;
   getFunction(
     nameOrSignature: "getResumeInfo"
   ): TypedContractMethod<
@@ -327,24 +1588,120 @@ export interface SecureResume extends BaseContract {
     ],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "getResumeVersion"
+  ): TypedContractMethod<
+    [user: AddressLike, version: BigNumberish],
+    [
+      [string, string, string, string[], string[], bigint] & {
+        name: string;
+        education: string;
+        workExperience: string;
+        skillNames: string[];
+        skillLevels: string[];
+        updatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getResumeVersionCount"
+  ): TypedContractMethod<[user: AddressLike], [bigint], "view">;
   getFunction(
     nameOrSignature: "getSkillLevels"
   ): TypedContractMethod<[user: AddressLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getSkillMatch"
+  ): TypedContractMethod<
+    [candidate: AddressLike, skillIndex: BigNumberish],
+    [string],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "getStats"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getWeightedScore"
+  ): TypedContractMethod<
+    [
+      candidate: AddressLike,
+      skillIndices: BigNumberish[],
+      weights: BigNumberish[],
+      caps: BigNumberish[]
+    ],
+    [[string, string] & { weightedScore: string; normalizedScore: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantEvaluationAccess"
+  ): TypedContractMethod<
+    [hr: AddressLike, skillIndices: BigNumberish[], expiresAt: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasAppliedToJob"
+  ): TypedContractMethod<
+    [postingId: BigNumberish, candidate: AddressLike],
+    [boolean],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "hasResume"
   ): TypedContractMethod<[user: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "hrAccessRequests"
+  ): TypedContractMethod<[arg0: AddressLike], [string], "view">;
   getFunction(
     nameOrSignature: "hrAddresses"
   ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "hrAdminOf"
+  ): TypedContractMethod<[arg0: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "maxSkills"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "orgAdmins"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "protocolId"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "rejectHRRequest"
+  ): TypedContractMethod<[requester: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "removeOrgAdmin"
+  ): TypedContractMethod<[admin: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "removeSkill"
+  ): TypedContractMethod<[skillIndex: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reorderSkills"
+  ): TypedContractMethod<[newOrder: BigNumberish[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestHRAccess"
+  ): TypedContractMethod<[admin: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeEvaluationAccess"
+  ): TypedContractMethod<[hr: AddressLike], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "revokeHR"
   ): TypedContractMethod<[hr: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setCareerDetails"
+  ): TypedContractMethod<
+    [
+      yearsOfExperienceExt: BytesLike,
+      expectedSalaryExt: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "submitResume"
   ): TypedContractMethod<
@@ -359,6 +1716,9 @@ export interface SecureResume extends BaseContract {
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "updateResume"
   ): TypedContractMethod<
@@ -374,6 +1734,62 @@ export interface SecureResume extends BaseContract {
     "nonpayable"
   >;
 
+  getEvent(
+    key: "BatchEvaluated"
+  ): TypedContractEvent<
+    BatchEvaluatedEvent.InputTuple,
+    BatchEvaluatedEvent.OutputTuple,
+    BatchEvaluatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CandidateBatchEvaluated"
+  ): TypedContractEvent<
+    CandidateBatchEvaluatedEvent.InputTuple,
+    CandidateBatchEvaluatedEvent.OutputTuple,
+    CandidateBatchEvaluatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CareerDetailsUpdated"
+  ): TypedContractEvent<
+    CareerDetailsUpdatedEvent.InputTuple,
+    CareerDetailsUpdatedEvent.OutputTuple,
+    CareerDetailsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EvaluationAccessGranted"
+  ): TypedContractEvent<
+    EvaluationAccessGrantedEvent.InputTuple,
+    EvaluationAccessGrantedEvent.OutputTuple,
+    EvaluationAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EvaluationAccessRevoked"
+  ): TypedContractEvent<
+    EvaluationAccessRevokedEvent.InputTuple,
+    EvaluationAccessRevokedEvent.OutputTuple,
+    EvaluationAccessRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ExperienceEvaluated"
+  ): TypedContractEvent<
+    ExperienceEvaluatedEvent.InputTuple,
+    ExperienceEvaluatedEvent.OutputTuple,
+    ExperienceEvaluatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "HRAccessRequestRejected"
+  ): TypedContractEvent<
+    HRAccessRequestRejectedEvent.InputTuple,
+    HRAccessRequestRejectedEvent.OutputTuple,
+    HRAccessRequestRejectedEvent.OutputObject
+  >;
+  getEvent(
+    key: "HRAccessRequested"
+  ): TypedContractEvent<
+    HRAccessRequestedEvent.InputTuple,
+    HRAccessRequestedEvent.OutputTuple,
+    HRAccessRequestedEvent.OutputObject
+  >;
   getEvent(
     key: "HRAuthorized"
   ): TypedContractEvent<
@@ -388,6 +1804,55 @@ export interface SecureResume extends BaseContract {
     HRRevokedEvent.OutputTuple,
     HRRevokedEvent.OutputObject
   >;
+  getEvent(
+    key: "JobApplicationSubmitted"
+  ): TypedContractEvent<
+    JobApplicationSubmittedEvent.InputTuple,
+    JobApplicationSubmittedEvent.OutputTuple,
+    JobApplicationSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "JobPostingClosed"
+  ): TypedContractEvent<
+    JobPostingClosedEvent.InputTuple,
+    JobPostingClosedEvent.OutputTuple,
+    JobPostingClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "JobPostingCreated"
+  ): TypedContractEvent<
+    JobPostingCreatedEvent.InputTuple,
+    JobPostingCreatedEvent.OutputTuple,
+    JobPostingCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OrgAdminAdded"
+  ): TypedContractEvent<
+    OrgAdminAddedEvent.InputTuple,
+    OrgAdminAddedEvent.OutputTuple,
+    OrgAdminAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OrgAdminRemoved"
+  ): TypedContractEvent<
+    OrgAdminRemovedEvent.InputTuple,
+    OrgAdminRemovedEvent.OutputTuple,
+    OrgAdminRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ResumeDeleted"
+  ): TypedContractEvent<
+    ResumeDeletedEvent.InputTuple,
+    ResumeDeletedEvent.OutputTuple,
+    ResumeDeletedEvent.OutputObject
+  >;
   getEvent(
     key: "ResumeSubmitted"
   ): TypedContractEvent<
@@ -402,9 +1867,146 @@ export interface SecureResume extends BaseContract {
     ResumeUpdatedEvent.OutputTuple,
     ResumeUpdatedEvent.OutputObject
   >;
+  getEvent(
+    key: "SalaryEvaluated"
+  ): TypedContractEvent<
+    SalaryEvaluatedEvent.InputTuple,
+    SalaryEvaluatedEvent.OutputTuple,
+    SalaryEvaluatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SkillAdded"
+  ): TypedContractEvent<
+    SkillAddedEvent.InputTuple,
+    SkillAddedEvent.OutputTuple,
+    SkillAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SkillCountCalculated"
+  ): TypedContractEvent<
+    SkillCountCalculatedEvent.InputTuple,
+    SkillCountCalculatedEvent.OutputTuple,
+    SkillCountCalculatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SkillEvaluated"
+  ): TypedContractEvent<
+    SkillEvaluatedEvent.InputTuple,
+    SkillEvaluatedEvent.OutputTuple,
+    SkillEvaluatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SkillRemoved"
+  ): TypedContractEvent<
+    SkillRemovedEvent.InputTuple,
+    SkillRemovedEvent.OutputTuple,
+    SkillRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SkillScoreCalculated"
+  ): TypedContractEvent<
+    SkillScoreCalculatedEvent.InputTuple,
+    SkillScoreCalculatedEvent.OutputTuple,
+    SkillScoreCalculatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SkillsReordered"
+  ): TypedContractEvent<
+    SkillsReorderedEvent.InputTuple,
+    SkillsReorderedEvent.OutputTuple,
+    SkillsReorderedEvent.OutputObject
+  >;
 
   filters: {
-    "HRAuthorized(address)": TypedContractEvent<
+    "BatchEvaluated(address,address[],bytes32[],bytes32[])": TypedContractEvent<
+      BatchEvaluatedEvent.InputTuple,
+      BatchEvaluatedEvent.OutputTuple,
+      BatchEvaluatedEvent.OutputObject
+    >;
+    BatchEvaluated: TypedContractEvent<
+      BatchEvaluatedEvent.InputTuple,
+      BatchEvaluatedEvent.OutputTuple,
+      BatchEvaluatedEvent.OutputObject
+    >;
+
+    "CandidateBatchEvaluated(address,address,string[],bytes32,bytes32)": TypedContractEvent<
+      CandidateBatchEvaluatedEvent.InputTuple,
+      CandidateBatchEvaluatedEvent.OutputTuple,
+      CandidateBatchEvaluatedEvent.OutputObject
+    >;
+    CandidateBatchEvaluated: TypedContractEvent<
+      CandidateBatchEvaluatedEvent.InputTuple,
+      CandidateBatchEvaluatedEvent.OutputTuple,
+      CandidateBatchEvaluatedEvent.OutputObject
+    >;
+
+    "CareerDetailsUpdated(address)": TypedContractEvent<
+      CareerDetailsUpdatedEvent.InputTuple,
+      CareerDetailsUpdatedEvent.OutputTuple,
+      CareerDetailsUpdatedEvent.OutputObject
+    >;
+    CareerDetailsUpdated: TypedContractEvent<
+      CareerDetailsUpdatedEvent.InputTuple,
+      CareerDetailsUpdatedEvent.OutputTuple,
+      CareerDetailsUpdatedEvent.OutputObject
+    >;
+
+    "EvaluationAccessGranted(address,address,uint64,uint256[])": TypedContractEvent<
+      EvaluationAccessGrantedEvent.InputTuple,
+      EvaluationAccessGrantedEvent.OutputTuple,
+      EvaluationAccessGrantedEvent.OutputObject
+    >;
+    EvaluationAccessGranted: TypedContractEvent<
+      EvaluationAccessGrantedEvent.InputTuple,
+      EvaluationAccessGrantedEvent.OutputTuple,
+      EvaluationAccessGrantedEvent.OutputObject
+    >;
+
+    "EvaluationAccessRevoked(address,address)": TypedContractEvent<
+      EvaluationAccessRevokedEvent.InputTuple,
+      EvaluationAccessRevokedEvent.OutputTuple,
+      EvaluationAccessRevokedEvent.OutputObject
+    >;
+    EvaluationAccessRevoked: TypedContractEvent<
+      EvaluationAccessRevokedEvent.InputTuple,
+      EvaluationAccessRevokedEvent.OutputTuple,
+      EvaluationAccessRevokedEvent.OutputObject
+    >;
+
+    "ExperienceEvaluated(address,address,bytes32)": TypedContractEvent<
+      ExperienceEvaluatedEvent.InputTuple,
+      ExperienceEvaluatedEvent.OutputTuple,
+      ExperienceEvaluatedEvent.OutputObject
+    >;
+    ExperienceEvaluated: TypedContractEvent<
+      ExperienceEvaluatedEvent.InputTuple,
+      ExperienceEvaluatedEvent.OutputTuple,
+      ExperienceEvaluatedEvent.OutputObject
+    >;
+
+    "HRAccessRequestRejected(address,address)": TypedContractEvent<
+      HRAccessRequestRejectedEvent.InputTuple,
+      HRAccessRequestRejectedEvent.OutputTuple,
+      HRAccessRequestRejectedEvent.OutputObject
+    >;
+    HRAccessRequestRejected: TypedContractEvent<
+      HRAccessRequestRejectedEvent.InputTuple,
+      HRAccessRequestRejectedEvent.OutputTuple,
+      HRAccessRequestRejectedEvent.OutputObject
+    >;
+
+    "HRAccessRequested(address,address)": TypedContractEvent<
+      HRAccessRequestedEvent.InputTuple,
+      HRAccessRequestedEvent.OutputTuple,
+      HRAccessRequestedEvent.OutputObject
+    >;
+    HRAccessRequested: TypedContractEvent<
+      HRAccessRequestedEvent.InputTuple,
+      HRAccessRequestedEvent.OutputTuple,
+      HRAccessRequestedEvent.OutputObject
+    >;
+
+    "HRAuthorized(address,address)": TypedContractEvent<
       HRAuthorizedEvent.InputTuple,
       HRAuthorizedEvent.OutputTuple,
       HRAuthorizedEvent.OutputObject
@@ -415,7 +2017,7 @@ export interface SecureResume extends BaseContract {
       HRAuthorizedEvent.OutputObject
     >;
 
-    "HRRevoked(address)": TypedContractEvent<
+    "HRRevoked(address,address)": TypedContractEvent<
       HRRevokedEvent.InputTuple,
       HRRevokedEvent.OutputTuple,
       HRRevokedEvent.OutputObject
@@ -426,7 +2028,84 @@ export interface SecureResume extends BaseContract {
       HRRevokedEvent.OutputObject
     >;
 
-    "ResumeSubmitted(address)": TypedContractEvent<
+    "JobApplicationSubmitted(uint256,address)": TypedContractEvent<
+      JobApplicationSubmittedEvent.InputTuple,
+      JobApplicationSubmittedEvent.OutputTuple,
+      JobApplicationSubmittedEvent.OutputObject
+    >;
+    JobApplicationSubmitted: TypedContractEvent<
+      JobApplicationSubmittedEvent.InputTuple,
+      JobApplicationSubmittedEvent.OutputTuple,
+      JobApplicationSubmittedEvent.OutputObject
+    >;
+
+    "JobPostingClosed(uint256,address)": TypedContractEvent<
+      JobPostingClosedEvent.InputTuple,
+      JobPostingClosedEvent.OutputTuple,
+      JobPostingClosedEvent.OutputObject
+    >;
+    JobPostingClosed: TypedContractEvent<
+      JobPostingClosedEvent.InputTuple,
+      JobPostingClosedEvent.OutputTuple,
+      JobPostingClosedEvent.OutputObject
+    >;
+
+    "JobPostingCreated(uint256,address,uint8)": TypedContractEvent<
+      JobPostingCreatedEvent.InputTuple,
+      JobPostingCreatedEvent.OutputTuple,
+      JobPostingCreatedEvent.OutputObject
+    >;
+    JobPostingCreated: TypedContractEvent<
+      JobPostingCreatedEvent.InputTuple,
+      JobPostingCreatedEvent.OutputTuple,
+      JobPostingCreatedEvent.OutputObject
+    >;
+
+    "OrgAdminAdded(address,address)": TypedContractEvent<
+      OrgAdminAddedEvent.InputTuple,
+      OrgAdminAddedEvent.OutputTuple,
+      OrgAdminAddedEvent.OutputObject
+    >;
+    OrgAdminAdded: TypedContractEvent<
+      OrgAdminAddedEvent.InputTuple,
+      OrgAdminAddedEvent.OutputTuple,
+      OrgAdminAddedEvent.OutputObject
+    >;
+
+    "OrgAdminRemoved(address,address)": TypedContractEvent<
+      OrgAdminRemovedEvent.InputTuple,
+      OrgAdminRemovedEvent.OutputTuple,
+      OrgAdminRemovedEvent.OutputObject
+    >;
+    OrgAdminRemoved: TypedContractEvent<
+      OrgAdminRemovedEvent.InputTuple,
+      OrgAdminRemovedEvent.OutputTuple,
+      OrgAdminRemovedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "ResumeDeleted(address,uint64)": TypedContractEvent<
+      ResumeDeletedEvent.InputTuple,
+      ResumeDeletedEvent.OutputTuple,
+      ResumeDeletedEvent.OutputObject
+    >;
+    ResumeDeleted: TypedContractEvent<
+      ResumeDeletedEvent.InputTuple,
+      ResumeDeletedEvent.OutputTuple,
+      ResumeDeletedEvent.OutputObject
+    >;
+
+    "ResumeSubmitted(address,uint64,uint8)": TypedContractEvent<
       ResumeSubmittedEvent.InputTuple,
       ResumeSubmittedEvent.OutputTuple,
       ResumeSubmittedEvent.OutputObject
@@ -437,7 +2116,7 @@ export interface SecureResume extends BaseContract {
       ResumeSubmittedEvent.OutputObject
     >;
 
-    "ResumeUpdated(address)": TypedContractEvent<
+    "ResumeUpdated(address,uint64)": TypedContractEvent<
       ResumeUpdatedEvent.InputTuple,
       ResumeUpdatedEvent.OutputTuple,
       ResumeUpdatedEvent.OutputObject
@@ -447,5 +2126,82 @@ export interface SecureResume extends BaseContract {
       ResumeUpdatedEvent.OutputTuple,
       ResumeUpdatedEvent.OutputObject
     >;
+
+    "SalaryEvaluated(address,address,bytes32)": TypedContractEvent<
+      SalaryEvaluatedEvent.InputTuple,
+      SalaryEvaluatedEvent.OutputTuple,
+      SalaryEvaluatedEvent.OutputObject
+    >;
+    SalaryEvaluated: TypedContractEvent<
+      SalaryEvaluatedEvent.InputTuple,
+      SalaryEvaluatedEvent.OutputTuple,
+      SalaryEvaluatedEvent.OutputObject
+    >;
+
+    "SkillAdded(address,uint256)": TypedContractEvent<
+      SkillAddedEvent.InputTuple,
+      SkillAddedEvent.OutputTuple,
+      SkillAddedEvent.OutputObject
+    >;
+    SkillAdded: TypedContractEvent<
+      SkillAddedEvent.InputTuple,
+      SkillAddedEvent.OutputTuple,
+      SkillAddedEvent.OutputObject
+    >;
+
+    "SkillCountCalculated(address,address,uint256[],string[],uint32[],bytes32)": TypedContractEvent<
+      SkillCountCalculatedEvent.InputTuple,
+      SkillCountCalculatedEvent.OutputTuple,
+      SkillCountCalculatedEvent.OutputObject
+    >;
+    SkillCountCalculated: TypedContractEvent<
+      SkillCountCalculatedEvent.InputTuple,
+      SkillCountCalculatedEvent.OutputTuple,
+      SkillCountCalculatedEvent.OutputObject
+    >;
+
+    "SkillEvaluated(address,address,uint256,string,bytes32)": TypedContractEvent<
+      SkillEvaluatedEvent.InputTuple,
+      SkillEvaluatedEvent.OutputTuple,
+      SkillEvaluatedEvent.OutputObject
+    >;
+    SkillEvaluated: TypedContractEvent<
+      SkillEvaluatedEvent.InputTuple,
+      SkillEvaluatedEvent.OutputTuple,
+      SkillEvaluatedEvent.OutputObject
+    >;
+
+    "SkillRemoved(address,uint256)": TypedContractEvent<
+      SkillRemovedEvent.InputTuple,
+      SkillRemovedEvent.OutputTuple,
+      SkillRemovedEvent.OutputObject
+    >;
+    SkillRemoved: TypedContractEvent<
+      SkillRemovedEvent.InputTuple,
+      SkillRemovedEvent.OutputTuple,
+      SkillRemovedEvent.OutputObject
+    >;
+
+    "SkillScoreCalculated(address,address,uint256[],string[],bytes32,bytes32)": TypedContractEvent<
+      SkillScoreCalculatedEvent.InputTuple,
+      SkillScoreCalculatedEvent.OutputTuple,
+      SkillScoreCalculatedEvent.OutputObject
+    >;
+    SkillScoreCalculated: TypedContractEvent<
+      SkillScoreCalculatedEvent.InputTuple,
+      SkillScoreCalculatedEvent.OutputTuple,
+      SkillScoreCalculatedEvent.OutputObject
+    >;
+
+    "SkillsReordered(address)": TypedContractEvent<
+      SkillsReorderedEvent.InputTuple,
+      SkillsReorderedEvent.OutputTuple,
+      SkillsReorderedEvent.OutputObject
+    >;
+    SkillsReordered: TypedContractEvent<
+      SkillsReorderedEvent.InputTuple,
+      SkillsReorderedEvent.OutputTuple,
+      SkillsReorderedEvent.OutputObject
+    >;
   };
 }
@@ -36,7 +36,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x608060405234801561000f575f5ffd5b5061013661005a60408051608080820183525f808352602080840182905283850182905260609384018290528451928301855281835282018190529281018390529081019190915290565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831691841691909117905560608301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909216921691909117905550565b604b806101425f395ff3fe6080604052348015600e575f5ffd5b50600436106026575f3560e01c8063da1f12ab14602a575b5f5ffd5b600160405190815260200160405180910390f3fea164736f6c634300081b000a";
+  "0x6080604052346100fc575f6060610014610100565b82815282602082015282604082015201525f6060610030610100565b8281526020810183905260408082018490529101919091527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081169091557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054821690557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054821690557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909116905551604b90816101348239f35b5f80fd5b60405190608082016001600160401b0381118382101761011f57604052565b634e487b7160e01b5f52604160045260245ffdfe60808060405260043610156011575f80fd5b5f3560e01c63da1f12ab146023575f80fd5b34603a575f366003190112603a5780600160209252f35b5f80fdfea164736f6c634300081b000a";
 
 type EthereumConfigConstructorParams =
   | [signer?: Signer]
@@ -7,7 +7,12 @@ import {
   ContractTransactionResponse,
   Interface,
 } from "ethers";
-import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
 import type { NonPayableOverrides } from "../../common";
 import type {
   SecureResume,
@@ -16,68 +21,1826 @@ import type {
 
 const _abi = [
   {
-    anonymous: false,
     inputs: [
       {
-        indexed: true,
+        internalType: "uint256",
+        name: "maxSkillsPerResume",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "admin",
+        type: "address",
+      },
+    ],
+    name: "AdminAlreadyAdded",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "admin",
+        type: "address",
+      },
+    ],
+    name: "AdminNotFound",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postingId",
+        type: "uint256",
+      },
+    ],
+    name: "AlreadyApplied",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postingId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+    ],
+    name: "ApplicationNotFound",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxCount",
+        type: "uint256",
+      },
+    ],
+    name: "CandidateCountOutOfRange",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+    ],
+    name: "CareerDetailsNotProvided",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "skillIndex",
+        type: "uint256",
+      },
+    ],
+    name: "DuplicateSkillIndex",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EducationTooLong",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint64",
+        name: "expiresAt",
+        type: "uint64",
+      },
+    ],
+    name: "ExpiryNotInFuture",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
         internalType: "address",
         name: "hr",
         type: "address",
       },
     ],
-    name: "HRAuthorized",
-    type: "event",
+    name: "HRAlreadyAuthorized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidCap",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidMaxSkills",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidMinLevel",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidName",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "skillIndex",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidSkillIndex",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSkillOrder",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidTitle",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidWeights",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postingId",
+        type: "uint256",
+      },
+    ],
+    name: "JobPostingNotActive",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postingId",
+        type: "uint256",
+      },
+    ],
+    name: "JobPostingNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "LastSkillCannotBeRemoved",
+    type: "error",
   },
   {
-    anonymous: false,
     inputs: [
       {
-        indexed: true,
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+      {
         internalType: "address",
         name: "hr",
         type: "address",
       },
     ],
-    name: "HRRevoked",
-    type: "event",
+    name: "NoEvaluationAccess",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+    ],
+    name: "NoPendingRequest",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoSkillsSelected",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "NotAdmin",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "NotAuthorizedHR",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+    ],
+    name: "NotHRAdmin",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postingId",
+        type: "uint256",
+      },
+    ],
+    name: "NotPostingOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+    ],
+    name: "NotRequestedAdmin",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "admin",
+        type: "address",
+      },
+    ],
+    name: "RequestAlreadyPending",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "ResumeAlreadyExists",
+    type: "error",
   },
   {
-    anonymous: false,
     inputs: [
       {
-        indexed: true,
         internalType: "address",
         name: "user",
         type: "address",
       },
     ],
-    name: "ResumeSubmitted",
-    type: "event",
+    name: "ResumeNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ScoreArraysLengthMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SkillArraysLengthMismatch",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxCount",
+        type: "uint256",
+      },
+    ],
+    name: "SkillCountOutOfRange",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "minCount",
+        type: "uint256",
+      },
+    ],
+    name: "TooFewSkillsSelected",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    name: "VersionNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "WorkExperienceTooLong",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ZeroAddress",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address[]",
+        name: "candidates",
+        type: "address[]",
+      },
+      {
+        indexed: false,
+        internalType: "ebool[]",
+        name: "overallMatches",
+        type: "bytes32[]",
+      },
+      {
+        indexed: false,
+        internalType: "euint32[]",
+        name: "matchCounts",
+        type: "bytes32[]",
+      },
+    ],
+    name: "BatchEvaluated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string[]",
+        name: "skillNames",
+        type: "string[]",
+      },
+      {
+        indexed: false,
+        internalType: "ebool",
+        name: "overallMatch",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "matchCount",
+        type: "bytes32",
+      },
+    ],
+    name: "CandidateBatchEvaluated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "CareerDetailsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "expiresAt",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "skillIndices",
+        type: "uint256[]",
+      },
+    ],
+    name: "EvaluationAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+    ],
+    name: "EvaluationAccessRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "ebool",
+        name: "result",
+        type: "bytes32",
+      },
+    ],
+    name: "ExperienceEvaluated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "admin",
+        type: "address",
+      },
+    ],
+    name: "HRAccessRequestRejected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "admin",
+        type: "address",
+      },
+    ],
+    name: "HRAccessRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "authorizedBy",
+        type: "address",
+      },
+    ],
+    name: "HRAuthorized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "revokedBy",
+        type: "address",
+      },
+    ],
+    name: "HRRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "postingId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+    ],
+    name: "JobApplicationSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "postingId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+    ],
+    name: "JobPostingClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "postingId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "requirementCount",
+        type: "uint8",
+      },
+    ],
+    name: "JobPostingCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "admin",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "addedBy",
+        type: "address",
+      },
+    ],
+    name: "OrgAdminAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "admin",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "removedBy",
+        type: "address",
+      },
+    ],
+    name: "OrgAdminRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "timestamp",
+        type: "uint64",
+      },
+    ],
+    name: "ResumeDeleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "timestamp",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "skillCount",
+        type: "uint8",
+      },
+    ],
+    name: "ResumeSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "timestamp",
+        type: "uint64",
+      },
+    ],
+    name: "ResumeUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "ebool",
+        name: "result",
+        type: "bytes32",
+      },
+    ],
+    name: "SalaryEvaluated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "skillIndex",
+        type: "uint256",
+      },
+    ],
+    name: "SkillAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "skillIndices",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "string[]",
+        name: "skillNames",
+        type: "string[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[]",
+        name: "minLevels",
+        type: "uint32[]",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "matchCount",
+        type: "bytes32",
+      },
+    ],
+    name: "SkillCountCalculated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "skillIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "skillName",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "ebool",
+        name: "result",
+        type: "bytes32",
+      },
+    ],
+    name: "SkillEvaluated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "skillIndex",
+        type: "uint256",
+      },
+    ],
+    name: "SkillRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "skillIndices",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "string[]",
+        name: "skillNames",
+        type: "string[]",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "weightedScore",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "normalizedScore",
+        type: "bytes32",
+      },
+    ],
+    name: "SkillScoreCalculated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "SkillsReordered",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_BATCH_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_VERSIONS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_WEIGHTED_SKILLS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "admin",
+        type: "address",
+      },
+    ],
+    name: "addOrgAdmin",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "skillName",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "skillLevelExt",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "addSkill",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postingId",
+        type: "uint256",
+      },
+    ],
+    name: "applyToJob",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+    ],
+    name: "authorizeHR",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "candidates",
+        type: "address[]",
+      },
+      {
+        internalType: "string[]",
+        name: "skillNames",
+        type: "string[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "minLevelsExt",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "batchEvaluate",
+    outputs: [
+      {
+        internalType: "ebool[]",
+        name: "overallMatches",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "matchCounts",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "skillIndices",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint32[]",
+        name: "minLevels",
+        type: "uint32[]",
+      },
+    ],
+    name: "calculateSkillScore",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "matchCount",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "skillIndices",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint32[]",
+        name: "weights",
+        type: "uint32[]",
+      },
+      {
+        internalType: "uint32[]",
+        name: "caps",
+        type: "uint32[]",
+      },
+    ],
+    name: "calculateWeightedScore",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "weightedScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "normalizedScore",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "skillIndex",
+        type: "uint256",
+      },
+    ],
+    name: "canEvaluate",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postingId",
+        type: "uint256",
+      },
+    ],
+    name: "closeJobPosting",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "title",
+        type: "string",
+      },
+      {
+        internalType: "string[]",
+        name: "skillNames",
+        type: "string[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "minLevelsExt",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "createJobPosting",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "deleteResume",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "minYearsExt",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "maxYearsExt",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "evaluateExperienceRange",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "inRange",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "budgetExt",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "evaluateSalaryBudget",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "withinBudget",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "skillIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "requiredLevelExt",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "evaluateSkillMatch",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getCareerDetails",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "yearsOfExperience",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "expectedSalary",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+    ],
+    name: "getEvaluationGrant",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+      {
+        internalType: "uint64",
+        name: "expiresAt",
+        type: "uint64",
+      },
+      {
+        internalType: "bool",
+        name: "allSkills",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "skillMask",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+    ],
+    name: "getEvaluationGrantees",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getHRAddresses",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postingId",
+        type: "uint256",
+      },
+    ],
+    name: "getJobApplicants",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postingId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
+    ],
+    name: "getJobApplication",
+    outputs: [
+      {
+        internalType: "ebool[]",
+        name: "requirementMatches",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "ebool",
+        name: "overallMatch",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "matchCount",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint64",
+        name: "appliedAt",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postingId",
+        type: "uint256",
+      },
+    ],
+    name: "getJobPosting",
+    outputs: [
+      {
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "title",
+        type: "string",
+      },
+      {
+        internalType: "string[]",
+        name: "requiredSkillNames",
+        type: "string[]",
+      },
+      {
+        internalType: "uint64",
+        name: "createdAt",
+        type: "uint64",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "applicantCount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getJobPostingCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postingId",
+        type: "uint256",
+      },
+    ],
+    name: "getJobPostingMinLevels",
+    outputs: [
+      {
+        internalType: "euint32[]",
+        name: "",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getOldestResumeVersion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "admin",
+        type: "address",
+      },
+    ],
+    name: "getPendingHRRequests",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getResumeInfo",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "education",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "workExperience",
+        type: "string",
+      },
+      {
+        internalType: "string[]",
+        name: "skillNames",
+        type: "string[]",
+      },
+      {
+        internalType: "uint64",
+        name: "createdAt",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "updatedAt",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    name: "getResumeVersion",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "education",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "workExperience",
+        type: "string",
+      },
+      {
+        internalType: "string[]",
+        name: "skillNames",
+        type: "string[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "skillLevels",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "uint64",
+        name: "updatedAt",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getResumeVersionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getSkillLevels",
+    outputs: [
+      {
+        internalType: "euint32[]",
+        name: "",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
   },
   {
-    anonymous: false,
     inputs: [
       {
-        indexed: true,
         internalType: "address",
-        name: "user",
+        name: "candidate",
         type: "address",
       },
+      {
+        internalType: "uint256",
+        name: "skillIndex",
+        type: "uint256",
+      },
     ],
-    name: "ResumeUpdated",
-    type: "event",
+    name: "getSkillMatch",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
   },
   {
-    inputs: [
+    inputs: [],
+    name: "getStats",
+    outputs: [
       {
-        internalType: "address",
-        name: "hr",
-        type: "address",
+        internalType: "uint256",
+        name: "totalResumes",
+        type: "uint256",
       },
     ],
-    name: "authorizeHR",
-    outputs: [],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
@@ -92,40 +1855,78 @@ const _abi = [
         name: "skillIndices",
         type: "uint256[]",
       },
+      {
+        internalType: "uint32[]",
+        name: "weights",
+        type: "uint32[]",
+      },
+      {
+        internalType: "uint32[]",
+        name: "caps",
+        type: "uint32[]",
+      },
     ],
-    name: "calculateSkillScore",
+    name: "getWeightedScore",
     outputs: [
       {
         internalType: "euint32",
-        name: "",
+        name: "weightedScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "normalizedScore",
         type: "bytes32",
       },
     ],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
     inputs: [
       {
         internalType: "address",
-        name: "candidate",
+        name: "hr",
         type: "address",
       },
+      {
+        internalType: "uint256[]",
+        name: "skillIndices",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint64",
+        name: "expiresAt",
+        type: "uint64",
+      },
+    ],
+    name: "grantEvaluationAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "skillIndex",
+        name: "postingId",
         type: "uint256",
       },
+      {
+        internalType: "address",
+        name: "candidate",
+        type: "address",
+      },
     ],
-    name: "evaluateSkillMatch",
+    name: "hasAppliedToJob",
     outputs: [
       {
-        internalType: "euint32",
+        internalType: "bool",
         name: "",
-        type: "bytes32",
+        type: "bool",
       },
     ],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
@@ -136,37 +1937,50 @@ const _abi = [
         type: "address",
       },
     ],
-    name: "getResumeInfo",
+    name: "hasResume",
     outputs: [
       {
-        internalType: "string",
-        name: "name",
-        type: "string",
-      },
-      {
-        internalType: "string",
-        name: "education",
-        type: "string",
+        internalType: "bool",
+        name: "",
+        type: "bool",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        internalType: "string",
-        name: "workExperience",
-        type: "string",
+        internalType: "address",
+        name: "",
+        type: "address",
       },
+    ],
+    name: "hrAccessRequests",
+    outputs: [
       {
-        internalType: "string[]",
-        name: "skillNames",
-        type: "string[]",
+        internalType: "address",
+        name: "",
+        type: "address",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        internalType: "uint64",
-        name: "createdAt",
-        type: "uint64",
+        internalType: "address",
+        name: "",
+        type: "address",
       },
+    ],
+    name: "hrAddresses",
+    outputs: [
       {
-        internalType: "uint64",
-        name: "updatedAt",
-        type: "uint64",
+        internalType: "bool",
+        name: "",
+        type: "bool",
       },
     ],
     stateMutability: "view",
@@ -176,16 +1990,16 @@ const _abi = [
     inputs: [
       {
         internalType: "address",
-        name: "user",
+        name: "",
         type: "address",
       },
     ],
-    name: "getSkillLevels",
+    name: "hrAdminOf",
     outputs: [
       {
-        internalType: "euint32[]",
+        internalType: "address",
         name: "",
-        type: "bytes32[]",
+        type: "address",
       },
     ],
     stateMutability: "view",
@@ -193,11 +2007,11 @@ const _abi = [
   },
   {
     inputs: [],
-    name: "getStats",
+    name: "maxSkills",
     outputs: [
       {
         internalType: "uint256",
-        name: "totalResumes",
+        name: "",
         type: "uint256",
       },
     ],
@@ -208,11 +2022,11 @@ const _abi = [
     inputs: [
       {
         internalType: "address",
-        name: "user",
+        name: "",
         type: "address",
       },
     ],
-    name: "hasResume",
+    name: "orgAdmins",
     outputs: [
       {
         internalType: "bool",
@@ -224,21 +2038,15 @@ const _abi = [
     type: "function",
   },
   {
-    inputs: [
+    inputs: [],
+    name: "owner",
+    outputs: [
       {
         internalType: "address",
         name: "",
         type: "address",
       },
     ],
-    name: "hrAddresses",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
     stateMutability: "view",
     type: "function",
   },
@@ -255,6 +2063,84 @@ const _abi = [
     stateMutability: "pure",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+    ],
+    name: "rejectHRRequest",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "admin",
+        type: "address",
+      },
+    ],
+    name: "removeOrgAdmin",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "skillIndex",
+        type: "uint256",
+      },
+    ],
+    name: "removeSkill",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "newOrder",
+        type: "uint256[]",
+      },
+    ],
+    name: "reorderSkills",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "admin",
+        type: "address",
+      },
+    ],
+    name: "requestHRAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "hr",
+        type: "address",
+      },
+    ],
+    name: "revokeEvaluationAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -268,6 +2154,29 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "yearsOfExperienceExt",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "expectedSalaryExt",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setCareerDetails",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -306,6 +2215,19 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -347,7 +2269,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x608060405234801561000f575f5ffd5b5061018a6100ae604080516080810182525f80825260208201819052918101829052606081019190915250604080516080810182527350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c2881291810191909152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac606082015290565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831691841691909117905560608301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909216921691909117905550565b6122a9806101975f395ff3fe608060405234801561000f575f5ffd5b50600436106100cf575f3560e01c8063a4a06db21161007d578063d24a5e9a11610058578063d24a5e9a146101d8578063da1f12ab146101fd578063eb870b8214610205575f5ffd5b8063a4a06db21461019d578063a90cd594146101b0578063c59d4847146101d2575f5ffd5b80633764fcff116100ad5780633764fcff146101325780636d898b00146101455780636dba272514610158575f5ffd5b8063062b415d146100d3578063074252d1146100e8578063183329f314610111575b5f5ffd5b6100e66100e1366004611c96565b610218565b005b6100fb6100f6366004611de7565b61070f565b6040516101089190611e00565b60405180910390f35b61012461011f366004611e42565b6108f6565b604051908152602001610108565b6100e6610140366004611c96565b610b60565b6100e6610153366004611de7565b610f52565b61018d610166366004611de7565b6001600160a01b03165f908152602081905260409020600d0154600160881b900460ff1690565b6040519015158152602001610108565b6101246101ab366004611e91565b610fa0565b61018d6101be366004611de7565b60016020525f908152604090205460ff1681565b5f610124565b6101eb6101e6366004611de7565b61119a565b60405161010896959493929190611ee7565b612711610124565b6100e6610213366004611de7565b61180e565b335f908152602081905260409020600d0154600160881b900460ff1661027d5760405162461bcd60e51b815260206004820152601560248201527414995cdd5b5948191bd95cc81b9bdd08195e1a5cdd605a1b60448201526064015b60405180910390fd5b8483146102cc5760405162461bcd60e51b815260206004820152601c60248201527f536b696c6c20617272617973206c656e677468206d69736d61746368000000006044820152606401610274565b84158015906102dc575060058511155b6103285760405162461bcd60e51b815260206004820152601460248201527f4d757374206861766520312d3520736b696c6c730000000000000000000000006044820152606401610274565b8a6103755760405162461bcd60e51b815260206004820152601460248201527f4e616d652063616e6e6f7420626520656d7074790000000000000000000000006044820152606401610274565b335f9081526020819052604090208061038f8d8f83612046565b506001810161039f8b8d83612046565b50600281016103af898b83612046565b50600d8101805467ffffffffffffffff421669010000000000000000000270ffffffffffffffff0000000000000000ff1990911660ff89161717905560408051602081019091525f815260088201906104089082612100565b5060408051602081019091525f815260098201906104269082612100565b5060408051602081019091525f8152600a8201906104449082612100565b5060408051602081019091525f8152600b8201906104629082612100565b5060408051602081019091525f8152600c8201906104809082612100565b505f5b868110156106d5575f6104e38787848181106104a1576104a16121bb565b9050602002013586868080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061185692505050565b9050815f0361054a5760038301819055888883818110610505576105056121bb565b905060200281019061051791906121cf565b6008850191610527919083612046565b506105358360030154611863565b50610544836003015433611872565b506106cc565b816001036105aa576004830181905588888381811061056b5761056b6121bb565b905060200281019061057d91906121cf565b600985019161058d919083612046565b5061059b8360040154611863565b50610544836004015433611872565b8160020361060a57600583018190558888838181106105cb576105cb6121bb565b90506020028101906105dd91906121cf565b600a8501916105ed919083612046565b506105fb8360050154611863565b50610544836005015433611872565b8160030361066a576006830181905588888381811061062b5761062b6121bb565b905060200281019061063d91906121cf565b600b85019161064d919083612046565b5061065b8360060154611863565b50610544836006015433611872565b816004036106cc576007830181905588888381811061068b5761068b6121bb565b905060200281019061069d91906121cf565b600c8501916106ad919083612046565b506106bb8360070154611863565b506106ca836007015433611872565b505b50600101610483565b5060405133907f2f553078529a300e0bdcc308c536a5568db4bea49762041dd34c279de778e7b4905f90a250505050505050505050505050565b6001600160a01b0381165f908152602081905260409020600d0154606090600160881b900460ff1661077b5760405162461bcd60e51b815260206004820152601560248201527414995cdd5b5948191bd95cc81b9bdd08195e1a5cdd605a1b6044820152606401610274565b6001600160a01b0382165f908152602081905260408120600d81015490919060ff1667ffffffffffffffff8111156107b5576107b5611fae565b6040519080825280602002602001820160405280156107de578160200160208202803683370190505b50600d830154909150600160ff90911610610817578160030154815f8151811061080a5761080a6121bb565b6020026020010181815250505b600d820154600260ff9091161061084d57816004015481600181518110610840576108406121bb565b6020026020010181815250505b600d820154600360ff9091161061088357816005015481600281518110610876576108766121bb565b6020026020010181815250505b600d820154600460ff909116106108b9578160060154816003815181106108ac576108ac6121bb565b6020026020010181815250505b600d820154600560ff909116106108ef578160070154816004815181106108e2576108e26121bb565b6020026020010181815250505b9392505050565b335f9081526001602052604081205460ff166109545760405162461bcd60e51b815260206004820152601160248201527f4e6f7420617574686f72697a65642048520000000000000000000000000000006044820152606401610274565b6001600160a01b0384165f908152602081905260409020600d0154600160881b900460ff166109bd5760405162461bcd60e51b815260206004820152601560248201527414995cdd5b5948191bd95cc81b9bdd08195e1a5cdd605a1b6044820152606401610274565b6001600160a01b0384165f908152602081905260408120906109de81611884565b90505f5b84811015610b4157600d83015460ff16868683818110610a0457610a046121bb565b9050602002013510610a4e5760405162461bcd60e51b8152602060048201526013602482015272092dcecc2d8d2c840e6d6d2d8d840d2dcc8caf606b1b6044820152606401610274565b5f868683818110610a6157610a616121bb565b905060200201355f03610a7957506003830154610b2b565b868683818110610a8b57610a8b6121bb565b90506020020135600103610aa457506004830154610b2b565b868683818110610ab657610ab66121bb565b90506020020135600203610acf57506005830154610b2b565b868683818110610ae157610ae16121bb565b90506020020135600303610afa57506006830154610b2b565b868683818110610b0c57610b0c6121bb565b90506020020135600403610b2557506007830154610b2b565b50610b39565b610b35838261189c565b9250505b6001016109e2565b50610b4b81611863565b50610b568133611872565b5095945050505050565b848314610baf5760405162461bcd60e51b815260206004820152601c60248201527f536b696c6c20617272617973206c656e677468206d69736d61746368000000006044820152606401610274565b8415801590610bbf575060058511155b610c0b5760405162461bcd60e51b815260206004820152601460248201527f4d757374206861766520312d3520736b696c6c730000000000000000000000006044820152606401610274565b8a610c585760405162461bcd60e51b815260206004820152601460248201527f4e616d652063616e6e6f7420626520656d7074790000000000000000000000006044820152606401610274565b335f90815260208190526040902080610c728d8f83612046565b5060018101610c828b8d83612046565b5060028101610c92898b83612046565b50600d8101805471ff000000000000000000000000000000000019690100000000000000000067ffffffffffffffff42169081029190911671ffffffffffffffffff000000000000000000196101009290920268ffffffffffffffffff1990931660ff8b1617929092171617600160881b1790555f5b86811015610f18575f610d268787848181106104a1576104a16121bb565b9050815f03610d8d5760038301819055888883818110610d4857610d486121bb565b9050602002810190610d5a91906121cf565b6008850191610d6a919083612046565b50610d788360030154611863565b50610d87836003015433611872565b50610f0f565b81600103610ded5760048301819055888883818110610dae57610dae6121bb565b9050602002810190610dc091906121cf565b6009850191610dd0919083612046565b50610dde8360040154611863565b50610d87836004015433611872565b81600203610e4d5760058301819055888883818110610e0e57610e0e6121bb565b9050602002810190610e2091906121cf565b600a850191610e30919083612046565b50610e3e8360050154611863565b50610d87836005015433611872565b81600303610ead5760068301819055888883818110610e6e57610e6e6121bb565b9050602002810190610e8091906121cf565b600b850191610e90919083612046565b50610e9e8360060154611863565b50610d87836006015433611872565b81600403610f0f5760078301819055888883818110610ece57610ece6121bb565b9050602002810190610ee091906121cf565b600c850191610ef0919083612046565b50610efe8360070154611863565b50610f0d836007015433611872565b505b50600101610d08565b5060405133907f47366e32953474aab4e7614c7f4831cb4fe7e54b51b3e5c3ba0fdafa2af6a0e2905f90a250505050505050505050505050565b6001600160a01b0381165f818152600160208190526040808320805460ff1916909217909155517f3a870bf64864bca8e5c9b67d7bc058536151ae9ed4e30e455f2c785a5f0ad7e39190a250565b335f9081526001602052604081205460ff16610ffe5760405162461bcd60e51b815260206004820152601160248201527f4e6f7420617574686f72697a65642048520000000000000000000000000000006044820152606401610274565b6001600160a01b0383165f908152602081905260409020600d0154600160881b900460ff166110675760405162461bcd60e51b815260206004820152601560248201527414995cdd5b5948191bd95cc81b9bdd08195e1a5cdd605a1b6044820152606401610274565b6001600160a01b0383165f908152602081905260409020600d015460ff1682106110c95760405162461bcd60e51b8152602060048201526013602482015272092dcecc2d8d2c840e6d6d2d8d840d2dcc8caf606b1b6044820152606401610274565b6001600160a01b0383165f908152602081905260408120908381036110f35750600381015461117d565b836001036111065750600481015461117d565b836002036111195750600581015461117d565b8360030361112c5750600681015461117d565b8360040361113f5750600781015461117d565b60405162461bcd60e51b8152602060048201526013602482015272092dcecc2d8d2c840e6d6d2d8d840d2dcc8caf606b1b6044820152606401610274565b61118681611863565b506111918133611872565b50949350505050565b6001600160a01b0381165f908152602081905260408120600d01546060918291829182918190600160881b900460ff1661120e5760405162461bcd60e51b815260206004820152601560248201527414995cdd5b5948191bd95cc81b9bdd08195e1a5cdd605a1b6044820152606401610274565b6001600160a01b0387165f908152602081905260408120600d81015490919060ff1667ffffffffffffffff81111561124857611248611fae565b60405190808252806020026020018201604052801561127b57816020015b60608152602001906001900390816112665790505b50600d830154909150600160ff909116106113395781600801805461129f90611fc2565b80601f01602080910402602001604051908101604052809291908181526020018280546112cb90611fc2565b80156113165780601f106112ed57610100808354040283529160200191611316565b820191905f5260205f20905b8154815290600101906020018083116112f957829003601f168201915b5050505050815f8151811061132d5761132d6121bb565b60200260200101819052505b600d820154600260ff909116106113f45781600901805461135990611fc2565b80601f016020809104026020016040519081016040528092919081815260200182805461138590611fc2565b80156113d05780601f106113a7576101008083540402835291602001916113d0565b820191905f5260205f20905b8154815290600101906020018083116113b357829003601f168201915b5050505050816001815181106113e8576113e86121bb565b60200260200101819052505b600d820154600360ff909116106114af5781600a01805461141490611fc2565b80601f016020809104026020016040519081016040528092919081815260200182805461144090611fc2565b801561148b5780601f106114625761010080835404028352916020019161148b565b820191905f5260205f20905b81548152906001019060200180831161146e57829003601f168201915b5050505050816002815181106114a3576114a36121bb565b60200260200101819052505b600d820154600460ff9091161061156a5781600b0180546114cf90611fc2565b80601f01602080910402602001604051908101604052809291908181526020018280546114fb90611fc2565b80156115465780601f1061151d57610100808354040283529160200191611546565b820191905f5260205f20905b81548152906001019060200180831161152957829003601f168201915b50505050508160038151811061155e5761155e6121bb565b60200260200101819052505b600d820154600560ff909116106116255781600c01805461158a90611fc2565b80601f01602080910402602001604051908101604052809291908181526020018280546115b690611fc2565b80156116015780601f106115d857610100808354040283529160200191611601565b820191905f5260205f20905b8154815290600101906020018083116115e457829003601f168201915b505050505081600481518110611619576116196121bb565b60200260200101819052505b600d8201548254839160018301916002840191859167ffffffffffffffff6101008304811692690100000000000000000090041690869061166590611fc2565b80601f016020809104026020016040519081016040528092919081815260200182805461169190611fc2565b80156116dc5780601f106116b3576101008083540402835291602001916116dc565b820191905f5260205f20905b8154815290600101906020018083116116bf57829003601f168201915b505050505095508480546116ef90611fc2565b80601f016020809104026020016040519081016040528092919081815260200182805461171b90611fc2565b80156117665780601f1061173d57610100808354040283529160200191611766565b820191905f5260205f20905b81548152906001019060200180831161174957829003601f168201915b5050505050945083805461177990611fc2565b80601f01602080910402602001604051908101604052809291908181526020018280546117a590611fc2565b80156117f05780601f106117c7576101008083540402835291602001916117f0565b820191905f5260205f20905b8154815290600101906020018083116117d357829003601f168201915b50505050509350975097509750975097509750505091939550919395565b6001600160a01b0381165f81815260016020526040808220805460ff19169055517fc42b49eb3125a66d1757221ff561f492edb801dde6252972e1839545041fc4b69190a250565b5f6108ef838360046118ca565b5f61186e82306119ea565b5090565b5f61187d83836119ea565b5090919050565b5f6118968263ffffffff166004611a73565b92915050565b5f826118ae576118ab5f611884565b92505b816118bf576118bc5f611884565b91505b6108ef83835f611b30565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163196d0b9b60e01b81525f917f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b039091169063196d0b9b90611943908890339089908990600401612232565b6020604051808303815f875af115801561195f573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906119839190612271565b8154604051630f8e573b60e21b8152600481018390523360248201529193506001600160a01b031690633e395cec906044015f604051808303815f87803b1580156119cc575f5ffd5b505af11580156119de573d5f5f3e3d5ffd5b50505050509392505050565b5f7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497008054604051635ca4b5b160e11b8152600481018690526001600160a01b03858116602483015292935091169063b9496b62906044015f604051808303815f87803b158015611a58575f5ffd5b505af1158015611a6a573d5f5f3e3d5ffd5b50505050505050565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f917f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b0390911690639cd07acb90611ae89087908790600401612288565b6020604051808303815f875af1158015611b04573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190611b289190612271565b949350505050565b5f5f8215611b435750600160f81b611b46565b505f5b5f7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700600181015460405163022f65e760e31b815260048101899052602481018890527fff00000000000000000000000000000000000000000000000000000000000000851660448201529192506001600160a01b03169063117b2f38906064016020604051808303815f875af1158015611be2573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190611c069190612271565b9695505050505050565b5f5f83601f840112611c20575f5ffd5b50813567ffffffffffffffff811115611c37575f5ffd5b602083019150836020828501011115611c4e575f5ffd5b9250929050565b5f5f83601f840112611c65575f5ffd5b50813567ffffffffffffffff811115611c7c575f5ffd5b6020830191508360208260051b8501011115611c4e575f5ffd5b5f5f5f5f5f5f5f5f5f5f5f5f60c08d8f031215611cb1575f5ffd5b67ffffffffffffffff8d351115611cc6575f5ffd5b611cd38e8e358f01611c10565b909c509a5067ffffffffffffffff60208e01351115611cf0575f5ffd5b611d008e60208f01358f01611c10565b909a50985067ffffffffffffffff60408e01351115611d1d575f5ffd5b611d2d8e60408f01358f01611c10565b909850965067ffffffffffffffff60608e01351115611d4a575f5ffd5b611d5a8e60608f01358f01611c55565b909650945067ffffffffffffffff60808e01351115611d77575f5ffd5b611d878e60808f01358f01611c55565b909450925067ffffffffffffffff60a08e01351115611da4575f5ffd5b611db48e60a08f01358f01611c10565b81935080925050509295989b509295989b509295989b565b80356001600160a01b0381168114611de2575f5ffd5b919050565b5f60208284031215611df7575f5ffd5b6108ef82611dcc565b602080825282518282018190525f918401906040840190835b81811015611e37578351835260209384019390920191600101611e19565b509095945050505050565b5f5f5f60408486031215611e54575f5ffd5b611e5d84611dcc565b9250602084013567ffffffffffffffff811115611e78575f5ffd5b611e8486828701611c55565b9497909650939450505050565b5f5f60408385031215611ea2575f5ffd5b611eab83611dcc565b946020939093013593505050565b5f81518084528060208401602086015e5f602082860101526020601f19601f83011685010191505092915050565b60c081525f611ef960c0830189611eb9565b8281036020840152611f0b8189611eb9565b90508281036040840152611f1f8188611eb9565b9050828103606084015280865180835260208301915060208160051b840101602089015f5b83811015611f7657601f19868403018552611f60838351611eb9565b6020958601959093509190910190600101611f44565b505067ffffffffffffffff881660808701529350611f9392505050565b67ffffffffffffffff831660a0830152979650505050505050565b634e487b7160e01b5f52604160045260245ffd5b600181811c90821680611fd657607f821691505b602082108103611ff457634e487b7160e01b5f52602260045260245ffd5b50919050565b601f82111561204157805f5260205f20601f840160051c8101602085101561201f5750805b601f840160051c820191505b8181101561203e575f815560010161202b565b50505b505050565b67ffffffffffffffff83111561205e5761205e611fae565b6120728361206c8354611fc2565b83611ffa565b5f601f8411600181146120a3575f851561208c5750838201355b5f19600387901b1c1916600186901b17835561203e565b5f83815260208120601f198716915b828110156120d257868501358255602094850194600190920191016120b2565b50868210156120ee575f1960f88860031b161c19848701351681555b505060018560011b0183555050505050565b815167ffffffffffffffff81111561211a5761211a611fae565b61212e816121288454611fc2565b84611ffa565b6020601f821160018114612160575f83156121495750848201515b5f19600385901b1c1916600184901b17845561203e565b5f84815260208120601f198516915b8281101561218f578785015182556020948501946001909201910161216f565b50848210156121ac57868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b634e487b7160e01b5f52603260045260245ffd5b5f5f8335601e198436030181126121e4575f5ffd5b83018035915067ffffffffffffffff8211156121fe575f5ffd5b602001915036819003821315611c4e575f5ffd5b6054811061222e57634e487b7160e01b5f52602160045260245ffd5b9052565b8481526001600160a01b0384166020820152608060408201525f6122596080830185611eb9565b90506122686060830184612212565b95945050505050565b5f60208284031215612281575f5ffd5b5051919050565b828152604081016108ef602083018461221256fea164736f6c634300081b000a";
+  "0x60a06040523461027e57604051601f61593438819003918201601f19168301916001600160401b038311848410176102825780849260209460405283398101031261027e57515f6060610050610296565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac6060610080610296565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c28812604082015201527350157cffd6bbfa2dece204a89ec419c23ef5755d60018060a01b03195f5160206159145f395f51905f525416175f5160206159145f395f51905f525573cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6960018060a01b03195f5160206158d45f395f51905f525416175f5160206158d45f395f51905f525573a02cda4ca3a71d7c46997716f4283aa851c2881260018060a01b03195f5160206158f45f395f51905f525416175f5160206158f45f395f51905f5255731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60018060a01b03195f5160206158b45f395f51905f525416175f5160206158b45f395f51905f525580151580610273575b1561026457608052600480546001600160a01b03191633908117909155604051905f7f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08180a36155fe90816102b68239608051818181610d20015281816111ad0152818161139b01528181612d770152818161330b015281816134dd0152818161388c015281816139e201528181613ace0152613ca10152f35b6320393d0f60e01b5f5260045ffd5b5060ff8111156101ca565b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b038111838210176102825760405256fe60a06040526004361015610011575f80fd5b5f3560e01c806304f801a014613cc8578063062b415d14613a7d5780630734b88f14613a62578063074252d114613a0957806309f1d9da146137cc57806310ff1f5b1461377c5780631bde1b46146136df5780632505ebe8146136655780632da582fd1461362857806333246128146135045780633764fcff146132d857806337cb3def146130ab57806339b0d47714612fea5780633d09b54314612e7d57806344cbcadb14612d9a57806347e5a5a514612d60578063531ea36514612c095780635972615f14612b8e5780635bcc50be14612b555780635f4e16bf146129c05780636039a358146127ee578063630bba17146127ad57806365491e1e1461269a578063656faa0a146126105780636d898b00146124da5780636dba27251461249857806375d1f558146123af578063826e7c08146123885780638304bdea1461233957806384370dcd146122cf578063897c06f0146122b45780638c7c2f6b146121c05780638d3f16de14611f035780638da5cb5b14611edd5780638e1a32d014611ad55780638e353cbf146114e1578063982c1a74146114c45780639e58b83914611483578063a02dfb1414611458578063a5e506ae14611315578063a90cd594146112d8578063bf6aba541461125b578063c2b9038414611223578063c59d484714611206578063cbd55d0f14610c4a578063cfdbf25414610c2f578063d1ff12a514610c04578063d24a5e9a14610af6578063da1f12ab14610ada578063e123b68f14610978578063eadbd745146106aa578063eb870b82146104c9578063f2fde38b14610454578063f70072ca146103cd578063f77c59f4146103425763fdab306e14610281575f80fd5b3461033e57602036600319011261033e5761029a613eba565b6001600160a01b0360045416330361032f576001600160a01b0316801561032057805f52600560205260ff60405f20541661030e57805f52600560205260405f20600160ff1982541617905533907f5a7eed06ee222a46bce183ee2bdab32bec5fd908650cea62a0135582a2f776f25f80a3005b63a2188a7f60e01b5f5260045260245ffd5b63d92e233d60e01b5f5260045ffd5b6330cd747160e01b5f5260045ffd5b5f80fd5b3461033e57602036600319011261033e576001600160a01b03610363613eba565b165f52600e60205260405f206040519081602082549182815201915f5260205f20905f5b8181106103ae576103aa8561039e81870382614032565b60405191829182613d43565b0390f35b82546001600160a01b0316845260209093019260019283019201610387565b3461033e57604036600319011261033e576103e6613eba565b6001600160a01b036103f6613ed0565b91165f52600d6020526001600160a01b0360405f2091165f52602052608060405f2060ff6002820154169060ff600182549201549160405193151584526001600160401b038116602085015260401c16151560408301526060820152f35b3461033e57602036600319011261033e5761046d613eba565b600454906001600160a01b0382169081330361032f576001600160a01b031691821561032057826001600160a01b0319927f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a31617600455005b3461033e57602036600319011261033e576104e2613eba565b6001600160a01b036004541633148081159182610692575b6105059033906147c8565b6105286001600160a01b03841693845f52600360205260ff60405f20541661449b565b90610674575b15610662575f818152600360209081526040808320805460ff191690556006825280832080546001600160a01b031916905560089091529020546007545f19810190811161064e576105876001600160a01b03916142e0565b90549060031b1c165f19820182811161064e57816105a76105c6926142e0565b9091906001600160a01b038084549260031b9316831b921b1916179055565b5f52600860205260405f2055600754801561063a575f19016106016105ec8260076142f8565b6001600160a01b0382549160031b1b19169055565b600755805f5260086020525f604081205533907fd8e641f2569b651a190dc3b010e44e0961ed8bbf68b77c5acb5af30c067a01ea5f80a3005b634e487b7160e01b5f52603160045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b633cc471a360e01b5f5260045260245ffd5b50805f526006602052336001600160a01b0360405f2054161461052e565b50335f9081526005602052604090205460ff166104fa565b3461033e57606036600319011261033e576106c3613eba565b6024356001600160401b03811161033e576106e2903690600401613db2565b6044929192356001600160401b03811161033e57610704903690600401613db2565b939093335f5260036020526107203360ff60405f20541661449b565b6001600160a01b03841691825f525f6020526107498560ff600760405f20015460801c16614053565b83156109695781840361095a5761075e615583565b945f600160f81b5b868210610801575050957fa8c6369acec94be0c9b6f7bf3da50dd12ed05603b3e12774989677fe27899b5e926107de836107d16107be896107ec9760209d6107b98e6107b23082615424565b3390615424565b615150565b916040519960808b5260808b0191614743565b908882038b8a0152613f3d565b918683036040880152614946565b928460608201528033940390a3604051908152f35b90968863ffffffff6108286108238b8961081c828e8c614443565b3595614443565b614855565b885f525f60205261084283600460405f2001548110614588565b6108573387610852863383614d3a565b614539565b1690811561094b5761087690885f525f602052600460405f20016142f8565b90549060031b1c838115610938575b5f5160206155d25f395f51905f5254604051631391547f60e01b815260048101939093526024830193909352604482015290602090829060649082905f906001600160a01b03165af190811561092d575f916108fb575b506001916108f3916108ed906151fa565b90614ffd565b970190610766565b90506020813d8211610925575b8161091560209383614032565b8101031261033e575160016108dc565b3d9150610908565b6040513d5f823e3d90fd5b60209150610944615583565b9150610885565b632a6bae0b60e11b5f5260045ffd5b630cf35cfb60e01b5f5260045ffd5b6369620d3560e11b5f5260045ffd5b3461033e57608036600319011261033e57610991613eba565b606435906001600160401b03821161033e57610a73610a6d6109b96020943690600401613d85565b9190335f52600386526109d33360ff60405f20541661449b565b6001600160a01b03851694855f525f87526109fb8160ff600760405f20015460801c16614053565b610a0a33826108523382614ce2565b855f525f8752610a5b610a53600560405f20015493610a2c8515948515614564565b610a4b610a45610a3d368a8561429b565b60243561524a565b86614d9f565b96369161429b565b60443561524a565b9190610acc575b8115610abc5761548b565b90614f76565b90610a7e3083615424565b610a883383615424565b604051908282527fdfc76b87e03d458f238137296606accd8dab55099980d6f1b349c1b9f8a85987843393a3604051908152f35b9050610ac6615583565b9061548b565b50610ad5615583565b610a62565b3461033e575f36600319011261033e5760206040516127118152f35b3461033e57602036600319011261033e57610b0f613eba565b610b376001600160a01b03821691825f525f60205260ff600760405f20015460801c16614053565b5f525f602052610bc460405f2060078101546001600160401b03610bee60405193610b6d85610b66818461430d565b0386614032565b610be060405191610b8c83610b85816001850161430d565b0384614032565b610bd2610baf600360405193610ba985610b66816002850161430d565b01614676565b93604051998a9960c08b5260c08b0190613f19565b9089820360208b0152613f19565b908782036040890152613f19565b908582036060870152613f3d565b91818116608085015260401c1660a08301520390f35b3461033e576040610c23610c1736613f95565b959490949391936148ad565b82519182526020820152f35b3461033e575f36600319011261033e57602060405160148152f35b3461033e57608036600319011261033e576004356001600160401b03811161033e57610c7a903690600401613db2565b6024356001600160401b03811161033e57610c99903690600401613db2565b9190926044356001600160401b03811161033e57610cbb903690600401613db2565b93906064356001600160401b03811161033e57610cdc903690600401613d85565b919091335f526003602052610cf83360ff60405f20541661449b565b851515806111fb575b156111e3578684036111d457831515806111aa575b610d4590859894987f000000000000000000000000000000000000000000000000000000000000000091614077565b610d4e846141e9565b96610d5c6040519889614032565b848852601f19610d6b866141e9565b013660208a0137610d7b85614200565b935f5b8a87821061114957505050505050610d95846141e9565b94610da36040519687614032565b848652601f19610db2866141e9565b01366020880137610dc285614200565b965f928460051b905b878510610e9f5750505050505060405191806060840160608552526080830191905f905b808210610e6c57610e5e866103aa89887f9c6dca2c7a4719e200c10cdde2162d32c941fcb79377a69658f2a004f4901349610e328a838103602085015286613ee6565b91808303604082015280610e47339486613ee6565b0390a2604051938493604085526040850190613ee6565b908382036020850152613ee6565b9091928335906001600160a01b038216820361033e57602080916001600160a01b03600194168152019401920190610def565b919498909296959397610ebb610eb68a8988614443565b614899565b986001600160a01b038a165f525f60205260405f20608052610edd6001615535565b94610ee6615583565b975f995b8b518b1015611011578c988c610eff5f615535565b9a5f915b60036080510154831015610ff157610f4b8f610f37610f3e610f2a876003608051016142f8565b506040519283809261430d565b0382614032565b6020815191012092614232565b5114610f5c57506001018e8e610f03565b9c81610f788b9d9c94979a96999f93839f96999c943390614d3a565b610fa8575b5050506001916108ed610f938b610f9994614f76565b9a6151fa565b99019993909491979592610eea565b610f99939b50610fe260019593610fdb6108ed94610fce610f93956004608051016142f8565b90549060031b1c92614232565b5190614d9f565b9b93508c9294508d9150610f7d565b505050929591949a99610f99906108ed610f938c600195989b9d9c614f76565b9a979950949591929a50929a968061105e848e858f83611058916110353085615424565b61103f3385615424565b6110493089615424565b6110533389615424565b614232565b52614232565b526001600160a01b03611075610eb6858d8d614443565b1690604051908960608301606084525260808201936080878401019488905f5b8d81106110df5750505060208301526040820152600193923392917fd7d68eb1306607a86b849b7c8514f9549682b84e80622aed7a0d6388858c62979181900390a3019392610dcb565b909196607f198682030183528735601e198c36030181121561033e578b0190602082359201916001600160401b03811161033e57803603831361033e576020828280600196849695859652848401375f828201840152601f01601f19160101990193019101611095565b9061116461115d828a6001959e9a9e61425a565b369161429b565b602081519101206111758289614232565b52611196611184828589614443565b3561119036888861429b565b9061524a565b6111a0828d614232565b5201989498610d7e565b507f0000000000000000000000000000000000000000000000000000000000000000841115610d16565b631a9a1f4160e21b5f5260045ffd5b8563470fef8560e11b5f52600452601460245260445ffd5b506014861115610d01565b3461033e575f36600319011261033e576020600c54604051908152f35b3461033e57602036600319011261033e576001600160a01b03611244613eba565b165f526002602052602060405f2054604051908152f35b3461033e575f36600319011261033e5760405180602060075491828152019060075f527fa66cc928b5edb82af9bd49922954155ab7b0942694bea4ce44661d9a8736c688905f5b8181106112b9576103aa8561039e81870382614032565b82546001600160a01b03168452602090930192600192830192016112a2565b3461033e57602036600319011261033e576001600160a01b036112f9613eba565b165f526003602052602060ff60405f2054166040519015158152f35b3461033e57606036600319011261033e576004356001600160401b03811161033e57611345903690600401613d85565b906044356001600160401b03811161033e57611365903690600401613d85565b9190335f525f6020526113853360ff600760405f20015460801c16614053565b335f525f60205260405f209160038301948554927f000000000000000000000000000000000000000000000000000000000000000090600185019081861161064e576114169761115d84610a3d946113e1966113e89a10614077565b9184614988565b60070180546fffffffffffffffff000000000000000019164260401b67ffffffffffffffff60401b16179055565b61141e614bbb565b545f19810190811161064e576040519081527f2cf07304bf3ab4d8f07edb175709a0b0dd9f2c12af5e11448be204da3e3fb18d60203392a2005b3461033e57602036600319011261033e57602061147b611476613eba565b614866565b604051908152f35b3461033e57602036600319011261033e576001600160a01b036114a4613eba565b165f52600660205260206001600160a01b0360405f205416604051908152f35b3461033e575f36600319011261033e576020601254604051908152f35b3461033e576114ef36613f95565b909491939294335f52600360205261150e3360ff60405f20541661449b565b6001600160a01b03871692835f525f6020526115378860ff600760405f20015460801c16614053565b60028510611abd5785851480611ab4575b1561095a57835f525f60205260405f2095611561615583565b975f978890600401815b8c8a84106117f35750505050606488028881046064148915171561064e5763ffffffff106117e4578889156117d0575b60205f9160646001600160a01b035f5160206155d25f395f51905f525416916040519485938492630afe14ad60e31b84526004840152836024840152600160f81b60448401525af190811561092d575f9161179a575b5063ffffffff986020918015611788575b6064905f6001600160a01b035f5160206155d25f395f51905f5254166040519d8e958694635a53accb60e01b86526004860152166024840152600160f81b60448401525af197881561092d575f98611754575b50611660308a615424565b61166a338a615424565b6116743089615424565b61167e3389615424565b6040519460408601918683106001600160401b038411176117405760409b7f021a422361b861b13dbc5590707d7b2c7f2aaeb9801683a5ddc44b16e494ac459760018c8f8f966117229b8f989a8c986117149c6117029c6116eb96528852602088019586528a8a8a615082565b5f5260106020528f5f209251835551910155615150565b91895196608088526080880191614743565b908582036020870152613f3d565b9285878201528460608201528033940390a382519182526020820152f35b634e487b7160e01b5f52604160045260245ffd5b9097506020813d602011611780575b8161177060209383614032565b8101031261033e5751968a611655565b3d9150611763565b506064611793615583565b9050611602565b90506020813d6020116117c8575b816117b560209383614032565b8101031261033e575163ffffffff6115f1565b3d91506117a8565b505f60206117dc615583565b91505061159b565b63108cef9d60e31b5f5260045ffd5b8a61183b91610852869e9f9495968061182b8c61182483888d61181a611833988387614443565b3590541193614443565b3590614588565b33948c614443565b353383614d3a565b6001826118498d8d8a614443565b351c16156118588c8c89614443565b359015611aa2575063ffffffff6118736108238d8888614443565b16156117e45763ffffffff61188c6108238d8b8b614443565b1615611a935763ffffffff60208c6118d76108236118c88f84818e9a60016118b8846118c1968f614443565b351b179a614443565b35896142f8565b90549060031b1c928d8d614443565b908015611a81575b6064905f6001600160a01b035f5160206155d25f395f51905f52541660405196879586946304559f7160e01b86526004860152166024840152600160f81b60448401525af190811561092d578c905f92611a4d575b5063ffffffff9161194b6108236020938a8a614443565b908015611a3b575b6064905f6001600160a01b035f5160206155d25f395f51905f5254166040519687958694630afe14ad60e31b86526004860152166024840152600160f81b60448401525af190811561092d575f91611a0a575b506119b091614ffd565b9a6119bc8b8989614443565b6119c590614855565b63ffffffff166119d68c8787614443565b6119df90614855565b63ffffffff169081810291818304149015171561064e57810180911161064e5799600101919061156b565b90506020813d8211611a33575b81611a2460209383614032565b8101031261033e57518e6119a6565b3d9150611a17565b506064611a46615583565b9050611953565b9150506020813d8211611a79575b81611a6860209383614032565b8101031261033e57518b6020611934565b3d9150611a5b565b506064611a8c615583565b90506118df565b63195bab4d60e31b5f5260045ffd5b63513d60b360e01b5f5260045260245ffd5b50828514611548565b84637e383b1960e01b5f52600452600260245260445ffd5b3461033e57602036600319011261033e57600435611af7816012548110614018565b335f525f602052611b153360ff600760405f20015460801c16614053565b805f52601160205260405f20611b358260ff600484015460401c1661451f565b815f52601460205260405f206001600160a01b0333165f5260205260405f20906003820160ff815460401c16611eca57929192335f525f60205260405f2093611b7e6001615535565b91611b87615583565b935f946002820197600381019760049860548a1015955b8b548a1015611e125799809b8a9b610f37611bc5610f2a611bbe5f615535565b9f856142f8565b60208151910120945f5b8554811015611dfe5786610f37611be9610f2a848a6142f8565b6020815191012014611bfd57600101611bcf565b84939e50611c3d91959650611c1c90611c44939e95899e9a9e016142f8565b90549060031b1c611c308560038c016142f8565b90549060031b1c90614d9f565b8097614f76565b996001600160a01b035f5160206155d25f395f51905f52541689600160405194639cd07acb60e01b8652850152611deb57828f815f60209460449360248401525af191821561092d578e88915f94611db3575b509060646020925f611ca7615583565b6001600160a01b035f5160206155d25f395f51905f525416906040519889968795637702dcff60e01b8752860152602485015260448401525af190811561092d575f91611d7e575b611cf99250614ffd565b94611d043082615424565b611d186001600160a01b0388541682615424565b611d223382615424565b8854600160401b811015611d6b5790611d5c611d46836001809695018d558c6142f8565b819391549060031b91821b915f19901b19161790565b905501989a999a919091611b9e565b60418e634e487b7160e01b5f525260245ffd5b90506020823d8211611dab575b81611d9860209383614032565b8101031261033e57611cf9915190611cef565b3d9150611d8b565b935050506020823d8211611de3575b81611dcf60209383614032565b8101031261033e57905190868e6064611c97565b3d9150611dc2565b60218f634e487b7160e01b5f525260245ffd5b509394509a91909b959986611c4491614f76565b9050836002888a611e586001600160a01b038a611e2f3085615424565b611e3c8282541685615424565b611e463385615424565b611e503088615424565b541685615424565b611e623385615424565b60018201550155805468ffffffffffffffffff1916426001600160401b031617600160401b1790555f818152601360205260409020611ea2903390614720565b33907f7af8dab8f5b5481df3e0d9f1ac4bf4af4a4e76f28dba128d6e12201b992bebbe5f80a3005b83630269e77560e01b5f5260045260245ffd5b3461033e575f36600319011261033e5760206001600160a01b0360045416604051908152f35b3461033e57602036600319011261033e576004356001600160401b03811161033e57611f33903690600401613db2565b335f525f602052611f513360ff600760405f20015460801c16614053565b335f525f60205260405f20916003830192835480840361219a57611f7485614676565b946004830190611f8382614453565b965f90815b85831061203c576007870180546fffffffffffffffff000000000000000019164260401b67ffffffffffffffff60401b161790558888611fc7826141e9565b91611fd56040519384614032565b808352602083019060051b82019136831161033e57905b82821061202c57611ffd84336149b1565b612005614bbb565b337f0b36d620e5faa1fce4545e37b34d88edfb7cfd54b2613af21b88bda40c4de3cf5f80a2005b8135815260209182019101611fec565b85612048848b8b614443565b3510806121a8575b1561219a576001612062848b8b614443565b351b179161207b612074828b8b614443565b3583614232565b5161208682866142f8565b919091612187578051906001600160401b038211611740576120b2826120ac8554614095565b856140e3565b602090601f83116001146121205791806120e69260019695945f92612115575b50508160011b915f199060031b1c19161790565b90555b6120fe6120f7828c8c614443565b358c614232565b5161210c611d4683896142f8565b90550191611f88565b015190508f806120d2565b90601f19831691845f52815f20925f5b81811061216f575091600196959492918388959310612157575b505050811b0190556120e9565b01515f1960f88460031b161c191690558e808061214a565b92936020600181928786015181550195019301612130565b634e487b7160e01b5f525f60045260245ffd5b62ff592960e31b5f5260045ffd5b506001816121b7858c8c614443565b351c1615612050565b3461033e57604036600319011261033e576004356121dc613ed0565b815f52601460205260405f206001600160a01b0382165f5260205260405f209060038201549260ff8460401c1615612294575050600181015460028201546040519283602082549182815201915f5260205f20905f5b81811061227e57505050936001600160401b039161225585612269970386614032565b604051958695608087526080870190613ee6565b93602086015260408501521660608301520390f35b8254845260209093019260019283019201612232565b6001600160a01b03925063182d386b60e21b5f526004521660245260445ffd5b3461033e575f36600319011261033e57602060405160028152f35b3461033e57602036600319011261033e5760406122ea613eba565b6123116001600160a01b03821691825f525f60205260ff6007855f20015460801c16614053565b805f525f6020526005825f200154905f525f6020526006825f20015482519182526020820152f35b3461033e57602036600319011261033e5760043561235b816012548110614018565b5f5260116020526103aa612374600360405f2001614453565b604051918291602083526020830190613ee6565b3461033e57604036600319011261033e57602061147b6123a6613eba565b602435906147ec565b3461033e57602036600319011261033e576123c8613eba565b6001600160a01b0360045416331490818015612480575b6123ea9033906147c8565b6001600160a01b03811690815f5260096020526001600160a01b0360405f20541692831561246d57338414908115612465575b50156124525761242c90614eb0565b7f50b405cbe6a49e4e6fd7903c8de4955329de67090c258f75e05829e79ae61c515f80a3005b506311c6f21360e21b5f5260045260245ffd5b90508461241d565b82630d6d13ad60e31b5f5260045260245ffd5b50335f9081526005602052604090205460ff166123df565b3461033e57602036600319011261033e576001600160a01b036124b9613eba565b165f525f602052602060ff600760405f20015460801c166040519015158152f35b3461033e57602036600319011261033e576124f3613eba565b6001600160a01b0360045416331480156125f8575b6125139033906147c8565b6001600160a01b03811690811561032057815f52600360205261253e8160ff60405f205416156147a4565b5f828152600360209081526040808320805460ff191660011790556006909152902080546001600160a01b03191633179055600754600160401b81101561174057816105a7826001612595940160075560076142f8565b600754825f52600860205260405f2055815f5260096020526001600160a01b0360405f2054166125e9575b5033907fe4d50ddb43f44629983b738ac75e5370220702f36eabb6b85cfb8f313f9d9a535f80a3005b6125f290614eb0565b816125c0565b50335f9081526005602052604090205460ff16612508565b3461033e57602036600319011261033e57612629613eba565b6001600160a01b0360045416330361032f5761265e6001600160a01b03821691825f52600560205260ff60405f205416614780565b805f52600560205260405f2060ff19815416905533907f30ca78f01e1167e33b158391211a39b64a5e5ce4954411e82d84239314023e795f80a3005b3461033e57602036600319011261033e576126b3613eba565b6126db6001600160a01b0360045416916001600160a01b038116928314801561279757614780565b335f5260036020526126f53360ff60405f205416156147a4565b335f908152600960205260409020546001600160a01b0316806127855750335f52600960205260405f20816001600160a01b0319825416179055805f52600a6020526127443360405f20614720565b805f52600a60205260405f2054335f52600b60205260405f2055337fa43ea6f2af8b60a039a6ad63c4c7d67e32632d90ca0d57af752b76daa3f002b25f80a3005b6395eb456b60e01b5f5260045260245ffd5b50825f52600560205260ff60405f205416614780565b3461033e57602036600319011261033e576001600160a01b036127ce613eba565b165f52600960205260206001600160a01b0360405f205416604051908152f35b3461033e57606036600319011261033e57612807613eba565b6024356001600160401b03811161033e57612826903690600401613db2565b604435916001600160401b03831680930361033e57335f525f6020526128593360ff600760405f20015460801c16614053565b6001600160a01b03841692831561032057801580156129b7575b156129a5575f945f5b848110612961575060027fb0dbc2737876e8081e1b7b77b4937e499880dc8415ef550972cfd32e07d25fe3949596335f52600d60205260405f20885f5260205260405f2090846001600160401b0319835416178255815468ff0000000000000000891560401b169068ff000000000000000019161782556001820155019081549160ff6001811985161780835560081c1615612939575b50505061293460405192839283526040602084015233956040840191614743565b0390a3005b6101016129599361ffff1916179055335f52600e60205260405f20614720565b858080612913565b9560019061298f612973898888614443565b35335f525f602052600360405f200154116118248a8989614443565b8161299b898888614443565b351b17960161287c565b638d499f7d60e01b5f5260045260245ffd5b50428111612873565b3461033e575f36600319011261033e57335f525f6020526129ee3360ff600760405f20015460801c16614053565b335f525f602052612a0160405f206146d3565b335f52600260205260405f20545f5b81811080612b4b575b15612a4a57612a4590335f52600160205260405f20815f52602052612a4060405f206146d3565b6144bf565b612a10565b335f5260026020525f6040812055600c54801561064e575f1901600c55335f52600e60205260405f205f5b8154811015612b1457600190335f52600d60205260405f206001600160a01b0380612aa084876142f8565b90549060031b1c16165f52602052600260405f2001805460ff8116612ac8575b505001612a75565b60ff191690556001600160a01b03612ae082856142f8565b90549060031b1c16337f9ce78e87ca87b77e1f9133a8d4f681709881fe9d1eb235c0fde9c9d1f75262c95f80a38380612ac0565b6040516001600160401b03421681527f4d3091b3a11f4da3714f907ec38e1a535bb58853c8abe4a91696ceecc6474ad860203392a2005b50600a8110612a19565b3461033e57606036600319011261033e576020612b84612b73613eba565b612b7b613ed0565b60443591614d3a565b6040519015158152f35b3461033e57602036600319011261033e576001600160a01b03612baf613eba565b165f52600a60205260405f206040519081602082549182815201915f5260205f20905f5b818110612bea576103aa8561039e81870382614032565b82546001600160a01b0316845260209093019260019283019201612bd3565b3461033e57604036600319011261033e57612c22613eba565b60243590612c2f81614866565b82101580612d42575b15612d2f576001600160a01b03165f526001602052600a60405f2091065f52602052612ced60405f206001600160401b03600782015460401c16612d2560405192612c8e84612c87818461430d565b0385614032565b612d1760405191612ca683610b85816001850161430d565b612d09604051612cbd81610f37816002870161430d565b612cfb612cd86004612cd160038701614676565b9501614453565b956040519a8b9a60c08c5260c08c0190613f19565b908a820360208c0152613f19565b9088820360408a0152613f19565b908682036060880152613f3d565b908482036080860152613ee6565b9060a08301520390f35b50631a287c7f60e11b5f5260045260245ffd5b506001600160a01b0381165f52600260205260405f20548210612c38565b3461033e575f36600319011261033e5760206040517f00000000000000000000000000000000000000000000000000000000000000008152f35b3461033e57606036600319011261033e576044356001600160401b03811161033e57612e4b612dd0612e56923690600401613d85565b919091335f525f602052612df13360ff600760405f20015460801c16614053565b335f525f6020526006612e32612e2a60405f2095612e1b612e1336878461429b565b60043561524a565b9460058801958655369161429b565b60243561535d565b9301928355612e4381543090615424565b339054615424565b612e43308254615424565b337febe4b42c50ad4145257113ff1d04636841b947e3cc8dc5b890c8769caf860a9b5f80a2005b3461033e57608036600319011261033e57612e96613eba565b606435906024356001600160401b03831161033e57612f78612ebe6020943690600401613d85565b919091335f5260038652612ed93360ff60405f20541661449b565b612f5e612f58610a536001600160a01b03881695865f525f8a52612f0a8960ff600760405f20015460801c16614053565b865f525f8a52612f2388600460405f2001548110614588565b612f33338a6108528b3383614d3a565b865f525f8a52612f4988600460405f20016142f8565b90549060031b1c94369161429b565b82614d9f565b94612f693087615424565b612f733387615424565b614e7b565b5f52600f84528260405f2055805f525f84527ff3bbc49feebf7775570a35c4e6378d0486c142634ebd60837351ba7ba436e24d612fd5612fbe84600360405f20016142f8565b50604051948552606087860152606085019061430d565b928460408201528033940390a3604051908152f35b3461033e57602036600319011261033e5760043561300c816012548110614018565b805f52601160205260405f20906001600160a01b03825416906004830154905f52601360205260405f205460ff61308761305d600260405197610ba989613056816001850161430d565b038a614032565b613079604051978897885260c0602089015260c0880190613f19565b908682036040880152613f3d565b926001600160401b038116606086015260401c161515608084015260a08301520390f35b3461033e57602036600319011261033e57600435335f525f6020526130dd3360ff600760405f20015460801c16614053565b335f525f60205260405f20600381018054906130fb84838110614588565b60018211156132c9575f198201918211918261064e5761311a81614200565b905f845b61064e57818110156131b357868110156131a257805b8161313f8286614232565b52808203613153575b60019150018461311e565b61315d82866142f8565b509161316982876142f8565b61218757600193613179916145a2565b61319b611d468361318e60048c0194856142f8565b90549060031b1c936142f8565b9055613148565b6001810180821161064e5790613134565b505091508054801561063a575f1901906131cd82826142f8565b612187576131db8154614095565b9081613286575b5050556004820191825490811561063a576132509361324a925f19019061320982826142f8565b81545f1960039290921b9190911b191690555560070180546fffffffffffffffff000000000000000019164260401b67ffffffffffffffff60401b16179055565b336149b1565b613258614bbb565b6040519081527f83c33e10fd25a3da80c94c729acc772c76683464606f6c16ab3b0e4ab15efe7360203392a2005b81601f5f931160011461329d5750555b85806131e2565b818352602083206132b991601f0160051c8101906001016140cd565b8082528160208120915555613296565b63280ff7f160e11b5f5260045ffd5b3461033e576132e636613de2565b9498939a97828c9b929b989398979497036111d4578b1515806134da575b613330908d7f000000000000000000000000000000000000000000000000000000000000000091614077565b811515806134cf575b156134c0576103e881116134b1576103e884116134a257335f525f60205260ff600760405f20015460801c1661348f576133989461338661338f93335f525f60205260405f209b8c614128565b60018a01614128565b60028701614128565b6007840180546fffffffffffffffffffffffffffffffff1916426001600160401b0381169190911760409190911b67ffffffffffffffff60401b161781559570010000000000000000000000000000000060ff60801b19885416178755613400600c546144bf565b600c555f5b888110613457578860ff6001600160401b038a613420614bbb565b5416916040519283521660208201527f1e02bda2c54dcfbeee2f96354d0945a7dc1999669c0985b73729ecd8b33bf54160403392a2005b806134896134686001938c8b61425a565b613482613476858b8b614443565b35611190368a8a61429b565b918a614988565b01613405565b6332cf764f60e11b5f523360045260245ffd5b636f3c78f360e11b5f5260045ffd5b63329e1f0f60e01b5f5260045ffd5b63430f13b360e01b5f5260045ffd5b506064821115613339565b507f00000000000000000000000000000000000000000000000000000000000000008c1115613304565b3461033e57606036600319011261033e5761351d613eba565b604435906001600160401b03821161033e576135c76135426020933690600401613d85565b9092335f526003855261355c3360ff60405f20541661449b565b6135b5612e2a6001600160a01b03831695865f525f885261358a8460ff600760405f20015460801c16614053565b61359933856108523382614ce2565b865f525f8852600660405f2001549461115d8615958615614564565b919061361a575b81156136105761548b565b906135d23083615424565b6135dc3383615424565b604051908282527fadca5e82aa62f80bba69bfdfcefa2e3e41beeda2ea3f9c988896a30806c5c9b9843393a3604051908152f35b9050610ac66154e7565b506136236154e7565b6135bc565b3461033e57602036600319011261033e576001600160a01b03613649613eba565b165f526005602052602060ff60405f2054166040519015158152f35b3461033e57602036600319011261033e576001600160a01b03613686613eba565b335f52600d60205260405f208282165f52602052600260405f200180546136b1833360ff8416614539565b60ff1916905516337f9ce78e87ca87b77e1f9133a8d4f681709881fe9d1eb235c0fde9c9d1f75262c95f80a3005b3461033e57602036600319011261033e57600435613701816012548110614018565b805f52601160205260405f206001600160a01b0381541633036137695760040180546137338360ff8360401c1661451f565b68ff00000000000000001916905533907fbdfd84f6126f0e7aedb582ff6076e02380f661e4954db138960b43228a6fb9335f80a3005b5063249165a960e01b5f5260045260245ffd5b3461033e57604036600319011261033e57613795613ed0565b6004355f5260146020526001600160a01b0360405f2091165f52602052602060ff600360405f20015460401c166040519015158152f35b3461033e57608036600319011261033e576004356001600160401b03811161033e576137fc903690600401613d85565b6024356001600160401b03811161033e5761381b903690600401613db2565b906044356001600160401b03811161033e5761383b903690600401613db2565b946064356001600160401b03811161033e5761385b903690600401613d85565b90335f5260036020526138753360ff60405f20541661449b565b8786036111d457851515806139df575b6138b190877f000000000000000000000000000000000000000000000000000000000000000091614077565b861515806139d4575b156139c5576138fc601298949854976138d2896144bf565b6012555f89815260116020526040902080546001600160a01b031916331781559460018601614128565b60048301805468ffffffffffffffffff1916426001600160401b031617600160401b17905560038301936002909301925f5b878110613970576020898960ff60405191168152817f36c808f80eb45ca4dad77327ecca8e7d4880548498be05d9b7b94bf08c54dc14843393a3604051908152f35b806139bf613990613984600194868f614443565b3561119036898961429b565b61399a3082615424565b6139a43382615424565b6139b96139b2848d8d61425a565b908a6144cd565b886144fd565b0161392e565b6306232dbd60e31b5f5260045ffd5b5060648711156138ba565b507f0000000000000000000000000000000000000000000000000000000000000000861115613885565b3461033e57602036600319011261033e57613a22613eba565b613a4a6001600160a01b03821691825f525f60205260ff600760405f20015460801c16614053565b5f525f6020526103aa612374600460405f2001614453565b3461033e575f36600319011261033e576020604051600a8152f35b3461033e57613a8b36613de2565b9498939a97999099969196959295335f525f602052613ab73360ff600760405f20015460801c16614053565b878c036111d4578b151580613c9e575b613af3908d7f000000000000000000000000000000000000000000000000000000000000000091614077565b81151580613c93575b156134c0576103e881116134b1576103e884116134a257613b309461338661338f93335f525f60205260405f209b8c614128565b6007840180546fffffffffffffffff000000000000000019164260401b67ffffffffffffffff60401b1617815595613b6788614200565b975f60038701908154905b838110613c1f575050613b84906143dc565b613b9060048701614413565b5f5b818110613be7576001600160401b0389613bac8c336149b1565b613bb4614bbb565b5460401c166040519081527f34e47b9ccc80431215bc6907eeb4850c742b99c009e2788bec0737125c39cd5460203392a2005b80613c19613bf8600193858c61425a565b613c12613c06858c8c614443565b35611190368b8b61429b565b918b614988565b01613b92565b5f19613c2b828e614232565b52613c3a61115d82868d61425a565b602081519101205f5b838110613c55575b5050600101613b72565b8d82610f37613c67610f2a858a6142f8565b6020815191012014613c7c5750600101613c43565b836001949350613c8b91614232565b52908d613c4b565b506064821115613afc565b507f00000000000000000000000000000000000000000000000000000000000000008c1115613ac7565b3461033e57602036600319011261033e57600435613cea816012548110614018565b5f52601360205260405f206040519081602082549182815201915f5260205f20905f5b818110613d24576103aa8561039e81870382614032565b82546001600160a01b0316845260209093019260019283019201613d0d565b60206040818301928281528451809452019201905f5b818110613d665750505090565b82516001600160a01b0316845260209384019390920191600101613d59565b9181601f8401121561033e578235916001600160401b03831161033e576020838186019501011161033e57565b9181601f8401121561033e578235916001600160401b03831161033e576020808501948460051b01011161033e57565b60c060031982011261033e576004356001600160401b03811161033e5781613e0c91600401613d85565b929092916024356001600160401b03811161033e5781613e2e91600401613d85565b929092916044356001600160401b03811161033e5781613e5091600401613d85565b929092916064356001600160401b03811161033e5781613e7291600401613db2565b929092916084356001600160401b03811161033e5781613e9491600401613db2565b9290929160a435906001600160401b03821161033e57613eb691600401613d85565b9091565b600435906001600160a01b038216820361033e57565b602435906001600160a01b038216820361033e57565b90602080835192838152019201905f5b818110613f035750505090565b8251845260209384019390920191600101613ef6565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b9080602083519182815201916020808360051b8301019401925f915b838310613f6857505050505090565b9091929394602080613f86600193601f198682030187528951613f19565b97019301930191939290613f59565b90608060031983011261033e576004356001600160a01b038116810361033e57916024356001600160401b03811161033e5781613fd491600401613db2565b929092916044356001600160401b03811161033e5781613ff691600401613db2565b92909291606435906001600160401b03821161033e57613eb691600401613db2565b156140205750565b630d7537f160e21b5f5260045260245ffd5b90601f801991011681019081106001600160401b0382111761174057604052565b1561405b5750565b6001600160a01b039063752d18c360e11b5f521660045260245ffd5b15614080575050565b630e90976560e41b5f5260045260245260445ffd5b90600182811c921680156140c3575b60208310146140af57565b634e487b7160e01b5f52602260045260245ffd5b91607f16916140a4565b8181106140d8575050565b5f81556001016140cd565b9190601f81116140f257505050565b61411c925f5260205f20906020601f840160051c8301931061411e575b601f0160051c01906140cd565b565b909150819061410f565b9092916001600160401b0381116117405761414d816141478454614095565b846140e3565b5f601f821160011461418a57819061417b9394955f9261417f5750508160011b915f199060031b1c19161790565b9055565b013590505f806120d2565b601f19821694835f5260205f20915f5b8781106141d15750836001959697106141b8575b505050811b019055565b01355f19600384901b60f8161c191690555f80806141ae565b9092602060018192868601358155019401910161419a565b6001600160401b0381116117405760051b60200190565b9061420a826141e9565b6142176040519182614032565b8281528092614228601f19916141e9565b0190602036910137565b80518210156142465760209160051b010190565b634e487b7160e01b5f52603260045260245ffd5b91908110156142465760051b81013590601e198136030182121561033e5701908135916001600160401b03831161033e57602001823603811361033e579190565b9291926001600160401b03821161174057604051916142c4601f8201601f191660200184614032565b82948184528183011161033e578281602093845f960137010152565b6007548110156142465760075f5260205f2001905f90565b8054821015614246575f5260205f2001905f90565b5f929181549161431c83614095565b8083529260018116908115614371575060011461433857505050565b5f9081526020812093945091925b838310614357575060209250010190565b600181602092949394548385870101520191019190614346565b915050602093945060ff929192191683830152151560051b010190565b6143988154614095565b90816143a2575050565b81601f5f93116001146143b3575055565b818352602083206143cf91601f0160051c8101906001016140cd565b8082528160208120915555565b8054905f8155816143eb575050565b5f5260205f20908101905b818110614401575050565b8061440d60019261438e565b016143f6565b8054905f815581614422575050565b5f5260205f20908101905b818110614438575050565b5f815560010161442d565b91908110156142465760051b0190565b90604051918281549182825260208201905f5260205f20925f5b81811061448257505061411c92500383614032565b845483526001948501948794506020909301920161446d565b156144a35750565b6001600160a01b039063583bc21d60e01b5f521660045260245ffd5b5f19811461064e5760010190565b9190918054600160401b811015611740576144ed916001820181556142f8565b9290926121875761411c92614128565b805490600160401b8210156117405781611d4691600161417b940181556142f8565b156145275750565b6334495d6760e01b5f5260045260245ffd5b15614542575050565b906001600160a01b03809263063ecd3160e31b5f52166004521660245260445ffd5b1561456c5750565b6001600160a01b039063d9017d6f60e01b5f521660045260245ffd5b156145905750565b637196295d60e01b5f5260045260245ffd5b919091828114614671576145b68354614095565b6001600160401b038111611740576145d2816141478454614095565b5f93601f821160011461460c5761417b92939482915f926146015750508160011b915f199060031b1c19161790565b015490505f806120d2565b601f198216905f5260205f2094835f5260205f20915f5b8181106146595750958360019596971061464157505050811b019055565b01545f1960f88460031b161c191690555f80806141ae565b9192600180602092868b015481550194019201614623565b509050565b908154614682816141e9565b926146906040519485614032565b81845260208401905f5260205f205f915b8383106146ae5750505050565b6001602081926040516146c581610f37818961430d565b8152019201920191906146a1565b60075f916146e08161438e565b6146ec6001820161438e565b6146f86002820161438e565b614704600382016143dc565b61471060048201614413565b8260058201558260068201550155565b90815491600160401b83101561174057826105a791600161411c950181556142f8565b90918281527f07ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff831161033e5760209260051b809284830137010190565b156147885750565b6001600160a01b039063589eb51760e11b5f521660045260245ffd5b156147ac5750565b6001600160a01b0390631ebb862b60e01b5f521660045260245ffd5b156147d05750565b6001600160a01b0390630bd4212160e11b5f521660045260245ffd5b6001600160a01b0381165f525f602052600460405f200180548310801590614843575b61483c5761482d92614820916142f8565b90549060031b1c90614e7b565b5f52600f60205260405f205490565b5050505f90565b5061484f833384614d3a565b1561480f565b3563ffffffff8116810361033e5790565b6001600160a01b03165f52600260205260405f2054600a81115f1461489457600919810190811161064e5790565b505f90565b356001600160a01b038116810361033e5790565b5f979695949392919088805b8481106148e35750506148cd979850615082565b5f52601060205260405f20906001825492015490565b6148ee818686614443565b356001600160a01b0384165f525f602052600460405f20015411801590614929575b61491c576001016148b9565b5096505050505050509190565b50614940614938828787614443565b353385614d3a565b15614910565b916020908281520191905f905b8082106149605750505090565b90919283359063ffffffff821680920361033e57602081600193829352019401920190614953565b92600461411c946149a183956149a795600384016144cd565b016144fd565b6107b23082615424565b6001600160a01b0316805f52600e60205260405f205f925b8154841015614a9b57825f52600d60205260405f206001600160a01b03806149f187866142f8565b90549060031b1c16165f5260205260405f209160ff835460401c168015614a8f575b614a83575f935f5b8351811015614a6e575f19614a308286614232565b51141580614a53575b614a46575b600101614a1b565b6001811b90951794614a3e565b5060018080870154614a658488614232565b511c1614614a39565b5094909293600180939501555b0192916149c9565b91509192600190614a7b565b50600183015415614a13565b50505050565b818114614b2957815491600160401b8311611740578154838355808410614afc575b505f5260205f20905f5260205f205f915b838310614ae15750505050565b60018082614af08294866145a2565b01920192019190614ad4565b825f528360205f2091820191015b818110614b175750614ac3565b80614b2360019261438e565b01614b0a565b5050565b818114614b29578154916001600160401b03831161174057600160401b8311611740578154838355808410614b95575b505f5260205f20905f5260205f208154915f925b848410614b7f575050505050565b6001809192019384549281850155019290614b71565b825f528360205f2091820191015b818110614bb05750614b5d565b5f8155600101614ba3565b335f52600260205260405f20805490614bd3826144bf565b9055335f525f60205260405f2090335f526001602052600a60405f2091065f5260205260405f20818103614c05575050565b60078082614c158560ff956145a2565b614c2560018601600183016145a2565b614c3560028601600283016145a2565b614c456003860160038301614aa1565b614c556004860160048301614b2d565b60058501546005820155600685015460068201550192016001600160401b0380825416166001600160401b0319845416178355614cc26001600160401b03825460401c16849067ffffffffffffffff60401b82549160401b169067ffffffffffffffff60401b1916179055565b5460801c16151560ff60801b82549160801b169060ff60801b1916179055565b6001600160a01b03165f52600d6020526001600160a01b0360405f2091165f5260205260405f2060ff6002820154169081614d1b575090565b546001600160401b0316801591508115614d33575090565b9050421090565b90614d6d906001600160a01b0383165f52600d60205260405f206001600160a01b0382165f5260205260405f2092614ce2565b9182614d7857505090565b815460401c60ff169250908215614d8e57505090565b60018093508092910154901c161490565b6020905f928115614e6b575b8015614e5d575b5f5160206155d25f395f51905f5254604051631391547f60e01b8152600480820194909452848101909301919091527fff00000000000000000000000000000000000000000000000000000000000000841660448301529092839160649183916001600160a01b03165af190811561092d575f91614e2e575090565b90506020813d602011614e55575b81614e4960209383614032565b8101031261033e575190565b3d9150614e3c565b50614e66615583565b614db2565b9050614e75615583565b90614dab565b90604051906001600160a01b036020830193168352336040830152606082015260608152614eaa608082614032565b51902090565b6001600160a01b0316805f5260096020526001600160a01b0360405f2054165f52600a60205260405f20815f52600b60205260405f205481545f19810190811161064e57614f066001600160a01b0391846142f8565b90549060031b1c165f19820182811161064e57816105a7614f2792866142f8565b5f52600b60205260405f20558054801561063a575f190190614f4c6105ec83836142f8565b55805f52600b6020525f60408120555f52600960205260405f206001600160a01b03198154169055565b908115614fec575b8015614fd9575b60209060646001600160a01b035f5160206155d25f395f51905f525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af190811561092d575f91614e2e575090565b506020614fe55f615535565b9050614f85565b9050614ff75f615535565b90614f7e565b908115615072575b8015615060575b60209060646001600160a01b035f5160206155d25f395f51905f525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af190811561092d575f91614e2e575090565b50602061506b615583565b905061500c565b905061507c615583565b90615005565b6001600160a01b0390969392959491961695865f525f602052600460405f20016150ab87614200565b965f5b8181106151205750505050926150ee949261510061511293614eaa96604051988997602089019b8c523360408a015260a060608a015260c0890190613ee6565b878103601f1901608089015291614946565b848103601f190160a086015291614946565b03601f198101835282614032565b806151386151316001938588614443565b35856142f8565b90549060031b1c615149828c614232565b52016150ae565b9092919261515d846141e9565b9061516b6040519283614032565b848252601f1961517a866141e9565b015f5b8181106151e957505081945f5b818110615198575050505050565b6001906001600160a01b0386165f525f602052610f376151cd610f2a600360405f20016151c685888a614443565b35906142f8565b6151d78287614232565b526151e28186614232565b500161518a565b80606060208093870101520161517d565b60205f9160446001600160a01b035f5160206155d25f395f51905f5254169160405194859384926307227b9160e21b84526004840152600460248401525af190811561092d575f91614e2e575090565b91906152895f5160206155d25f395f51905f5254916040519463196d0b9b60e01b86526004860152336024860152608060448601526084850190613f19565b602091845f6001600160a01b03828095600460648301520393165af191821561092d575f92615329575b50816001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561033e57604051630f8e573b60e21b815260048101929092523360248301525f908290818381604481015b03925af1801561092d5761531f5750565b5f61411c91614032565b9091506020813d602011615355575b8161534560209383614032565b8101031261033e5751905f6152b3565b3d9150615338565b919061539c5f5160206155d25f395f51905f5254916040519463196d0b9b60e01b86526004860152336024860152608060448601526084850190613f19565b602091845f6001600160a01b03828095600560648301520393165af191821561092d575f926153295750816001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561033e57604051630f8e573b60e21b815260048101929092523360248301525f9082908183816044810161530e565b6001600160a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700541691823b1561033e57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f9082908183816044810161530e565b5f5160206155d25f395f51905f5254604051631d44e90160e21b8152600481019290925260248201929092525f604482018190529091602091839160649183916001600160a01b03165af190811561092d575f91614e2e575090565b5f5160206155d25f395f51905f5254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600560248401525af190811561092d575f91614e2e575090565b5f5160206155d25f395f51905f5254604051639cd07acb60e01b815260048101929092526001600160a01b0316816044815f6020948160248401525af190811561092d575f91614e2e575090565b5f5160206155d25f395f51905f5254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600460248401525af190811561092d575f91614e2e57509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c634300081b000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497029e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700";
 
 type SecureResumeConstructorParams =
   | [signer?: Signer]
@@ -367,12 +2289,16 @@ export class SecureResume__factory extends ContractFactory {
   }
 
   override getDeployTransaction(
+    maxSkillsPerResume: BigNumberish,
     overrides?: NonPayableOverrides & { from?: string }
   ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(overrides || {});
+    return super.getDeployTransaction(maxSkillsPerResume, overrides || {});
   }
-  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
-    return super.deploy(overrides || {}) as Promise<
+  override deploy(
+    maxSkillsPerResume: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(maxSkillsPerResume, overrides || {}) as Promise<
       SecureResume & {
         deploymentTransaction(): ContractTransactionResponse;
       }